@@ -0,0 +1,67 @@
+// SPDX-License-Identifier: BSD-3-Clause-Clear
+pragma solidity ^0.8.24;
+
+import { FHE, euint64 } from "@fhevm/solidity/lib/FHE.sol";
+
+/// @title Expiring point lots of PointsSwap_FHE
+/// @dev Linked library: its functions run through DELEGATECALL in the context of PointsSwap_FHE, so the
+/// lot handles are granted to the calling contract and the user.
+library ExpiringPoints {
+    /// @dev Points of an expiring brand, bucketed by the expiry period they were earned in: `previous`
+    /// expires at `currentEnd`, `current` one period later. Lots only hold under the `policy` they were
+    /// earned under; points held before the brand's current policy are not in any lot and never expire.
+    struct PointLots {
+        euint64 current;
+        euint64 previous;
+        uint256 currentEnd;
+        uint256 policy;
+    }
+
+    /// @dev Removes the lots that expired by now from `balance` and rolls the lots forward to the
+    /// current period; returns the new balance. Lots of an earlier policy are dropped without expiring.
+    function expire(
+        PointLots storage lots,
+        uint256 period,
+        uint256 policy,
+        euint64 balance,
+        address user
+    ) external returns (euint64) {
+        if (lots.currentEnd == 0 || lots.policy != policy) {
+            _setLots(lots, user, FHE.asEuint64(0), FHE.asEuint64(0));
+            lots.currentEnd = 0;
+            lots.policy = policy;
+        } else if (block.timestamp >= lots.currentEnd + period) {
+            balance = FHE.sub(balance, FHE.add(lots.previous, lots.current));
+            _setLots(lots, user, FHE.asEuint64(0), FHE.asEuint64(0));
+        } else if (block.timestamp >= lots.currentEnd) {
+            balance = FHE.sub(balance, lots.previous);
+            _setLots(lots, user, FHE.asEuint64(0), lots.current);
+        }
+        if (block.timestamp >= lots.currentEnd) {
+            lots.currentEnd = (block.timestamp / period + 1) * period;
+        }
+        return balance;
+    }
+
+    /// @dev Credited points join the lot of the current period
+    function add(PointLots storage lots, euint64 amount, address user) external {
+        _setLots(lots, user, FHE.add(lots.current, amount), lots.previous);
+    }
+
+    /// @dev Spends the lot closest to expiry first, then the newer lot; the rest of `amount` comes from
+    /// points that never expire
+    function spend(PointLots storage lots, euint64 amount, address user) external {
+        euint64 fromPrevious = FHE.min(amount, lots.previous);
+        euint64 fromCurrent = FHE.min(FHE.sub(amount, fromPrevious), lots.current);
+        _setLots(lots, user, FHE.sub(lots.current, fromCurrent), FHE.sub(lots.previous, fromPrevious));
+    }
+
+    function _setLots(PointLots storage lots, address user, euint64 current, euint64 previous) private {
+        lots.current = current;
+        lots.previous = previous;
+        FHE.allowThis(current);
+        FHE.allowThis(previous);
+        FHE.allow(current, user);
+        FHE.allow(previous, user);
+    }
+}
@@ -1,136 +1,939 @@
+// SPDX-License-Identifier: BSD-3-Clause-Clear
 pragma solidity ^0.8.24;
 
-import { FHE, euint32, externalEuint32 } from "@fhevm/solidity/lib/FHE.sol";
+import { FHE, ebool, euint32, euint64, externalEuint32, externalEuint64 } from "@fhevm/solidity/lib/FHE.sol";
 import { ZamaEthereumConfig } from "@fhevm/solidity/config/ZamaConfig.sol";
+import { ExpiringPoints } from "./ExpiringPoints.sol";
+import { RateAuctions } from "./RateAuctions.sol";
+import { RateMath } from "./RateMath.sol";
 
 contract PointsSwap_FHE is ZamaEthereumConfig {
+    /// @dev Suspended accounts keep their balances but cannot trade or receive points until reactivated.
+    /// Closed accounts are erased and may be opened again.
+    enum AccountStatus {
+        None,
+        Active,
+        Suspended,
+        Closed
+    }
+
     struct LoyaltyAccount {
-        euint32 encryptedPoints;
         uint32 publicPoints;
         uint256 lastUpdated;
-        bool isActive;
+        AccountStatus status;
+    }
+
+    /// @dev A loyalty brand; `issuer` is its first admin and manages the other admins
+    struct Brand {
+        string displayName;
+        string logoURI;
+        uint8 decimals;
+        address issuer;
+        bool active;
     }
 
+    /// @dev Fixed-point rate: the stored integer is the rate scaled by 10^decimals (0.8 with 4 decimals is 8000)
     struct ExchangeRate {
         euint32 encryptedRate;
         uint32 publicRate;
+        uint8 decimals;
         uint256 lastUpdated;
     }
 
+    /// @dev A standing "give `giveBrand` for `wantBrand`" offer. The size stays encrypted;
+    /// the price is public so takers can evaluate it.
+    struct Offer {
+        address maker;
+        string giveBrand;
+        string wantBrand;
+        euint64 remaining;
+        uint32 price;
+        uint8 priceDecimals;
+        bool open;
+        uint256 createdAt;
+    }
+
+    /// @dev Contract-wide roles granted by the owner, who implicitly holds all of them. RATE_SETTER sets the
+    /// rate of any pair, BRAND_ADMIN acts as an admin of every brand and PAUSER runs the circuit breaker.
+    bytes32 public constant RATE_SETTER_ROLE = keccak256("RATE_SETTER");
+    bytes32 public constant BRAND_ADMIN_ROLE = keccak256("BRAND_ADMIN");
+    bytes32 public constant PAUSER_ROLE = keccak256("PAUSER");
+
+    uint8 public constant MAX_RATE_DECIMALS = 9;
+    /// @dev Bounds the extra ACL grants on every balance update
+    uint8 public constant MAX_VIEWERS = 8;
+
     mapping(address => LoyaltyAccount) public accounts;
+    mapping(address => mapping(string => euint64)) private brandBalances;
+    mapping(address => ebool) private lastConversionSucceeded;
+    mapping(string => euint64) private brandSupply;
     mapping(string => ExchangeRate) public exchangeRates;
-    mapping(string => bool) public supportedBrands;
+    mapping(string => Brand) private brands;
+    mapping(string => mapping(address => bool)) private brandAdmins;
+    mapping(string => uint256) public expiryPeriods;
+    /// @dev Bumped on every policy change so that lots earned under an earlier policy are dropped
+    mapping(string => uint256) private expiryPolicies;
+    mapping(address => mapping(string => ExpiringPoints.PointLots)) private pointLots;
+    mapping(address => mapping(string => address[])) private viewerLists;
+    mapping(address => mapping(string => mapping(address => uint256))) private viewerExpiries;
+    mapping(address => uint256) public openOfferCount;
+
+    mapping(string => RateAuctions.RateAuction) private rateAuctions;
+    mapping(uint256 => Offer) private offers;
+    uint256 public offerCount;
 
     address public owner;
-    string[] public brandList;
-
-    event AccountCreated(address indexed user, uint32 initialPoints);
+    /// @dev Proposed by transferOwnership; becomes the owner once it calls acceptOwnership
+    address public pendingOwner;
+    mapping(bytes32 => mapping(address => bool)) private roles;
+    bool public paused;
+    mapping(string => bool) private pausedPairs;
+    string[] private brandList;
+    /// @dev Brands an account has held points of or granted viewers on, so closing it does not walk
+    /// every registered brand
+    mapping(address => string[]) private accountBrands;
+    mapping(address => mapping(string => bool)) private isAccountBrand;
+
+    event AccountCreated(address indexed user, string brandId, uint32 initialPoints);
+    /// @dev `payoutTo` is only set when an account is closed with its balances paid out
+    event AccountStatusChanged(address indexed user, AccountStatus status, address payoutTo);
     event PointsConverted(address indexed user, string fromBrand, string toBrand, uint32 amount);
-    event ExchangeRateUpdated(string brandPair, uint32 newRate);
+    event ConfidentialPointsConverted(address indexed user, string fromBrand, string toBrand);
+    event ExchangeRateUpdated(string fromBrand, string toBrand, uint32 newRate, uint8 decimals);
+    event BrandRegistered(string brandId, address indexed issuer);
+    event BrandMetadataUpdated(string brandId);
+    event BrandStatusChanged(string brandId, bool active);
+    event BrandAdminUpdated(string brandId, address indexed account, bool isAdmin);
+    event ViewerGranted(address indexed user, address indexed viewer, string brandId, uint256 expiresAt);
+    event ViewerRevoked(address indexed user, address indexed viewer, string brandId);
+    event ExpiryPolicyUpdated(string brandId, uint256 expiryPeriod);
+    event PointsMinted(string brandId, address indexed to);
+    event PointsBurned(string brandId, address indexed from);
+    /// @dev `amount` is the handle of the points actually moved (0 if the sender was short)
+    event ConfidentialTransfer(address indexed from, address indexed to, string brandId, euint64 amount);
+    event RateAuctionOpened(string fromBrand, string toBrand, uint8 decimals, uint256 endTime);
+    event RateBidSubmitted(string fromBrand, string toBrand, address indexed bidder);
+    event RateAuctionClosed(string fromBrand, string toBrand, euint32 winningBid, uint32 bidCount);
+    event RateAuctionSettled(string fromBrand, string toBrand, uint32 winningRate);
+    event OfferPosted(
+        uint256 indexed offerId,
+        address indexed maker,
+        string giveBrand,
+        string wantBrand,
+        uint32 price,
+        uint8 priceDecimals
+    );
+    /// @dev `filled` is the handle of the giveBrand points the taker received (0 if the taker was short)
+    event OfferFilled(uint256 indexed offerId, address indexed taker, euint64 filled);
+    event OfferCancelled(uint256 indexed offerId);
+    event OwnershipTransferStarted(address indexed previousOwner, address indexed newOwner);
+    event OwnershipTransferred(address indexed previousOwner, address indexed newOwner);
+    event RoleGranted(bytes32 indexed role, address indexed account, address indexed sender);
+    event RoleRevoked(bytes32 indexed role, address indexed account, address indexed sender);
+    event PauseChanged(bool paused);
+    event PairPauseChanged(string fromBrand, string toBrand, bool paused);
 
     modifier onlyOwner() {
-        require(msg.sender == owner, "Not authorized");
+        _checkOwner();
+        _;
+    }
+
+    modifier onlyRole(bytes32 role) {
+        require(hasRole(role, msg.sender), "Missing role");
+        _;
+    }
+
+    modifier whenNotPaused() {
+        _requireNotPaused();
+        _;
+    }
+
+    modifier onlyBrandIssuer(string calldata brandId) {
+        _checkBrandIssuer(brandId);
+        _;
+    }
+
+    modifier onlyBrandAdmin(string calldata brandId) {
+        _checkBrandAdmin(brandId, false);
         _;
     }
 
     constructor() ZamaEthereumConfig() {
         owner = msg.sender;
+        emit OwnershipTransferred(address(0), msg.sender);
     }
 
-    function createAccount(externalEuint32 encryptedPoints, bytes calldata inputProof, uint32 publicPoints) external {
-        require(accounts[msg.sender].publicPoints == 0, "Account already exists");
-        require(FHE.isInitialized(FHE.fromExternal(encryptedPoints, inputProof)), "Invalid encrypted input");
+    /// @notice Opens an account holding `encryptedPoints` of `brandId`
+    function createAccount(
+        string calldata brandId,
+        externalEuint64 encryptedPoints,
+        bytes calldata inputProof,
+        uint32 publicPoints
+    ) external {
+        AccountStatus status = accounts[msg.sender].status;
+        require(status == AccountStatus.None || status == AccountStatus.Closed, "Account already exists");
+        require(brands[brandId].active, "Unsupported brand");
+
+        euint64 initialPoints = FHE.fromExternal(encryptedPoints, inputProof);
+        require(FHE.isInitialized(initialPoints), "Invalid encrypted input");
 
         accounts[msg.sender] = LoyaltyAccount({
-            encryptedPoints: FHE.fromExternal(encryptedPoints, inputProof),
             publicPoints: publicPoints,
             lastUpdated: block.timestamp,
-            isActive: true
+            status: AccountStatus.Active
         });
+        _credit(msg.sender, brandId, initialPoints);
 
-        FHE.allowThis(accounts[msg.sender].encryptedPoints);
-        FHE.makePubliclyDecryptable(accounts[msg.sender].encryptedPoints);
-
-        emit AccountCreated(msg.sender, publicPoints);
+        emit AccountCreated(msg.sender, brandId, publicPoints);
     }
 
-    function addSupportedBrand(string calldata brandId) external onlyOwner {
-        require(!supportedBrands[brandId], "Brand already supported");
-        supportedBrands[brandId] = true;
+    /// @notice Registers an active brand; `issuer` becomes its admin
+    function registerBrand(
+        string calldata brandId,
+        string calldata displayName,
+        string calldata logoURI,
+        uint8 decimals,
+        address issuer
+    ) external onlyOwner {
+        require(bytes(brandId).length > 0, "Invalid brand id");
+        require(!_isRegistered(brandId), "Brand already supported");
+        require(issuer != address(0), "Invalid address");
+
+        brands[brandId] = Brand({
+            displayName: displayName,
+            logoURI: logoURI,
+            decimals: decimals,
+            issuer: issuer,
+            active: true
+        });
         brandList.push(brandId);
+
+        emit BrandRegistered(brandId, issuer);
+    }
+
+    function updateBrandMetadata(
+        string calldata brandId,
+        string calldata displayName,
+        string calldata logoURI
+    ) external onlyBrandAdmin(brandId) {
+        brands[brandId].displayName = displayName;
+        brands[brandId].logoURI = logoURI;
+
+        emit BrandMetadataUpdated(brandId);
+    }
+
+    /// @notice Inactive brands keep their balances but cannot open accounts or take part in conversions
+    function setBrandActive(string calldata brandId, bool active) external onlyBrandIssuer(brandId) {
+        brands[brandId].active = active;
+
+        emit BrandStatusChanged(brandId, active);
+    }
+
+    function grantBrandAdmin(string calldata brandId, address account) external onlyBrandIssuer(brandId) {
+        require(account != address(0), "Invalid address");
+        brandAdmins[brandId][account] = true;
+
+        emit BrandAdminUpdated(brandId, account, true);
+    }
+
+    function revokeBrandAdmin(string calldata brandId, address account) external onlyBrandIssuer(brandId) {
+        brandAdmins[brandId][account] = false;
+
+        emit BrandAdminUpdated(brandId, account, false);
+    }
+
+    /// @notice Points earned in one `expiryPeriod` (seconds) expire at the end of the next one; 0 disables expiry.
+    /// Expired points are removed from a balance the next time it is used. Any change starts the lots
+    /// afresh: points held at that time never expire.
+    function setExpiryPolicy(string calldata brandId, uint256 expiryPeriod) external onlyBrandIssuer(brandId) {
+        expiryPeriods[brandId] = expiryPeriod;
+        expiryPolicies[brandId]++;
+        emit ExpiryPolicyUpdated(brandId, expiryPeriod);
+    }
+
+    /// @notice The issuer is always an admin of its brand
+    function isBrandAdmin(string calldata brandId, address account) public view returns (bool) {
+        return account == brands[brandId].issuer || brandAdmins[brandId][account];
+    }
+
+    /// @notice Credits encrypted `brandId` points to `to` and adds them to the brand's supply
+    function mintPoints(
+        string calldata brandId,
+        address to,
+        externalEuint64 encryptedAmount,
+        bytes calldata amountProof
+    ) external onlyBrandAdmin(brandId) {
+        _mint(brandId, to, FHE.fromExternal(encryptedAmount, amountProof));
     }
 
-    function setExchangeRate(string calldata brandPair, externalEuint32 encryptedRate, bytes calldata rateProof, uint32 publicRate) external onlyOwner {
-        require(supportedBrands[brandPair], "Brand pair not supported");
+    /// @notice Batch version of mintPoints; all amounts share one input proof
+    function mintPointsBatch(
+        string calldata brandId,
+        address[] calldata recipients,
+        externalEuint64[] calldata encryptedAmounts,
+        bytes calldata amountsProof
+    ) external onlyBrandAdmin(brandId) {
+        require(recipients.length == encryptedAmounts.length, "Length mismatch");
+        for (uint256 i = 0; i < recipients.length; i++) {
+            _mint(brandId, recipients[i], FHE.fromExternal(encryptedAmounts[i], amountsProof));
+        }
+    }
+
+    /// @notice Removes encrypted `brandId` points from `from`; a no-op if the balance is too low. The supply
+    /// never goes below zero, since points from createAccount and conversions were not minted. Suspended
+    /// accounts can be burned from too, e.g. for chargebacks.
+    function burnPoints(
+        string calldata brandId,
+        address from,
+        externalEuint64 encryptedAmount,
+        bytes calldata amountProof
+    ) external onlyBrandAdmin(brandId) {
+        require(accountExists(from), "Account not found");
+
+        euint64 amount = FHE.fromExternal(encryptedAmount, amountProof);
+        euint64 burned = FHE.select(FHE.le(amount, _balanceOf(from, brandId)), amount, FHE.asEuint64(0));
+
+        _debit(from, brandId, burned);
+        euint64 supply = brandSupply[brandId];
+        _setBrandSupply(brandId, FHE.sub(supply, FHE.min(burned, supply)), msg.sender);
+
+        emit PointsBurned(brandId, from);
+    }
+
+    /// @notice Encrypted total of points minted minus burned for `brandId`, decryptable by its issuer
+    function getBrandSupply(string calldata brandId) external view returns (euint64) {
+        return brandSupply[brandId];
+    }
+
+    /// @notice Sets the rate from `fromBrand` to `toBrand`, scaled by 10^`decimals`.
+    /// Conversions credit `toBrand` points, so its admins own the rate.
+    function setExchangeRate(
+        string calldata fromBrand,
+        string calldata toBrand,
+        externalEuint32 encryptedRate,
+        bytes calldata rateProof,
+        uint32 publicRate,
+        uint8 decimals
+    ) external {
+        _checkBrandAdmin(toBrand, true);
+        require(_isRegistered(fromBrand), "Unsupported brand");
+        require(keccak256(bytes(fromBrand)) != keccak256(bytes(toBrand)), "Same brand");
+        require(decimals <= MAX_RATE_DECIMALS, "Invalid rate decimals");
         require(FHE.isInitialized(FHE.fromExternal(encryptedRate, rateProof)), "Invalid encrypted rate");
 
+        string memory brandPair = _pairId(fromBrand, toBrand);
         exchangeRates[brandPair] = ExchangeRate({
             encryptedRate: FHE.fromExternal(encryptedRate, rateProof),
             publicRate: publicRate,
+            decimals: decimals,
             lastUpdated: block.timestamp
         });
 
         FHE.allowThis(exchangeRates[brandPair].encryptedRate);
         FHE.makePubliclyDecryptable(exchangeRates[brandPair].encryptedRate);
 
-        emit ExchangeRateUpdated(brandPair, publicRate);
+        emit ExchangeRateUpdated(fromBrand, toBrand, publicRate, decimals);
+    }
+
+    /// @notice Start a sealed-bid auction for the rate of a pair; bids use `decimals` of precision
+    function openRateAuction(
+        string calldata fromBrand,
+        string calldata toBrand,
+        uint8 decimals,
+        uint256 duration
+    ) external onlyBrandAdmin(toBrand) {
+        require(_isRegistered(fromBrand), "Unsupported brand");
+        require(keccak256(bytes(fromBrand)) != keccak256(bytes(toBrand)), "Same brand");
+        require(decimals <= MAX_RATE_DECIMALS, "Invalid rate decimals");
+
+        RateAuctions.RateAuction storage auction = rateAuctions[_pairId(fromBrand, toBrand)];
+        RateAuctions.open(auction, decimals, duration);
+
+        emit RateAuctionOpened(fromBrand, toBrand, decimals, auction.endTime);
+    }
+
+    /// @notice Bid the rate your brand is willing to honour on the pair. Only admins of `toBrand`, which
+    /// credits the converted points, may bid, more than once; only the highest bid counts and no one
+    /// learns it before the auction closes.
+    function submitRateBid(
+        string calldata fromBrand,
+        string calldata toBrand,
+        externalEuint32 encryptedBid,
+        bytes calldata bidProof
+    ) external onlyBrandAdmin(toBrand) {
+        RateAuctions.bid(rateAuctions[_pairId(fromBrand, toBrand)], encryptedBid, bidProof);
+
+        emit RateBidSubmitted(fromBrand, toBrand, msg.sender);
+    }
+
+    /// @notice Close an auction past its end time and make the winning bid publicly decryptable
+    function closeRateAuction(string calldata fromBrand, string calldata toBrand) external {
+        RateAuctions.RateAuction storage auction = rateAuctions[_pairId(fromBrand, toBrand)];
+        RateAuctions.close(auction);
+
+        emit RateAuctionClosed(fromBrand, toBrand, auction.bestBid, auction.bidCount);
+    }
+
+    /// @notice Install the winning bid as the pair's rate, given its public decryption and KMS proof.
+    /// A winning rate of 0 settles the auction without touching the current rate.
+    function revealRateAuction(
+        string calldata fromBrand,
+        string calldata toBrand,
+        bytes calldata abiEncodedRate,
+        bytes calldata decryptionProof
+    ) external {
+        string memory brandPair = _pairId(fromBrand, toBrand);
+        RateAuctions.RateAuction storage auction = rateAuctions[brandPair];
+        uint32 winningRate = RateAuctions.reveal(auction, abiEncodedRate, decryptionProof);
+
+        if (winningRate > 0) {
+            exchangeRates[brandPair] = ExchangeRate({
+                encryptedRate: auction.bestBid,
+                publicRate: winningRate,
+                decimals: auction.decimals,
+                lastUpdated: block.timestamp
+            });
+            emit ExchangeRateUpdated(fromBrand, toBrand, winningRate, auction.decimals);
+        }
+
+        emit RateAuctionSettled(fromBrand, toBrand, winningRate);
     }
 
     function convertPoints(string calldata fromBrand, string calldata toBrand, uint32 amount) external {
-        require(accounts[msg.sender].isActive, "Account inactive");
-        require(supportedBrands[fromBrand] && supportedBrands[toBrand], "Unsupported brand");
         require(amount > 0, "Invalid amount");
 
-        string memory brandPair = string(abi.encodePacked(fromBrand, "-", toBrand));
-        require(exchangeRates[brandPair].publicRate > 0, "Exchange rate not set");
+        _convert(fromBrand, toBrand, FHE.asEuint64(uint64(amount)));
+
+        emit PointsConverted(msg.sender, fromBrand, toBrand, amount);
+    }
 
-        // Homomorphic computation of converted points
-        euint32 memory convertedAmount = FHE.mul(FHE.fromU32(amount), exchangeRates[brandPair].encryptedRate);
+    /// @notice Same as convertPoints, but the amount stays encrypted and is never emitted
+    function convertPointsConfidential(
+        string calldata fromBrand,
+        string calldata toBrand,
+        externalEuint64 encryptedAmount,
+        bytes calldata amountProof
+    ) external {
+        euint64 amount = FHE.fromExternal(encryptedAmount, amountProof);
 
-        // Update user's encrypted points balance
-        accounts[msg.sender].encryptedPoints = FHE.sub(accounts[msg.sender].encryptedPoints, FHE.fromU32(amount));
+        _convert(fromBrand, toBrand, amount);
+
+        emit ConfidentialPointsConverted(msg.sender, fromBrand, toBrand);
+    }
+
+    /// @notice Sends encrypted `brandId` points to another account. Like ERC-7984, an amount above
+    /// the sender's balance moves nothing; the returned handle is readable by both parties.
+    function transferPoints(
+        string calldata brandId,
+        address to,
+        externalEuint64 encryptedAmount,
+        bytes calldata amountProof
+    ) external whenNotPaused returns (euint64 transferred) {
+        require(_isActive(msg.sender), "Account inactive");
+        require(_isActive(to), "Account not found");
+        require(to != msg.sender, "Invalid recipient");
+        require(brands[brandId].active, "Unsupported brand");
+
+        euint64 amount = FHE.fromExternal(encryptedAmount, amountProof);
+        transferred = FHE.select(FHE.le(amount, _balanceOf(msg.sender, brandId)), amount, FHE.asEuint64(0));
+
+        _debit(msg.sender, brandId, transferred);
+        _credit(to, brandId, transferred);
         accounts[msg.sender].lastUpdated = block.timestamp;
+        accounts[to].lastUpdated = block.timestamp;
 
-        // Create new encrypted balance for target brand
-        euint32 memory newTargetBalance = convertedAmount;
-        accounts[msg.sender].encryptedPoints = FHE.add(accounts[msg.sender].encryptedPoints, newTargetBalance);
+        FHE.allowThis(transferred);
+        FHE.allow(transferred, msg.sender);
+        FHE.allow(transferred, to);
 
-        emit PointsConverted(msg.sender, fromBrand, toBrand, amount);
+        emit ConfidentialTransfer(msg.sender, to, brandId, transferred);
+    }
+
+    /// @notice Lets `viewer` (an auditor or support agent) decrypt your `brandId` balance until `expiresAt`.
+    /// ACL grants are permanent: the viewer keeps the balances it was granted, but gets none issued after
+    /// the expiry or a revocation.
+    function grantViewer(address viewer, string calldata brandId, uint256 expiresAt) external {
+        require(_isActive(msg.sender), "Account inactive");
+        require(_isRegistered(brandId), "Unsupported brand");
+        require(viewer != address(0) && viewer != msg.sender, "Invalid viewer");
+        require(expiresAt > block.timestamp, "Invalid expiry");
+
+        if (viewerExpiries[msg.sender][brandId][viewer] == 0) {
+            require(viewerLists[msg.sender][brandId].length < MAX_VIEWERS, "Too many viewers");
+            viewerLists[msg.sender][brandId].push(viewer);
+            _addAccountBrand(msg.sender, brandId);
+        }
+        viewerExpiries[msg.sender][brandId][viewer] = expiresAt;
+
+        euint64 balance = brandBalances[msg.sender][brandId];
+        if (FHE.isInitialized(balance)) {
+            FHE.allow(balance, viewer);
+        }
+
+        emit ViewerGranted(msg.sender, viewer, brandId, expiresAt);
+    }
+
+    function revokeViewer(address viewer, string calldata brandId) external {
+        require(viewerExpiries[msg.sender][brandId][viewer] != 0, "Viewer not found");
+        delete viewerExpiries[msg.sender][brandId][viewer];
+
+        address[] storage viewers = viewerLists[msg.sender][brandId];
+        for (uint256 i = 0; i < viewers.length; i++) {
+            if (viewers[i] == viewer) {
+                viewers[i] = viewers[viewers.length - 1];
+                viewers.pop();
+                break;
+            }
+        }
+
+        emit ViewerRevoked(msg.sender, viewer, brandId);
+    }
+
+    /// @notice Escrows up to `encryptedAmount` `giveBrand` points, offered at `price` `wantBrand`
+    /// points each (scaled by 10^`priceDecimals`). An amount above the balance escrows nothing.
+    function postOffer(
+        string calldata giveBrand,
+        string calldata wantBrand,
+        externalEuint64 encryptedAmount,
+        bytes calldata amountProof,
+        uint32 price,
+        uint8 priceDecimals
+    ) external whenNotPaused returns (uint256 offerId) {
+        require(_isActive(msg.sender), "Account inactive");
+        require(brands[giveBrand].active && brands[wantBrand].active, "Unsupported brand");
+        require(keccak256(bytes(giveBrand)) != keccak256(bytes(wantBrand)), "Same brand");
+        require(price > 0, "Invalid price");
+        require(priceDecimals <= MAX_RATE_DECIMALS, "Invalid rate decimals");
+
+        euint64 amount = FHE.fromExternal(encryptedAmount, amountProof);
+        euint64 escrowed = FHE.select(FHE.le(amount, _balanceOf(msg.sender, giveBrand)), amount, FHE.asEuint64(0));
+        _debit(msg.sender, giveBrand, escrowed);
+
+        offerId = offerCount++;
+        openOfferCount[msg.sender]++;
+        offers[offerId] = Offer({
+            maker: msg.sender,
+            giveBrand: giveBrand,
+            wantBrand: wantBrand,
+            remaining: escrowed,
+            price: price,
+            priceDecimals: priceDecimals,
+            open: true,
+            createdAt: block.timestamp
+        });
+        _setOfferRemaining(offerId, escrowed);
+
+        emit OfferPosted(offerId, msg.sender, giveBrand, wantBrand, price, priceDecimals);
+    }
+
+    /// @notice Buys up to `encryptedAmount` of the offer's points, paying `price` each in `wantBrand`,
+    /// rounded up. Settles atomically: if the taker cannot pay, nothing moves.
+    function fillOffer(
+        uint256 offerId,
+        externalEuint64 encryptedAmount,
+        bytes calldata amountProof
+    ) external whenNotPaused returns (euint64 filled) {
+        Offer storage offer = offers[offerId];
+        require(offer.open, "Offer not open");
+        require(msg.sender != offer.maker, "Cannot fill own offer");
+        require(_isActive(msg.sender), "Account inactive");
+        require(_isActive(offer.maker), "Maker inactive");
+        require(brands[offer.giveBrand].active && brands[offer.wantBrand].active, "Unsupported brand");
+
+        euint64 cost;
+        (filled, cost) = RateMath.quoteFill(
+            FHE.fromExternal(encryptedAmount, amountProof),
+            offer.remaining,
+            offer.price,
+            offer.priceDecimals,
+            _balanceOf(msg.sender, offer.wantBrand)
+        );
+        _settleFill(offer, cost, filled);
+        _setOfferRemaining(offerId, FHE.sub(offer.remaining, filled));
+
+        FHE.allowThis(filled);
+        FHE.allow(filled, msg.sender);
+        FHE.allow(filled, offer.maker);
+
+        emit OfferFilled(offerId, msg.sender, filled);
+    }
+
+    /// @notice Closes the offer and returns the unfilled escrow to the maker
+    function cancelOffer(uint256 offerId) external {
+        Offer storage offer = offers[offerId];
+        require(offer.maker == msg.sender, "Not offer maker");
+        require(offer.open, "Offer not open");
+
+        offer.open = false;
+        openOfferCount[msg.sender]--;
+        // Refunded points come back as a fresh lot of an expiring brand
+        _credit(msg.sender, offer.giveBrand, offer.remaining);
+        _setOfferRemaining(offerId, FHE.asEuint64(0));
+
+        emit OfferCancelled(offerId);
     }
 
-    function getAccountBalance(address user) external view returns (euint32, uint32) {
-        require(accounts[user].isActive, "Account not found");
-        return (accounts[user].encryptedPoints, accounts[user].publicPoints);
+    /// @notice Offer terms; `remaining` is decryptable by the maker only
+    function getOffer(uint256 offerId) external view returns (Offer memory) {
+        require(offerId < offerCount, "Offer not found");
+        return offers[offerId];
     }
 
-    function getExchangeRate(string calldata brandPair) external view returns (euint32, uint32) {
-        require(exchangeRates[brandPair].publicRate > 0, "Rate not found");
-        return (exchangeRates[brandPair].encryptedRate, exchangeRates[brandPair].publicRate);
+    /// @notice Encrypted points of `user` for `brandId`, plus the account's public points
+    function getAccountBalance(address user, string calldata brandId) external view returns (euint64, uint32) {
+        require(accountExists(user), "Account not found");
+        return (brandBalances[user][brandId], accounts[user].publicPoints);
     }
 
+    /// @notice Lots of an expiring brand and their expiry times, decryptable by the user. Expiry is applied
+    /// lazily, so a lot whose time has passed is already gone from the user's next interaction.
+    function getPointLots(
+        address user,
+        string calldata brandId
+    ) external view returns (euint64 current, euint64 previous, uint256 previousExpiresAt, uint256 currentExpiresAt) {
+        ExpiringPoints.PointLots storage lots = pointLots[user][brandId];
+        uint256 period = expiryPeriods[brandId];
+        if (lots.currentEnd == 0 || period == 0 || lots.policy != expiryPolicies[brandId]) {
+            return (current, previous, 0, 0);
+        }
+        return (lots.current, lots.previous, lots.currentEnd, lots.currentEnd + period);
+    }
+
+    /// @notice Viewers of a user's balance with their expiry times, including expired ones not yet revoked
+    function getViewers(
+        address user,
+        string calldata brandId
+    ) external view returns (address[] memory viewers, uint256[] memory expiresAt) {
+        viewers = viewerLists[user][brandId];
+        expiresAt = new uint256[](viewers.length);
+        for (uint256 i = 0; i < viewers.length; i++) {
+            expiresAt[i] = viewerExpiries[user][brandId][viewers[i]];
+        }
+    }
+
+    /// @notice Encrypted flag: whether `user`'s last conversion went through (user-decryptable)
+    function getLastConversionResult(address user) external view returns (ebool) {
+        return lastConversionSucceeded[user];
+    }
+
+    /// @notice Encrypted and public rate from `fromBrand` to `toBrand`, both scaled by 10^decimals
+    function getExchangeRate(
+        string calldata fromBrand,
+        string calldata toBrand
+    ) external view returns (euint32, uint32, uint8) {
+        ExchangeRate storage rate = exchangeRates[_pairId(fromBrand, toBrand)];
+        require(rate.publicRate > 0, "Rate not found");
+        return (rate.encryptedRate, rate.publicRate, rate.decimals);
+    }
+
+    /// @notice Latest auction of a pair; `bestBid` is only decryptable once the auction is closed
+    function getRateAuction(
+        string calldata fromBrand,
+        string calldata toBrand
+    ) external view returns (RateAuctions.RateAuction memory) {
+        RateAuctions.RateAuction storage auction = rateAuctions[_pairId(fromBrand, toBrand)];
+        require(auction.status != RateAuctions.AuctionStatus.None, "Auction not found");
+        return auction;
+    }
+
+    /// @notice Every registered brand id, including inactive ones
     function getSupportedBrands() external view returns (string[] memory) {
         return brandList;
     }
 
+    function getBrand(string calldata brandId) external view returns (Brand memory) {
+        require(_isRegistered(brandId), "Unsupported brand");
+        return brands[brandId];
+    }
+
+    /// @notice Suspends the account; its balances are kept until it is reactivated or closed
     function deactivateAccount() external {
-        require(accounts[msg.sender].isActive, "Account not active");
-        accounts[msg.sender].isActive = false;
+        require(_isActive(msg.sender), "Account not active");
+        _setAccountStatus(AccountStatus.Suspended, address(0));
+    }
+
+    function reactivateAccount() external {
+        require(accounts[msg.sender].status == AccountStatus.Suspended, "Account not suspended");
+        _setAccountStatus(AccountStatus.Active, address(0));
+    }
+
+    /// @notice Closes the account and erases its balances, lots, viewer grants and conversion flag. Every
+    /// brand balance is first credited to `payoutTo`, an active account, or forfeited if it is the zero address.
+    /// Balances of inactive brands are always forfeited, since those points cannot move. Forfeited points leave the brand supply, which never goes below zero since points from createAccount
+    /// and conversions were not minted. Open offers must be cancelled first so no escrow is left behind.
+    function closeAccount(address payoutTo) external {
+        require(accountExists(msg.sender), "Account not found");
+        require(openOfferCount[msg.sender] == 0, "Open offers");
+        require(payoutTo == address(0) || (payoutTo != msg.sender && _isActive(payoutTo)), "Invalid recipient");
+        // A payout moves points like a transfer does
+        if (payoutTo != address(0)) {
+            _requireNotPaused();
+        }
+
+        string[] storage held = accountBrands[msg.sender];
+        for (uint256 i = 0; i < held.length; i++) {
+            string memory brandId = held[i];
+            if (FHE.isInitialized(brandBalances[msg.sender][brandId])) {
+                euint64 balance = _balanceOf(msg.sender, brandId);
+                if (payoutTo != address(0) && brands[brandId].active) {
+                    _credit(payoutTo, brandId, balance);
+                } else {
+                    euint64 supply = brandSupply[brandId];
+                    _setBrandSupply(brandId, FHE.sub(supply, FHE.min(balance, supply)), address(0));
+                }
+            }
+            brandBalances[msg.sender][brandId] = euint64.wrap(0);
+            delete isAccountBrand[msg.sender][brandId];
+            delete pointLots[msg.sender][brandId];
+
+            address[] storage viewers = viewerLists[msg.sender][brandId];
+            for (uint256 j = 0; j < viewers.length; j++) {
+                delete viewerExpiries[msg.sender][brandId][viewers[j]];
+            }
+            delete viewerLists[msg.sender][brandId];
+        }
+        delete accountBrands[msg.sender];
+        lastConversionSucceeded[msg.sender] = ebool.wrap(0);
+        accounts[msg.sender].publicPoints = 0;
+
+        _setAccountStatus(AccountStatus.Closed, payoutTo);
+    }
+
+    /// @notice Whether `user` has an active or suspended account
+    function accountExists(address user) public view returns (bool) {
+        AccountStatus status = accounts[user].status;
+        return status == AccountStatus.Active || status == AccountStatus.Suspended;
     }
 
     function updatePublicPoints(uint32 newPoints) external {
-        require(accounts[msg.sender].isActive, "Account not active");
+        require(_isActive(msg.sender), "Account not active");
         accounts[msg.sender].publicPoints = newPoints;
         accounts[msg.sender].lastUpdated = block.timestamp;
     }
 
+    /// @notice Proposes `newOwner`; ownership moves only when it accepts, so a wrong address cannot lock the
+    /// contract. A later call replaces the proposal.
     function transferOwnership(address newOwner) external onlyOwner {
         require(newOwner != address(0), "Invalid address");
-        owner = newOwner;
+        pendingOwner = newOwner;
+
+        emit OwnershipTransferStarted(owner, newOwner);
     }
 
-    function isContractAvailable() external pure returns (bool) {
-        return true;
+    function acceptOwnership() external {
+        require(msg.sender == pendingOwner, "Not pending owner");
+        emit OwnershipTransferred(owner, msg.sender);
+
+        owner = msg.sender;
+        pendingOwner = address(0);
     }
-}
 
+    function grantRole(bytes32 role, address account) external onlyOwner {
+        require(account != address(0), "Invalid address");
+        roles[role][account] = true;
+
+        emit RoleGranted(role, account, msg.sender);
+    }
+
+    function revokeRole(bytes32 role, address account) external onlyOwner {
+        roles[role][account] = false;
+
+        emit RoleRevoked(role, account, msg.sender);
+    }
+
+    /// @notice Whether `account` holds `role`; always true for the owner
+    function hasRole(bytes32 role, address account) public view returns (bool) {
+        return account == owner || roles[role][account];
+    }
+
+    /// @notice Circuit breaker: stops conversions, transfers, order book posts and fills, and account
+    /// payouts. Cancelling offers and managing accounts, including closing them without a payout, stay
+    /// available.
+    function setPaused(bool isPaused) external onlyRole(PAUSER_ROLE) {
+        paused = isPaused;
+
+        emit PauseChanged(isPaused);
+    }
+
+    /// @notice Stops conversions of one pair, e.g. while a wrong rate is being corrected
+    function setPairPaused(
+        string calldata fromBrand,
+        string calldata toBrand,
+        bool isPaused
+    ) external onlyRole(PAUSER_ROLE) {
+        pausedPairs[_pairId(fromBrand, toBrand)] = isPaused;
+
+        emit PairPauseChanged(fromBrand, toBrand, isPaused);
+    }
+
+    /// @notice Whether conversions from `fromBrand` to `toBrand` are paused on their own; see also `paused`
+    function isPairPaused(string calldata fromBrand, string calldata toBrand) external view returns (bool) {
+        return pausedPairs[_pairId(fromBrand, toBrand)];
+    }
+
+    function isContractAvailable() external view returns (bool) {
+        return !paused;
+    }
+
+    function _convert(string calldata fromBrand, string calldata toBrand, euint64 amount) private whenNotPaused {
+        require(_isActive(msg.sender), "Account inactive");
+        require(brands[fromBrand].active && brands[toBrand].active, "Unsupported brand");
+        string memory pairId = _pairId(fromBrand, toBrand);
+        require(!pausedPairs[pairId], "Pair paused");
+
+        ExchangeRate storage rate = exchangeRates[pairId];
+        require(rate.publicRate > 0, "Exchange rate not set");
+
+        // Insufficient funds, or a result too large for a balance, turn the conversion into a no-op
+        (ebool succeeded, euint64 debit, euint64 credit) = RateMath.convert(
+            amount,
+            rate.encryptedRate,
+            rate.decimals,
+            _balanceOf(msg.sender, fromBrand)
+        );
+
+        // Debit the source brand, credit the target brand
+        _debit(msg.sender, fromBrand, debit);
+        _credit(msg.sender, toBrand, credit);
+        accounts[msg.sender].lastUpdated = block.timestamp;
 
+        lastConversionSucceeded[msg.sender] = succeeded;
+        FHE.allowThis(succeeded);
+        FHE.allow(succeeded, msg.sender);
+    }
+
+    /// @dev Modifier bodies live in functions so they are not inlined at every use
+    function _checkOwner() private view {
+        require(msg.sender == owner, "Not authorized");
+    }
+
+    function _checkBrandIssuer(string calldata brandId) private view {
+        require(_isRegistered(brandId), "Unsupported brand");
+        require(msg.sender == owner || msg.sender == brands[brandId].issuer, "Not brand issuer");
+    }
+
+    /// @dev Rates can also be set by RATE_SETTER holders
+    function _checkBrandAdmin(string calldata brandId, bool isRate) private view {
+        require(_isRegistered(brandId), "Unsupported brand");
+        require(
+            hasRole(BRAND_ADMIN_ROLE, msg.sender) ||
+                (isRate && roles[RATE_SETTER_ROLE][msg.sender]) ||
+                isBrandAdmin(brandId, msg.sender),
+            "Not brand admin"
+        );
+    }
+
+    function _requireNotPaused() private view {
+        require(!paused, "Paused");
+    }
+
+    function _isActive(address user) private view returns (bool) {
+        return accounts[user].status == AccountStatus.Active;
+    }
+
+    function _setAccountStatus(AccountStatus status, address payoutTo) private {
+        accounts[msg.sender].status = status;
+        accounts[msg.sender].lastUpdated = block.timestamp;
+        emit AccountStatusChanged(msg.sender, status, payoutTo);
+    }
+
+    function _mint(string calldata brandId, address to, euint64 amount) private {
+        require(brands[brandId].active, "Unsupported brand");
+        require(_isActive(to), "Account not found");
+
+        _credit(to, brandId, amount);
+        _setBrandSupply(brandId, FHE.add(brandSupply[brandId], amount), msg.sender);
+
+        emit PointsMinted(brandId, to);
+    }
+
+    /// @dev The supply is granted to the issuer and to `admin`, the minting admin if any
+    function _setBrandSupply(string memory brandId, euint64 supply, address admin) private {
+        brandSupply[brandId] = supply;
+        FHE.allowThis(supply);
+        FHE.allow(supply, brands[brandId].issuer);
+        if (admin != address(0)) {
+            FHE.allow(supply, admin);
+        }
+    }
+
+    /// @dev Pays the maker `paid` wantBrand points and hands the taker `filled` giveBrand points
+    function _settleFill(Offer storage offer, euint64 paid, euint64 filled) private {
+        _debit(msg.sender, offer.wantBrand, paid);
+        _credit(offer.maker, offer.wantBrand, paid);
+        _credit(msg.sender, offer.giveBrand, filled);
+    }
+
+    function _setOfferRemaining(uint256 offerId, euint64 remaining) private {
+        offers[offerId].remaining = remaining;
+        FHE.allowThis(remaining);
+        FHE.allow(remaining, offers[offerId].maker);
+    }
+
+    function _isRegistered(string calldata brandId) private view returns (bool) {
+        return brands[brandId].issuer != address(0);
+    }
+
+    /// @dev Rates are keyed by "from-to"
+    function _pairId(string calldata fromBrand, string calldata toBrand) private pure returns (string memory) {
+        return string(abi.encodePacked(fromBrand, "-", toBrand));
+    }
+
+    /// @dev The user's balance after removing expired lots; use before comparing against it
+    function _balanceOf(address user, string memory brandId) private returns (euint64) {
+        euint64 balance = brandBalances[user][brandId];
+        uint256 period = expiryPeriods[brandId];
+        if (period == 0) {
+            return balance;
+        }
+
+        euint64 unexpired = ExpiringPoints.expire(
+            pointLots[user][brandId],
+            period,
+            expiryPolicies[brandId],
+            balance,
+            user
+        );
+        if (euint64.unwrap(unexpired) != euint64.unwrap(balance)) {
+            _setBrandBalance(user, brandId, unexpired);
+        }
+        return unexpired;
+    }
+
+    function _credit(address user, string memory brandId, euint64 amount) private {
+        _setBrandBalance(user, brandId, FHE.add(_balanceOf(user, brandId), amount));
+        if (expiryPeriods[brandId] != 0) {
+            ExpiringPoints.add(pointLots[user][brandId], amount, user);
+        }
+    }
+
+    /// @dev `amount` must not exceed the balance. Points closest to expiry are spent first.
+    function _debit(address user, string memory brandId, euint64 amount) private {
+        _setBrandBalance(user, brandId, FHE.sub(_balanceOf(user, brandId), amount));
+        if (expiryPeriods[brandId] != 0) {
+            ExpiringPoints.spend(pointLots[user][brandId], amount, user);
+        }
+    }
+
+    /// @dev Every new balance handle is granted to the contract, its owner and the owner's unexpired viewers
+    function _setBrandBalance(address user, string memory brandId, euint64 balance) private {
+        _addAccountBrand(user, brandId);
+        brandBalances[user][brandId] = balance;
+        FHE.allowThis(balance);
+        FHE.allow(balance, user);
+
+        address[] storage viewers = viewerLists[user][brandId];
+        for (uint256 i = 0; i < viewers.length; i++) {
+            if (viewerExpiries[user][brandId][viewers[i]] > block.timestamp) {
+                FHE.allow(balance, viewers[i]);
+            }
+        }
+    }
+
+    function _addAccountBrand(address user, string memory brandId) private {
+        if (!isAccountBrand[user][brandId]) {
+            isAccountBrand[user][brandId] = true;
+            accountBrands[user].push(brandId);
+        }
+    }
+}
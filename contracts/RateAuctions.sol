@@ -0,0 +1,79 @@
+// SPDX-License-Identifier: BSD-3-Clause-Clear
+pragma solidity ^0.8.24;
+
+import { FHE, euint32, externalEuint32 } from "@fhevm/solidity/lib/FHE.sol";
+
+/// @title Sealed-bid rate auctions of PointsSwap_FHE
+/// @dev Linked library: its functions run through DELEGATECALL in the context of PointsSwap_FHE, so FHE
+/// ACL grants and KMS checks are made on behalf of the calling contract. Callers check permissions and
+/// emit the events.
+library RateAuctions {
+    enum AuctionStatus {
+        None,
+        Open,
+        Closed,
+        Settled
+    }
+
+    /// @dev Sealed-bid auction for a pair's rate. Only the running maximum of the bids is kept;
+    /// it is made publicly decryptable at close and becomes the pair's rate once revealed.
+    struct RateAuction {
+        uint8 decimals;
+        uint256 endTime;
+        euint32 bestBid;
+        uint32 bidCount;
+        AuctionStatus status;
+    }
+
+    function open(RateAuction storage auction, uint8 decimals, uint256 duration) external {
+        require(duration > 0, "Invalid duration");
+        require(
+            auction.status != AuctionStatus.Open && auction.status != AuctionStatus.Closed,
+            "Auction in progress"
+        );
+
+        auction.decimals = decimals;
+        auction.endTime = block.timestamp + duration;
+        auction.bestBid = euint32.wrap(0);
+        auction.bidCount = 0;
+        auction.status = AuctionStatus.Open;
+    }
+
+    function bid(RateAuction storage auction, externalEuint32 encryptedBid, bytes calldata bidProof) external {
+        require(auction.status == AuctionStatus.Open && block.timestamp < auction.endTime, "Auction not open");
+
+        euint32 rate = FHE.fromExternal(encryptedBid, bidProof);
+        auction.bestBid = auction.bidCount == 0 ? rate : FHE.max(auction.bestBid, rate);
+        auction.bidCount += 1;
+        FHE.allowThis(auction.bestBid);
+    }
+
+    /// @dev An auction without bids settles right away
+    function close(RateAuction storage auction) external {
+        require(auction.status == AuctionStatus.Open, "Auction not open");
+        require(block.timestamp >= auction.endTime, "Auction still running");
+
+        if (auction.bidCount == 0) {
+            auction.status = AuctionStatus.Settled;
+        } else {
+            auction.status = AuctionStatus.Closed;
+            FHE.makePubliclyDecryptable(auction.bestBid);
+        }
+    }
+
+    /// @dev Checks the KMS proof of the winning bid's decryption and settles the auction
+    function reveal(
+        RateAuction storage auction,
+        bytes calldata abiEncodedRate,
+        bytes calldata decryptionProof
+    ) external returns (uint32 winningRate) {
+        require(auction.status == AuctionStatus.Closed, "Auction not closed");
+
+        bytes32[] memory handles = new bytes32[](1);
+        handles[0] = FHE.toBytes32(auction.bestBid);
+        FHE.checkSignatures(handles, abiEncodedRate, decryptionProof);
+        winningRate = abi.decode(abiEncodedRate, (uint32));
+
+        auction.status = AuctionStatus.Settled;
+    }
+}
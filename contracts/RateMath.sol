@@ -0,0 +1,47 @@
+// SPDX-License-Identifier: BSD-3-Clause-Clear
+pragma solidity ^0.8.24;
+
+import { FHE, ebool, euint32, euint64, euint128 } from "@fhevm/solidity/lib/FHE.sol";
+
+/// @title Fixed-point rate math of PointsSwap_FHE
+/// @dev Linked library: its functions run through DELEGATECALL in the context of PointsSwap_FHE, so the
+/// handles they return are usable by the calling contract. Products are taken in euint128, where a
+/// uint32 rate times a uint64 amount cannot overflow.
+library RateMath {
+    /// @dev Converts `amount` at `rate / 10**decimals`: multiply first, then divide by the scale (rounds
+    /// down). `succeeded` is false, and nothing moves, when `balance` cannot cover `amount` or the
+    /// result does not fit in a euint64.
+    function convert(
+        euint64 amount,
+        euint32 rate,
+        uint8 decimals,
+        euint64 balance
+    ) external returns (ebool succeeded, euint64 debit, euint64 credit) {
+        euint128 scaledAmount = FHE.mul(FHE.asEuint128(rate), FHE.asEuint128(amount));
+        euint128 convertedAmount = FHE.div(scaledAmount, uint128(10) ** decimals);
+        succeeded = FHE.and(FHE.le(amount, balance), FHE.le(convertedAmount, uint128(type(uint64).max)));
+
+        euint64 zero = FHE.asEuint64(0);
+        debit = FHE.select(succeeded, amount, zero);
+        credit = FHE.select(succeeded, FHE.asEuint64(convertedAmount), zero);
+    }
+
+    /// @dev Caps `requested` at `remaining` and prices it at `price / 10**decimals` per point. The cost
+    /// rounds up so that small fills are never free; both amounts are 0 when `balance` cannot cover it.
+    function quoteFill(
+        euint64 requested,
+        euint64 remaining,
+        uint32 price,
+        uint8 decimals,
+        euint64 balance
+    ) external returns (euint64 filled, euint64 cost) {
+        euint64 amount = FHE.min(requested, remaining);
+        uint128 scale = uint128(10) ** decimals;
+        euint128 exactCost = FHE.div(FHE.add(FHE.mul(FHE.asEuint128(amount), uint128(price)), scale - 1), scale);
+        ebool canPay = FHE.le(exactCost, FHE.asEuint128(balance));
+
+        euint64 zero = FHE.asEuint64(0);
+        filled = FHE.select(canPay, amount, zero);
+        cost = FHE.select(canPay, FHE.asEuint64(exactCost), zero);
+    }
+}
@@ -3,11 +3,11 @@
  */
 
 import { useState, useCallback } from 'react';
-import { publicDecryptV09 } from '../core/index.js';
+import { normalizeError, publicDecryptV09 } from '../core/index.js';
 
 export function useDecrypt() {
   const [isDecrypting, setIsDecrypting] = useState(false);
-  const [error, setError] = useState<string>('');
+  const [error, setError] = useState<Error | null>(null);
 
   const verifyDecryption = useCallback(async (
     handles: string[], 
@@ -15,7 +15,7 @@ export function useDecrypt() {
     verifyFunction: (abiEncodedClearValues: string, decryptionProof: string) => Promise<any>
   ) => {
     setIsDecrypting(true);
-    setError('');
+    setError(null);
     
     try {
       const decryptionResult = await publicDecryptV09(handles);
@@ -32,8 +32,9 @@ export function useDecrypt() {
         transactionReceipt: receipt
       };
     } catch (err) {
-      setError(err instanceof Error ? err.message : 'Decryption verification failed');
-      throw err;
+      const fhevmError = normalizeError(err, 'Decryption verification failed');
+      setError(fhevmError);
+      throw fhevmError;
     } finally {
       setIsDecrypting(false);
     }
@@ -3,22 +3,48 @@
  */
 
 import { useState, useCallback } from 'react';
-import { createEncryptedInput } from '../core/index.js';
+import { normalizeError, createEncryptedInput, createEncryptedInputBuilder, type EncryptedInputBuilder } from '../core/index.js';
 
 export function useEncrypt() {
   const [isEncrypting, setIsEncrypting] = useState(false);
-  const [error, setError] = useState<string>('');
+  const [error, setError] = useState<Error | null>(null);
 
   const encrypt = useCallback(async (contractAddress: string, userAddress: string, value: number) => {
     setIsEncrypting(true);
-    setError('');
+    setError(null);
     
     try {
       const result = await createEncryptedInput(contractAddress, userAddress, value);
       return result;
     } catch (err) {
-      setError(err instanceof Error ? err.message : 'Encryption failed');
-      throw err;
+      const fhevmError = normalizeError(err, 'Encryption failed');
+      setError(fhevmError);
+      throw fhevmError;
+    } finally {
+      setIsEncrypting(false);
+    }
+  }, []);
+
+  /**
+   * Encrypt several typed values into one proof:
+   * encryptInputs(contract, user, input => input.add32(rate).add64(amount))
+   */
+  const encryptInputs = useCallback(async (
+    contractAddress: string,
+    userAddress: string,
+    build: (input: EncryptedInputBuilder) => void
+  ) => {
+    setIsEncrypting(true);
+    setError(null);
+    
+    try {
+      const input = createEncryptedInputBuilder(contractAddress, userAddress);
+      build(input);
+      return await input.encrypt();
+    } catch (err) {
+      const fhevmError = normalizeError(err, 'Encryption failed');
+      setError(fhevmError);
+      throw fhevmError;
     } finally {
       setIsEncrypting(false);
     }
@@ -26,6 +52,7 @@ export function useEncrypt() {
 
   return {
     encrypt,
+    encryptInputs,
     isEncrypting,
     error,
   };
@@ -3,24 +3,25 @@
  */
 
 import { useState, useCallback } from 'react';
-import { initializeFheInstance } from '../core/index.js';
+import { normalizeError, initializeFheInstance } from '../core/index.js';
 
 export function useFhevm() {
   const [instance, setInstance] = useState<any>(null);
   const [status, setStatus] = useState<'idle' | 'loading' | 'ready' | 'error'>('idle');
-  const [error, setError] = useState<string>('');
+  const [error, setError] = useState<Error | null>(null);
 
-  const initialize = useCallback(async () => {
+  const initialize = useCallback(async (options?: Parameters<typeof initializeFheInstance>[0]) => {
     setStatus('loading');
-    setError('');
+    setError(null);
     
     try {
-      const fheInstance = await initializeFheInstance();
+      const fheInstance = await initializeFheInstance(options);
       setInstance(fheInstance);
       setStatus('ready');
       console.log('✅ FHEVM initialized');
     } catch (err) {
-      setError(err instanceof Error ? err.message : 'Unknown error');
+      const fhevmError = normalizeError(err, 'Unknown error');
+      setError(fhevmError);
       setStatus('error');
       console.error('❌ FHEVM initialization failed:', err);
     }
@@ -0,0 +1,4 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+export { PointsSwap_FHE__factory } from "./PointsSwap_FHE__factory";
@@ -0,0 +1,6 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+export type { PointsSwap_FHE } from "./PointsSwap_FHE";
+export * as factories from "./factories";
+export { PointsSwap_FHE__factory } from "./factories/PointsSwap_FHE__factory";
@@ -0,0 +1,319 @@
+/**
+ * FHEVM Client - Universal SDK
+ * Owns one FHEVM instance with its network config, signer and caches,
+ * so a single page or Node process can talk to several chains/contracts.
+ */
+
+import { ethers } from "ethers";
+import { resolveBackend, type FhevmBackend, type FhevmBackendOption } from './backends.js';
+import { FhevmNotInitializedError, InvalidHandleError, toFhevmError } from './errors.js';
+import { EncryptedInputBuilder, type EncryptedInputs } from './encryption.js';
+import { createDefaultSessionManager, DecryptionSessionManager } from './sessions.js';
+import { resolveNetwork, type FhevmNetworkConfig, type FhevmNetworkOption } from './networks.js';
+
+export interface FhevmClientOptions {
+  network?: FhevmNetworkOption;
+  rpcUrl?: string;
+  /** ethers Signer used for decryption signatures and (in Node.js) transactions */
+  signer?: any;
+  /** Node.js only: build an ethers Wallet on the network's RPC provider */
+  privateKey?: string;
+  /** Defaults to IndexedDB persistence in browsers, memory in Node.js */
+  sessions?: DecryptionSessionManager;
+  /** 'relayer' (default), 'hardhat' (default for mock networks), 'mock' (in-memory) or a custom backend */
+  backend?: FhevmBackendOption;
+}
+
+export interface EncryptedInputResult {
+  encryptedData: string;
+  proof: string;
+}
+
+export interface PublicDecryptResult {
+  clearValues: { [handle: string]: bigint };
+  abiEncodedClearValues: string;
+  decryptionProof: string;
+}
+
+/**
+ * Resolve the Node.js signer: a private key wins over a signer,
+ * and signers without a provider are connected to the RPC provider
+ */
+function resolveNodeSigner(signer: any, privateKey: string | undefined, provider: ethers.JsonRpcProvider | null) {
+  if (privateKey) {
+    return new ethers.Wallet(privateKey, provider ?? undefined);
+  }
+  if (provider && signer && !signer.provider && typeof signer.connect === 'function') {
+    return signer.connect(provider);
+  }
+  return signer ?? null;
+}
+
+export class FhevmClient {
+  private instance: any = null;
+  private network: FhevmNetworkConfig;
+  private backend: FhevmBackend;
+  private rpcUrl?: string;
+  private signer: any;
+  private privateKey?: string;
+  private initializing: Promise<any> | null = null;
+  /** Plaintexts keyed by user, contract and handle, so one user's decryptions are never served to another */
+  private decryptedCache = new Map<string, bigint>();
+  private sessions: Promise<DecryptionSessionManager> | null;
+
+  constructor(options: FhevmClientOptions = {}) {
+    this.network = resolveNetwork(options.network);
+    this.backend = resolveBackend(options.backend, this.network);
+    this.rpcUrl = options.rpcUrl;
+    this.signer = options.signer ?? null;
+    this.privateKey = options.privateKey;
+    this.sessions = options.sessions ? Promise.resolve(options.sessions) : null;
+  }
+
+  /**
+   * Create the underlying instance - Environment-aware
+   * Concurrent calls share the same pending initialization
+   */
+  async initialize() {
+    if (this.instance) return this.instance;
+    if (this.initializing) return this.initializing;
+
+    this.initializing = (async () => {
+      try {
+        const rpcUrl = this.rpcUrl || this.network.rpcUrl;
+        let provider: ethers.JsonRpcProvider | null = null;
+
+        // Detect environment: Node.js needs its own provider and signer
+        if (typeof window === 'undefined' || !window.ethereum) {
+          provider = rpcUrl ? new ethers.JsonRpcProvider(rpcUrl) : null;
+          this.signer = resolveNodeSigner(this.signer, this.privateKey, provider);
+        }
+
+        this.instance = await this.backend.createInstance({
+          network: this.network,
+          rpcUrl: this.rpcUrl,
+          provider,
+          signer: this.signer,
+        });
+        return this.instance;
+      } finally {
+        this.initializing = null;
+      }
+    })();
+
+    return this.initializing;
+  }
+
+  get isInitialized() {
+    return this.instance !== null;
+  }
+
+  getInstance() {
+    return this.instance;
+  }
+
+  getNetwork(): FhevmNetworkConfig {
+    return { ...this.network };
+  }
+
+  getBackendName() {
+    return this.backend.name;
+  }
+
+  getSigner() {
+    return this.signer;
+  }
+
+  /** Also drops the decrypted values cached for the previous signer */
+  setSigner(signer: any) {
+    this.signer = signer;
+    this.decryptedCache.clear();
+  }
+
+  clearCache() {
+    this.decryptedCache.clear();
+  }
+
+  getSessionManager() {
+    if (!this.sessions) this.sessions = createDefaultSessionManager();
+    return this.sessions;
+  }
+
+  /**
+   * Forget the signed decryption session so the next decrypt asks the wallet again
+   */
+  async clearDecryptionSession(signer?: any) {
+    const userSigner = this.requireSigner(signer);
+    const sessions = await this.getSessionManager();
+    await sessions.clear(this.network.chainId, await userSigner.getAddress());
+  }
+
+  private requireInstance() {
+    if (!this.instance) throw new FhevmNotInitializedError();
+    return this.instance;
+  }
+
+  private requireSigner(signer?: any) {
+    const resolved = signer ?? this.signer;
+    if (!resolved) throw new Error('No signer available. Pass a signer or call setSigner() first.');
+    return resolved;
+  }
+
+  /**
+   * Start a typed multi-value encrypted input (one proof for all values)
+   */
+  createInput(contractAddress: string, userAddress: string) {
+    const fhe = this.requireInstance();
+    return new EncryptedInputBuilder(fhe.createEncryptedInput(contractAddress, userAddress));
+  }
+
+  /**
+   * Encrypt a single 32-bit value for contract interaction (matches showcase API)
+   */
+  async encrypt32(contractAddress: string, userAddress: string, value: number): Promise<EncryptedInputResult> {
+    console.log(`🔐 Creating encrypted input for contract ${contractAddress}, user ${userAddress}, value ${value}`);
+
+    const { handles, inputProof } = await this.createInput(contractAddress, userAddress).add32(value).encrypt();
+
+    console.log('✅ Encrypted input created successfully');
+
+    return {
+      encryptedData: handles[0],
+      proof: inputProof
+    };
+  }
+
+  /**
+   * Encrypt each digit as an 8-bit value in a single input
+   */
+  async encrypt8Digits(contractAddress: string, address: string, plainDigits: number[]): Promise<EncryptedInputs> {
+    const input = this.createInput(contractAddress, address);
+    for (const d of plainDigits) {
+      input.add8(d);
+    }
+
+    return input.encrypt();
+  }
+
+  /**
+   * Decrypt a single encrypted value using EIP-712 user decryption
+   * Values are bigints so euint64 and wider decrypt exactly; an ebool decrypts to 0n or 1n
+   */
+  async userDecrypt(handle: string, contractAddress: string, signer?: any): Promise<bigint> {
+    const values = await this.batchUserDecrypt([handle], contractAddress, signer);
+    return values[handle];
+  }
+
+  /**
+   * Batch decrypt multiple encrypted values using EIP-712 user decryption
+   * Handles this client already decrypted for the same user and contract are served from cache
+   */
+  async batchUserDecrypt(handles: string[], contractAddress: string, signer?: any): Promise<Record<string, bigint>> {
+    const fhe = this.requireInstance();
+    const userSigner = this.requireSigner(signer);
+    const userAddress = await userSigner.getAddress();
+    const cacheKey = (handle: string) =>
+      `${userAddress.toLowerCase()}:${contractAddress.toLowerCase()}:${handle.toLowerCase()}`;
+    const pending = handles.filter(handle => !this.decryptedCache.has(cacheKey(handle)));
+
+    if (pending.length > 0) {
+      try {
+        console.log('🔐 Using EIP-712 user decryption for handles:', pending);
+
+        const handleContractPairs = pending.map(handle => ({
+          handle,
+          contractAddress: contractAddress,
+        }));
+
+        // Reuses the signed keypair until it expires or a new contract is needed
+        const sessions = await this.getSessionManager();
+        const session = await sessions.getSession(fhe, userSigner, this.network.chainId, [contractAddress]);
+
+        const result = await fhe.userDecrypt(
+          handleContractPairs,
+          session.privateKey,
+          session.publicKey,
+          session.signature,
+          session.contractAddresses,
+          session.userAddress,
+          session.startTimestamp.toString(),
+          session.durationDays.toString()
+        );
+
+        for (const handle of pending) {
+          this.decryptedCache.set(cacheKey(handle), BigInt(result[handle]));
+        }
+      } catch (error) {
+        // Relayer outages, ACL denials and wallet rejections become typed errors
+        throw toFhevmError(error);
+      }
+    }
+
+    const decryptedValues: Record<string, bigint> = {};
+    for (const handle of handles) {
+      decryptedValues[handle] = this.decryptedCache.get(cacheKey(handle))!;
+    }
+
+    return decryptedValues;
+  }
+
+  /**
+   * Public decryption with the v0.9 result shape (clear values + KMS proof)
+   */
+  async publicDecrypt(handles: string[]): Promise<PublicDecryptResult> {
+    const fhe = this.requireInstance();
+
+    try {
+      console.log('🔐 Starting v0.9 public decryption for handles:', handles);
+
+      if (typeof fhe.publicDecrypt === 'function') {
+        const result = await fhe.publicDecrypt(handles);
+
+        if (result && result.clearValues && result.abiEncodedClearValues && result.decryptionProof) {
+          return result;
+        } else {
+          throw new Error('Invalid publicDecrypt result structure');
+        }
+      } else {
+        console.warn('⚠️ Using fallback decryption for v0.9 compatibility');
+
+        const clearValues: { [handle: string]: bigint } = {};
+        let abiEncodedClearValues = '0x';
+        const decryptionProof = '0x';
+
+        for (const handle of handles) {
+          if (typeof handle === "string" && handle.startsWith("0x") && handle.length === 66) {
+            const values = await fhe.publicDecrypt([handle]);
+            const clearValue = BigInt(values[handle]);
+            clearValues[handle] = clearValue;
+          } else {
+            throw new InvalidHandleError(`Invalid ciphertext handle for decryption: ${handle}`);
+          }
+        }
+
+        if (handles.length === 1) {
+
+          abiEncodedClearValues = ethers.AbiCoder.defaultAbiCoder().encode(
+            ['uint32'],
+            [clearValues[handles[0]]]
+          );
+        } else {
+
+          const values = handles.map(handle => clearValues[handle]);
+          abiEncodedClearValues = ethers.AbiCoder.defaultAbiCoder().encode(
+            Array(values.length).fill('uint32'),
+            values
+          );
+        }
+
+        return {
+          clearValues,
+          abiEncodedClearValues,
+          decryptionProof
+        };
+      }
+    } catch (error) {
+      throw toFhevmError(error);
+    }
+  }
+}
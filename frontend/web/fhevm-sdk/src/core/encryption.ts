@@ -0,0 +1,119 @@
+/**
+ * Encrypted Input Builder - Universal SDK
+ * Packs several typed values into one input proof, validating each value
+ * against its bit width before it reaches the relayer.
+ */
+
+import { ethers } from 'ethers';
+
+export interface EncryptedInputs {
+  handles: string[];
+  inputProof: string;
+}
+
+export type EncryptedValueType = 'bool' | 'uint8' | 'uint16' | 'uint32' | 'uint64' | 'uint128' | 'uint256' | 'address';
+
+type UintBits = 8 | 16 | 32 | 64 | 128 | 256;
+
+function toHex(value: Uint8Array | string) {
+  return typeof value === 'string' ? value : ethers.hexlify(value);
+}
+
+function assertUint(value: number | bigint, bits: UintBits): bigint {
+  if (typeof value === 'number' && !Number.isSafeInteger(value)) {
+    throw new RangeError(`euint${bits} value must be a safe integer, got ${value}`);
+  }
+  const big = BigInt(value);
+  const max = (1n << BigInt(bits)) - 1n;
+  if (big < 0n || big > max) {
+    throw new RangeError(`euint${bits} value out of range [0, ${max}]: ${big}`);
+  }
+  return big;
+}
+
+export class EncryptedInputBuilder {
+  private input: any;
+  private types: EncryptedValueType[] = [];
+
+  constructor(input: any) {
+    this.input = input;
+  }
+
+  /** Types added so far, in handle order */
+  get valueTypes(): readonly EncryptedValueType[] {
+    return this.types;
+  }
+
+  addBool(value: boolean | number | bigint) {
+    if (typeof value !== 'boolean' && value !== 0 && value !== 1 && value !== 0n && value !== 1n) {
+      throw new RangeError(`ebool value must be a boolean, 0 or 1, got ${value}`);
+    }
+    this.input.addBool(value);
+    this.types.push('bool');
+    return this;
+  }
+
+  add8(value: number | bigint) {
+    this.input.add8(assertUint(value, 8));
+    this.types.push('uint8');
+    return this;
+  }
+
+  add16(value: number | bigint) {
+    this.input.add16(assertUint(value, 16));
+    this.types.push('uint16');
+    return this;
+  }
+
+  add32(value: number | bigint) {
+    this.input.add32(assertUint(value, 32));
+    this.types.push('uint32');
+    return this;
+  }
+
+  add64(value: number | bigint) {
+    this.input.add64(assertUint(value, 64));
+    this.types.push('uint64');
+    return this;
+  }
+
+  add128(value: number | bigint) {
+    this.input.add128(assertUint(value, 128));
+    this.types.push('uint128');
+    return this;
+  }
+
+  add256(value: number | bigint) {
+    this.input.add256(assertUint(value, 256));
+    this.types.push('uint256');
+    return this;
+  }
+
+  addAddress(value: string) {
+    if (!ethers.isAddress(value)) {
+      throw new TypeError(`eaddress value must be a valid address, got ${value}`);
+    }
+    this.input.addAddress(ethers.getAddress(value));
+    this.types.push('address');
+    return this;
+  }
+
+  /**
+   * Encrypt all values into one proof; handles[i] matches the i-th add* call
+   */
+  async encrypt(): Promise<EncryptedInputs> {
+    if (this.types.length === 0) {
+      throw new Error('Encrypted input is empty. Add at least one value before encrypting.');
+    }
+
+    const result = await this.input.encrypt();
+    if (!result || !Array.isArray(result.handles) || result.handles.length !== this.types.length) {
+      throw new Error('Invalid encrypt() result: expected one handle per added value');
+    }
+
+    return {
+      handles: result.handles.map(toHex),
+      inputProof: toHex(result.inputProof),
+    };
+  }
+}
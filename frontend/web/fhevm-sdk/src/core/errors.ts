@@ -0,0 +1,123 @@
+/**
+ * FHEVM Error Taxonomy - Universal SDK
+ * Typed errors with stable codes so apps can branch on the kind of failure
+ * instead of matching message text. The original error is kept as `cause`.
+ */
+
+export type FhevmErrorCode =
+  | 'NOT_INITIALIZED'
+  | 'RELAYER_UNAVAILABLE'
+  | 'USER_REJECTED_SIGNATURE'
+  | 'INVALID_HANDLE'
+  | 'ACL_DENIED'
+  | 'WASM_LOAD_FAILED';
+
+export class FhevmError extends Error {
+  readonly code: FhevmErrorCode;
+  readonly cause?: unknown;
+
+  constructor(code: FhevmErrorCode, message: string, cause?: unknown) {
+    super(message);
+    this.name = 'FhevmError';
+    this.code = code;
+    this.cause = cause;
+  }
+}
+
+export class FhevmNotInitializedError extends FhevmError {
+  constructor(message = 'FHE instance not initialized. Call initializeFheInstance() first.', cause?: unknown) {
+    super('NOT_INITIALIZED', message, cause);
+    this.name = 'FhevmNotInitializedError';
+  }
+}
+
+export class RelayerUnavailableError extends FhevmError {
+  constructor(message = 'Decryption service is temporarily unavailable. Please try again later.', cause?: unknown) {
+    super('RELAYER_UNAVAILABLE', message, cause);
+    this.name = 'RelayerUnavailableError';
+  }
+}
+
+export class UserRejectedSignatureError extends FhevmError {
+  constructor(message = 'User rejected the signature request.', cause?: unknown) {
+    super('USER_REJECTED_SIGNATURE', message, cause);
+    this.name = 'UserRejectedSignatureError';
+  }
+}
+
+export class InvalidHandleError extends FhevmError {
+  constructor(message = 'Invalid ciphertext handle.', cause?: unknown) {
+    super('INVALID_HANDLE', message, cause);
+    this.name = 'InvalidHandleError';
+  }
+}
+
+export class AclDeniedError extends FhevmError {
+  constructor(message = 'Not authorized to decrypt this handle.', cause?: unknown) {
+    super('ACL_DENIED', message, cause);
+    this.name = 'AclDeniedError';
+  }
+}
+
+export class WasmLoadError extends FhevmError {
+  constructor(message = 'Failed to load the FHEVM WASM modules.', cause?: unknown) {
+    super('WASM_LOAD_FAILED', message, cause);
+    this.name = 'WasmLoadError';
+  }
+}
+
+export function isFhevmError(error: unknown, code?: FhevmErrorCode): error is FhevmError {
+  return error instanceof FhevmError && (code === undefined || error.code === code);
+}
+
+/**
+ * Wallet rejection of a signature or transaction (EIP-1193 4001 / ethers ACTION_REJECTED)
+ */
+export function isUserRejection(error: any): boolean {
+  if (error instanceof UserRejectedSignatureError) return true;
+  const code = error?.code ?? error?.info?.error?.code ?? error?.error?.code;
+  if (code === 4001 || code === 'ACTION_REJECTED') return true;
+  return /user (rejected|denied)/i.test(error?.message ?? '');
+}
+
+function isRelayerFailure(error: any): boolean {
+  const causeCode = error?.cause?.code;
+  if (typeof causeCode === 'string' && causeCode.startsWith('RELAYER_')) return true;
+
+  const message: string = error?.message ?? '';
+  return ['Failed to fetch', 'NetworkError', 'fetch failed', 'ECONNREFUSED', 'ETIMEDOUT']
+    .some(text => message.includes(text));
+}
+
+/**
+ * Classify a raw error from the relayer SDK, wallet or network.
+ * FhevmErrors pass through; unrecognised errors are returned unchanged.
+ */
+export function toFhevmError(error: unknown): unknown {
+  if (error instanceof FhevmError) return error;
+
+  const err: any = error;
+  const message: string = err?.message ?? '';
+
+  if (isUserRejection(err)) {
+    return new UserRejectedSignatureError(undefined, error);
+  }
+  if (/is not authorized to user decrypt|is not allowed for public decryption/.test(message)) {
+    return new AclDeniedError(message, error);
+  }
+  if (/Handle .* is not of valid (length|type)|Unsupported handle type|Invalid ciphertext handle/.test(message)) {
+    return new InvalidHandleError(message, error);
+  }
+  if (isRelayerFailure(err)) {
+    return new RelayerUnavailableError(undefined, error);
+  }
+  return error;
+}
+
+/**
+ * toFhevmError for UI state: always returns an Error instance
+ */
+export function normalizeError(error: unknown, fallbackMessage: string): Error {
+  const classified = toFhevmError(error);
+  return classified instanceof Error ? classified : new Error(fallbackMessage);
+}
@@ -3,8 +3,17 @@
  * Simple, clean implementation that matches showcase APIs
  */
 
-// Core FHEVM functionality - All functions consolidated in fhevm.ts
+// Core FHEVM functionality - FhevmClient plus backward-compatible free functions
+export * from './client.js';
 export * from './fhevm.js';
+export * from './backends.js';
 export * from './contracts.js';
+export * from './encryption.js';
+export * from './errors.js';
+export * from './mock.js';
+export * from './networks.js';
+export * from './pointsSwap.js';
+export * from './rates.js';
+export * from './sessions.js';
 
 
@@ -0,0 +1,273 @@
+/**
+ * In-Memory FHEVM Mock - Universal SDK
+ * Offline stand-in for the relayer instance: deterministic fake handles,
+ * a plaintext table, simulated ACL and simulated public-decrypt proofs.
+ * Nothing here is encrypted - use it for component tests and local UI work only.
+ */
+
+import { ethers } from 'ethers';
+
+export type MockFheType = 'bool' | 'uint8' | 'uint16' | 'uint32' | 'uint64' | 'uint128' | 'uint256' | 'address';
+
+interface MockCiphertext {
+  type: MockFheType;
+  value: bigint;
+}
+
+export interface MockFhevmOptions {
+  chainId: number;
+  verifyingContractAddressDecryption?: string;
+}
+
+// Type ids as encoded in byte 30 of real FHEVM handles
+const FHE_TYPE_IDS: Record<MockFheType, number> = {
+  bool: 0,
+  uint8: 2,
+  uint16: 3,
+  uint32: 4,
+  uint64: 5,
+  uint128: 6,
+  address: 7,
+  uint256: 8,
+};
+
+const FHE_TYPE_BITS: Record<MockFheType, number> = {
+  bool: 1,
+  uint8: 8,
+  uint16: 16,
+  uint32: 32,
+  uint64: 64,
+  uint128: 128,
+  address: 160,
+  uint256: 256,
+};
+
+const USER_DECRYPT_TYPES = {
+  UserDecryptRequestVerification: [
+    { name: 'publicKey', type: 'bytes' },
+    { name: 'contractAddresses', type: 'address[]' },
+    { name: 'startTimestamp', type: 'uint256' },
+    { name: 'durationDays', type: 'uint256' },
+    { name: 'extraData', type: 'bytes' },
+  ],
+};
+
+function normalizeHandle(handle: string | Uint8Array) {
+  return (typeof handle === 'string' ? handle : ethers.hexlify(handle)).toLowerCase();
+}
+
+export class MemoryFhevmInstance {
+  private ciphertexts = new Map<string, MockCiphertext>();
+  private acl = new Map<string, Set<string>>();
+  private publiclyDecryptable = new Set<string>();
+  private nonce = 0;
+  private chainId: number;
+  private verifyingContract: string;
+
+  constructor(options: MockFhevmOptions) {
+    this.chainId = options.chainId;
+    this.verifyingContract = options.verifyingContractAddressDecryption ?? ethers.ZeroAddress;
+  }
+
+  /**
+   * Deterministic handle: hash(21) | index(1) | chainId(8) | type(1) | version(1)
+   */
+  private nextHandle(seed: string, index: number, type: MockFheType) {
+    const hash = ethers.keccak256(
+      ethers.AbiCoder.defaultAbiCoder().encode(['string', 'uint256', 'uint256'], [seed, this.nonce, index])
+    );
+    return ethers.concat([
+      ethers.dataSlice(hash, 0, 21),
+      ethers.toBeHex(index, 1),
+      ethers.toBeHex(this.chainId, 8),
+      ethers.toBeHex(FHE_TYPE_IDS[type], 1),
+      '0x00',
+    ]).toLowerCase();
+  }
+
+  /**
+   * Store a plaintext and return its handle (for seeding test state)
+   */
+  createHandle(type: MockFheType, value: bigint | number | boolean | string, allowed: string[] = []) {
+    const handle = this.nextHandle('seed', 0, type);
+    this.nonce++;
+    this.ciphertexts.set(handle, { type, value: BigInt(value) });
+    for (const address of allowed) this.allow(handle, address);
+    return handle;
+  }
+
+  getClearValue(handle: string) {
+    return this.ciphertexts.get(normalizeHandle(handle))?.value;
+  }
+
+  allow(handle: string, address: string) {
+    const key = normalizeHandle(handle);
+    if (!this.acl.has(key)) this.acl.set(key, new Set());
+    this.acl.get(key)!.add(address.toLowerCase());
+  }
+
+  isAllowed(handle: string, address: string) {
+    return this.acl.get(normalizeHandle(handle))?.has(address.toLowerCase()) ?? false;
+  }
+
+  makePubliclyDecryptable(handle: string) {
+    this.publiclyDecryptable.add(normalizeHandle(handle));
+  }
+
+  reset() {
+    this.ciphertexts.clear();
+    this.acl.clear();
+    this.publiclyDecryptable.clear();
+    this.nonce = 0;
+  }
+
+  createEncryptedInput(contractAddress: string, userAddress: string) {
+    const values: MockCiphertext[] = [];
+    const add = (type: MockFheType) => (value: any) => {
+      const big = BigInt(value);
+      if (big < 0n || big >= 1n << BigInt(FHE_TYPE_BITS[type])) {
+        throw new Error(`The value exceeds the limit for ${FHE_TYPE_BITS[type]}bits integer.`);
+      }
+      values.push({ type, value: big });
+      return input;
+    };
+
+    const input = {
+      addBool: add('bool'),
+      add8: add('uint8'),
+      add16: add('uint16'),
+      add32: add('uint32'),
+      add64: add('uint64'),
+      add128: add('uint128'),
+      add256: add('uint256'),
+      addAddress: add('address'),
+      getBits: () => values.map(v => FHE_TYPE_BITS[v.type]),
+      encrypt: async () => {
+        const seed = `${contractAddress.toLowerCase()}:${userAddress.toLowerCase()}`;
+        const handles = values.map((v, index) => {
+          const handle = this.nextHandle(seed, index, v.type);
+          this.ciphertexts.set(handle, v);
+          // Inputs are usable by the submitting user and the target contract
+          this.allow(handle, userAddress);
+          this.allow(handle, contractAddress);
+          return handle;
+        });
+        this.nonce++;
+
+        const inputProof = ethers.keccak256(ethers.concat(handles.length > 0 ? handles : ['0x']));
+        return {
+          handles: handles.map(h => ethers.getBytes(h)),
+          inputProof: ethers.getBytes(inputProof),
+        };
+      },
+    };
+    return input;
+  }
+
+  generateKeypair() {
+    const seed = ethers.keccak256(ethers.toUtf8Bytes(`keypair:${this.nonce++}`));
+    return {
+      publicKey: seed,
+      privateKey: ethers.keccak256(seed),
+    };
+  }
+
+  createEIP712(publicKey: string, contractAddresses: string[], startTimestamp: string | number, durationDays: string | number) {
+    return {
+      domain: {
+        name: 'Decryption',
+        version: '1',
+        chainId: this.chainId,
+        verifyingContract: this.verifyingContract,
+      },
+      types: USER_DECRYPT_TYPES,
+      primaryType: 'UserDecryptRequestVerification',
+      message: {
+        publicKey: ethers.hexlify(publicKey),
+        contractAddresses,
+        startTimestamp: startTimestamp.toString(),
+        durationDays: durationDays.toString(),
+        extraData: '0x00',
+      },
+    };
+  }
+
+  private clearValueOf(ciphertext: MockCiphertext) {
+    if (ciphertext.type === 'bool') return ciphertext.value === 1n;
+    if (ciphertext.type === 'address') return ethers.getAddress(ethers.toBeHex(ciphertext.value, 20));
+    return ciphertext.value;
+  }
+
+  private requireCiphertext(handle: string) {
+    const ciphertext = this.ciphertexts.get(handle);
+    if (!ciphertext) throw new Error(`Handle ${handle} is not of valid type`);
+    return ciphertext;
+  }
+
+  async userDecrypt(
+    handles: { handle: string | Uint8Array; contractAddress: string }[],
+    privateKey: string,
+    publicKey: string,
+    signature: string,
+    contractAddresses: string[],
+    userAddress: string,
+    startTimestamp: string | number,
+    durationDays: string | number
+  ) {
+    const eip712 = this.createEIP712(publicKey, contractAddresses, startTimestamp, durationDays);
+    const signer = ethers.verifyTypedData(eip712.domain, USER_DECRYPT_TYPES, eip712.message, ethers.hexlify('0x' + signature.replace('0x', '')));
+    if (signer.toLowerCase() !== userAddress.toLowerCase()) {
+      throw new Error(`Invalid EIP-712 signature for user ${userAddress}`);
+    }
+
+    const expiresAt = Number(startTimestamp) + Number(durationDays) * 24 * 60 * 60;
+    if (Math.floor(Date.now() / 1000) >= expiresAt) {
+      throw new Error('User decryption request has expired');
+    }
+
+    const signedContracts = contractAddresses.map(a => a.toLowerCase());
+    const results: Record<string, bigint | boolean | string> = {};
+    for (const pair of handles) {
+      const handle = normalizeHandle(pair.handle);
+      const ciphertext = this.requireCiphertext(handle);
+
+      if (!signedContracts.includes(pair.contractAddress.toLowerCase())) {
+        throw new Error(`dapp contract ${pair.contractAddress} is not authorized to user decrypt handle ${handle}!`);
+      }
+      if (!this.isAllowed(handle, userAddress)) {
+        throw new Error(`User ${userAddress} is not authorized to user decrypt handle ${handle}!`);
+      }
+      if (!this.isAllowed(handle, pair.contractAddress)) {
+        throw new Error(`dapp contract ${pair.contractAddress} is not authorized to user decrypt handle ${handle}!`);
+      }
+      results[typeof pair.handle === 'string' ? pair.handle : handle] = this.clearValueOf(ciphertext);
+    }
+    return results;
+  }
+
+  /**
+   * Public decryption; the "proof" is a keccak of the ABI-encoded values, not a KMS signature
+   */
+  async publicDecrypt(handles: (string | Uint8Array)[]) {
+    const normalized = handles.map(normalizeHandle);
+    const clearValues: Record<string, bigint | boolean | string> = {};
+    const words: bigint[] = [];
+
+    normalized.forEach((handle, i) => {
+      const ciphertext = this.requireCiphertext(handle);
+      if (!this.publiclyDecryptable.has(handle)) {
+        throw new Error(`Handle ${handle} is not allowed for public decryption!`);
+      }
+      const original = handles[i];
+      clearValues[typeof original === 'string' ? original : handle] = this.clearValueOf(ciphertext);
+      words.push(ciphertext.value);
+    });
+
+    const abiEncodedClearValues = ethers.AbiCoder.defaultAbiCoder().encode(words.map(() => 'uint256'), words);
+    return {
+      clearValues,
+      abiEncodedClearValues,
+      decryptionProof: ethers.keccak256(abiEncodedClearValues),
+    };
+  }
+}
@@ -0,0 +1,119 @@
+/**
+ * FHEVM Network Registry - Universal SDK
+ * Known networks (Sepolia, local Hardhat) plus user-registered custom configs
+ */
+
+export interface FhevmNetworkConfig {
+  name: string;
+  chainId: number;
+  rpcUrl?: string;
+  relayerUrl?: string;
+  gatewayChainId?: number;
+  aclContractAddress?: string;
+  kmsContractAddress?: string;
+  inputVerifierContractAddress?: string;
+  verifyingContractAddressDecryption?: string;
+  verifyingContractAddressInputVerification?: string;
+  /** Use the @fhevm/mock-utils instance instead of the Zama relayer (Hardhat node with the fhevm mock) */
+  mock?: boolean;
+}
+
+export type FhevmNetworkName = 'sepolia' | 'hardhat' | (string & {});
+
+export type FhevmNetworkOption = FhevmNetworkName | FhevmNetworkConfig;
+
+const REQUIRED_ADDRESS_FIELDS = [
+  'aclContractAddress',
+  'kmsContractAddress',
+  'inputVerifierContractAddress',
+  'verifyingContractAddressDecryption',
+  'verifyingContractAddressInputVerification',
+] as const;
+
+/**
+ * Sepolia leaves the contract addresses empty on purpose: the relayer SDK's
+ * own SepoliaConfig is used as the base, so SDK upgrades keep working.
+ */
+const networks: Record<string, FhevmNetworkConfig> = {
+  sepolia: {
+    name: 'sepolia',
+    chainId: 11155111,
+    rpcUrl: 'https://sepolia.infura.io/v3/96406da962744120afbe0cf64c8bd7b3',
+  },
+  hardhat: {
+    name: 'hardhat',
+    chainId: 31337,
+    rpcUrl: 'http://127.0.0.1:8545',
+    gatewayChainId: 10901,
+    aclContractAddress: '0x50157CFfD6bBFA2DECe204a89ec419c23ef5755D',
+    kmsContractAddress: '0x901F8942346f7AB3a01F6D7613119Bca447Bb030',
+    inputVerifierContractAddress: '0x36772142b74871f255CbD7A3e89B401d3e45825f',
+    verifyingContractAddressDecryption: '0x5ffdaAB0373E62E2ea2944776209aEf29E631A64',
+    verifyingContractAddressInputVerification: '0x812b06e1CDCE800494b79fFE4f925A504a9A9810',
+    mock: true,
+  },
+};
+
+export const DEFAULT_NETWORK = 'sepolia';
+
+/**
+ * Register (or replace) a network so it can be selected by name
+ */
+export function registerNetwork(config: FhevmNetworkConfig) {
+  if (!config.name) throw new Error('Network config requires a name');
+  if (!Number.isInteger(config.chainId) || config.chainId <= 0) {
+    throw new Error(`Invalid chainId for network "${config.name}": ${config.chainId}`);
+  }
+  networks[config.name] = { ...config };
+}
+
+export function getNetworkConfig(name: FhevmNetworkName): FhevmNetworkConfig {
+  const config = networks[name];
+  if (!config) {
+    throw new Error(`Unknown FHEVM network "${name}". Known networks: ${listNetworks().join(', ')}`);
+  }
+  return { ...config };
+}
+
+export function listNetworks(): string[] {
+  return Object.keys(networks);
+}
+
+/**
+ * Resolve a network option (name or inline config) to a full config
+ */
+export function resolveNetwork(network?: FhevmNetworkOption): FhevmNetworkConfig {
+  if (!network) return getNetworkConfig(DEFAULT_NETWORK);
+  if (typeof network === 'string') return getNetworkConfig(network);
+
+  // Inline configs named after a known network inherit its defaults
+  const base = networks[network.name];
+  return base ? { ...base, ...network } : { ...network };
+}
+
+/**
+ * Build the relayer SDK instance config on top of a base config (usually SepoliaConfig)
+ */
+export function toInstanceConfig(network: FhevmNetworkConfig, baseConfig: any = {}) {
+  const config: Record<string, any> = { ...baseConfig, chainId: network.chainId };
+
+  for (const field of REQUIRED_ADDRESS_FIELDS) {
+    if (network[field]) config[field] = network[field];
+  }
+  if (network.gatewayChainId !== undefined) config.gatewayChainId = network.gatewayChainId;
+  if (network.relayerUrl) config.relayerUrl = network.relayerUrl;
+
+  const missing = REQUIRED_ADDRESS_FIELDS.filter(field => !config[field]);
+  if (missing.length > 0) {
+    throw new Error(`Network "${network.name}" is missing: ${missing.join(', ')}`);
+  }
+  if (config.gatewayChainId === undefined) {
+    throw new Error(`Network "${network.name}" is missing: gatewayChainId`);
+  }
+
+  return config;
+}
+
+export function toHexChainId(chainId: number): string {
+  return '0x' + chainId.toString(16);
+}
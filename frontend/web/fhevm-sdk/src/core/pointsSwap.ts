@@ -0,0 +1,898 @@
+/**
+ * PointsSwap Client - Universal SDK
+ * Typed wrapper over the PointsSwap_FHE contract: encrypts inputs with an
+ * FhevmClient, sends the transactions and decrypts balances and rates.
+ */
+
+import { ethers } from 'ethers';
+import { PointsSwap_FHE__factory, type PointsSwap_FHE } from '../contracts/index.js';
+import type { FhevmClient } from './client.js';
+import { getDefaultClient } from './fhevm.js';
+import { DEFAULT_RATE_DECIMALS, formatRate, parseRate } from './rates.js';
+
+export interface PointsSwapBalance {
+  brandId: string;
+  /** euint64 handle of the encrypted points; ZeroHash if the user never held this brand */
+  encryptedPoints: string;
+  publicPoints: number;
+}
+
+export type AccountStatus = 'none' | 'active' | 'suspended' | 'closed';
+
+const ACCOUNT_STATUSES: AccountStatus[] = ['none', 'active', 'suspended', 'closed'];
+
+export type PointsSwapRole = 'RATE_SETTER' | 'BRAND_ADMIN' | 'PAUSER';
+
+/** Contract-wide role ids, keccak256 of the role name. The owner implicitly holds every role. */
+export const POINTS_SWAP_ROLES: Record<PointsSwapRole, string> = {
+  RATE_SETTER: ethers.id('RATE_SETTER'),
+  BRAND_ADMIN: ethers.id('BRAND_ADMIN'),
+  PAUSER: ethers.id('PAUSER'),
+};
+
+export interface PointsSwapAccount {
+  /** 'suspended' accounts keep their balances but cannot trade or receive points until reactivated */
+  status: AccountStatus;
+  publicPoints: number;
+  /** Unix time of the last conversion, transfer or status change */
+  lastUpdated: number;
+}
+
+export interface PointsSwapBrand {
+  brandId: string;
+  displayName: string;
+  logoURI: string;
+  /** Decimals of the brand's points, for display */
+  decimals: number;
+  /** Brand's first admin; manages the other admins */
+  issuer: string;
+  /** Inactive brands cannot open accounts or take part in conversions */
+  active: boolean;
+}
+
+export interface RegisterBrandOptions {
+  /** Defaults to the brand id */
+  displayName?: string;
+  logoURI?: string;
+  decimals?: number;
+  /** Defaults to the signer */
+  issuer?: string;
+}
+
+export interface PointsMintEntry {
+  account: string;
+  amount: number | bigint;
+}
+
+export interface PointsTransfer {
+  from: string;
+  to: string;
+  brandId: string;
+  /** euint64 handle of the points actually moved; 0 if the sender was short. Both parties can decrypt it. */
+  transferred: string;
+  receipt: ethers.ContractTransactionReceipt;
+}
+
+/** An input proof covers at most 2048 bits, i.e. 32 encrypted uint64 amounts */
+export const MINT_BATCH_SIZE = 32;
+
+export interface PointsSwapRate {
+  /** euint32 handle of the encrypted rate, scaled by 10^decimals */
+  encryptedRate: string;
+  /** Public rate scaled by 10^decimals */
+  publicRate: number;
+  decimals: number;
+  /** Public rate as a decimal string, e.g. "0.8" */
+  formattedRate: string;
+}
+
+export interface PointsSwapLots {
+  brandId: string;
+  /** euint64 handles of the lots, decryptable by the user; ZeroHash if the brand never expired points for them */
+  current: string;
+  previous: string;
+  /** Unix times; 0 for brands without an expiry policy */
+  previousExpiresAt: number;
+  currentExpiresAt: number;
+}
+
+export interface PointsExpiringLot {
+  amount: bigint;
+  /** Unix time at which the lot expires */
+  expiresAt: number;
+}
+
+export interface PointsExpiry {
+  /** Live lots with points, soonest to expire first */
+  lots: PointsExpiringLot[];
+  /** Points already past their expiry but still counted in the balance until its next use */
+  expired: bigint;
+}
+
+export interface PointsSwapViewer {
+  viewer: string;
+  /** Unix time after which new balances are no longer shared with the viewer */
+  expiresAt: number;
+}
+
+/** A balance someone shared with the viewer */
+export interface PointsViewerGrant {
+  user: string;
+  brandId: string;
+  expiresAt: number;
+  /** euint64 handle of the user's current balance; ZeroHash if they never held the brand */
+  encryptedPoints: string;
+}
+
+export type RateAuctionStatus = 'none' | 'open' | 'closed' | 'settled';
+
+const RATE_AUCTION_STATUSES: RateAuctionStatus[] = ['none', 'open', 'closed', 'settled'];
+
+export interface PointsSwapRateAuction {
+  fromBrand: string;
+  toBrand: string;
+  /** Fixed-point decimals of the bids */
+  decimals: number;
+  /** Unix time after which no bids are accepted and the auction can be closed */
+  endTime: number;
+  /** euint32 handle of the highest bid; publicly decryptable once the auction is closed */
+  bestBid: string;
+  bidCount: number;
+  /** 'closed' auctions wait for revealRateAuction() to install the winning rate */
+  status: RateAuctionStatus;
+}
+
+export interface PointsSwapOffer {
+  offerId: number;
+  maker: string;
+  /** Brand the maker sells */
+  giveBrand: string;
+  /** Brand the maker is paid in */
+  wantBrand: string;
+  /** euint64 handle of the escrowed points left; only the maker can decrypt it */
+  remaining: string;
+  /** wantBrand points per giveBrand point, scaled by 10^priceDecimals */
+  price: number;
+  priceDecimals: number;
+  /** Price as a decimal string, e.g. "0.5" */
+  formattedPrice: string;
+  open: boolean;
+  createdAt: number;
+}
+
+export interface PointsOfferFill {
+  offerId: number;
+  taker: string;
+  /** euint64 handle of the giveBrand points bought; 0 if the taker could not pay. Maker and taker can decrypt it. */
+  filled: string;
+  receipt: ethers.ContractTransactionReceipt;
+}
+
+export interface PointsSwapPauseStatus {
+  /** Conversions, transfers and order book posts and fills are stopped */
+  paused: boolean;
+  /** Pairs whose conversions are stopped on their own */
+  pausedPairs: { fromBrand: string; toBrand: string }[];
+}
+
+export interface PointsSwapRoleHolders {
+  owner: string;
+  /** Proposed owner waiting to accept; ZeroAddress if none */
+  pendingOwner: string;
+  /** Explicit grants only; the owner is not listed */
+  roles: Record<PointsSwapRole, string[]>;
+}
+
+export interface PointsSwapClientOptions {
+  /** Signer for transactions and encryption; a provider is enough for reads */
+  runner: ethers.ContractRunner;
+  /** Defaults to the client behind initializeFheInstance() */
+  fhevm?: FhevmClient;
+}
+
+export class PointsSwapClient {
+  readonly address: string;
+  readonly contract: PointsSwap_FHE;
+  private fhevm?: FhevmClient;
+
+  constructor(address: string, options: PointsSwapClientOptions) {
+    this.address = address;
+    this.contract = PointsSwap_FHE__factory.connect(address, options.runner);
+    this.fhevm = options.fhevm;
+  }
+
+  private get fhe() {
+    return this.fhevm ?? getDefaultClient();
+  }
+
+  private requireSigner(): ethers.Signer {
+    const runner = this.contract.runner as ethers.Signer | null;
+    if (!runner || typeof runner.getAddress !== 'function') {
+      throw new Error('PointsSwapClient needs a signer for this call');
+    }
+    return runner;
+  }
+
+  private async encrypt32(value: number) {
+    const user = await this.requireSigner().getAddress();
+    const { handles, inputProof } = await this.fhe.createInput(this.address, user).add32(value).encrypt();
+    return { handle: handles[0], inputProof };
+  }
+
+  private async encrypt64(value: number | bigint) {
+    const user = await this.requireSigner().getAddress();
+    const { handles, inputProof } = await this.fhe.createInput(this.address, user).add64(value).encrypt();
+    return { handle: handles[0], inputProof };
+  }
+
+  private async resolveUser(user?: string) {
+    return user ?? this.requireSigner().getAddress();
+  }
+
+  private async send(tx: Promise<ethers.ContractTransactionResponse>): Promise<ethers.ContractTransactionReceipt> {
+    const receipt = await (await tx).wait();
+    if (!receipt) {
+      throw new Error("Transaction receipt is null");
+    }
+    return receipt;
+  }
+
+  /**
+   * Open an account with an encrypted starting balance of `brandId` and a public points figure
+   */
+  async createAccount(brandId: string, points: number | bigint, publicPoints: number) {
+    const { handle, inputProof } = await this.encrypt64(points);
+    return this.send(this.contract.createAccount(brandId, handle, inputProof, publicPoints));
+  }
+
+  /**
+   * Owner only. The issuer becomes the brand's admin.
+   */
+  async registerBrand(brandId: string, options: RegisterBrandOptions = {}) {
+    const issuer = await this.resolveUser(options.issuer);
+    return this.send(this.contract.registerBrand(
+      brandId,
+      options.displayName ?? brandId,
+      options.logoURI ?? '',
+      options.decimals ?? 0,
+      issuer,
+    ));
+  }
+
+  /** Owner only. `newOwner` takes over once it calls acceptOwnership(). */
+  async transferOwnership(newOwner: string) {
+    return this.send(this.contract.transferOwnership(newOwner));
+  }
+
+  /** Pending owner only */
+  async acceptOwnership() {
+    return this.send(this.contract.acceptOwnership());
+  }
+
+  /** Owner only */
+  async grantRole(role: PointsSwapRole, account: string) {
+    return this.send(this.contract.grantRole(POINTS_SWAP_ROLES[role], account));
+  }
+
+  /** Owner only */
+  async revokeRole(role: PointsSwapRole, account: string) {
+    return this.send(this.contract.revokeRole(POINTS_SWAP_ROLES[role], account));
+  }
+
+  /**
+   * PAUSER. Stops conversions, transfers, order book posts and fills, and account payouts;
+   * offers can still be cancelled.
+   */
+  async setPaused(paused: boolean) {
+    return this.send(this.contract.setPaused(paused));
+  }
+
+  /** PAUSER. Stops or resumes conversions from `fromBrand` to `toBrand` only. */
+  async setPairPaused(fromBrand: string, toBrand: string, paused: boolean) {
+    return this.send(this.contract.setPairPaused(fromBrand, toBrand, paused));
+  }
+
+  /** Brand admins */
+  async updateBrandMetadata(brandId: string, displayName: string, logoURI: string) {
+    return this.send(this.contract.updateBrandMetadata(brandId, displayName, logoURI));
+  }
+
+  /** Brand issuer */
+  async setBrandActive(brandId: string, active: boolean) {
+    return this.send(this.contract.setBrandActive(brandId, active));
+  }
+
+  /** Brand issuer */
+  async grantBrandAdmin(brandId: string, account: string) {
+    return this.send(this.contract.grantBrandAdmin(brandId, account));
+  }
+
+  /** Brand issuer */
+  async revokeBrandAdmin(brandId: string, account: string) {
+    return this.send(this.contract.revokeBrandAdmin(brandId, account));
+  }
+
+  /**
+   * Brand admins. Credit encrypted points to an existing account; the amount is never emitted.
+   */
+  async mintPoints(brandId: string, to: string, amount: number | bigint) {
+    const { handle, inputProof } = await this.encrypt64(amount);
+    return this.send(this.contract.mintPoints(brandId, to, handle, inputProof));
+  }
+
+  /**
+   * Brand admins. Mint to many accounts, one transaction per `batchSize` entries
+   */
+  async mintPointsBatch(brandId: string, entries: PointsMintEntry[], batchSize: number = MINT_BATCH_SIZE) {
+    const user = await this.requireSigner().getAddress();
+    const receipts: ethers.ContractTransactionReceipt[] = [];
+
+    for (let i = 0; i < entries.length; i += batchSize) {
+      const batch = entries.slice(i, i + batchSize);
+      const input = this.fhe.createInput(this.address, user);
+      for (const { amount } of batch) {
+        input.add64(amount);
+      }
+      const { handles, inputProof } = await input.encrypt();
+      receipts.push(await this.send(this.contract.mintPointsBatch(
+        brandId,
+        batch.map(entry => entry.account),
+        handles,
+        inputProof,
+      )));
+    }
+    return receipts;
+  }
+
+  /**
+   * Brand admins. A no-op on-chain if the account holds fewer points than `amount`.
+   * Works on suspended accounts too, e.g. for chargebacks.
+   */
+  async burnPoints(brandId: string, from: string, amount: number | bigint) {
+    const { handle, inputProof } = await this.encrypt64(amount);
+    return this.send(this.contract.burnPoints(brandId, from, handle, inputProof));
+  }
+
+  /**
+   * Admins of `toBrand` only, since conversions credit its points. Rates are decimal
+   * strings ("0.8") stored with `decimals` of precision; `publicRate` defaults to the encrypted rate.
+   */
+  async setExchangeRate(
+    fromBrand: string,
+    toBrand: string,
+    rate: string | number,
+    decimals: number = DEFAULT_RATE_DECIMALS,
+    publicRate: string | number = rate,
+  ) {
+    const scaledRate = Number(parseRate(rate, decimals));
+    const scaledPublicRate = Number(parseRate(publicRate, decimals));
+    const { handle, inputProof } = await this.encrypt32(scaledRate);
+    return this.send(this.contract.setExchangeRate(fromBrand, toBrand, handle, inputProof, scaledPublicRate, decimals));
+  }
+
+  /**
+   * Brand issuers only. Points earned in one `expiryPeriod` (seconds) expire at the end of the next; 0 disables expiry.
+   * Every change starts the lots afresh, so points held at that time never expire.
+   */
+  async setExpiryPolicy(brandId: string, expiryPeriod: number) {
+    return this.send(this.contract.setExpiryPolicy(brandId, expiryPeriod));
+  }
+
+  /**
+   * Lets `viewer` decrypt the signer's `brandId` balance, now and after every update until `expiresAt`
+   * (unix seconds). Calling it again for the same viewer changes the expiry.
+   */
+  async grantViewer(viewer: string, brandId: string, expiresAt: number) {
+    return this.send(this.contract.grantViewer(viewer, brandId, expiresAt));
+  }
+
+  /**
+   * Stops sharing future balances with `viewer`; balances it was already granted stay readable to it
+   */
+  async revokeViewer(viewer: string, brandId: string) {
+    return this.send(this.contract.revokeViewer(viewer, brandId));
+  }
+
+  /**
+   * Admins of `toBrand` only. Opens a sealed-bid auction for the pair's rate, running for `duration` seconds.
+   */
+  async openRateAuction(
+    fromBrand: string,
+    toBrand: string,
+    duration: number,
+    decimals: number = DEFAULT_RATE_DECIMALS,
+  ) {
+    return this.send(this.contract.openRateAuction(fromBrand, toBrand, decimals, duration));
+  }
+
+  /**
+   * Admins of toBrand. Bids the rate the signer's brand will honour, as a decimal string;
+   * only the highest bid of the auction counts.
+   */
+  async submitRateBid(fromBrand: string, toBrand: string, rate: string | number) {
+    const { decimals } = await this.getRateAuction(fromBrand, toBrand);
+    const { handle, inputProof } = await this.encrypt32(Number(parseRate(rate, decimals)));
+    return this.send(this.contract.submitRateBid(fromBrand, toBrand, handle, inputProof));
+  }
+
+  /**
+   * Close an auction past its end time; the winning bid becomes publicly decryptable
+   */
+  async closeRateAuction(fromBrand: string, toBrand: string) {
+    return this.send(this.contract.closeRateAuction(fromBrand, toBrand));
+  }
+
+  /**
+   * Publicly decrypt the winning bid of a closed auction and submit it with its KMS proof,
+   * which installs it as the pair's rate. Resolves to the winning rate as a decimal string.
+   */
+  async revealRateAuction(fromBrand: string, toBrand: string): Promise<string> {
+    const { bestBid, decimals } = await this.getRateAuction(fromBrand, toBrand);
+    const { clearValues, abiEncodedClearValues, decryptionProof } = await this.fhe.publicDecrypt([bestBid]);
+    await this.send(this.contract.revealRateAuction(fromBrand, toBrand, abiEncodedClearValues, decryptionProof));
+    return formatRate(clearValues[bestBid], decimals);
+  }
+
+  /**
+   * Convert points with an encrypted amount; the amount never appears in calldata or events
+   */
+  async convertPoints(fromBrand: string, toBrand: string, amount: number | bigint) {
+    const { handle, inputProof } = await this.encrypt64(amount);
+    return this.send(this.contract.convertPointsConfidential(fromBrand, toBrand, handle, inputProof));
+  }
+
+  /**
+   * Send encrypted points of one brand to another account. An amount above the balance
+   * moves nothing instead of reverting; decrypt `transferred` to see what was sent.
+   */
+  async transferPoints(brandId: string, to: string, amount: number | bigint): Promise<PointsTransfer> {
+    const { handle, inputProof } = await this.encrypt64(amount);
+    const receipt = await this.send(this.contract.transferPoints(brandId, to, handle, inputProof));
+
+    for (const log of receipt.logs) {
+      const event = this.contract.interface.parseLog(log);
+      if (event?.name === 'ConfidentialTransfer') {
+        return {
+          from: event.args.from,
+          to: event.args.to,
+          brandId: event.args.brandId,
+          transferred: event.args.amount,
+          receipt,
+        };
+      }
+    }
+    throw new Error('ConfidentialTransfer event not found in receipt');
+  }
+
+  /**
+   * Escrow encrypted `giveBrand` points for sale at a public price in `wantBrand` points.
+   * An amount above the balance escrows nothing. Resolves to the new offer id.
+   */
+  async postOffer(
+    giveBrand: string,
+    wantBrand: string,
+    amount: number | bigint,
+    price: string | number,
+    decimals: number = DEFAULT_RATE_DECIMALS,
+  ): Promise<number> {
+    const scaledPrice = Number(parseRate(price, decimals));
+    const { handle, inputProof } = await this.encrypt64(amount);
+    const receipt = await this.send(
+      this.contract.postOffer(giveBrand, wantBrand, handle, inputProof, scaledPrice, decimals),
+    );
+
+    for (const log of receipt.logs) {
+      const event = this.contract.interface.parseLog(log);
+      if (event?.name === 'OfferPosted') return Number(event.args.offerId);
+    }
+    throw new Error('OfferPosted event not found in receipt');
+  }
+
+  /**
+   * Buy up to `amount` points of an offer. The fill is capped at the remaining escrow and
+   * moves nothing if the taker cannot pay; decrypt `filled` to see what was bought.
+   */
+  async fillOffer(offerId: number, amount: number | bigint): Promise<PointsOfferFill> {
+    const { handle, inputProof } = await this.encrypt64(amount);
+    const receipt = await this.send(this.contract.fillOffer(offerId, handle, inputProof));
+
+    for (const log of receipt.logs) {
+      const event = this.contract.interface.parseLog(log);
+      if (event?.name === 'OfferFilled') {
+        return { offerId, taker: event.args.taker, filled: event.args.filled, receipt };
+      }
+    }
+    throw new Error('OfferFilled event not found in receipt');
+  }
+
+  /**
+   * Maker only. Closes the offer and refunds the unfilled escrow.
+   */
+  async cancelOffer(offerId: number) {
+    return this.send(this.contract.cancelOffer(offerId));
+  }
+
+  /**
+   * Legacy conversion with a clear uint32 amount (visible on-chain)
+   */
+  async convertPointsPublic(fromBrand: string, toBrand: string, amount: number) {
+    return this.send(this.contract.convertPoints(fromBrand, toBrand, amount));
+  }
+
+  /**
+   * Suspends the signer's account; reactivateAccount() restores it
+   */
+  async deactivateAccount() {
+    return this.send(this.contract.deactivateAccount());
+  }
+
+  async reactivateAccount() {
+    return this.send(this.contract.reactivateAccount());
+  }
+
+  /**
+   * Closes the signer's account for good and erases its balances, lots and viewer grants. Every brand
+   * balance is first credited to `payoutTo`, another active account, or forfeited if omitted.
+   * Balances of inactive brands are always forfeited.
+   * Open offers must be cancelled first, and a payout waits while the contract is paused.
+   */
+  async closeAccount(payoutTo?: string) {
+    return this.send(this.contract.closeAccount(payoutTo ?? ethers.ZeroAddress));
+  }
+
+  async updatePublicPoints(points: number) {
+    return this.send(this.contract.updatePublicPoints(points));
+  }
+
+  async getAccount(user?: string): Promise<PointsSwapAccount> {
+    const account = await this.contract.accounts(await this.resolveUser(user));
+    return {
+      status: ACCOUNT_STATUSES[Number(account.status)],
+      publicPoints: Number(account.publicPoints),
+      lastUpdated: Number(account.lastUpdated),
+    };
+  }
+
+  /** Whether the user has an active or suspended account */
+  async accountExists(user?: string): Promise<boolean> {
+    return this.contract.accountExists(await this.resolveUser(user));
+  }
+
+  /** Offers of the user that are still open; an account cannot be closed until it has none */
+  async getOpenOfferCount(user?: string): Promise<number> {
+    return Number(await this.contract.openOfferCount(await this.resolveUser(user)));
+  }
+
+  async getAccountBalance(brandId: string, user?: string): Promise<PointsSwapBalance> {
+    const account = await this.resolveUser(user);
+    const [encryptedPoints, publicPoints] = await this.contract.getAccountBalance(account, brandId);
+    return { brandId, encryptedPoints, publicPoints: Number(publicPoints) };
+  }
+
+  /**
+   * Encrypted balances of every supported brand
+   */
+  async getBrandBalances(user?: string): Promise<PointsSwapBalance[]> {
+    const account = await this.resolveUser(user);
+    const brands = await this.getSupportedBrands();
+    return Promise.all(brands.map(brandId => this.getAccountBalance(brandId, account)));
+  }
+
+  async getExchangeRate(fromBrand: string, toBrand: string): Promise<PointsSwapRate> {
+    const [encryptedRate, publicRate, decimals] = await this.contract.getExchangeRate(fromBrand, toBrand);
+    return {
+      encryptedRate,
+      publicRate: Number(publicRate),
+      decimals: Number(decimals),
+      formattedRate: formatRate(publicRate, Number(decimals)),
+    };
+  }
+
+  async getRateAuction(fromBrand: string, toBrand: string): Promise<PointsSwapRateAuction> {
+    const auction = await this.contract.getRateAuction(fromBrand, toBrand);
+    return {
+      fromBrand,
+      toBrand,
+      decimals: Number(auction.decimals),
+      endTime: Number(auction.endTime),
+      bestBid: auction.bestBid,
+      bidCount: Number(auction.bidCount),
+      status: RATE_AUCTION_STATUSES[Number(auction.status)],
+    };
+  }
+
+  /** Ids of every registered brand, including inactive ones */
+  async getSupportedBrands(): Promise<string[]> {
+    return this.contract.getSupportedBrands();
+  }
+
+  async getBrand(brandId: string): Promise<PointsSwapBrand> {
+    const brand = await this.contract.getBrand(brandId);
+    return {
+      brandId,
+      displayName: brand.displayName,
+      logoURI: brand.logoURI,
+      decimals: Number(brand.decimals),
+      issuer: brand.issuer,
+      active: brand.active,
+    };
+  }
+
+  /**
+   * Metadata of every registered brand
+   */
+  async getBrands(): Promise<PointsSwapBrand[]> {
+    const brandIds = await this.getSupportedBrands();
+    return Promise.all(brandIds.map(brandId => this.getBrand(brandId)));
+  }
+
+  /** euint64 handle of the brand's minted-minus-burned supply; ZeroHash before the first mint */
+  async getBrandSupply(brandId: string): Promise<string> {
+    return this.contract.getBrandSupply(brandId);
+  }
+
+  /** Expiry period of a brand in seconds; 0 if its points never expire */
+  async getExpiryPeriod(brandId: string): Promise<number> {
+    return Number(await this.contract.expiryPeriods(brandId));
+  }
+
+  async getPointLots(brandId: string, user?: string): Promise<PointsSwapLots> {
+    const account = await this.resolveUser(user);
+    const lots = await this.contract.getPointLots(account, brandId);
+    return {
+      brandId,
+      current: lots.current,
+      previous: lots.previous,
+      previousExpiresAt: Number(lots.previousExpiresAt),
+      currentExpiresAt: Number(lots.currentExpiresAt),
+    };
+  }
+
+  /** Viewers of a user's balance, including expired ones that were never revoked */
+  async getViewers(brandId: string, user?: string): Promise<PointsSwapViewer[]> {
+    const [viewers, expiries] = await this.contract.getViewers(await this.resolveUser(user), brandId);
+    return viewers.map((viewer, i) => ({ viewer, expiresAt: Number(expiries[i]) }));
+  }
+
+  /**
+   * Unexpired grants to `viewer` (the signer by default), found from ViewerGranted events since `fromBlock`
+   */
+  async getViewerGrants(viewer?: string, fromBlock: number = 0): Promise<PointsViewerGrant[]> {
+    // Checksummed so that the comparison below does not depend on the caller's casing
+    const account = ethers.getAddress(await this.resolveUser(viewer));
+    const events = await this.contract.queryFilter(this.contract.filters.ViewerGranted(undefined, account), fromBlock);
+    const pairs = new Map(events.map(e => [`${e.args.user}/${e.args.brandId}`, e.args]));
+
+    const now = Math.floor(Date.now() / 1000);
+    const grants = await Promise.all(
+      [...pairs.values()].map(async ({ user, brandId }): Promise<PointsViewerGrant | null> => {
+        const grant = (await this.getViewers(brandId, user)).find(v => ethers.getAddress(v.viewer) === account);
+        if (!grant || grant.expiresAt <= now) return null;
+
+        const { encryptedPoints } = await this.getAccountBalance(brandId, user);
+        return { user, brandId, expiresAt: grant.expiresAt, encryptedPoints };
+      }),
+    );
+    return grants.filter((grant): grant is PointsViewerGrant => grant !== null);
+  }
+
+  async getOwner(): Promise<string> {
+    return this.contract.owner();
+  }
+
+  /** ZeroAddress unless an ownership transfer is waiting to be accepted */
+  async getPendingOwner(): Promise<string> {
+    return this.contract.pendingOwner();
+  }
+
+  async hasRole(role: PointsSwapRole, account?: string): Promise<boolean> {
+    return this.contract.hasRole(POINTS_SWAP_ROLES[role], await this.resolveUser(account));
+  }
+
+  /**
+   * Current holders of each role, found by replaying RoleGranted and RoleRevoked events since `fromBlock`
+   */
+  async getRoleHolders(fromBlock: number = 0): Promise<PointsSwapRoleHolders> {
+    const [owner, pendingOwner, granted, revoked] = await Promise.all([
+      this.getOwner(),
+      this.getPendingOwner(),
+      this.contract.queryFilter(this.contract.filters.RoleGranted(), fromBlock),
+      this.contract.queryFilter(this.contract.filters.RoleRevoked(), fromBlock),
+    ]);
+    const events = [...granted, ...revoked].sort((a, b) => a.blockNumber - b.blockNumber || a.index - b.index);
+
+    const holders = new Map<string, Set<string>>();
+    for (const event of events) {
+      const accounts = holders.get(event.args.role) ?? new Set<string>();
+      if (event.eventName === 'RoleGranted') {
+        accounts.add(event.args.account);
+      } else {
+        accounts.delete(event.args.account);
+      }
+      holders.set(event.args.role, accounts);
+    }
+
+    const roles = Object.fromEntries(
+      (Object.keys(POINTS_SWAP_ROLES) as PointsSwapRole[]).map(role => [
+        role,
+        [...(holders.get(POINTS_SWAP_ROLES[role]) ?? [])],
+      ]),
+    ) as Record<PointsSwapRole, string[]>;
+    return { owner, pendingOwner, roles };
+  }
+
+  async isPaused(): Promise<boolean> {
+    return this.contract.paused();
+  }
+
+  async isPairPaused(fromBrand: string, toBrand: string): Promise<boolean> {
+    return this.contract.isPairPaused(fromBrand, toBrand);
+  }
+
+  /**
+   * Global pause flag and every paused pair, checked across all registered brands
+   */
+  async getPauseStatus(): Promise<PointsSwapPauseStatus> {
+    const brands = await this.getSupportedBrands();
+    const pairs = brands.flatMap(fromBrand =>
+      brands.filter(toBrand => toBrand !== fromBrand).map(toBrand => ({ fromBrand, toBrand })),
+    );
+    const [paused, flags] = await Promise.all([
+      this.isPaused(),
+      Promise.all(pairs.map(({ fromBrand, toBrand }) => this.isPairPaused(fromBrand, toBrand))),
+    ]);
+    return { paused, pausedPairs: pairs.filter((_, i) => flags[i]) };
+  }
+
+  async isBrandAdmin(brandId: string, account?: string): Promise<boolean> {
+    return this.contract.isBrandAdmin(brandId, await this.resolveUser(account));
+  }
+
+  async getOffer(offerId: number): Promise<PointsSwapOffer> {
+    const offer = await this.contract.getOffer(offerId);
+    const priceDecimals = Number(offer.priceDecimals);
+    return {
+      offerId,
+      maker: offer.maker,
+      giveBrand: offer.giveBrand,
+      wantBrand: offer.wantBrand,
+      remaining: offer.remaining,
+      price: Number(offer.price),
+      priceDecimals,
+      formattedPrice: formatRate(offer.price, priceDecimals),
+      open: offer.open,
+      createdAt: Number(offer.createdAt),
+    };
+  }
+
+  /**
+   * Every offer ever posted, newest first; filter on `open` for the live book
+   */
+  async getOffers(): Promise<PointsSwapOffer[]> {
+    const count = Number(await this.contract.offerCount());
+    const offerIds = Array.from({ length: count }, (_, i) => count - 1 - i);
+    return Promise.all(offerIds.map(offerId => this.getOffer(offerId)));
+  }
+
+  /**
+   * User-decrypt a user's points of one brand. Balances are ACL'd to their owner, so the signer
+   * must be `user` (the default).
+   */
+  async decryptBalance(brandId: string, user?: string): Promise<bigint> {
+    const { encryptedPoints } = await this.getAccountBalance(brandId, user);
+    if (encryptedPoints === ethers.ZeroHash) return 0n;
+
+    return await this.fhe.userDecrypt(encryptedPoints, this.address, this.requireSigner());
+  }
+
+  /**
+   * User-decrypt every brand balance with one signature; brands never held decrypt to 0
+   */
+  async decryptBrandBalances(user?: string): Promise<Record<string, bigint>> {
+    const balances = await this.getBrandBalances(user);
+    const handles = balances.map(b => b.encryptedPoints).filter(h => h !== ethers.ZeroHash);
+    const clearValues = handles.length > 0
+      ? await this.fhe.batchUserDecrypt(handles, this.address, this.requireSigner())
+      : {};
+
+    const result: Record<string, bigint> = {};
+    for (const { brandId, encryptedPoints } of balances) {
+      result[brandId] = encryptedPoints === ethers.ZeroHash ? 0n : clearValues[encryptedPoints];
+    }
+    return result;
+  }
+
+  /**
+   * User-decrypt every balance shared with the signer, with one signature
+   */
+  async decryptViewerBalances(fromBlock: number = 0): Promise<(PointsViewerGrant & { points: bigint })[]> {
+    const signer = this.requireSigner();
+    const grants = await this.getViewerGrants(await signer.getAddress(), fromBlock);
+    const handles = grants.map(g => g.encryptedPoints).filter(h => h !== ethers.ZeroHash);
+    const clearValues = handles.length > 0 ? await this.fhe.batchUserDecrypt(handles, this.address, signer) : {};
+
+    return grants.map(grant => ({
+      ...grant,
+      points: grant.encryptedPoints === ethers.ZeroHash ? 0n : clearValues[grant.encryptedPoints],
+    }));
+  }
+
+  /**
+   * User-decrypt whether the signer's last conversion went through;
+   * null if the signer never converted. Insufficient funds, or a result too large for a
+   * balance, make a conversion a no-op.
+   */
+  async decryptLastConversion(): Promise<boolean | null> {
+    const signer = this.requireSigner();
+    const flag = await this.contract.getLastConversionResult(await signer.getAddress());
+    if (flag === ethers.ZeroHash) return null;
+
+    return (await this.fhe.userDecrypt(flag, this.address, signer)) === 1n;
+  }
+
+  /**
+   * User-decrypt the amount moved by a transfer; only its sender and recipient can
+   */
+  async decryptTransfer(transfer: Pick<PointsTransfer, 'transferred'>): Promise<bigint> {
+    return await this.fhe.userDecrypt(transfer.transferred, this.address, this.requireSigner());
+  }
+
+  /**
+   * User-decrypt the points still escrowed in an offer; only its maker can
+   */
+  async decryptOfferRemaining(offerId: number): Promise<bigint> {
+    const { remaining } = await this.getOffer(offerId);
+    return await this.fhe.userDecrypt(remaining, this.address, this.requireSigner());
+  }
+
+  /**
+   * User-decrypt the points bought by a fill; only the offer's maker and the taker can
+   */
+  async decryptFill(fill: Pick<PointsOfferFill, 'filled'>): Promise<bigint> {
+    return await this.fhe.userDecrypt(fill.filled, this.address, this.requireSigner());
+  }
+
+  /**
+   * User-decrypt the signer's lots of an expiring brand. The contract removes expired lots lazily,
+   * so lots past their time are reported as `expired` rather than as live lots.
+   */
+  async decryptExpiringPoints(brandId: string): Promise<PointsExpiry> {
+    const signer = this.requireSigner();
+    const lots = await this.getPointLots(brandId, await signer.getAddress());
+    if (lots.currentExpiresAt === 0) return { lots: [], expired: 0n };
+
+    const values = await this.fhe.batchUserDecrypt([lots.previous, lots.current], this.address, signer);
+    const now = Math.floor(Date.now() / 1000);
+    const result: PointsExpiry = { lots: [], expired: 0n };
+    const ordered = [[lots.previous, lots.previousExpiresAt], [lots.current, lots.currentExpiresAt]] as const;
+    for (const [handle, expiresAt] of ordered) {
+      const amount = values[handle];
+      if (amount === 0n) continue;
+      if (expiresAt <= now) {
+        result.expired += amount;
+      } else {
+        result.lots.push({ amount, expiresAt });
+      }
+    }
+    return result;
+  }
+
+  /**
+   * User-decrypt a brand's total supply; only its issuer and the admins who minted or burned can
+   */
+  async decryptBrandSupply(brandId: string): Promise<bigint> {
+    const supply = await this.getBrandSupply(brandId);
+    if (supply === ethers.ZeroHash) return 0n;
+
+    return await this.fhe.userDecrypt(supply, this.address, this.requireSigner());
+  }
+
+  /**
+   * Decrypt the encrypted rate of a pair as a decimal string, e.g. "0.8"
+   */
+  async decryptExchangeRate(fromBrand: string, toBrand: string): Promise<string> {
+    const { encryptedRate, decimals } = await this.getExchangeRate(fromBrand, toBrand);
+    const { clearValues } = await this.fhe.publicDecrypt([encryptedRate]);
+    return formatRate(clearValues[encryptedRate], decimals);
+  }
+}
@@ -0,0 +1,64 @@
+/**
+ * Fixed-Point Rates - Universal SDK
+ * PointsSwap_FHE stores each pair's rate as an integer scaled by 10^decimals,
+ * e.g. 0.8 with 4 decimals is 8000. These helpers convert to and from that form.
+ */
+
+import { ethers } from 'ethers';
+
+export const DEFAULT_RATE_DECIMALS = 4;
+
+/** Mirrors PointsSwap_FHE.MAX_RATE_DECIMALS */
+export const MAX_RATE_DECIMALS = 9;
+
+const MAX_UINT32 = 0xffffffffn;
+
+function assertDecimals(decimals: number) {
+  if (!Number.isInteger(decimals) || decimals < 0 || decimals > MAX_RATE_DECIMALS) {
+    throw new Error(`Rate decimals must be an integer between 0 and ${MAX_RATE_DECIMALS}, got ${decimals}`);
+  }
+}
+
+/**
+ * Parse a decimal rate ("0.8") into its scaled uint32 form (8000 with 4 decimals)
+ */
+export function parseRate(rate: string | number, decimals: number = DEFAULT_RATE_DECIMALS): bigint {
+  assertDecimals(decimals);
+
+  let scaled: bigint;
+  try {
+    scaled = ethers.parseUnits(String(rate).trim(), decimals);
+  } catch (error) {
+    throw new Error(`Invalid rate "${rate}": expected a decimal number with at most ${decimals} decimals`);
+  }
+
+  if (scaled <= 0n || scaled > MAX_UINT32) {
+    throw new Error(`Rate ${rate} is out of range for ${decimals} decimals`);
+  }
+  return scaled;
+}
+
+/**
+ * Format a scaled rate back into a decimal string (8000 with 4 decimals is "0.8")
+ */
+export function formatRate(scaled: number | bigint, decimals: number = DEFAULT_RATE_DECIMALS): string {
+  assertDecimals(decimals);
+  return ethers.formatUnits(scaled, decimals).replace(/\.0$/, '');
+}
+
+/**
+ * Points received for `amount` at a scaled rate, rounded down like the contract
+ */
+export function applyRate(amount: number | bigint, scaled: number | bigint, decimals: number = DEFAULT_RATE_DECIMALS): bigint {
+  assertDecimals(decimals);
+  return (BigInt(amount) * BigInt(scaled)) / 10n ** BigInt(decimals);
+}
+
+/**
+ * Points an order book taker pays for `amount` at a scaled price, rounded up like the contract
+ */
+export function fillCost(amount: number | bigint, price: number | bigint, decimals: number = DEFAULT_RATE_DECIMALS): bigint {
+  assertDecimals(decimals);
+  const scale = 10n ** BigInt(decimals);
+  return (BigInt(amount) * BigInt(price) + scale - 1n) / scale;
+}
@@ -0,0 +1,364 @@
+/**
+ * Decryption Sessions - Universal SDK
+ * Reuses one keypair + EIP-712 signature for its validity window,
+ * so balance refreshes don't trigger a wallet popup every time.
+ */
+
+export interface DecryptionSession {
+  publicKey: string;
+  privateKey: string;
+  signature: string;
+  userAddress: string;
+  chainId: number;
+  contractAddresses: string[];
+  startTimestamp: number;
+  durationDays: number;
+}
+
+export interface SessionStore {
+  load(key: string): Promise<string | null>;
+  save(key: string, data: string): Promise<void>;
+  remove(key: string): Promise<void>;
+}
+
+export interface SessionCipher {
+  encrypt(plaintext: string): Promise<string>;
+  decrypt(ciphertext: string): Promise<string>;
+}
+
+export interface DecryptionSessionOptions {
+  store?: SessionStore;
+  /** Required whenever `store` persists outside memory */
+  cipher?: SessionCipher;
+  durationDays?: number;
+  /** Re-sign this many seconds before the signature actually expires */
+  expiryMarginSeconds?: number;
+}
+
+const DEFAULT_DURATION_DAYS = 10;
+const DEFAULT_EXPIRY_MARGIN_SECONDS = 60;
+const SECONDS_PER_DAY = 24 * 60 * 60;
+
+function toBase64(bytes: Uint8Array) {
+  let binary = '';
+  for (const b of bytes) binary += String.fromCharCode(b);
+  return btoa(binary);
+}
+
+function fromBase64(data: string) {
+  return Uint8Array.from(atob(data), c => c.charCodeAt(0));
+}
+
+/**
+ * AES-GCM cipher over a WebCrypto key (browsers and Node.js >= 18)
+ */
+export function createAesCipher(key: CryptoKey): SessionCipher {
+  return {
+    async encrypt(plaintext: string) {
+      const iv = globalThis.crypto.getRandomValues(new Uint8Array(12));
+      const data = new TextEncoder().encode(plaintext);
+      const encrypted = await globalThis.crypto.subtle.encrypt({ name: 'AES-GCM', iv }, key, data);
+      return `${toBase64(iv)}.${toBase64(new Uint8Array(encrypted))}`;
+    },
+    async decrypt(ciphertext: string) {
+      const [iv, data] = ciphertext.split('.');
+      const decrypted = await globalThis.crypto.subtle.decrypt(
+        { name: 'AES-GCM', iv: fromBase64(iv) },
+        key,
+        fromBase64(data)
+      );
+      return new TextDecoder().decode(decrypted);
+    },
+  };
+}
+
+/**
+ * AES-GCM cipher keyed by the SHA-256 of a secret (e.g. an env variable in Node.js)
+ */
+export async function createSecretCipher(secret: string): Promise<SessionCipher> {
+  const digest = await globalThis.crypto.subtle.digest('SHA-256', new TextEncoder().encode(secret));
+  const key = await globalThis.crypto.subtle.importKey('raw', digest, 'AES-GCM', false, ['encrypt', 'decrypt']);
+  return createAesCipher(key);
+}
+
+export class MemorySessionStore implements SessionStore {
+  private entries = new Map<string, string>();
+
+  async load(key: string) {
+    return this.entries.get(key) ?? null;
+  }
+
+  async save(key: string, data: string) {
+    this.entries.set(key, data);
+  }
+
+  async remove(key: string) {
+    this.entries.delete(key);
+  }
+}
+
+const IDB_NAME = 'fhevm-sdk';
+const IDB_STORE = 'decryption-sessions';
+const IDB_CIPHER_KEY = '__cipher-key__';
+
+function idbRequest<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+/**
+ * Browser store backed by IndexedDB
+ * Also keeps the non-extractable AES key used by `getBrowserCipher`
+ */
+export class IndexedDbSessionStore implements SessionStore {
+  private db: Promise<IDBDatabase> | null = null;
+
+  private open() {
+    if (!this.db) {
+      const request = indexedDB.open(IDB_NAME, 1);
+      request.onupgradeneeded = () => request.result.createObjectStore(IDB_STORE);
+      this.db = idbRequest(request);
+    }
+    return this.db;
+  }
+
+  private async objectStore(mode: IDBTransactionMode) {
+    const db = await this.open();
+    return db.transaction(IDB_STORE, mode).objectStore(IDB_STORE);
+  }
+
+  async load(key: string) {
+    const value = await idbRequest((await this.objectStore('readonly')).get(key));
+    return typeof value === 'string' ? value : null;
+  }
+
+  async save(key: string, data: string) {
+    await idbRequest((await this.objectStore('readwrite')).put(data, key));
+  }
+
+  async remove(key: string) {
+    await idbRequest((await this.objectStore('readwrite')).delete(key));
+  }
+
+  /**
+   * AES cipher whose key never leaves IndexedDB (generated on first use)
+   */
+  async getBrowserCipher(): Promise<SessionCipher> {
+    let key = await idbRequest((await this.objectStore('readonly')).get(IDB_CIPHER_KEY)) as CryptoKey | undefined;
+    if (!key) {
+      key = await globalThis.crypto.subtle.generateKey({ name: 'AES-GCM', length: 256 }, false, ['encrypt', 'decrypt']);
+      await idbRequest((await this.objectStore('readwrite')).put(key, IDB_CIPHER_KEY));
+    }
+    return createAesCipher(key);
+  }
+}
+
+/**
+ * Node.js store writing one JSON file (written with 0600 permissions)
+ */
+export class FileSessionStore implements SessionStore {
+  constructor(private filePath: string) {}
+
+  private async readAll(): Promise<Record<string, string>> {
+    // Use eval to prevent bundlers from analyzing Node-only imports
+    const fs = await eval('import("fs/promises")');
+    try {
+      return JSON.parse(await fs.readFile(this.filePath, 'utf8'));
+    } catch (err: any) {
+      if (err?.code === 'ENOENT') return {};
+      throw err;
+    }
+  }
+
+  private async writeAll(entries: Record<string, string>) {
+    const fs = await eval('import("fs/promises")');
+    await fs.writeFile(this.filePath, JSON.stringify(entries, null, 2), { mode: 0o600 });
+  }
+
+  async load(key: string) {
+    return (await this.readAll())[key] ?? null;
+  }
+
+  async save(key: string, data: string) {
+    const entries = await this.readAll();
+    entries[key] = data;
+    await this.writeAll(entries);
+  }
+
+  async remove(key: string) {
+    const entries = await this.readAll();
+    delete entries[key];
+    await this.writeAll(entries);
+  }
+}
+
+/**
+ * Keeps one decryption session per (chain, user), widening the signed
+ * contract set when a new contract is requested.
+ */
+export class DecryptionSessionManager {
+  private store: SessionStore;
+  private cipher?: SessionCipher;
+  private durationDays: number;
+  private expiryMarginSeconds: number;
+  private sessions = new Map<string, DecryptionSession>();
+  private pending = new Map<string, Promise<DecryptionSession>>();
+
+  constructor(options: DecryptionSessionOptions = {}) {
+    this.store = options.store ?? new MemorySessionStore();
+    this.cipher = options.cipher;
+    this.durationDays = options.durationDays ?? DEFAULT_DURATION_DAYS;
+    this.expiryMarginSeconds = options.expiryMarginSeconds ?? DEFAULT_EXPIRY_MARGIN_SECONDS;
+
+    if (!this.cipher && !(this.store instanceof MemorySessionStore)) {
+      throw new Error('A SessionCipher is required to persist decryption sessions');
+    }
+  }
+
+  private sessionKey(chainId: number, userAddress: string) {
+    return `${chainId}:${userAddress.toLowerCase()}`;
+  }
+
+  isValid(session: DecryptionSession, contractAddresses: string[], now = Math.floor(Date.now() / 1000)) {
+    const expiresAt = session.startTimestamp + session.durationDays * SECONDS_PER_DAY;
+    if (now >= expiresAt - this.expiryMarginSeconds) return false;
+
+    const signed = new Set(session.contractAddresses.map(a => a.toLowerCase()));
+    return contractAddresses.every(a => signed.has(a.toLowerCase()));
+  }
+
+  /**
+   * Return a valid session covering `contractAddresses`, signing a new one if needed
+   */
+  async getSession(fhe: any, signer: any, chainId: number, contractAddresses: string[]): Promise<DecryptionSession> {
+    const userAddress = await signer.getAddress();
+    const key = this.sessionKey(chainId, userAddress);
+
+    const cached = this.sessions.get(key) ?? await this.loadSession(key);
+    if (cached && this.isValid(cached, contractAddresses)) {
+      return cached;
+    }
+
+    // Concurrent callers share one signature request
+    const inFlight = this.pending.get(key);
+    if (inFlight) {
+      const session = await inFlight;
+      if (this.isValid(session, contractAddresses)) return session;
+    }
+
+    const previous = cached && this.isValid(cached, []) ? cached.contractAddresses : [];
+    const request = this.createSession(fhe, signer, userAddress, chainId, [...previous, ...contractAddresses]);
+    this.pending.set(key, request);
+    try {
+      const session = await request;
+      this.sessions.set(key, session);
+      await this.saveSession(key, session);
+      return session;
+    } finally {
+      this.pending.delete(key);
+    }
+  }
+
+  async clear(chainId: number, userAddress: string) {
+    const key = this.sessionKey(chainId, userAddress);
+    this.sessions.delete(key);
+    await this.store.remove(key);
+  }
+
+  private async createSession(
+    fhe: any,
+    signer: any,
+    userAddress: string,
+    chainId: number,
+    contractAddresses: string[]
+  ): Promise<DecryptionSession> {
+    const unique = [...new Map(contractAddresses.map(a => [a.toLowerCase(), a])).values()];
+    const keypair = fhe.generateKeypair();
+    const startTimestamp = Math.floor(Date.now() / 1000);
+
+    console.log(`✍️ Signing decryption session for ${unique.length} contract(s)`);
+
+    const eip712 = fhe.createEIP712(
+      keypair.publicKey,
+      unique,
+      startTimestamp.toString(),
+      this.durationDays.toString()
+    );
+
+    const signature = await signer.signTypedData(
+      eip712.domain,
+      {
+        UserDecryptRequestVerification: eip712.types.UserDecryptRequestVerification,
+      },
+      eip712.message
+    );
+
+    return {
+      publicKey: keypair.publicKey,
+      privateKey: keypair.privateKey,
+      signature: signature.replace("0x", ""),
+      userAddress,
+      chainId,
+      contractAddresses: unique,
+      startTimestamp,
+      durationDays: this.durationDays,
+    };
+  }
+
+  private async loadSession(key: string): Promise<DecryptionSession | null> {
+    try {
+      const stored = await this.store.load(key);
+      if (!stored) return null;
+      const json = this.cipher ? await this.cipher.decrypt(stored) : stored;
+      const session = JSON.parse(json) as DecryptionSession;
+      this.sessions.set(key, session);
+      return session;
+    } catch (err) {
+      console.warn('⚠️ Ignoring unreadable decryption session:', err);
+      return null;
+    }
+  }
+
+  private async saveSession(key: string, session: DecryptionSession) {
+    try {
+      const json = JSON.stringify(session);
+      await this.store.save(key, this.cipher ? await this.cipher.encrypt(json) : json);
+    } catch (err) {
+      // Persistence is best effort: the in-memory session still works
+      console.warn('⚠️ Failed to persist decryption session:', err);
+    }
+  }
+}
+
+/**
+ * Default manager: IndexedDB + non-extractable AES key in browsers, memory elsewhere
+ */
+export async function createDefaultSessionManager(options: Omit<DecryptionSessionOptions, 'store' | 'cipher'> = {}) {
+  if (typeof indexedDB !== 'undefined') {
+    try {
+      const store = new IndexedDbSessionStore();
+      const cipher = await store.getBrowserCipher();
+      return new DecryptionSessionManager({ ...options, store, cipher });
+    } catch (err) {
+      console.warn('⚠️ IndexedDB unavailable, keeping decryption sessions in memory:', err);
+    }
+  }
+  return new DecryptionSessionManager(options);
+}
+
+/**
+ * Node.js manager persisting sessions to `filePath`, encrypted with `secret`
+ */
+export async function createFileSessionManager(
+  filePath: string,
+  secret: string,
+  options: Omit<DecryptionSessionOptions, 'store' | 'cipher'> = {}
+) {
+  return new DecryptionSessionManager({
+    ...options,
+    store: new FileSessionStore(filePath),
+    cipher: await createSecretCipher(secret),
+  });
+}
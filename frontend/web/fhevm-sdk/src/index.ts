@@ -6,6 +6,9 @@
 // Core FHEVM functionality
 export * from './core/index.js';
 
+// Typechain bindings for the PointsSwap_FHE contract
+export { PointsSwap_FHE__factory, type PointsSwap_FHE } from './contracts/index.js';
+
 // Framework adapters - explicit exports to avoid conflicts
 export { useWallet, useFhevm, useContract, useDecrypt, useEncrypt } from './adapters/react.js';
 
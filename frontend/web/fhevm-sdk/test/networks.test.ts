@@ -0,0 +1,32 @@
+import { describe, expect, it } from 'vitest';
+import { getNetworkConfig, resolveNetwork, toInstanceConfig } from '../src/core/networks.js';
+
+/**
+ * What the @fhevm/hardhat-plugin mock serves through fhevm_relayer_metadata, from its internal
+ * constants: the gateway chain id is ZAMA_FHE_RELAYER_SDK_PACKAGE.sepolia.gatewayChainId, the ACL
+ * and KMS verifier come from FHEVM_SOLIDITY_PACKAGE.LocalConfig.
+ */
+const HARDHAT_PLUGIN = {
+  chainId: 31337,
+  gatewayChainId: 10901,
+  aclContractAddress: '0x50157CFfD6bBFA2DECe204a89ec419c23ef5755D',
+  kmsContractAddress: '0x901F8942346f7AB3a01F6D7613119Bca447Bb030',
+  verifyingContractAddressDecryption: '0x5ffdaAB0373E62E2ea2944776209aEf29E631A64',
+  verifyingContractAddressInputVerification: '0x812b06e1CDCE800494b79fFE4f925A504a9A9810',
+};
+
+describe('network registry', () => {
+  it('matches the hardhat plugin mock', () => {
+    expect(getNetworkConfig('hardhat')).toMatchObject({ ...HARDHAT_PLUGIN, mock: true });
+  });
+
+  it('builds the hardhat instance config against the mock gateway', () => {
+    const config = toInstanceConfig(resolveNetwork('hardhat'));
+    expect(config.gatewayChainId).toBe(HARDHAT_PLUGIN.gatewayChainId);
+    expect(config.verifyingContractAddressDecryption).toBe(HARDHAT_PLUGIN.verifyingContractAddressDecryption);
+  });
+
+  it('lets inline configs override the registry', () => {
+    expect(resolveNetwork({ name: 'hardhat', chainId: 31337, gatewayChainId: 1 }).gatewayChainId).toBe(1);
+  });
+});
@@ -1,66 +1,75 @@
 import { ConnectButton } from '@rainbow-me/rainbowkit';
 import '@rainbow-me/rainbowkit/styles.css';
-import React, { JSX, useEffect, useState } from "react";
-import { getContractReadOnly, getContractWithSigner } from "./components/useContract";
+import React, { useEffect, useState } from "react";
+import { ethers } from "ethers";
+import { Link } from "react-router-dom";
+import BrandBalances from "./components/BrandBalances";
+import ConvertPoints from "./components/ConvertPoints";
+import TransferPoints from "./components/TransferPoints";
+import ViewerAccess from "./components/ViewerAccess";
+import { getPointsSwapClient, pointsSwapAddress } from "./components/pointsSwap";
 import "./App.css";
 import { useAccount } from 'wagmi';
-import { useFhevm, useEncrypt, useDecrypt } from '../fhevm-sdk/src';
-import { ethers } from 'ethers';
-
-interface PointsSwapData {
-  id: number;
-  brand: string;
-  points: string;
-  exchangeRate: string;
-  timestamp: number;
-  creator: string;
-  publicValue1: number;
-  publicValue2: number;
-  isVerified?: boolean;
-  decryptedValue?: number;
-  encryptedValueHandle?: string;
-}
-
-interface SwapAnalysis {
-  liquidityScore: number;
-  rateAdvantage: number;
-  securityLevel: number;
-  popularity: number;
-  growthPotential: number;
-}
+import {
+  useFhevm,
+  isFhevmError,
+  isUserRejection,
+  parseRate,
+  fillCost,
+  DEFAULT_RATE_DECIMALS,
+  type AccountStatus,
+  type PointsSwapAccount,
+  type PointsSwapBrand,
+  type PointsSwapOffer,
+  type PointsSwapPauseStatus,
+} from '../fhevm-sdk/src';
+
+const emptyOffer = { giveBrand: "", wantBrand: "", amount: "", price: "" };
+
+const historyLabels: Record<string, string> = { post: "挂单", fill: "吃单", cancel: "撤单" };
+
+const accountStatusLabels: Record<AccountStatus, string> = {
+  none: "未创建",
+  active: "🟢 正常",
+  suspended: "⏸ 已暂停",
+  closed: "⚪ 已注销",
+};
+
+const shortAddress = (account: string) => `${account.substring(0, 6)}...${account.substring(38)}`;
 
 const App: React.FC = () => {
   const { address, isConnected } = useAccount();
   const [loading, setLoading] = useState(true);
-  const [swaps, setSwaps] = useState<PointsSwapData[]>([]);
+  const [offers, setOffers] = useState<PointsSwapOffer[]>([]);
+  const [brands, setBrands] = useState<PointsSwapBrand[]>([]);
   const [isRefreshing, setIsRefreshing] = useState(false);
   const [showCreateModal, setShowCreateModal] = useState(false);
-  const [creatingSwap, setCreatingSwap] = useState(false);
+  const [postingOffer, setPostingOffer] = useState(false);
   const [transactionStatus, setTransactionStatus] = useState<{ visible: boolean; status: "pending" | "success" | "error"; message: string; }>({ 
     visible: false, 
     status: "pending" as const, 
     message: "" 
   });
-  const [newSwapData, setNewSwapData] = useState({ brand: "", points: "", rate: "" });
-  const [selectedSwap, setSelectedSwap] = useState<PointsSwapData | null>(null);
-  const [decryptedData, setDecryptedData] = useState<{ points: number | null; rate: number | null }>({ points: null, rate: null });
-  const [isDecrypting, setIsDecrypting] = useState(false);
-  const [contractAddress, setContractAddress] = useState("");
+  const [newOfferData, setNewOfferData] = useState(emptyOffer);
+  const [selectedOffer, setSelectedOffer] = useState<PointsSwapOffer | null>(null);
   const [fhevmInitializing, setFhevmInitializing] = useState(false);
   const [searchTerm, setSearchTerm] = useState("");
   const [filterBrand, setFilterBrand] = useState("all");
+  const [showClosed, setShowClosed] = useState(false);
   const [showFAQ, setShowFAQ] = useState(false);
   const [userHistory, setUserHistory] = useState<any[]>([]);
+  const [balancesVersion, setBalancesVersion] = useState(0);
+  const [account, setAccount] = useState<PointsSwapAccount | null>(null);
+  const [showSettings, setShowSettings] = useState(false);
+  const [pauseStatus, setPauseStatus] = useState<PointsSwapPauseStatus | null>(null);
 
   const { status, initialize, isInitialized } = useFhevm();
-  const { encrypt, isEncrypting} = useEncrypt();
-  const { verifyDecryption, isDecrypting: fheIsDecrypting } = useDecrypt();
 
   const faqItems = [
-    { question: "什么是FHE加密积分互换？", answer: "全同态加密技术允许在加密状态下计算积分汇率，保护用户隐私。" },
+    { question: "什么是FHE加密积分互换？", answer: "用户以公开价格挂出加密数量的品牌积分，其他用户用另一品牌积分吃单，成交数量全程加密。" },
     { question: "品牌方能看到我的积分吗？", answer: "不能，所有积分数据都经过FHE加密，品牌方只能看到加密结果。" },
-    { question: "如何验证解密结果？", answer: "通过FHE.checkSignatures进行链上验证，确保解密数据的真实性。" },
-    { question: "支持哪些品牌的积分？", answer: "目前支持所有接入系统的品牌积分互换。" }
+    { question: "余额不足时会怎样？", answer: "挂单和吃单都不会回滚，而是在加密状态下按0执行，只有参与方能解密实际成交数量。" },
+    { question: "支持哪些品牌的积分？", answer: "目前支持所有接入系统且处于启用状态的品牌积分互换。" }
   ];
 
   useEffect(() => {
@@ -91,16 +100,14 @@ const App: React.FC = () => {
   }, [isConnected, isInitialized, initialize, fhevmInitializing]);
 
   useEffect(() => {
-    const loadDataAndContract = async () => {
-      if (!isConnected) {
+    const loadOffersAndBrands = async () => {
+      if (!isConnected || !pointsSwapAddress) {
         setLoading(false);
         return;
       }
       
       try {
         await loadData();
-        const contract = await getContractReadOnly();
-        if (contract) setContractAddress(await contract.getAddress());
       } catch (error) {
         console.error('Failed to load data:', error);
       } finally {
@@ -108,340 +115,246 @@ const App: React.FC = () => {
       }
     };
 
-    loadDataAndContract();
+    loadOffersAndBrands();
   }, [isConnected]);
 
+  const showStatus = (status: "pending" | "success" | "error", message: string) => {
+    setTransactionStatus({ visible: true, status, message });
+    if (status !== "pending") {
+      const delay = status === "success" ? 2000 : 3000;
+      setTimeout(() => setTransactionStatus({ visible: false, status: "pending", message: "" }), delay);
+    }
+  };
+
+  const describeError = (e: any, fallback: string) => {
+    if (isUserRejection(e)) return "用户取消交易";
+    if (isFhevmError(e, "RELAYER_UNAVAILABLE")) return "解密服务暂时不可用，请稍后重试";
+    if (isFhevmError(e, "ACL_DENIED")) return "无权解密该数据";
+    if (e.message?.includes("Account inactive")) return "请先创建积分账户";
+    if (e.message?.includes("Offer not open")) return "该挂单已关闭";
+    if (e.message?.includes("Unsupported brand")) return "品牌未启用";
+    if (e.message?.includes("Paused")) return "合约已暂停，请稍后再试";
+    if (e.message?.includes("Open offers")) return "请先撤销所有进行中的挂单";
+    if (e.message?.includes("Invalid recipient")) return "收款账户无效或未处于正常状态";
+    return fallback + ": " + (e.message || "未知错误");
+  };
+
   const loadData = async () => {
-    if (!isConnected) return;
+    if (!isConnected || !pointsSwapAddress) return;
     
     setIsRefreshing(true);
     try {
-      const contract = await getContractReadOnly();
-      if (!contract) return;
-      
-      const businessIds = await contract.getAllBusinessIds();
-      const swapsList: PointsSwapData[] = [];
-      
-      for (const businessId of businessIds) {
-        try {
-          const businessData = await contract.getBusinessData(businessId);
-          swapsList.push({
-            id: parseInt(businessId.replace('swap-', '')) || Date.now(),
-            brand: businessData.name,
-            points: businessId,
-            exchangeRate: businessId,
-            timestamp: Number(businessData.timestamp),
-            creator: businessData.creator,
-            publicValue1: Number(businessData.publicValue1) || 0,
-            publicValue2: Number(businessData.publicValue2) || 0,
-            isVerified: businessData.isVerified,
-            decryptedValue: Number(businessData.decryptedValue) || 0
-          });
-        } catch (e) {
-          console.error('Error loading business data:', e);
-        }
-      }
-      
-      setSwaps(swapsList);
+      const client = await getPointsSwapClient();
+      const [allOffers, allBrands, pause] = await Promise.all([
+        client.getOffers(),
+        client.getBrands(),
+        client.getPauseStatus(),
+      ]);
+      setOffers(allOffers);
+      setBrands(allBrands);
+      setPauseStatus(pause);
     } catch (e) {
-      setTransactionStatus({ visible: true, status: "error", message: "加载数据失败" });
-      setTimeout(() => setTransactionStatus({ visible: false, status: "pending", message: "" }), 3000);
+      console.error('Error loading offers:', e);
+      showStatus("error", "加载挂单失败");
     } finally { 
       setIsRefreshing(false); 
     }
   };
 
-  const createSwap = async () => {
+  const loadAccount = async () => {
+    if (!address || !pointsSwapAddress) return;
+    try {
+      const client = await getPointsSwapClient();
+      setAccount(await client.getAccount(address));
+    } catch (e) {
+      console.error("Error loading account:", e);
+    }
+  };
+
+  useEffect(() => {
+    if (isConnected) loadAccount();
+  }, [address, isConnected]);
+
+  const changeAccountStatus = async (action: "suspend" | "reactivate" | "close", payoutTo?: string) => {
+    const pending = { suspend: "暂停账户中...", reactivate: "恢复账户中...", close: "注销账户中..." };
+    showStatus("pending", pending[action]);
+    try {
+      const client = await getPointsSwapClient();
+      if (action === "suspend") {
+        await client.deactivateAccount();
+      } else if (action === "reactivate") {
+        await client.reactivateAccount();
+      } else {
+        await client.closeAccount(payoutTo);
+      }
+
+      const done = {
+        suspend: "账户已暂停",
+        reactivate: "账户已恢复",
+        close: payoutTo ? "账户已注销，积分已转入收款账户" : "账户已注销，积分已清零",
+      };
+      showStatus("success", done[action]);
+      await loadAccount();
+      setBalancesVersion(v => v + 1);
+      if (action === "close") setShowSettings(false);
+    } catch (e: any) {
+      showStatus("error", describeError(e, "操作失败"));
+    }
+  };
+
+  const brandName = (brandId: string) => brands.find(brand => brand.brandId === brandId)?.displayName ?? brandId;
+
+  const postOffer = async () => {
     if (!isConnected || !address) { 
-      setTransactionStatus({ visible: true, status: "error", message: "请先连接钱包" });
-      setTimeout(() => setTransactionStatus({ visible: false, status: "pending", message: "" }), 3000);
+      showStatus("error", "请先连接钱包");
       return; 
     }
     
-    setCreatingSwap(true);
-    setTransactionStatus({ visible: true, status: "pending", message: "创建积分互换中..." });
+    setPostingOffer(true);
+    showStatus("pending", "加密积分数量并挂单中...");
     
     try {
-      const contract = await getContractWithSigner();
-      if (!contract) throw new Error("获取合约失败");
-      
-      const pointsValue = parseInt(newSwapData.points) || 0;
-      const businessId = `swap-${Date.now()}`;
-      
-      const encryptedResult = await encrypt(contractAddress, address, pointsValue);
-      
-      const tx = await contract.createBusinessData(
-        businessId,
-        newSwapData.brand,
-        encryptedResult.encryptedData,
-        encryptedResult.proof,
-        parseInt(newSwapData.rate) || 0,
-        0,
-        "积分互换记录"
+      const client = await getPointsSwapClient();
+      const offerId = await client.postOffer(
+        newOfferData.giveBrand,
+        newOfferData.wantBrand,
+        BigInt(newOfferData.amount),
+        newOfferData.price,
       );
-      
-      setTransactionStatus({ visible: true, status: "pending", message: "等待交易确认..." });
-      await tx.wait();
+
+      // An amount above the balance escrows nothing; only the maker can see what was locked
+      showStatus("pending", "解密挂单数量...");
+      const escrowed = await client.decryptOfferRemaining(offerId);
       
       setUserHistory(prev => [...prev, {
-        type: "create",
-        brand: newSwapData.brand,
-        points: pointsValue,
+        type: "post",
+        brand: brandName(newOfferData.giveBrand),
+        value: escrowed.toString(),
         timestamp: Date.now()
       }]);
       
-      setTransactionStatus({ visible: true, status: "success", message: "积分互换创建成功!" });
-      setTimeout(() => {
-        setTransactionStatus({ visible: false, status: "pending", message: "" });
-      }, 2000);
+      if (escrowed > 0n) {
+        showStatus("success", `挂单成功，已托管 ${escrowed} 积分`);
+      } else {
+        showStatus("error", "余额不足，挂单未托管积分");
+      }
       
       await loadData();
+      setBalancesVersion(v => v + 1);
       setShowCreateModal(false);
-      setNewSwapData({ brand: "", points: "", rate: "" });
+      setNewOfferData(emptyOffer);
     } catch (e: any) {
-      const errorMessage = e.message?.includes("user rejected transaction") 
-        ? "用户取消交易" 
-        : "提交失败: " + (e.message || "未知错误");
-      setTransactionStatus({ visible: true, status: "error", message: errorMessage });
-      setTimeout(() => setTransactionStatus({ visible: false, status: "pending", message: "" }), 3000);
+      showStatus("error", describeError(e, "挂单失败"));
     } finally { 
-      setCreatingSwap(false); 
+      setPostingOffer(false); 
     }
   };
 
-  const decryptData = async (businessId: string): Promise<number | null> => {
-    if (!isConnected || !address) { 
-      setTransactionStatus({ visible: true, status: "error", message: "请先连接钱包" });
-      setTimeout(() => setTransactionStatus({ visible: false, status: "pending", message: "" }), 3000);
-      return null; 
-    }
-    
-    setIsDecrypting(true);
+  const fillOffer = async (offer: PointsSwapOffer, amount: bigint): Promise<bigint | null> => {
+    showStatus("pending", "加密购买数量并吃单中...");
     try {
-      const contractRead = await getContractReadOnly();
-      if (!contractRead) return null;
-      
-      const businessData = await contractRead.getBusinessData(businessId);
-      if (businessData.isVerified) {
-        const storedValue = Number(businessData.decryptedValue) || 0;
-        
-        setTransactionStatus({ 
-          visible: true, 
-          status: "success", 
-          message: "数据已链上验证" 
-        });
-        setTimeout(() => {
-          setTransactionStatus({ visible: false, status: "pending", message: "" });
-        }, 2000);
-        
-        return storedValue;
-      }
-      
-      const contractWrite = await getContractWithSigner();
-      if (!contractWrite) return null;
-      
-      const encryptedValueHandle = await contractRead.getEncryptedValue(businessId);
-      
-      const result = await verifyDecryption(
-        [encryptedValueHandle],
-        contractAddress,
-        (abiEncodedClearValues: string, decryptionProof: string) => 
-          contractWrite.verifyDecryption(businessId, abiEncodedClearValues, decryptionProof)
-      );
-      
-      setTransactionStatus({ visible: true, status: "pending", message: "链上验证解密中..." });
-      
-      const clearValue = result.decryptionResult.clearValues[encryptedValueHandle];
-      
+      const client = await getPointsSwapClient();
+      const fill = await client.fillOffer(offer.offerId, amount);
+
+      // Fills are capped at the escrow left and move nothing if the taker cannot pay
+      showStatus("pending", "解密成交数量...");
+      const bought = await client.decryptFill(fill);
+
       setUserHistory(prev => [...prev, {
-        type: "decrypt",
-        brand: businessData.name,
-        value: Number(clearValue),
+        type: "fill",
+        brand: brandName(offer.giveBrand),
+        value: bought.toString(),
         timestamp: Date.now()
       }]);
-      
-      await loadData();
-      
-      setTransactionStatus({ visible: true, status: "success", message: "数据解密验证成功!" });
-      setTimeout(() => {
-        setTransactionStatus({ visible: false, status: "pending", message: "" });
-      }, 2000);
-      
-      return Number(clearValue);
-      
-    } catch (e: any) { 
-      if (e.message?.includes("Data already verified")) {
-        setTransactionStatus({ 
-          visible: true, 
-          status: "success", 
-          message: "数据已完成链上验证" 
-        });
-        setTimeout(() => {
-          setTransactionStatus({ visible: false, status: "pending", message: "" });
-        }, 2000);
-        
-        await loadData();
-        return null;
+
+      if (bought > 0n) {
+        showStatus("success", `成交 ${bought} 积分`);
+      } else {
+        showStatus("error", "余额不足或挂单已售罄，未成交");
       }
-      
-      setTransactionStatus({ 
-        visible: true, 
-        status: "error", 
-        message: "解密失败: " + (e.message || "未知错误") 
-      });
-      setTimeout(() => setTransactionStatus({ visible: false, status: "pending", message: "" }), 3000);
-      return null; 
-    } finally { 
-      setIsDecrypting(false); 
+      await loadData();
+      setBalancesVersion(v => v + 1);
+      return bought;
+    } catch (e: any) {
+      showStatus("error", describeError(e, "吃单失败"));
+      return null;
     }
   };
 
-  const callIsAvailable = async () => {
+  const cancelOffer = async (offer: PointsSwapOffer) => {
+    showStatus("pending", "撤单并退回托管积分...");
     try {
-      const contract = await getContractWithSigner();
-      if (!contract) return;
-      
-      const tx = await contract.isAvailable();
-      await tx.wait();
-      
-      setTransactionStatus({ visible: true, status: "success", message: "系统可用性检查成功!" });
-      setTimeout(() => {
-        setTransactionStatus({ visible: false, status: "pending", message: "" });
-      }, 2000);
+      const client = await getPointsSwapClient();
+      await client.cancelOffer(offer.offerId);
+
+      setUserHistory(prev => [...prev, {
+        type: "cancel",
+        brand: brandName(offer.giveBrand),
+        value: `#${offer.offerId}`,
+        timestamp: Date.now()
+      }]);
+
+      showStatus("success", "已撤单，剩余积分已退回");
+      setSelectedOffer(null);
+      await loadData();
+      setBalancesVersion(v => v + 1);
     } catch (e: any) {
-      setTransactionStatus({ visible: true, status: "error", message: "调用失败: " + (e.message || "未知错误") });
-      setTimeout(() => setTransactionStatus({ visible: false, status: "pending", message: "" }), 3000);
+      showStatus("error", describeError(e, "撤单失败"));
     }
   };
 
-  const analyzeSwap = (swap: PointsSwapData, decryptedPoints: number | null, decryptedRate: number | null): SwapAnalysis => {
-    const points = swap.isVerified ? (swap.decryptedValue || 0) : (decryptedPoints || swap.publicValue1 || 50);
-    const rate = swap.publicValue1 || 1;
-    
-    const baseLiquidity = Math.min(100, Math.round((points * 0.6 + rate * 40) * 0.1));
-    const timeFactor = Math.max(0.7, Math.min(1.3, 1 - (Date.now()/1000 - swap.timestamp) / (60 * 60 * 24 * 7)));
-    const liquidityScore = Math.round(baseLiquidity * timeFactor);
-    
-    const rateAdvantage = Math.round((2 - rate) * 50);
-    const securityLevel = Math.min(100, Math.round(points * 0.2 + 80));
-    
-    const popularity = Math.min(95, Math.round((points * 0.3 + rate * 20) * 0.15));
-    const growthPotential = Math.min(100, Math.round((points * 0.4 + (2-rate) * 30) * 0.2));
-
-    return {
-      liquidityScore,
-      rateAdvantage,
-      securityLevel,
-      popularity,
-      growthPotential
-    };
+  const decryptRemaining = async (offer: PointsSwapOffer): Promise<bigint | null> => {
+    try {
+      const client = await getPointsSwapClient();
+      return await client.decryptOfferRemaining(offer.offerId);
+    } catch (e: any) {
+      showStatus("error", describeError(e, "解密失败"));
+      return null;
+    }
   };
 
+  const isMaker = (offer: PointsSwapOffer) => !!address && offer.maker.toLowerCase() === address.toLowerCase();
+
   const renderDashboard = () => {
-    const totalSwaps = swaps.length;
-    const verifiedSwaps = swaps.filter(s => s.isVerified).length;
-    const avgRate = swaps.length > 0 
-      ? swaps.reduce((sum, s) => sum + s.publicValue1, 0) / swaps.length 
-      : 0;
+    const totalOffers = offers.length;
+    const openOffers = offers.filter(o => o.open).length;
+    const myOpenOffers = offers.filter(o => o.open && isMaker(o)).length;
     
-    const todaySwaps = swaps.filter(s => 
-      Date.now()/1000 - s.timestamp < 60 * 60 * 24
+    const todayOffers = offers.filter(o => 
+      Date.now()/1000 - o.createdAt < 60 * 60 * 24
     ).length;
 
     return (
       <div className="dashboard-panels">
         <div className="panel metal-panel">
-          <h3>总互换数</h3>
-          <div className="stat-value">{totalSwaps}</div>
-          <div className="stat-trend">+{todaySwaps} 今日</div>
+          <h3>挂单总数</h3>
+          <div className="stat-value">{totalOffers}</div>
+          <div className="stat-trend">+{todayOffers} 今日</div>
         </div>
         
         <div className="panel metal-panel">
-          <h3>已验证数据</h3>
-          <div className="stat-value">{verifiedSwaps}/{totalSwaps}</div>
-          <div className="stat-trend">FHE验证完成</div>
+          <h3>进行中</h3>
+          <div className="stat-value">{openOffers}/{totalOffers}</div>
+          <div className="stat-trend">数量FHE加密</div>
         </div>
         
         <div className="panel metal-panel">
-          <h3>平均汇率</h3>
-          <div className="stat-value">{avgRate.toFixed(2)}</div>
-          <div className="stat-trend">同态计算</div>
+          <h3>我的挂单</h3>
+          <div className="stat-value">{myOpenOffers}</div>
+          <div className="stat-trend">仅自己可解密余量</div>
         </div>
       </div>
     );
   };
 
-  const renderAnalysisChart = (swap: PointsSwapData, decryptedPoints: number | null, decryptedRate: number | null) => {
-    const analysis = analyzeSwap(swap, decryptedPoints, decryptedRate);
-    
-    return (
-      <div className="analysis-chart">
-        <div className="chart-row">
-          <div className="chart-label">流动性评分</div>
-          <div className="chart-bar">
-            <div 
-              className="bar-fill" 
-              style={{ width: `${analysis.liquidityScore}%` }}
-            >
-              <span className="bar-value">{analysis.liquidityScore}</span>
-            </div>
-          </div>
-        </div>
-        <div className="chart-row">
-          <div className="chart-label">汇率优势</div>
-          <div className="chart-bar">
-            <div 
-              className="bar-fill" 
-              style={{ width: `${analysis.rateAdvantage}%` }}
-            >
-              <span className="bar-value">{analysis.rateAdvantage}</span>
-            </div>
-          </div>
-        </div>
-        <div className="chart-row">
-          <div className="chart-label">安全等级</div>
-          <div className="chart-bar">
-            <div 
-              className="bar-fill" 
-              style={{ width: `${analysis.securityLevel}%` }}
-            >
-              <span className="bar-value">{analysis.securityLevel}</span>
-            </div>
-          </div>
-        </div>
-        <div className="chart-row">
-          <div className="chart-label">受欢迎度</div>
-          <div className="chart-bar">
-            <div 
-              className="bar-fill" 
-              style={{ width: `${analysis.popularity}%` }}
-            >
-              <span className="bar-value">{analysis.popularity}</span>
-            </div>
-          </div>
-        </div>
-        <div className="chart-row">
-          <div className="chart-label">增长潜力</div>
-          <div className="chart-bar">
-            <div 
-              className="bar-fill growth" 
-              style={{ width: `${analysis.growthPotential}%` }}
-            >
-              <span className="bar-value">{analysis.growthPotential}</span>
-            </div>
-          </div>
-        </div>
-      </div>
-    );
-  };
-
-  const filteredSwaps = swaps.filter(swap => {
-    const matchesSearch = swap.brand.toLowerCase().includes(searchTerm.toLowerCase());
-    const matchesBrand = filterBrand === "all" || swap.brand === filterBrand;
-    return matchesSearch && matchesBrand;
+  const filteredOffers = offers.filter(offer => {
+    const names = `${brandName(offer.giveBrand)} ${brandName(offer.wantBrand)}`.toLowerCase();
+    const matchesSearch = names.includes(searchTerm.toLowerCase());
+    const matchesBrand = filterBrand === "all" || offer.giveBrand === filterBrand || offer.wantBrand === filterBrand;
+    return matchesSearch && matchesBrand && (showClosed || offer.open);
   });
 
-  const uniqueBrands = [...new Set(swaps.map(swap => swap.brand))];
+  const activeBrands = brands.filter(brand => brand.active);
 
   if (!isConnected) {
     return (
@@ -510,14 +423,11 @@ const App: React.FC = () => {
         </div>
         
         <div className="header-actions">
-          <button onClick={callIsAvailable} className="check-btn">
-            系统检查
-          </button>
           <button 
             onClick={() => setShowCreateModal(true)} 
             className="create-btn"
           >
-            + 新建互换
+            + 发布挂单
           </button>
           <button 
             onClick={() => setShowFAQ(!showFAQ)} 
@@ -525,12 +435,27 @@ const App: React.FC = () => {
           >
             {showFAQ ? "隐藏帮助" : "常见问题"}
           </button>
+          {account && account.status !== "none" && (
+            <button onClick={() => setShowSettings(true)} className="faq-btn">账户设置</button>
+          )}
+          <Link to="/brands" className="faq-btn">品牌管理</Link>
+          <Link to="/admin" className="faq-btn">权限管理</Link>
           <div className="wallet-connect-wrapper">
             <ConnectButton accountStatus="address" chainStatus="icon" showBalance={false}/>
           </div>
         </div>
       </header>
       
+      {pauseStatus && (pauseStatus.paused || pauseStatus.pausedPairs.length > 0) && (
+        <div className="pause-banner">
+          {pauseStatus.paused
+            ? "⚠️ 合约已紧急暂停：兑换、转账、挂单、吃单和注销转出暂不可用，已有挂单仍可撤销。"
+            : `⚠️ 以下品牌组合的兑换已暂停：${pauseStatus.pausedPairs
+                .map(pair => `${brandName(pair.fromBrand)} → ${brandName(pair.toBrand)}`)
+                .join("，")}`}
+        </div>
+      )}
+
       {showFAQ && (
         <div className="faq-section">
           <h3>常见问题解答</h3>
@@ -547,13 +472,21 @@ const App: React.FC = () => {
       
       <div className="main-content-container">
         <div className="dashboard-section">
-          <h2>积分互换分析 (FHE 🔐)</h2>
+          <h2>积分挂单市场 (FHE 🔐)</h2>
           {renderDashboard()}
         </div>
+
+        {address && <BrandBalances address={address} refreshKey={balancesVersion} />}
+
+        <ConvertPoints onConverted={() => setBalancesVersion(v => v + 1)} />
+
+        <TransferPoints onTransferred={() => setBalancesVersion(v => v + 1)} />
+
+        {address && <ViewerAccess address={address} />}
         
         <div className="swaps-section">
           <div className="section-header">
-            <h2>积分互换记录</h2>
+            <h2>挂单列表</h2>
             <div className="header-actions">
               <div className="search-filter">
                 <input 
@@ -569,10 +502,14 @@ const App: React.FC = () => {
                   className="filter-select"
                 >
                   <option value="all">所有品牌</option>
-                  {uniqueBrands.map(brand => (
-                    <option key={brand} value={brand}>{brand}</option>
+                  {brands.map(brand => (
+                    <option key={brand.brandId} value={brand.brandId}>{brand.displayName}</option>
                   ))}
                 </select>
+                <label>
+                  <input type="checkbox" checked={showClosed} onChange={(e) => setShowClosed(e.target.checked)} />
+                  显示已关闭
+                </label>
               </div>
               <button 
                 onClick={loadData} 
@@ -585,34 +522,32 @@ const App: React.FC = () => {
           </div>
           
           <div className="swaps-list">
-            {filteredSwaps.length === 0 ? (
+            {filteredOffers.length === 0 ? (
               <div className="no-swaps">
-                <p>未找到积分互换记录</p>
+                <p>暂无挂单</p>
                 <button 
                   className="create-btn" 
                   onClick={() => setShowCreateModal(true)}
                 >
-                  创建第一个互换
+                  发布第一个挂单
                 </button>
               </div>
-            ) : filteredSwaps.map((swap, index) => (
+            ) : filteredOffers.map(offer => (
               <div 
-                className={`swap-item ${selectedSwap?.id === swap.id ? "selected" : ""} ${swap.isVerified ? "verified" : ""}`} 
-                key={index}
-                onClick={() => setSelectedSwap(swap)}
+                className={`swap-item ${selectedOffer?.offerId === offer.offerId ? "selected" : ""} ${offer.open ? "verified" : ""}`} 
+                key={offer.offerId}
+                onClick={() => setSelectedOffer(offer)}
               >
-                <div className="swap-brand">{swap.brand}</div>
+                <div className="swap-brand">{brandName(offer.giveBrand)} → {brandName(offer.wantBrand)}</div>
                 <div className="swap-meta">
-                  <span>汇率: {swap.publicValue1}</span>
-                  <span>时间: {new Date(swap.timestamp * 1000).toLocaleDateString()}</span>
+                  <span>价格: {offer.formattedPrice}</span>
+                  <span>时间: {new Date(offer.createdAt * 1000).toLocaleDateString()}</span>
                 </div>
                 <div className="swap-status">
-                  状态: {swap.isVerified ? "✅ 链上已验证" : "🔓 待验证"}
-                  {swap.isVerified && swap.decryptedValue && (
-                    <span className="verified-amount">积分: {swap.decryptedValue}</span>
-                  )}
+                  状态: {offer.open ? "🟢 进行中" : "⚪ 已关闭"}
+                  {isMaker(offer) && <span className="data-badge verified">我的挂单</span>}
                 </div>
-                <div className="swap-creator">创建者: {swap.creator.substring(0, 6)}...{swap.creator.substring(38)}</div>
+                <div className="swap-creator">挂单者: {shortAddress(offer.maker)}</div>
               </div>
             ))}
           </div>
@@ -624,7 +559,7 @@ const App: React.FC = () => {
             <div className="history-list">
               {userHistory.slice(-5).reverse().map((record, index) => (
                 <div key={index} className="history-item">
-                  <span className="history-type">{record.type === "create" ? "创建" : "解密"}</span>
+                  <span className="history-type">{historyLabels[record.type]}</span>
                   <span className="history-brand">{record.brand}</span>
                   <span className="history-value">{record.value}</span>
                   <span className="history-time">{new Date(record.timestamp).toLocaleTimeString()}</span>
@@ -636,28 +571,34 @@ const App: React.FC = () => {
       </div>
       
       {showCreateModal && (
-        <ModalCreateSwap 
-          onSubmit={createSwap} 
+        <ModalPostOffer 
+          onSubmit={postOffer} 
           onClose={() => setShowCreateModal(false)} 
-          creating={creatingSwap} 
-          swapData={newSwapData} 
-          setSwapData={setNewSwapData}
-          isEncrypting={isEncrypting}
+          posting={postingOffer} 
+          offerData={newOfferData} 
+          setOfferData={setNewOfferData}
+          brands={activeBrands}
         />
       )}
       
-      {selectedSwap && (
-        <SwapDetailModal 
-          swap={selectedSwap} 
-          onClose={() => { 
-            setSelectedSwap(null); 
-            setDecryptedData({ points: null, rate: null }); 
-          }} 
-          decryptedData={decryptedData} 
-          setDecryptedData={setDecryptedData} 
-          isDecrypting={isDecrypting || fheIsDecrypting} 
-          decryptData={() => decryptData(selectedSwap.points)}
-          renderAnalysisChart={renderAnalysisChart}
+      {selectedOffer && (
+        <OfferDetailModal 
+          offer={selectedOffer} 
+          brandName={brandName}
+          isMaker={isMaker(selectedOffer)}
+          onClose={() => setSelectedOffer(null)} 
+          onFill={fillOffer}
+          onCancel={cancelOffer}
+          decryptRemaining={decryptRemaining}
+        />
+      )}
+      
+      {showSettings && account && (
+        <AccountSettingsModal
+          account={account}
+          openOffers={offers.filter(offer => offer.open && isMaker(offer)).length}
+          onClose={() => setShowSettings(false)}
+          onChangeStatus={changeAccountStatus}
         />
       )}
       
@@ -677,76 +618,97 @@ const App: React.FC = () => {
   );
 };
 
-const ModalCreateSwap: React.FC<{
+const ModalPostOffer: React.FC<{
   onSubmit: () => void; 
   onClose: () => void; 
-  creating: boolean;
-  swapData: any;
-  setSwapData: (data: any) => void;
-  isEncrypting: boolean;
-}> = ({ onSubmit, onClose, creating, swapData, setSwapData, isEncrypting }) => {
-  const handleChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+  posting: boolean;
+  offerData: typeof emptyOffer;
+  setOfferData: (data: typeof emptyOffer) => void;
+  brands: PointsSwapBrand[];
+}> = ({ onSubmit, onClose, posting, offerData, setOfferData, brands }) => {
+  const handleChange = (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement>) => {
     const { name, value } = e.target;
-    if (name === 'points') {
+    if (name === 'amount') {
       const intValue = value.replace(/[^\d]/g, '');
-      setSwapData({ ...swapData, [name]: intValue });
+      setOfferData({ ...offerData, [name]: intValue });
+    } else if (name === 'price') {
+      const decimalValue = value.replace(/[^\d.]/g, '');
+      setOfferData({ ...offerData, [name]: decimalValue });
     } else {
-      setSwapData({ ...swapData, [name]: value });
+      setOfferData({ ...offerData, [name]: value });
     }
   };
 
+  let scaledPrice: bigint | null = null;
+  let priceError = "";
+  if (offerData.price) {
+    try {
+      scaledPrice = parseRate(offerData.price);
+    } catch {
+      priceError = `价格需为正数，最多${DEFAULT_RATE_DECIMALS}位小数`;
+    }
+  }
+
   return (
     <div className="modal-overlay">
       <div className="create-swap-modal">
         <div className="modal-header">
-          <h2>新建积分互换</h2>
+          <h2>发布挂单</h2>
           <button onClick={onClose} className="close-modal">&times;</button>
         </div>
         
         <div className="modal-body">
           <div className="fhe-notice">
             <strong>FHE 🔐 加密保护</strong>
-            <p>积分数量将使用Zama FHE加密（仅支持整数）</p>
+            <p>挂单数量将使用Zama FHE加密并托管在合约中；价格公开，方便其他用户吃单</p>
           </div>
           
           <div className="form-group">
-            <label>品牌名称 *</label>
-            <input 
-              type="text" 
-              name="brand" 
-              value={swapData.brand} 
-              onChange={handleChange} 
-              placeholder="输入品牌名称..." 
-            />
+            <label>出售品牌 *</label>
+            <select name="giveBrand" value={offerData.giveBrand} onChange={handleChange} className="filter-select">
+              <option value="">选择品牌</option>
+              {brands.map(brand => <option key={brand.brandId} value={brand.brandId}>{brand.displayName}</option>)}
+            </select>
+          </div>
+
+          <div className="form-group">
+            <label>收取品牌 *</label>
+            <select name="wantBrand" value={offerData.wantBrand} onChange={handleChange} className="filter-select">
+              <option value="">选择品牌</option>
+              {brands.filter(brand => brand.brandId !== offerData.giveBrand).map(brand => (
+                <option key={brand.brandId} value={brand.brandId}>{brand.displayName}</option>
+              ))}
+            </select>
           </div>
           
           <div className="form-group">
-            <label>积分数量（整数） *</label>
+            <label>出售数量（整数） *</label>
             <input 
               type="number" 
-              name="points" 
-              value={swapData.points} 
+              name="amount" 
+              value={offerData.amount} 
               onChange={handleChange} 
               placeholder="输入积分数量..." 
               step="1"
-              min="0"
+              min="1"
             />
             <div className="data-type-label">FHE加密整数</div>
           </div>
           
           <div className="form-group">
-            <label>兑换汇率 *</label>
+            <label>单价（每积分可换收取品牌积分，最多{DEFAULT_RATE_DECIMALS}位小数） *</label>
             <input 
               type="number" 
-              min="0.1" 
-              max="10" 
-              step="0.1"
-              name="rate" 
-              value={swapData.rate} 
+              min="0.0001" 
+              step="0.0001"
+              name="price" 
+              value={offerData.price} 
               onChange={handleChange} 
-              placeholder="输入兑换汇率..." 
+              placeholder="例如 0.5" 
             />
-            <div className="data-type-label">公开数据</div>
+            <div className="data-type-label">
+              {priceError || (scaledPrice !== null ? `公开数据 · 链上定点值 ${scaledPrice} / 10^${DEFAULT_RATE_DECIMALS}` : "公开数据")}
+            </div>
           </div>
         </div>
         
@@ -754,10 +716,10 @@ const ModalCreateSwap: React.FC<{
           <button onClick={onClose} className="cancel-btn">取消</button>
           <button 
             onClick={onSubmit} 
-            disabled={creating || isEncrypting || !swapData.brand || !swapData.points || !swapData.rate} 
+            disabled={posting || !offerData.giveBrand || !offerData.wantBrand || !offerData.amount || scaledPrice === null} 
             className="submit-btn"
           >
-            {creating || isEncrypting ? "加密并创建中..." : "创建互换"}
+            {posting ? "加密并挂单中..." : "发布挂单"}
           </button>
         </div>
       </div>
@@ -765,135 +727,238 @@ const ModalCreateSwap: React.FC<{
   );
 };
 
-const SwapDetailModal: React.FC<{
-  swap: PointsSwapData;
+const OfferDetailModal: React.FC<{
+  offer: PointsSwapOffer;
+  brandName: (brandId: string) => string;
+  isMaker: boolean;
   onClose: () => void;
-  decryptedData: { points: number | null; rate: number | null };
-  setDecryptedData: (value: { points: number | null; rate: number | null }) => void;
-  isDecrypting: boolean;
-  decryptData: () => Promise<number | null>;
-  renderAnalysisChart: (swap: PointsSwapData, decryptedPoints: number | null, decryptedRate: number | null) => JSX.Element;
-}> = ({ swap, onClose, decryptedData, setDecryptedData, isDecrypting, decryptData, renderAnalysisChart }) => {
+  onFill: (offer: PointsSwapOffer, amount: bigint) => Promise<bigint | null>;
+  onCancel: (offer: PointsSwapOffer) => Promise<void>;
+  decryptRemaining: (offer: PointsSwapOffer) => Promise<bigint | null>;
+}> = ({ offer, brandName, isMaker, onClose, onFill, onCancel, decryptRemaining }) => {
+  const [amount, setAmount] = useState("");
+  const [remaining, setRemaining] = useState<bigint | null>(null);
+  const [bought, setBought] = useState<bigint | null>(null);
+  const [busy, setBusy] = useState(false);
+
+  // Rounded up like the contract does
+  const cost = amount ? fillCost(BigInt(amount), offer.price, offer.priceDecimals) : null;
+
   const handleDecrypt = async () => {
-    if (decryptedData.points !== null) { 
-      setDecryptedData({ points: null, rate: null }); 
+    if (remaining !== null) { 
+      setRemaining(null); 
       return; 
     }
-    
-    const decrypted = await decryptData();
-    if (decrypted !== null) {
-      setDecryptedData({ points: decrypted, rate: decrypted });
+    setBusy(true);
+    setRemaining(await decryptRemaining(offer));
+    setBusy(false);
+  };
+
+  const handleFill = async () => {
+    setBusy(true);
+    const result = await onFill(offer, BigInt(amount));
+    if (result !== null) {
+      setBought(result);
+      setAmount("");
     }
+    setBusy(false);
+  };
+
+  const handleCancel = async () => {
+    setBusy(true);
+    await onCancel(offer);
+    setBusy(false);
   };
 
   return (
     <div className="modal-overlay">
       <div className="swap-detail-modal">
         <div className="modal-header">
-          <h2>积分互换详情</h2>
+          <h2>挂单详情 #{offer.offerId}</h2>
           <button onClick={onClose} className="close-modal">&times;</button>
         </div>
         
         <div className="modal-body">
           <div className="swap-info">
             <div className="info-item">
-              <span>品牌名称:</span>
-              <strong>{swap.brand}</strong>
+              <span>出售 → 收取:</span>
+              <strong>{brandName(offer.giveBrand)} → {brandName(offer.wantBrand)}</strong>
             </div>
             <div className="info-item">
-              <span>创建者:</span>
-              <strong>{swap.creator.substring(0, 6)}...{swap.creator.substring(38)}</strong>
+              <span>挂单者:</span>
+              <strong>{shortAddress(offer.maker)}</strong>
             </div>
             <div className="info-item">
-              <span>创建时间:</span>
-              <strong>{new Date(swap.timestamp * 1000).toLocaleDateString()}</strong>
+              <span>挂单时间:</span>
+              <strong>{new Date(offer.createdAt * 1000).toLocaleDateString()}</strong>
             </div>
             <div className="info-item">
-              <span>兑换汇率:</span>
-              <strong>{swap.publicValue1}</strong>
+              <span>单价:</span>
+              <strong>{offer.formattedPrice}</strong>
+              <span className="data-badge public">公开数据</span>
+            </div>
+            <div className="info-item">
+              <span>状态:</span>
+              <strong>{offer.open ? "🟢 进行中" : "⚪ 已关闭"}</strong>
             </div>
           </div>
           
           <div className="data-section">
-            <h3>加密积分数据</h3>
+            <h3>加密挂单数据</h3>
             
             <div className="data-row">
-              <div className="data-label">积分数量:</div>
+              <div className="data-label">剩余数量:</div>
               <div className="data-value">
-                {swap.isVerified && swap.decryptedValue ? 
-                  `${swap.decryptedValue} (链上已验证)` : 
-                  decryptedData.points !== null ? 
-                  `${decryptedData.points} (本地解密)` : 
-                  "🔒 FHE加密整数"
-                }
+                {remaining !== null ? `${remaining} (本地解密)` : "🔒 FHE加密整数"}
               </div>
-              <button 
-                className={`decrypt-btn ${(swap.isVerified || decryptedData.points !== null) ? 'decrypted' : ''}`}
-                onClick={handleDecrypt} 
-                disabled={isDecrypting}
-              >
-                {isDecrypting ? (
-                  "🔓 验证中..."
-                ) : swap.isVerified ? (
-                  "✅ 已验证"
-                ) : decryptedData.points !== null ? (
-                  "🔄 重新验证"
-                ) : (
-                  "🔓 验证解密"
-                )}
-              </button>
+              {isMaker && (
+                <button 
+                  className={`decrypt-btn ${remaining !== null ? 'decrypted' : ''}`}
+                  onClick={handleDecrypt} 
+                  disabled={busy}
+                >
+                  {remaining !== null ? "🔒 隐藏" : "🔓 解密"}
+                </button>
+              )}
             </div>
+
+            {!isMaker && offer.open && (
+              <div className="form-group">
+                <label>购买数量（整数）</label>
+                <input 
+                  type="number" 
+                  value={amount} 
+                  onChange={(e) => setAmount(e.target.value.replace(/[^\d]/g, ''))} 
+                  placeholder="输入购买数量..." 
+                  step="1"
+                  min="1"
+                />
+                <div className="data-type-label">
+                  {cost !== null
+                    ? `预计支付最多 ${cost} ${brandName(offer.wantBrand)} 积分（按实际成交数量结算）`
+                    : "FHE加密整数"}
+                </div>
+              </div>
+            )}
+
+            {bought !== null && (
+              <div className={`data-badge ${bought > 0n ? 'verified' : 'local'}`}>
+                {bought > 0n ? `已成交 ${bought} 积分` : "未成交"}
+              </div>
+            )}
             
             <div className="fhe-info">
               <div className="fhe-icon">🔐</div>
               <div>
-                <strong>FHE 🔐 自中继解密</strong>
-                <p>数据在链上加密存储。点击"验证解密"进行离线解密和链上FHE.checkSignatures验证。</p>
+                <strong>FHE 🔐 原子结算</strong>
+                <p>吃单数量不超过剩余托管数量；余额不足时双方余额均不变动。成交数量仅挂单者和吃单者可解密。</p>
               </div>
             </div>
           </div>
-          
-          {(swap.isVerified || decryptedData.points !== null) && (
-            <div className="analysis-section">
-              <h3>实时互换分析</h3>
-              {renderAnalysisChart(
-                swap, 
-                swap.isVerified ? swap.decryptedValue || null : decryptedData.points, 
-                null
+        </div>
+        
+        <div className="modal-footer">
+          <button onClick={onClose} className="close-btn">关闭</button>
+          {isMaker && offer.open && (
+            <button onClick={handleCancel} disabled={busy} className="cancel-btn">
+              {busy ? "处理中..." : "撤单"}
+            </button>
+          )}
+          {!isMaker && offer.open && (
+            <button onClick={handleFill} disabled={busy || !amount} className="verify-btn">
+              {busy ? "加密并吃单中..." : "吃单"}
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+const AccountSettingsModal: React.FC<{
+  account: PointsSwapAccount;
+  openOffers: number;
+  onClose: () => void;
+  onChangeStatus: (action: "suspend" | "reactivate" | "close", payoutTo?: string) => Promise<void>;
+}> = ({ account, openOffers, onClose, onChangeStatus }) => {
+  const [payoutTo, setPayoutTo] = useState("");
+  const [confirmClose, setConfirmClose] = useState(false);
+  const [busy, setBusy] = useState(false);
+
+  const payoutValid = !payoutTo || ethers.isAddress(payoutTo);
+
+  const run = async (action: "suspend" | "reactivate" | "close") => {
+    setBusy(true);
+    await onChangeStatus(action, action === "close" && payoutTo ? payoutTo : undefined);
+    setBusy(false);
+  };
+
+  return (
+    <div className="modal-overlay">
+      <div className="swap-detail-modal">
+        <div className="modal-header">
+          <h2>账户设置</h2>
+          <button onClick={onClose} className="close-modal">&times;</button>
+        </div>
+
+        <div className="modal-body">
+          <div className="swap-info">
+            <div className="info-item">
+              <span>账户状态:</span>
+              <strong>{accountStatusLabels[account.status]}</strong>
+            </div>
+            <div className="info-item">
+              <span>最近更新:</span>
+              <strong>{new Date(account.lastUpdated * 1000).toLocaleString()}</strong>
+            </div>
+          </div>
+
+          {account.status === "closed" ? (
+            <div className="fhe-notice">
+              <p>账户已注销，所有加密余额和授权记录均已清除。可以重新创建积分账户。</p>
+            </div>
+          ) : (
+            <div className="data-section">
+              <h3>暂停账户</h3>
+              <p>暂停后余额保留，但无法兑换、转账、挂单或接收积分，可随时恢复。</p>
+              {account.status === "active" ? (
+                <button onClick={() => run("suspend")} disabled={busy} className="cancel-btn">暂停账户</button>
+              ) : (
+                <button onClick={() => run("reactivate")} disabled={busy} className="verify-btn">恢复账户</button>
               )}
-              
-              <div className="decrypted-values">
-                <div className="value-item">
-                  <span>积分数量:</span>
-                  <strong>
-                    {swap.isVerified ? 
-                      `${swap.decryptedValue} (链上已验证)` : 
-                      `${decryptedData.points} (本地解密)`
-                    }
-                  </strong>
-                  <span className={`data-badge ${swap.isVerified ? 'verified' : 'local'}`}>
-                    {swap.isVerified ? '链上验证' : '本地解密'}
-                  </span>
-                </div>
-                <div className="value-item">
-                  <span>兑换汇率:</span>
-                  <strong>{swap.publicValue1}</strong>
-                  <span className="data-badge public">公开数据</span>
-                </div>
+
+              <h3>注销账户</h3>
+              <p>注销会清除所有品牌的加密余额、过期批次和查看授权。填写收款账户可先将全部积分转入该账户，否则积分作废。</p>
+              <div className="form-group">
+                <label>收款账户（可选）</label>
+                <input
+                  type="text"
+                  value={payoutTo}
+                  onChange={e => setPayoutTo(e.target.value.trim())}
+                  placeholder="0x..."
+                />
+                {!payoutValid && <div className="data-type-label">地址无效</div>}
               </div>
+              {openOffers > 0 && (
+                <div className="data-badge local">还有 {openOffers} 个进行中的挂单，请先撤单</div>
+              )}
+              <label>
+                <input type="checkbox" checked={confirmClose} onChange={e => setConfirmClose(e.target.checked)} />
+                {payoutTo ? " 我确认注销账户并转出全部积分" : " 我确认注销账户并放弃全部积分"}
+              </label>
             </div>
           )}
         </div>
-        
+
         <div className="modal-footer">
           <button onClick={onClose} className="close-btn">关闭</button>
-          {!swap.isVerified && (
-            <button 
-              onClick={handleDecrypt} 
-              disabled={isDecrypting}
-              className="verify-btn"
+          {account.status !== "closed" && (
+            <button
+              onClick={() => run("close")}
+              disabled={busy || !confirmClose || !payoutValid || openOffers > 0}
+              className="cancel-btn"
             >
-              {isDecrypting ? "链上验证中..." : "链上验证"}
+              {busy ? "处理中..." : "注销账户"}
             </button>
           )}
         </div>
@@ -0,0 +1,236 @@
+import { ConnectButton } from '@rainbow-me/rainbowkit';
+import React, { useEffect, useState } from "react";
+import { Link } from "react-router-dom";
+import { useAccount } from "wagmi";
+import { ethers } from "ethers";
+import {
+  isUserRejection,
+  POINTS_SWAP_ROLES,
+  PointsSwapClient,
+  type PointsSwapRole,
+  type PointsSwapRoleHolders,
+} from "../../fhevm-sdk/src";
+import { getPointsSwapClient, pointsSwapAddress } from "./pointsSwap";
+import "../App.css";
+
+type Status = { kind: "idle" | "pending" | "success" | "error"; message: string };
+
+const roleLabels: Record<PointsSwapRole, { name: string; description: string }> = {
+  RATE_SETTER: { name: "汇率设置员", description: "可设置任意品牌组合的汇率" },
+  BRAND_ADMIN: { name: "品牌总管理员", description: "可管理所有品牌的信息、汇率、发放与竞价" },
+  PAUSER: { name: "暂停管理员", description: "可在紧急情况下暂停合约或单个品牌组合" },
+};
+
+const roles = Object.keys(POINTS_SWAP_ROLES) as PointsSwapRole[];
+
+const shortAddress = (account: string) => `${account.substring(0, 6)}...${account.substring(38)}`;
+
+const sameAddress = (a?: string, b?: string) => !!a && !!b && a.toLowerCase() === b.toLowerCase();
+
+const AdminPanel: React.FC = () => {
+  const { address } = useAccount();
+  const [holders, setHolders] = useState<PointsSwapRoleHolders | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [status, setStatus] = useState<Status>({ kind: "idle", message: "" });
+  const [grantForm, setGrantForm] = useState<{ role: PointsSwapRole; account: string }>({
+    role: "PAUSER",
+    account: "",
+  });
+  const [newOwner, setNewOwner] = useState("");
+
+  const loadHolders = async () => {
+    setLoading(true);
+    try {
+      const client = await getPointsSwapClient();
+      setHolders(await client.getRoleHolders());
+    } catch (e) {
+      console.error("Failed to load role holders:", e);
+      setStatus({ kind: "error", message: "加载角色失败" });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    if (pointsSwapAddress) loadHolders();
+  }, [address]);
+
+  const run = async (pending: string, success: string, action: (client: PointsSwapClient) => Promise<unknown>) => {
+    setStatus({ kind: "pending", message: pending });
+    try {
+      await action(await getPointsSwapClient());
+      setStatus({ kind: "success", message: success });
+      await loadHolders();
+      return true;
+    } catch (e: any) {
+      let message = "操作失败: " + (e.message || "未知错误");
+      if (isUserRejection(e)) {
+        message = "用户取消交易";
+      } else if (e.message?.includes("Not authorized")) {
+        message = "仅合约所有者可执行此操作";
+      } else if (e.message?.includes("Not pending owner")) {
+        message = "当前钱包不是待接收的所有者";
+      }
+      setStatus({ kind: "error", message });
+      return false;
+    }
+  };
+
+  const grantRole = async () => {
+    if (!ethers.isAddress(grantForm.account)) {
+      setStatus({ kind: "error", message: "账户地址无效" });
+      return;
+    }
+    const done = await run("授予角色中...", `已授予${roleLabels[grantForm.role].name}`, client =>
+      client.grantRole(grantForm.role, grantForm.account));
+    if (done) setGrantForm({ ...grantForm, account: "" });
+  };
+
+  const revokeRole = (role: PointsSwapRole, account: string) =>
+    run("撤销角色中...", `已撤销${roleLabels[role].name}`, client => client.revokeRole(role, account));
+
+  const transferOwnership = async () => {
+    if (!ethers.isAddress(newOwner)) {
+      setStatus({ kind: "error", message: "新所有者地址无效" });
+      return;
+    }
+    const done = await run("发起所有权转移中...", "已发起转移，新所有者确认接收后生效", client =>
+      client.transferOwnership(newOwner));
+    if (done) setNewOwner("");
+  };
+
+  const acceptOwnership = () =>
+    run("接收所有权中...", "你已成为合约所有者", client => client.acceptOwnership());
+
+  const isOwner = sameAddress(holders?.owner, address);
+  const pendingOwner = holders && holders.pendingOwner !== ethers.ZeroAddress ? holders.pendingOwner : "";
+  const pending = status.kind === "pending";
+
+  return (
+    <div className="app-container">
+      <header className="app-header">
+        <div className="logo">
+          <h1>🔐 PointsSwap FHE</h1>
+          <span className="subtitle">权限管理</span>
+        </div>
+
+        <div className="header-actions">
+          <Link to="/" className="faq-btn">返回首页</Link>
+          <div className="wallet-connect-wrapper">
+            <ConnectButton accountStatus="address" chainStatus="icon" showBalance={false}/>
+          </div>
+        </div>
+      </header>
+
+      <div className="main-content-container">
+        {!pointsSwapAddress ? (
+          <div className="no-swaps"><p>未配置 PointsSwap 合约地址</p></div>
+        ) : !address ? (
+          <div className="no-swaps"><p>请先连接钱包</p></div>
+        ) : (
+          <>
+            {status.kind !== "idle" && (
+              <div className={`data-badge ${status.kind === "success" ? "verified" : status.kind === "error" ? "local" : "public"}`}>
+                {status.message}
+              </div>
+            )}
+
+            <div className="history-section">
+              <h3>合约所有权</h3>
+              <div className="fhe-notice">
+                <p>所有权分两步转移：当前所有者发起后，新所有者需用自己的钱包确认接收，填错地址也不会丢失合约控制权。所有者默认拥有全部角色。</p>
+              </div>
+              <div className="swap-meta">
+                <span>所有者: {holders ? shortAddress(holders.owner) : "-"}</span>
+                {isOwner && <span className="data-badge verified">当前钱包</span>}
+              </div>
+              {pendingOwner && (
+                <div className="swap-meta">
+                  <span>待接收: {shortAddress(pendingOwner)}</span>
+                  <span className="data-badge public">等待确认</span>
+                </div>
+              )}
+
+              {sameAddress(pendingOwner, address) && (
+                <button className="submit-btn" onClick={acceptOwnership} disabled={pending}>接收所有权</button>
+              )}
+
+              {isOwner && (
+                <div className="form-group">
+                  <label>新所有者地址</label>
+                  <input value={newOwner} onChange={e => setNewOwner(e.target.value.trim())} placeholder="0x..." />
+                  <button className="submit-btn" onClick={transferOwnership} disabled={pending || !newOwner}>
+                    {pendingOwner ? "重新发起转移" : "发起转移"}
+                  </button>
+                </div>
+              )}
+            </div>
+
+            {isOwner && (
+              <div className="history-section">
+                <h3>授予角色</h3>
+                <div className="form-group">
+                  <label>角色 *</label>
+                  <select
+                    className="filter-select"
+                    value={grantForm.role}
+                    onChange={e => setGrantForm({ ...grantForm, role: e.target.value as PointsSwapRole })}
+                  >
+                    {roles.map(role => <option key={role} value={role}>{roleLabels[role].name}</option>)}
+                  </select>
+                  <div className="data-type-label">{roleLabels[grantForm.role].description}</div>
+                </div>
+                <div className="form-group">
+                  <label>账户地址 *</label>
+                  <input
+                    value={grantForm.account}
+                    onChange={e => setGrantForm({ ...grantForm, account: e.target.value.trim() })}
+                    placeholder="0x..."
+                  />
+                </div>
+                <button className="submit-btn" onClick={grantRole} disabled={pending || !grantForm.account}>
+                  授予
+                </button>
+              </div>
+            )}
+
+            <div className="swaps-section">
+              <div className="section-header">
+                <h2>角色持有者</h2>
+                <div className="header-actions">
+                  <button onClick={loadHolders} className="refresh-btn" disabled={loading}>
+                    {loading ? "刷新中..." : "刷新"}
+                  </button>
+                </div>
+              </div>
+              <div className="swaps-list">
+                {roles.map(role => (
+                  <div key={role} className="swap-item">
+                    <div className="swap-brand">{roleLabels[role].name}</div>
+                    <div className="swap-meta"><span>{role}</span><span>{roleLabels[role].description}</span></div>
+                    <div className="history-list">
+                      {(holders?.roles[role] ?? []).length === 0 && <div className="no-swaps"><p>仅所有者</p></div>}
+                      {(holders?.roles[role] ?? []).map(account => (
+                        <div key={account} className="history-item">
+                          <span className="history-brand">{shortAddress(account)}</span>
+                          {sameAddress(account, address) && <span className="data-badge verified">当前钱包</span>}
+                          {isOwner && (
+                            <button className="refresh-btn" onClick={() => revokeRole(role, account)} disabled={pending}>
+                              撤销
+                            </button>
+                          )}
+                        </div>
+                      ))}
+                    </div>
+                  </div>
+                ))}
+              </div>
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default AdminPanel;
@@ -0,0 +1,125 @@
+import React, { useEffect, useState } from "react";
+import { ethers } from "ethers";
+import { isFhevmError, isUserRejection, type PointsExpiry, type PointsSwapBalance } from "../../fhevm-sdk/src";
+import { getPointsSwapClient, pointsSwapAddress } from "./pointsSwap";
+
+// Lots expiring within this window are flagged
+const EXPIRING_SOON_SECONDS = 30 * 24 * 60 * 60;
+
+const BrandBalances: React.FC<{ address: string; refreshKey?: number }> = ({ address, refreshKey }) => {
+  const [balances, setBalances] = useState<PointsSwapBalance[]>([]);
+  const [decrypted, setDecrypted] = useState<Record<string, bigint> | null>(null);
+  const [expiry, setExpiry] = useState<Record<string, PointsExpiry>>({});
+  const [loading, setLoading] = useState(false);
+  const [isDecrypting, setIsDecrypting] = useState(false);
+  const [error, setError] = useState("");
+
+  const loadBalances = async () => {
+    setLoading(true);
+    setError("");
+    try {
+      const client = await getPointsSwapClient();
+      const all = await client.getBrandBalances(address);
+      // Brands the user never held have no ciphertext yet
+      setBalances(all.filter(b => b.encryptedPoints !== ethers.ZeroHash));
+      setDecrypted(null);
+      setExpiry({});
+    } catch (e: any) {
+      setError(e.message?.includes("Account not found") ? "尚未创建积分账户" : "加载品牌积分失败");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const decryptBalances = async () => {
+    if (decrypted) {
+      setDecrypted(null);
+      setExpiry({});
+      return;
+    }
+
+    setIsDecrypting(true);
+    setError("");
+    try {
+      const client = await getPointsSwapClient();
+      setDecrypted(await client.decryptBrandBalances(address));
+      // Lots are user-decrypted with the connected wallet, which owns these balances
+      const lots = await Promise.all(balances.map(b => client.decryptExpiringPoints(b.brandId)));
+      setExpiry(Object.fromEntries(balances.map((b, i) => [b.brandId, lots[i]])));
+    } catch (e: any) {
+      if (isUserRejection(e)) {
+        setError("用户取消签名");
+      } else if (isFhevmError(e, "RELAYER_UNAVAILABLE")) {
+        setError("解密服务暂时不可用，请稍后重试");
+      } else if (isFhevmError(e, "ACL_DENIED")) {
+        setError("无权解密该数据");
+      } else {
+        setError("解密失败: " + (e.message || "未知错误"));
+      }
+    } finally {
+      setIsDecrypting(false);
+    }
+  };
+
+  useEffect(() => {
+    if (address && pointsSwapAddress) loadBalances();
+  }, [address, refreshKey]);
+
+  if (!pointsSwapAddress) return null;
+
+  return (
+    <div className="history-section">
+      <div className="section-header">
+        <h3>我的品牌积分</h3>
+        <div className="header-actions">
+          <button onClick={loadBalances} className="refresh-btn" disabled={loading}>
+            {loading ? "刷新中..." : "刷新"}
+          </button>
+          <button
+            onClick={decryptBalances}
+            className={`decrypt-btn ${decrypted ? "decrypted" : ""}`}
+            disabled={isDecrypting || balances.length === 0}
+          >
+            {isDecrypting ? "🔓 解密中..." : decrypted ? "🔒 隐藏" : "🔓 解密全部"}
+          </button>
+        </div>
+      </div>
+
+      <div className="fhe-notice">
+        <p>积分余额仅对账户本人授权，解密需要钱包签名。</p>
+      </div>
+
+      {error && <div className="data-type-label">{error}</div>}
+
+      <div className="history-list">
+        {!error && balances.length === 0 && !loading && (
+          <div className="no-swaps"><p>暂无品牌积分</p></div>
+        )}
+        {balances.map(balance => {
+          // Expired lots stay in the stored balance until its next use
+          const brandExpiry = expiry[balance.brandId];
+          const next = brandExpiry?.lots[0];
+          const soon = next && next.expiresAt - Date.now() / 1000 < EXPIRING_SOON_SECONDS;
+          return (
+            <div key={balance.brandId} className="history-item">
+              <span className="history-brand">{balance.brandId}</span>
+              <span className="history-value">
+                {decrypted ? (decrypted[balance.brandId] - (brandExpiry?.expired ?? 0n)).toString() : "🔒 FHE加密"}
+              </span>
+              <span className={`data-badge ${decrypted ? "local" : "public"}`}>
+                {decrypted ? "用户解密" : "euint64"}
+              </span>
+              {next && (
+                <span className={`data-badge ${soon ? "local" : "public"}`}>
+                  {soon ? "即将过期: " : ""}{next.amount.toString()} 积分于 {new Date(next.expiresAt * 1000).toLocaleDateString()} 过期
+                </span>
+              )}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default BrandBalances;
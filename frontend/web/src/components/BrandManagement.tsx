@@ -0,0 +1,349 @@
+import { ConnectButton } from '@rainbow-me/rainbowkit';
+import React, { useEffect, useState } from "react";
+import { Link } from "react-router-dom";
+import { useAccount } from "wagmi";
+import { ethers } from "ethers";
+import { isUserRejection, parseRate, PointsSwapClient, type PointsSwapBrand } from "../../fhevm-sdk/src";
+import IssuerConsole from "./IssuerConsole";
+import RateAuctionPanel from "./RateAuctionPanel";
+import { getPointsSwapClient, pointsSwapAddress } from "./pointsSwap";
+import "../App.css";
+
+type Status = { kind: "idle" | "pending" | "success" | "error"; message: string };
+
+const emptyBrand = { brandId: "", displayName: "", logoURI: "", decimals: "0", issuer: "" };
+
+const DAY = 24 * 60 * 60;
+
+const shortAddress = (account: string) => `${account.substring(0, 6)}...${account.substring(38)}`;
+
+const BrandManagement: React.FC = () => {
+  const { address } = useAccount();
+  const [brands, setBrands] = useState<PointsSwapBrand[]>([]);
+  const [adminOf, setAdminOf] = useState<Record<string, boolean>>({});
+  const [isOwner, setIsOwner] = useState(false);
+  const [loading, setLoading] = useState(false);
+  const [status, setStatus] = useState<Status>({ kind: "idle", message: "" });
+  const [newBrand, setNewBrand] = useState(emptyBrand);
+  const [editing, setEditing] = useState<{ brandId: string; displayName: string; logoURI: string } | null>(null);
+  const [rateForm, setRateForm] = useState<{ toBrand: string; fromBrand: string; rate: string } | null>(null);
+  const [adminInput, setAdminInput] = useState<Record<string, string>>({});
+  const [expiryDays, setExpiryDays] = useState<Record<string, string>>({});
+
+  const loadBrands = async () => {
+    if (!address) return;
+    setLoading(true);
+    try {
+      const client = await getPointsSwapClient();
+      const all = await client.getBrands();
+      // BRAND_ADMIN holders act as admins of every brand
+      const brandAdmin = await client.hasRole("BRAND_ADMIN", address);
+      const admins = await Promise.all(all.map(brand => brandAdmin || client.isBrandAdmin(brand.brandId, address)));
+      const periods = await Promise.all(all.map(brand => client.getExpiryPeriod(brand.brandId)));
+
+      setBrands(all);
+      setAdminOf(Object.fromEntries(all.map((brand, i) => [brand.brandId, admins[i]])));
+      setExpiryDays(Object.fromEntries(all.map((brand, i) => [brand.brandId, String(periods[i] / DAY)])));
+      setIsOwner((await client.contract.owner()).toLowerCase() === address.toLowerCase());
+    } catch (e) {
+      console.error("Failed to load brands:", e);
+      setStatus({ kind: "error", message: "加载品牌失败" });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    if (pointsSwapAddress) loadBrands();
+  }, [address]);
+
+  const run = async (pending: string, success: string, action: (client: PointsSwapClient) => Promise<unknown>) => {
+    setStatus({ kind: "pending", message: pending });
+    try {
+      await action(await getPointsSwapClient());
+      setStatus({ kind: "success", message: success });
+      await loadBrands();
+      return true;
+    } catch (e: any) {
+      let message = "操作失败: " + (e.message || "未知错误");
+      if (isUserRejection(e)) {
+        message = "用户取消交易";
+      } else if (/Not authorized|Not brand admin|Not brand issuer/.test(e.message ?? "")) {
+        message = "无权管理该品牌";
+      } else if (e.message?.includes("Brand already supported")) {
+        message = "品牌ID已存在";
+      }
+      setStatus({ kind: "error", message });
+      return false;
+    }
+  };
+
+  const registerBrand = async () => {
+    const issuer = newBrand.issuer || address!;
+    if (!ethers.isAddress(issuer)) {
+      setStatus({ kind: "error", message: "发行方地址无效" });
+      return;
+    }
+    const done = await run("注册品牌中...", "品牌注册成功!", client => client.registerBrand(newBrand.brandId, {
+      displayName: newBrand.displayName || newBrand.brandId,
+      logoURI: newBrand.logoURI,
+      decimals: parseInt(newBrand.decimals) || 0,
+      issuer,
+    }));
+    if (done) setNewBrand(emptyBrand);
+  };
+
+  const saveMetadata = async () => {
+    if (!editing) return;
+    const done = await run("更新品牌信息中...", "品牌信息已更新", client =>
+      client.updateBrandMetadata(editing.brandId, editing.displayName, editing.logoURI));
+    if (done) setEditing(null);
+  };
+
+  const setRate = async () => {
+    if (!rateForm) return;
+    try {
+      parseRate(rateForm.rate);
+    } catch {
+      setStatus({ kind: "error", message: "汇率需为正数，最多4位小数" });
+      return;
+    }
+    const done = await run("加密汇率并提交中...", "汇率已更新", client =>
+      client.setExchangeRate(rateForm.fromBrand, rateForm.toBrand, rateForm.rate));
+    if (done) setRateForm(null);
+  };
+
+  const updateAdmin = async (brandId: string, grant: boolean) => {
+    const account = adminInput[brandId] ?? "";
+    if (!ethers.isAddress(account)) {
+      setStatus({ kind: "error", message: "管理员地址无效" });
+      return;
+    }
+    const done = await run(grant ? "添加管理员中..." : "移除管理员中...", grant ? "管理员已添加" : "管理员已移除", client =>
+      grant ? client.grantBrandAdmin(brandId, account) : client.revokeBrandAdmin(brandId, account));
+    if (done) setAdminInput({ ...adminInput, [brandId]: "" });
+  };
+
+  const saveExpiry = async (brandId: string) => {
+    const days = parseInt(expiryDays[brandId] || "0");
+    await run("更新积分有效期中...", days > 0 ? `积分有效期已设为${days}天周期` : "积分已设为永不过期", client =>
+      client.setExpiryPolicy(brandId, days * DAY));
+  };
+
+  const isIssuer = (brand: PointsSwapBrand) =>
+    isOwner || (!!address && brand.issuer.toLowerCase() === address.toLowerCase());
+
+  const renderBrand = (brand: PointsSwapBrand) => (
+    <div key={brand.brandId} className={`swap-item ${brand.active ? "verified" : ""}`}>
+      <div className="swap-brand">
+        {brand.logoURI && <img src={brand.logoURI} alt="" width={24} height={24} />} {brand.displayName}
+      </div>
+      <div className="swap-meta">
+        <span>ID: {brand.brandId}</span>
+        <span>积分精度: {brand.decimals}</span>
+        <span>发行方: {shortAddress(brand.issuer)}</span>
+      </div>
+      <div className="swap-status">
+        状态: {brand.active ? "✅ 启用" : "⏸ 停用"}
+        {adminOf[brand.brandId] && <span className="data-badge verified">管理员</span>}
+      </div>
+
+      {(adminOf[brand.brandId] || isOwner) && (
+        <div className="header-actions">
+          <button className="refresh-btn" onClick={() => setEditing({ ...brand })}>编辑信息</button>
+          <button className="refresh-btn" onClick={() => setRateForm({ toBrand: brand.brandId, fromBrand: "", rate: "" })}>
+            设置兑入汇率
+          </button>
+          {isIssuer(brand) && (
+            <button className="refresh-btn" onClick={() => run(
+              brand.active ? "停用品牌中..." : "启用品牌中...",
+              brand.active ? "品牌已停用" : "品牌已启用",
+              client => client.setBrandActive(brand.brandId, !brand.active),
+            )}>
+              {brand.active ? "停用" : "启用"}
+            </button>
+          )}
+        </div>
+      )}
+
+      {editing?.brandId === brand.brandId && (
+        <div className="form-group">
+          <label>显示名称</label>
+          <input value={editing.displayName} onChange={e => setEditing({ ...editing, displayName: e.target.value })} />
+          <label>Logo URI</label>
+          <input value={editing.logoURI} onChange={e => setEditing({ ...editing, logoURI: e.target.value })} />
+          <button className="cancel-btn" onClick={() => setEditing(null)}>取消</button>
+          <button className="submit-btn" onClick={saveMetadata} disabled={!editing.displayName}>保存</button>
+        </div>
+      )}
+
+      {rateForm?.toBrand === brand.brandId && (
+        <div className="form-group">
+          <label>源品牌 → {brand.displayName}</label>
+          <select
+            className="filter-select"
+            value={rateForm.fromBrand}
+            onChange={e => setRateForm({ ...rateForm, fromBrand: e.target.value })}
+          >
+            <option value="">选择源品牌</option>
+            {brands.filter(b => b.brandId !== brand.brandId).map(b => (
+              <option key={b.brandId} value={b.brandId}>{b.displayName}</option>
+            ))}
+          </select>
+          <label>汇率（最多4位小数）</label>
+          <input
+            type="number"
+            step="0.0001"
+            min="0.0001"
+            value={rateForm.rate}
+            onChange={e => setRateForm({ ...rateForm, rate: e.target.value.replace(/[^\d.]/g, "") })}
+            placeholder="例如 0.8"
+          />
+          <div className="data-type-label">FHE加密汇率</div>
+          <button className="cancel-btn" onClick={() => setRateForm(null)}>取消</button>
+          <button className="submit-btn" onClick={setRate} disabled={!rateForm.fromBrand || !rateForm.rate}>提交</button>
+        </div>
+      )}
+
+      {isIssuer(brand) && (
+        <div className="form-group">
+          <label>积分有效期（天，0为永不过期）</label>
+          <input
+            type="number"
+            min="0"
+            step="1"
+            value={expiryDays[brand.brandId] ?? "0"}
+            onChange={e => setExpiryDays({ ...expiryDays, [brand.brandId]: e.target.value.replace(/[^\d]/g, "") })}
+          />
+          <div className="data-type-label">某周期内获得的积分在下一周期结束时过期，先到期的积分优先使用</div>
+          <button className="refresh-btn" onClick={() => saveExpiry(brand.brandId)}>保存</button>
+        </div>
+      )}
+
+      {isIssuer(brand) && (
+        <div className="form-group">
+          <label>品牌管理员</label>
+          <input
+            value={adminInput[brand.brandId] ?? ""}
+            onChange={e => setAdminInput({ ...adminInput, [brand.brandId]: e.target.value })}
+            placeholder="0x..."
+          />
+          <button className="refresh-btn" onClick={() => updateAdmin(brand.brandId, true)}>添加</button>
+          <button className="refresh-btn" onClick={() => updateAdmin(brand.brandId, false)}>移除</button>
+        </div>
+      )}
+    </div>
+  );
+
+  return (
+    <div className="app-container">
+      <header className="app-header">
+        <div className="logo">
+          <h1>🔐 PointsSwap FHE</h1>
+          <span className="subtitle">品牌管理</span>
+        </div>
+
+        <div className="header-actions">
+          <Link to="/" className="faq-btn">返回首页</Link>
+          <div className="wallet-connect-wrapper">
+            <ConnectButton accountStatus="address" chainStatus="icon" showBalance={false}/>
+          </div>
+        </div>
+      </header>
+
+      <div className="main-content-container">
+        {!pointsSwapAddress ? (
+          <div className="no-swaps"><p>未配置 PointsSwap 合约地址</p></div>
+        ) : !address ? (
+          <div className="no-swaps"><p>请先连接钱包</p></div>
+        ) : (
+          <>
+            {status.kind !== "idle" && (
+              <div className={`data-badge ${status.kind === "success" ? "verified" : status.kind === "error" ? "local" : "public"}`}>
+                {status.message}
+              </div>
+            )}
+
+            {isOwner && (
+              <div className="history-section">
+                <h3>注册新品牌</h3>
+                <div className="form-group">
+                  <label>品牌ID *</label>
+                  <input
+                    value={newBrand.brandId}
+                    onChange={e => setNewBrand({ ...newBrand, brandId: e.target.value.trim() })}
+                    placeholder="例如 airline"
+                  />
+                </div>
+                <div className="form-group">
+                  <label>显示名称</label>
+                  <input
+                    value={newBrand.displayName}
+                    onChange={e => setNewBrand({ ...newBrand, displayName: e.target.value })}
+                    placeholder="默认为品牌ID"
+                  />
+                </div>
+                <div className="form-group">
+                  <label>Logo URI</label>
+                  <input
+                    value={newBrand.logoURI}
+                    onChange={e => setNewBrand({ ...newBrand, logoURI: e.target.value })}
+                    placeholder="https:// 或 ipfs://"
+                  />
+                </div>
+                <div className="form-group">
+                  <label>积分精度</label>
+                  <input
+                    type="number"
+                    min="0"
+                    max="18"
+                    step="1"
+                    value={newBrand.decimals}
+                    onChange={e => setNewBrand({ ...newBrand, decimals: e.target.value.replace(/[^\d]/g, "") })}
+                  />
+                </div>
+                <div className="form-group">
+                  <label>发行方地址</label>
+                  <input
+                    value={newBrand.issuer}
+                    onChange={e => setNewBrand({ ...newBrand, issuer: e.target.value.trim() })}
+                    placeholder="默认为当前钱包"
+                  />
+                </div>
+                <button
+                  className="submit-btn"
+                  onClick={registerBrand}
+                  disabled={status.kind === "pending" || !newBrand.brandId}
+                >
+                  注册品牌
+                </button>
+              </div>
+            )}
+
+            <IssuerConsole brands={brands.filter(brand => brand.active && (isOwner || adminOf[brand.brandId]))} />
+
+            <RateAuctionPanel brands={brands.filter(brand => brand.active)} adminOf={adminOf} isOwner={isOwner} />
+
+            <div className="swaps-section">
+              <div className="section-header">
+                <h2>品牌列表</h2>
+                <div className="header-actions">
+                  <button onClick={loadBrands} className="refresh-btn" disabled={loading}>
+                    {loading ? "刷新中..." : "刷新"}
+                  </button>
+                </div>
+              </div>
+              <div className="swaps-list">
+                {brands.length === 0 && !loading ? (
+                  <div className="no-swaps"><p>暂无品牌</p></div>
+                ) : brands.map(renderBrand)}
+              </div>
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default BrandManagement;
@@ -0,0 +1,116 @@
+import React, { useEffect, useState } from "react";
+import { isFhevmError, isUserRejection, type PointsSwapBrand } from "../../fhevm-sdk/src";
+import { getPointsSwapClient, pointsSwapAddress } from "./pointsSwap";
+
+type ConvertStatus = { kind: "idle" | "pending" | "success" | "error"; message: string };
+
+const ConvertPoints: React.FC<{ onConverted: () => void }> = ({ onConverted }) => {
+  const [brands, setBrands] = useState<PointsSwapBrand[]>([]);
+  const [form, setForm] = useState({ fromBrand: "", toBrand: "", amount: "" });
+  const [status, setStatus] = useState<ConvertStatus>({ kind: "idle", message: "" });
+
+  useEffect(() => {
+    if (!pointsSwapAddress) return;
+    getPointsSwapClient()
+      .then(client => client.getBrands())
+      // Inactive brands cannot take part in conversions
+      .then(all => setBrands(all.filter(brand => brand.active)))
+      .catch(e => console.error("Failed to load brands:", e));
+  }, []);
+
+  const handleChange = (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement>) => {
+    const { name, value } = e.target;
+    setForm({ ...form, [name]: name === "amount" ? value.replace(/[^\d]/g, "") : value });
+  };
+
+  const convert = async () => {
+    setStatus({ kind: "pending", message: "加密兑换数量并提交中..." });
+    try {
+      const client = await getPointsSwapClient();
+      await client.convertPoints(form.fromBrand, form.toBrand, BigInt(form.amount));
+
+      // The contract turns an underfunded conversion into a no-op; only the user can decrypt the outcome
+      setStatus({ kind: "pending", message: "解密兑换结果..." });
+      const succeeded = await client.decryptLastConversion();
+      setStatus(succeeded
+        ? { kind: "success", message: "兑换成功!" }
+        : { kind: "error", message: "余额不足，兑换未执行" });
+      onConverted();
+    } catch (e: any) {
+      let message = "兑换失败: " + (e.message || "未知错误");
+      if (isUserRejection(e)) {
+        message = "用户取消交易";
+      } else if (isFhevmError(e, "RELAYER_UNAVAILABLE")) {
+        message = "解密服务暂时不可用，请稍后重试";
+      } else if (e.message?.includes("Exchange rate not set")) {
+        message = "该品牌组合尚未设置汇率";
+      } else if (e.message?.includes("Pair paused")) {
+        message = "该品牌组合的兑换已暂停";
+      } else if (e.message?.includes("Paused")) {
+        message = "合约已暂停，请稍后再试";
+      }
+      setStatus({ kind: "error", message });
+    }
+  };
+
+  if (!pointsSwapAddress) return null;
+
+  const pending = status.kind === "pending";
+
+  return (
+    <div className="history-section">
+      <h3>积分兑换 (FHE 🔐)</h3>
+      <div className="fhe-notice">
+        <p>兑换数量在链上保持加密；余额不足时兑换不会执行。</p>
+      </div>
+
+      <div className="form-group">
+        <label>源品牌 *</label>
+        <select name="fromBrand" value={form.fromBrand} onChange={handleChange} className="filter-select">
+          <option value="">选择品牌</option>
+          {brands.map(brand => <option key={brand.brandId} value={brand.brandId}>{brand.displayName}</option>)}
+        </select>
+      </div>
+
+      <div className="form-group">
+        <label>目标品牌 *</label>
+        <select name="toBrand" value={form.toBrand} onChange={handleChange} className="filter-select">
+          <option value="">选择品牌</option>
+          {brands.filter(brand => brand.brandId !== form.fromBrand).map(brand => (
+            <option key={brand.brandId} value={brand.brandId}>{brand.displayName}</option>
+          ))}
+        </select>
+      </div>
+
+      <div className="form-group">
+        <label>兑换数量（整数） *</label>
+        <input
+          type="number"
+          name="amount"
+          value={form.amount}
+          onChange={handleChange}
+          placeholder="输入兑换数量..."
+          step="1"
+          min="1"
+        />
+        <div className="data-type-label">FHE加密整数</div>
+      </div>
+
+      <button
+        onClick={convert}
+        disabled={pending || !form.fromBrand || !form.toBrand || !form.amount}
+        className="submit-btn"
+      >
+        {pending ? "兑换中..." : "兑换"}
+      </button>
+
+      {status.kind !== "idle" && (
+        <div className={`data-badge ${status.kind === "success" ? "verified" : status.kind === "error" ? "local" : "public"}`}>
+          {status.message}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ConvertPoints;
@@ -0,0 +1,134 @@
+import React, { useState } from "react";
+import { ethers } from "ethers";
+import { isFhevmError, isUserRejection, MINT_BATCH_SIZE, type PointsMintEntry, type PointsSwapBrand } from "../../fhevm-sdk/src";
+import { getPointsSwapClient } from "./pointsSwap";
+
+type Status = { kind: "idle" | "pending" | "success" | "error"; message: string };
+
+// "address,amount" per line; a header line is allowed
+const parseCsv = (text: string) => {
+  const entries: PointsMintEntry[] = [];
+  const errors: string[] = [];
+
+  text.split(/\r?\n/).forEach((line, index) => {
+    const [account, amount] = line.split(",").map(field => field.trim());
+    if (!account) return;
+    if (index === 0 && !ethers.isAddress(account)) return;
+
+    if (!ethers.isAddress(account) || !/^\d+$/.test(amount ?? "")) {
+      errors.push(`第${index + 1}行格式错误: ${line}`);
+      return;
+    }
+    entries.push({ account, amount: BigInt(amount) });
+  });
+  return { entries, errors };
+};
+
+const IssuerConsole: React.FC<{ brands: PointsSwapBrand[] }> = ({ brands }) => {
+  const [brandId, setBrandId] = useState("");
+  const [csv, setCsv] = useState("");
+  const [supply, setSupply] = useState<bigint | null>(null);
+  const [status, setStatus] = useState<Status>({ kind: "idle", message: "" });
+
+  const { entries, errors } = parseCsv(csv);
+  const total = entries.reduce((sum, entry) => sum + BigInt(entry.amount), 0n);
+  const pending = status.kind === "pending";
+
+  const loadFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (file) setCsv(await file.text());
+  };
+
+  const describeError = (e: any) => {
+    if (isUserRejection(e)) return "用户取消交易";
+    if (isFhevmError(e, "RELAYER_UNAVAILABLE")) return "解密服务暂时不可用，请稍后重试";
+    if (isFhevmError(e, "ACL_DENIED")) return "无权解密该数据";
+    if (e.message?.includes("Account not found")) return "部分客户尚未创建积分账户";
+    if (e.message?.includes("Not brand admin")) return "无权为该品牌发放积分";
+    return "操作失败: " + (e.message || "未知错误");
+  };
+
+  const mint = async () => {
+    const batches = Math.ceil(entries.length / MINT_BATCH_SIZE);
+    setStatus({ kind: "pending", message: `加密并发放中（共${batches}笔交易）...` });
+    try {
+      const client = await getPointsSwapClient();
+      await client.mintPointsBatch(brandId, entries);
+      setStatus({ kind: "success", message: `已向${entries.length}位客户发放积分` });
+      setCsv("");
+      setSupply(null);
+    } catch (e: any) {
+      setStatus({ kind: "error", message: describeError(e) });
+    }
+  };
+
+  const decryptSupply = async () => {
+    setStatus({ kind: "pending", message: "解密总发行量..." });
+    try {
+      const client = await getPointsSwapClient();
+      setSupply(await client.decryptBrandSupply(brandId));
+      setStatus({ kind: "idle", message: "" });
+    } catch (e: any) {
+      setStatus({ kind: "error", message: describeError(e) });
+    }
+  };
+
+  if (brands.length === 0) return null;
+
+  return (
+    <div className="history-section">
+      <h3>发行方控制台 (FHE 🔐)</h3>
+      <div className="fhe-notice">
+        <p>每行一位客户：地址,积分数量。发放数量在链上保持加密，事件中不包含数量。</p>
+      </div>
+
+      <div className="form-group">
+        <label>品牌 *</label>
+        <select
+          className="filter-select"
+          value={brandId}
+          onChange={e => { setBrandId(e.target.value); setSupply(null); }}
+        >
+          <option value="">选择品牌</option>
+          {brands.map(brand => <option key={brand.brandId} value={brand.brandId}>{brand.displayName}</option>)}
+        </select>
+        {brandId && (
+          <button className="decrypt-btn" onClick={decryptSupply} disabled={pending}>
+            {supply !== null ? `总发行量: ${supply}` : "🔓 解密总发行量"}
+          </button>
+        )}
+      </div>
+
+      <div className="form-group">
+        <label>客户列表 (CSV)</label>
+        <input type="file" accept=".csv,text/csv" onChange={loadFile} />
+        <textarea
+          value={csv}
+          onChange={e => setCsv(e.target.value)}
+          placeholder={"address,amount\n0x...,100"}
+          rows={6}
+        />
+        <div className="data-type-label">
+          {entries.length}位客户 · 合计{total.toString()}积分
+        </div>
+        {errors.map(error => <div key={error} className="data-type-label">{error}</div>)}
+      </div>
+
+      <button
+        className="submit-btn"
+        onClick={mint}
+        disabled={pending || !brandId || entries.length === 0 || errors.length > 0}
+      >
+        {pending ? "处理中..." : "批量发放"}
+      </button>
+
+      {status.kind !== "idle" && (
+        <div className={`data-badge ${status.kind === "success" ? "verified" : status.kind === "error" ? "local" : "public"}`}>
+          {status.message}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default IssuerConsole;
@@ -0,0 +1,187 @@
+import React, { useEffect, useState } from "react";
+import {
+  DEFAULT_RATE_DECIMALS,
+  isFhevmError,
+  isUserRejection,
+  parseRate,
+  PointsSwapClient,
+  type PointsSwapBrand,
+  type PointsSwapRateAuction,
+} from "../../fhevm-sdk/src";
+import { getPointsSwapClient } from "./pointsSwap";
+
+type Status = { kind: "idle" | "pending" | "success" | "error"; message: string };
+
+const statusLabels = { none: "无", open: "🟢 竞价中", closed: "🔒 待揭晓", settled: "✅ 已结束" };
+
+const RateAuctionPanel: React.FC<{
+  brands: PointsSwapBrand[];
+  adminOf: Record<string, boolean>;
+  isOwner: boolean;
+}> = ({ brands, adminOf, isOwner }) => {
+  const [pair, setPair] = useState({ fromBrand: "", toBrand: "" });
+  const [auction, setAuction] = useState<PointsSwapRateAuction | null>(null);
+  const [hours, setHours] = useState("24");
+  const [bid, setBid] = useState("");
+  const [status, setStatus] = useState<Status>({ kind: "idle", message: "" });
+
+  const loadAuction = async () => {
+    if (!pair.fromBrand || !pair.toBrand) return;
+    try {
+      const client = await getPointsSwapClient();
+      setAuction(await client.getRateAuction(pair.fromBrand, pair.toBrand));
+    } catch {
+      // Pairs that never had an auction revert with "Auction not found"
+      setAuction(null);
+    }
+  };
+
+  useEffect(() => {
+    setAuction(null);
+    loadAuction();
+  }, [pair.fromBrand, pair.toBrand]);
+
+  const run = async (pending: string, action: (client: PointsSwapClient) => Promise<string>) => {
+    setStatus({ kind: "pending", message: pending });
+    try {
+      const message = await action(await getPointsSwapClient());
+      setStatus({ kind: "success", message });
+      await loadAuction();
+    } catch (e: any) {
+      let message = "操作失败: " + (e.message || "未知错误");
+      if (isUserRejection(e)) {
+        message = "用户取消交易";
+      } else if (isFhevmError(e, "RELAYER_UNAVAILABLE")) {
+        message = "解密服务暂时不可用，请稍后重试";
+      } else if (e.message?.includes("Not brand admin")) {
+        message = "无权参与该品牌组合的竞价";
+      } else if (e.message?.includes("Auction in progress")) {
+        message = "该品牌组合已有进行中的竞价";
+      }
+      setStatus({ kind: "error", message });
+    }
+  };
+
+  const openAuction = () => run("发起竞价中...", async client => {
+    await client.openRateAuction(pair.fromBrand, pair.toBrand, Math.round(parseFloat(hours) * 3600));
+    return "竞价已发起";
+  });
+
+  const submitBid = () => {
+    try {
+      parseRate(bid, auction?.decimals ?? DEFAULT_RATE_DECIMALS);
+    } catch {
+      setStatus({ kind: "error", message: `出价需为正数，最多${auction?.decimals}位小数` });
+      return;
+    }
+    run("加密出价并提交中...", async client => {
+      await client.submitRateBid(pair.fromBrand, pair.toBrand, bid);
+      setBid("");
+      return "出价已提交，结束前任何人都无法查看";
+    });
+  };
+
+  const closeAndReveal = () => run("结束竞价并揭晓中...", async client => {
+    if (auction?.status === "open") {
+      await client.closeRateAuction(pair.fromBrand, pair.toBrand);
+      if (auction.bidCount === 0) return "无人出价，竞价已结束";
+    }
+    const winningRate = await client.revealRateAuction(pair.fromBrand, pair.toBrand);
+    return `中标汇率 ${winningRate} 已生效`;
+  });
+
+  if (brands.length < 2) return null;
+
+  const canOpen = isOwner || adminOf[pair.toBrand];
+  // Only the target brand honours the rate, so only its admins bid
+  const canBid = isOwner || adminOf[pair.toBrand];
+  const ended = !!auction && Date.now() / 1000 >= auction.endTime;
+  const pending = status.kind === "pending";
+
+  return (
+    <div className="history-section">
+      <h3>汇率密封竞价 (FHE 🔐)</h3>
+      <div className="fhe-notice">
+        <p>目标品牌的管理员加密提交愿意承兑的汇率，合约同态计算最高出价；只有中标汇率会在结束时公开解密。</p>
+      </div>
+
+      <div className="form-group">
+        <label>品牌组合 *</label>
+        <select
+          className="filter-select"
+          value={pair.fromBrand}
+          onChange={e => setPair({ ...pair, fromBrand: e.target.value })}
+        >
+          <option value="">选择源品牌</option>
+          {brands.map(brand => <option key={brand.brandId} value={brand.brandId}>{brand.displayName}</option>)}
+        </select>
+        <select
+          className="filter-select"
+          value={pair.toBrand}
+          onChange={e => setPair({ ...pair, toBrand: e.target.value })}
+        >
+          <option value="">选择目标品牌</option>
+          {brands.filter(brand => brand.brandId !== pair.fromBrand).map(brand => (
+            <option key={brand.brandId} value={brand.brandId}>{brand.displayName}</option>
+          ))}
+        </select>
+      </div>
+
+      {pair.fromBrand && pair.toBrand && (
+        <>
+          <div className="swap-meta">
+            <span>状态: {statusLabels[auction?.status ?? "none"]}</span>
+            {auction && <span>截止: {new Date(auction.endTime * 1000).toLocaleString()}</span>}
+            {auction && <span>出价数: {auction.bidCount}</span>}
+          </div>
+
+          {canOpen && auction?.status !== "open" && auction?.status !== "closed" && (
+            <div className="form-group">
+              <label>竞价时长（小时）</label>
+              <input
+                type="number"
+                min="1"
+                step="1"
+                value={hours}
+                onChange={e => setHours(e.target.value.replace(/[^\d.]/g, ""))}
+              />
+              <button className="submit-btn" onClick={openAuction} disabled={pending || !(parseFloat(hours) > 0)}>
+                发起竞价
+              </button>
+            </div>
+          )}
+
+          {canBid && auction?.status === "open" && !ended && (
+            <div className="form-group">
+              <label>出价汇率（最多{auction.decimals}位小数）</label>
+              <input
+                type="number"
+                min="0"
+                step="0.0001"
+                value={bid}
+                onChange={e => setBid(e.target.value.replace(/[^\d.]/g, ""))}
+                placeholder="例如 0.85"
+              />
+              <div className="data-type-label">FHE加密出价</div>
+              <button className="submit-btn" onClick={submitBid} disabled={pending || !bid}>提交出价</button>
+            </div>
+          )}
+
+          {(auction?.status === "closed" || (auction?.status === "open" && ended)) && (
+            <button className="submit-btn" onClick={closeAndReveal} disabled={pending}>
+              {auction.status === "open" ? "结束并揭晓" : "揭晓中标汇率"}
+            </button>
+          )}
+        </>
+      )}
+
+      {status.kind !== "idle" && (
+        <div className={`data-badge ${status.kind === "success" ? "verified" : status.kind === "error" ? "local" : "public"}`}>
+          {status.message}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default RateAuctionPanel;
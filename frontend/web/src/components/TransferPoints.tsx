@@ -0,0 +1,117 @@
+import React, { useEffect, useState } from "react";
+import { ethers } from "ethers";
+import { isFhevmError, isUserRejection, type PointsSwapBrand } from "../../fhevm-sdk/src";
+import { getPointsSwapClient, pointsSwapAddress } from "./pointsSwap";
+
+type TransferStatus = { kind: "idle" | "pending" | "success" | "error"; message: string };
+
+const TransferPoints: React.FC<{ onTransferred: () => void }> = ({ onTransferred }) => {
+  const [brands, setBrands] = useState<PointsSwapBrand[]>([]);
+  const [form, setForm] = useState({ brandId: "", to: "", amount: "" });
+  const [status, setStatus] = useState<TransferStatus>({ kind: "idle", message: "" });
+
+  useEffect(() => {
+    if (!pointsSwapAddress) return;
+    getPointsSwapClient()
+      .then(client => client.getBrands())
+      .then(all => setBrands(all.filter(brand => brand.active)))
+      .catch(e => console.error("Failed to load brands:", e));
+  }, []);
+
+  const handleChange = (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement>) => {
+    const { name, value } = e.target;
+    setForm({ ...form, [name]: name === "amount" ? value.replace(/[^\d]/g, "") : value.trim() });
+  };
+
+  const transfer = async () => {
+    if (!ethers.isAddress(form.to)) {
+      setStatus({ kind: "error", message: "接收地址无效" });
+      return;
+    }
+
+    setStatus({ kind: "pending", message: "加密转账数量并提交中..." });
+    try {
+      const client = await getPointsSwapClient();
+      const result = await client.transferPoints(form.brandId, form.to, BigInt(form.amount));
+
+      // An amount above the balance moves nothing; the emitted handle tells what was sent
+      setStatus({ kind: "pending", message: "解密转账结果..." });
+      const sent = await client.decryptTransfer(result);
+      setStatus(sent > 0n
+        ? { kind: "success", message: `已转出 ${sent} 积分` }
+        : { kind: "error", message: "余额不足，转账未执行" });
+      setForm({ ...form, amount: "" });
+      onTransferred();
+    } catch (e: any) {
+      let message = "转账失败: " + (e.message || "未知错误");
+      if (isUserRejection(e)) {
+        message = "用户取消交易";
+      } else if (isFhevmError(e, "RELAYER_UNAVAILABLE")) {
+        message = "解密服务暂时不可用，请稍后重试";
+      } else if (e.message?.includes("Account not found")) {
+        message = "接收方尚未创建积分账户";
+      } else if (e.message?.includes("Invalid recipient")) {
+        message = "不能转账给自己";
+      } else if (e.message?.includes("Paused")) {
+        message = "合约已暂停，请稍后再试";
+      }
+      setStatus({ kind: "error", message });
+    }
+  };
+
+  if (!pointsSwapAddress) return null;
+
+  const pending = status.kind === "pending";
+
+  return (
+    <div className="history-section">
+      <h3>积分转账 (FHE 🔐)</h3>
+      <div className="fhe-notice">
+        <p>转账数量在链上保持加密，仅转出方和接收方可以解密。</p>
+      </div>
+
+      <div className="form-group">
+        <label>品牌 *</label>
+        <select name="brandId" value={form.brandId} onChange={handleChange} className="filter-select">
+          <option value="">选择品牌</option>
+          {brands.map(brand => <option key={brand.brandId} value={brand.brandId}>{brand.displayName}</option>)}
+        </select>
+      </div>
+
+      <div className="form-group">
+        <label>接收地址 *</label>
+        <input type="text" name="to" value={form.to} onChange={handleChange} placeholder="0x..." />
+      </div>
+
+      <div className="form-group">
+        <label>转账数量（整数） *</label>
+        <input
+          type="number"
+          name="amount"
+          value={form.amount}
+          onChange={handleChange}
+          placeholder="输入转账数量..."
+          step="1"
+          min="1"
+        />
+        <div className="data-type-label">FHE加密整数</div>
+      </div>
+
+      <button
+        onClick={transfer}
+        disabled={pending || !form.brandId || !form.to || !form.amount}
+        className="submit-btn"
+      >
+        {pending ? "转账中..." : "转账"}
+      </button>
+
+      {status.kind !== "idle" && (
+        <div className={`data-badge ${status.kind === "success" ? "verified" : status.kind === "error" ? "local" : "public"}`}>
+          {status.message}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default TransferPoints;
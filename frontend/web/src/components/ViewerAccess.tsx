@@ -0,0 +1,191 @@
+import React, { useEffect, useState } from "react";
+import { ethers } from "ethers";
+import {
+  isFhevmError,
+  isUserRejection,
+  PointsSwapClient,
+  type PointsSwapBrand,
+  type PointsSwapViewer,
+  type PointsViewerGrant,
+} from "../../fhevm-sdk/src";
+import { getPointsSwapClient, pointsSwapAddress } from "./pointsSwap";
+
+type Status = { kind: "idle" | "pending" | "success" | "error"; message: string };
+
+const formatDate = (seconds: number) => new Date(seconds * 1000).toLocaleDateString();
+
+const ViewerAccess: React.FC<{ address: string }> = ({ address }) => {
+  const [brands, setBrands] = useState<PointsSwapBrand[]>([]);
+  const [brandId, setBrandId] = useState("");
+  const [viewers, setViewers] = useState<PointsSwapViewer[]>([]);
+  const [form, setForm] = useState({ viewer: "", days: "30" });
+  const [shared, setShared] = useState<(PointsViewerGrant & { points?: bigint })[]>([]);
+  const [status, setStatus] = useState<Status>({ kind: "idle", message: "" });
+
+  const loadViewers = async () => {
+    if (!brandId) return;
+    const client = await getPointsSwapClient();
+    setViewers(await client.getViewers(brandId, address));
+  };
+
+  const loadShared = async () => {
+    const client = await getPointsSwapClient();
+    setShared(await client.getViewerGrants(address));
+  };
+
+  useEffect(() => {
+    if (!pointsSwapAddress) return;
+    getPointsSwapClient()
+      .then(client => client.getBrands())
+      .then(all => setBrands(all.filter(brand => brand.active)))
+      .catch(e => console.error("Failed to load brands:", e));
+    loadShared().catch(e => console.error("Failed to load shared balances:", e));
+  }, [address]);
+
+  useEffect(() => {
+    setViewers([]);
+    loadViewers().catch(e => console.error("Failed to load viewers:", e));
+  }, [brandId, address]);
+
+  const run = async (pending: string, action: (client: PointsSwapClient) => Promise<string>) => {
+    setStatus({ kind: "pending", message: pending });
+    try {
+      const message = await action(await getPointsSwapClient());
+      setStatus({ kind: "success", message });
+    } catch (e: any) {
+      let message = "操作失败: " + (e.message || "未知错误");
+      if (isUserRejection(e)) {
+        message = "用户取消操作";
+      } else if (isFhevmError(e, "RELAYER_UNAVAILABLE")) {
+        message = "解密服务暂时不可用，请稍后重试";
+      } else if (e.message?.includes("Too many viewers")) {
+        message = "该品牌的授权查看者已达上限";
+      } else if (e.message?.includes("Account inactive")) {
+        message = "尚未创建积分账户";
+      }
+      setStatus({ kind: "error", message });
+    }
+  };
+
+  const grant = () => {
+    if (!ethers.isAddress(form.viewer)) {
+      setStatus({ kind: "error", message: "查看者地址无效" });
+      return;
+    }
+    run("授权中...", async client => {
+      const expiresAt = Math.floor(Date.now() / 1000) + Math.round(parseFloat(form.days) * 24 * 3600);
+      await client.grantViewer(form.viewer, brandId, expiresAt);
+      setForm({ ...form, viewer: "" });
+      await loadViewers();
+      return `已授权至 ${formatDate(expiresAt)}`;
+    });
+  };
+
+  const revoke = (viewer: string) => run("撤销授权中...", async client => {
+    await client.revokeViewer(viewer, brandId);
+    await loadViewers();
+    return "已撤销，此后的余额不再对其开放";
+  });
+
+  const decryptShared = () => run("解密授权余额中...", async client => {
+    const balances = await client.decryptViewerBalances();
+    setShared(balances);
+    return `已解密 ${balances.length} 个授权余额`;
+  });
+
+  if (!pointsSwapAddress) return null;
+
+  const pending = status.kind === "pending";
+  const now = Date.now() / 1000;
+
+  return (
+    <div className="history-section">
+      <h3>余额查看授权 (FHE 🔐)</h3>
+      <div className="fhe-notice">
+        <p>授权审计或客服人员在到期前解密你的品牌余额。撤销或到期后，对方仍可解密此前已授权的余额，但无法查看之后的变动。</p>
+      </div>
+
+      <div className="form-group">
+        <label>品牌 *</label>
+        <select value={brandId} onChange={e => setBrandId(e.target.value)} className="filter-select">
+          <option value="">选择品牌</option>
+          {brands.map(brand => <option key={brand.brandId} value={brand.brandId}>{brand.displayName}</option>)}
+        </select>
+      </div>
+
+      {brandId && (
+        <>
+          <div className="history-list">
+            {viewers.length === 0 && <div className="no-swaps"><p>暂无授权查看者</p></div>}
+            {viewers.map(({ viewer, expiresAt }) => (
+              <div key={viewer} className="history-item">
+                <span className="history-brand">{viewer.substring(0, 6)}...{viewer.substring(38)}</span>
+                <span className={`data-badge ${expiresAt > now ? "verified" : "local"}`}>
+                  {expiresAt > now ? `有效至 ${formatDate(expiresAt)}` : "已过期"}
+                </span>
+                <button className="refresh-btn" onClick={() => revoke(viewer)} disabled={pending}>撤销</button>
+              </div>
+            ))}
+          </div>
+
+          <div className="form-group">
+            <label>查看者地址 *</label>
+            <input
+              type="text"
+              value={form.viewer}
+              onChange={e => setForm({ ...form, viewer: e.target.value.trim() })}
+              placeholder="0x..."
+            />
+          </div>
+          <div className="form-group">
+            <label>授权天数 *</label>
+            <input
+              type="number"
+              min="1"
+              step="1"
+              value={form.days}
+              onChange={e => setForm({ ...form, days: e.target.value.replace(/[^\d.]/g, "") })}
+            />
+          </div>
+          <button
+            className="submit-btn"
+            onClick={grant}
+            disabled={pending || !form.viewer || !(parseFloat(form.days) > 0)}
+          >
+            授权查看
+          </button>
+        </>
+      )}
+
+      {shared.length > 0 && (
+        <>
+          <div className="section-header">
+            <h3>授权给我的余额</h3>
+            <button className="decrypt-btn" onClick={decryptShared} disabled={pending}>🔓 解密全部</button>
+          </div>
+          <div className="history-list">
+            {shared.map(grant => (
+              <div key={`${grant.user}/${grant.brandId}`} className="history-item">
+                <span className="history-brand">
+                  {grant.user.substring(0, 6)}...{grant.user.substring(38)} · {grant.brandId}
+                </span>
+                <span className="history-value">
+                  {grant.points !== undefined ? grant.points.toString() : "🔒 FHE加密"}
+                </span>
+                <span className="data-badge public">至 {formatDate(grant.expiresAt)}</span>
+              </div>
+            ))}
+          </div>
+        </>
+      )}
+
+      {status.kind !== "idle" && (
+        <div className={`data-badge ${status.kind === "success" ? "verified" : status.kind === "error" ? "local" : "public"}`}>
+          {status.message}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ViewerAccess;
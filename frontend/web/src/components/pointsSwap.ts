@@ -0,0 +1,19 @@
+// pointsSwap.ts
+import { ethers } from "ethers";
+import { PointsSwapClient } from "../../fhevm-sdk/src";
+import configJson from "../config.json";
+
+export const pointsSwapAddress: string = (configJson as any).pointsSwapAddress || "";
+
+export async function getPointsSwapClient(): Promise<PointsSwapClient> {
+  if (!(window as any).ethereum) {
+    throw new Error("No injected wallet");
+  }
+  if (!pointsSwapAddress) {
+    throw new Error("PointsSwap_FHE address missing: set pointsSwapAddress in config.json");
+  }
+
+  const provider = new ethers.BrowserProvider((window as any).ethereum);
+  const signer = await provider.getSigner();
+  return new PointsSwapClient(pointsSwapAddress, { runner: signer });
+}
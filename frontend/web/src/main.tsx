@@ -1,12 +1,14 @@
 import React, { useEffect, useState } from 'react';
 import { createRoot } from 'react-dom/client';
 import App from './App';
+import AdminPanel from './components/AdminPanel';
+import BrandManagement from './components/BrandManagement';
 import { getDefaultConfig, RainbowKitProvider, lightTheme } from '@rainbow-me/rainbowkit';
 import { WagmiConfig } from 'wagmi';
 import { QueryClient, QueryClientProvider } from '@tanstack/react-query';
 import '@rainbow-me/rainbowkit/styles.css';
 import { sepolia } from 'wagmi/chains';
-import { BrowserRouter } from 'react-router-dom';
+import { BrowserRouter, Route, Routes } from 'react-router-dom';
 
 const projectId = '4eeb32175359e6b21f4e3ceae163ccea';
 
@@ -122,7 +124,11 @@ createRoot(document.getElementById('root')!).render(
       <WagmiConfig config={config}>
         <BrowserRouter>
           <AdaptiveThemeProvider>
-            <App />
+            <Routes>
+              <Route path="/brands" element={<BrandManagement />} />
+              <Route path="/admin" element={<AdminPanel />} />
+              <Route path="*" element={<App />} />
+            </Routes>
           </AdaptiveThemeProvider>
         </BrowserRouter>
       </WagmiConfig>
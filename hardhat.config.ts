@@ -1,18 +1,26 @@
-import { HardhatUserConfig } from "hardhat/config";
+import { HardhatUserConfig, vars } from "hardhat/config";
 import "@nomicfoundation/hardhat-toolbox";
 import "@nomicfoundation/hardhat-ethers";
 import "@fhevm/hardhat-plugin";
 
+import "./tasks/PointsSwap";
+
+const PRIVATE_KEY: string = vars.get("PRIVATE_KEY", "");
+
 const config: HardhatUserConfig = {
   defaultNetwork: "hardhat",
   networks: {
     hardhat: {
       chainId: 31337,
     },
+    localhost: {
+      chainId: 31337,
+      url: "http://127.0.0.1:8545",
+    },
     sepolia: {
       chainId: 11155111,
       url: "https://sepolia.drpc.org",
-      accounts: [],
+      accounts: PRIVATE_KEY ? [PRIVATE_KEY] : [],
     },
   },
   solidity: {
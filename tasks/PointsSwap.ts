@@ -0,0 +1,1117 @@
+import { FhevmType } from "@fhevm/hardhat-plugin";
+import { formatUnits, id, isAddress, parseUnits, ZeroAddress } from "ethers";
+import * as fs from "fs";
+import { task, types } from "hardhat/config";
+import type { HardhatRuntimeEnvironment, TaskArguments } from "hardhat/types";
+
+/**
+ * Operator tasks for PointsSwap_FHE.
+ *
+ * The contract address comes from --address or the POINTS_SWAP_ADDRESS env var.
+ * Against a local node:
+ *
+ *   npx hardhat node
+ *   npx hardhat --network localhost contract:deploy
+ *   npx hardhat --network localhost brand:register --brand brandA --name "Brand A" --address 0x...
+ *   npx hardhat --network localhost rate:set --from brandA --to brandB --rate 0.8 --address 0x...
+ *   npx hardhat --network localhost account:balance --decrypt --address 0x...
+ *
+ * Let the target brand's admins bid for a rate instead; the highest sealed bid becomes the pair's rate:
+ *
+ *   npx hardhat --network localhost rate:auction-open --from brandA --to brandB --duration 3600 --address 0x...
+ *   npx hardhat --network localhost rate:bid --from brandA --to brandB --rate 0.85 --address 0x...
+ *   npx hardhat --network localhost rate:auction-close --from brandA --to brandB --address 0x...
+ *
+ * Trade points peer to peer through the order book:
+ *
+ *   npx hardhat --network localhost offer:post --give brandA --want brandB --amount 500 --price 0.5 --address 0x...
+ *   npx hardhat --network localhost offer:fill --offer 0 --amount 200 --signer 1 --address 0x...
+ *
+ * Let an auditor read your balance of a brand for 30 days, then list what it can read as the auditor:
+ *
+ *   npx hardhat --network localhost viewer:grant --viewer 0x... --brand brandA --days 30 --address 0x...
+ *   npx hardhat --network localhost viewer:balances --decrypt --signer 1 --address 0x...
+ *
+ * Stop a pair's conversions while a wrong rate is fixed, or everything in an emergency:
+ *
+ *   npx hardhat --network localhost contract:pause --from brandA --to brandB --address 0x...
+ *   npx hardhat --network localhost contract:pause --unpause --address 0x...
+ *
+ * Hand pausing to an ops account, list the role holders, and move ownership in two steps:
+ *
+ *   npx hardhat --network localhost role:grant --role PAUSER --account 0x... --address 0x...
+ *   npx hardhat --network localhost role:list --address 0x...
+ *   npx hardhat --network localhost owner:transfer --to 0x... --address 0x...
+ *   npx hardhat --network localhost owner:accept --signer 1 --address 0x...
+ *
+ * Batch-credit customers from a CSV of "address,amount" lines (a header line is allowed):
+ *
+ *   npx hardhat --network localhost points:mint-csv --brand brandA --file customers.csv --address 0x...
+ *
+ * On Sepolia, set the PRIVATE_KEY hardhat var and use --network sepolia.
+ */
+
+async function getPointsSwap(taskArguments: TaskArguments, hre: HardhatRuntimeEnvironment) {
+  const { ethers } = hre;
+
+  const address: string | undefined = taskArguments.address ?? process.env.POINTS_SWAP_ADDRESS;
+  if (!address) {
+    throw new Error("Missing contract address: pass --address or set POINTS_SWAP_ADDRESS");
+  }
+
+  const signers = await ethers.getSigners();
+  const signer = signers[taskArguments.signer ?? 0];
+  if (!signer) {
+    throw new Error(`No signer at index ${taskArguments.signer} on network ${hre.network.name}`);
+  }
+
+  const pointsSwap = await ethers.getContractAt("PointsSwap_FHE", address, signer);
+  return { pointsSwap, address, signer };
+}
+
+async function encrypt32(hre: HardhatRuntimeEnvironment, contract: string, user: string, value: number) {
+  const { fhevm } = hre;
+  await fhevm.initializeCLIApi();
+  return fhevm.createEncryptedInput(contract, user).add32(value).encrypt();
+}
+
+async function encrypt64(hre: HardhatRuntimeEnvironment, contract: string, user: string, value: bigint) {
+  const { fhevm } = hre;
+  await fhevm.initializeCLIApi();
+  return fhevm.createEncryptedInput(contract, user).add64(value).encrypt();
+}
+
+/** Names of PointsSwap_FHE.AccountStatus values */
+const ACCOUNT_STATUSES = ["none", "active", "suspended", "closed"];
+
+/** Names of the contract-wide roles; their ids are keccak256 of the name */
+const ROLES = ["RATE_SETTER", "BRAND_ADMIN", "PAUSER"];
+
+function parseRole(role: string) {
+  if (!ROLES.includes(role)) {
+    throw new Error(`--role must be one of ${ROLES.join(", ")}, got ${role}`);
+  }
+  return id(role);
+}
+
+/** Decrypts a publicly decryptable handle, e.g. an exchange rate */
+async function decrypt(
+  hre: HardhatRuntimeEnvironment,
+  fhevmType: FhevmType.euint32 | FhevmType.euint64,
+  handle: string,
+) {
+  const { fhevm } = hre;
+  await fhevm.initializeCLIApi();
+  return fhevm.publicDecryptEuint(fhevmType, handle);
+}
+
+/** Brands of a pair, from --from and --to or from the older --pair A-B form */
+function parsePair(taskArguments: TaskArguments): { from: string; to: string } {
+  if (taskArguments.pair === undefined) {
+    if (!taskArguments.from || !taskArguments.to) {
+      throw new Error("Pass --from and --to, or --pair A-B");
+    }
+    return { from: taskArguments.from, to: taskArguments.to };
+  }
+  if (taskArguments.from || taskArguments.to) {
+    throw new Error("Pass either --pair or --from and --to, not both");
+  }
+  const brands = taskArguments.pair.split("-");
+  if (brands.length !== 2 || !brands[0] || !brands[1]) {
+    throw new Error(`--pair must look like brandA-brandB, got ${taskArguments.pair}`);
+  }
+  return { from: brands[0], to: brands[1] };
+}
+
+function parseUint32(name: string, value: number) {
+  if (!Number.isInteger(value) || value < 0 || value > 0xffffffff) {
+    throw new Error(`--${name} must be an integer between 0 and 4294967295, got ${value}`);
+  }
+  return value;
+}
+
+// Fixed-point rates are stored as integers scaled by 10^decimals
+function parseRate(name: string, value: string, decimals: number) {
+  if (!Number.isInteger(decimals) || decimals < 0 || decimals > 9) {
+    throw new Error(`--decimals must be an integer between 0 and 9, got ${decimals}`);
+  }
+  let scaled: bigint;
+  try {
+    scaled = parseUnits(value, decimals);
+  } catch {
+    throw new Error(`--${name} must be a decimal number with at most ${decimals} decimals, got ${value}`);
+  }
+  return parseUint32(name, Number(scaled));
+}
+
+function parseUint64(name: string, value: bigint) {
+  if (value < 0n || value > 0xffffffffffffffffn) {
+    throw new Error(`--${name} must be an integer between 0 and 18446744073709551615, got ${value}`);
+  }
+  return value;
+}
+
+// An input proof covers at most 2048 bits, i.e. 32 encrypted uint64 amounts
+const MINT_BATCH_SIZE = 32;
+
+function parseMintCsv(file: string) {
+  const entries: { account: string; amount: bigint }[] = [];
+  const lines = fs.readFileSync(file, "utf8").split(/\r?\n/);
+
+  lines.forEach((line, index) => {
+    const [account, amount] = line.split(",").map((field) => field.trim());
+    if (!account) return;
+    // Optional header
+    if (index === 0 && !isAddress(account)) return;
+
+    if (!isAddress(account) || !/^\d+$/.test(amount ?? "")) {
+      throw new Error(`${file}:${index + 1}: expected "address,amount", got "${line}"`);
+    }
+    entries.push({ account, amount: parseUint64("amount", BigInt(amount)) });
+  });
+  return entries;
+}
+
+task("contract:deploy", "Deploys PointsSwap_FHE").setAction(async function (_taskArguments: TaskArguments, hre) {
+  const { ethers } = hre;
+
+  const [deployer] = await ethers.getSigners();
+  // PointsSwap_FHE links its library functions, so the libraries go on chain first
+  const libraries: Record<string, string> = {};
+  for (const name of ["ExpiringPoints", "RateAuctions", "RateMath"]) {
+    const library = await ethers.deployContract(name, deployer);
+    await library.waitForDeployment();
+    libraries[name] = await library.getAddress();
+    console.log(`${name} deployed at: ${libraries[name]}`);
+  }
+  const pointsSwap = await ethers.deployContract("PointsSwap_FHE", { signer: deployer, libraries });
+  await pointsSwap.waitForDeployment();
+
+  console.log(`PointsSwap_FHE deployed at: ${await pointsSwap.getAddress()}`);
+  console.log(`Owner: ${deployer.address}`);
+});
+
+task("contract:pause", "Pauses or unpauses the contract, or one pair's conversions (PAUSER)")
+  .addOptionalParam("address", "PointsSwap_FHE contract address")
+  .addOptionalParam("signer", "Index of the signer account", 0, types.int)
+  .addOptionalParam("from", "Source brand id of the pair (pauses the whole contract if omitted)")
+  .addOptionalParam("to", "Target brand id of the pair")
+  .addFlag("unpause", "Resume instead of pausing")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { pointsSwap } = await getPointsSwap(taskArguments, hre);
+
+    const { from, to } = taskArguments;
+    if (!from !== !to) {
+      throw new Error("Pass both --from and --to to pause a pair, or neither to pause the contract");
+    }
+
+    const paused = !taskArguments.unpause;
+    const tx = from ? await pointsSwap.setPairPaused(from, to, paused) : await pointsSwap.setPaused(paused);
+    console.log(`Wait for tx:${tx.hash}...`);
+    const receipt = await tx.wait();
+    console.log(`tx:${tx.hash} status=${receipt?.status}`);
+    console.log(`${from ? `Pair ${from}-${to}` : "Contract"} ${paused ? "paused" : "unpaused"}`);
+  });
+
+task("contract:status", "Prints the owner and what is paused")
+  .addOptionalParam("address", "PointsSwap_FHE contract address")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { pointsSwap } = await getPointsSwap(taskArguments, hre);
+
+    console.log(`Owner        : ${await pointsSwap.owner()}`);
+    const pendingOwner = await pointsSwap.pendingOwner();
+    if (pendingOwner !== ZeroAddress) {
+      console.log(`Pending owner: ${pendingOwner}`);
+    }
+    console.log(`Paused       : ${await pointsSwap.paused()}`);
+
+    const brands = await pointsSwap.getSupportedBrands();
+    for (const from of brands) {
+      for (const to of brands) {
+        if (from !== to && (await pointsSwap.isPairPaused(from, to))) {
+          console.log(`- pair ${from}-${to} paused`);
+        }
+      }
+    }
+  });
+
+task("role:grant", "Grants a contract-wide role (owner only)")
+  .addOptionalParam("address", "PointsSwap_FHE contract address")
+  .addOptionalParam("signer", "Index of the signer account", 0, types.int)
+  .addParam("role", `Role name: ${ROLES.join(", ")}`)
+  .addParam("account", "Account to grant the role to")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { pointsSwap } = await getPointsSwap(taskArguments, hre);
+
+    const role = parseRole(taskArguments.role);
+    if (!isAddress(taskArguments.account)) {
+      throw new Error(`--account must be an address, got ${taskArguments.account}`);
+    }
+
+    const tx = await pointsSwap.grantRole(role, taskArguments.account);
+    console.log(`Wait for tx:${tx.hash}...`);
+    const receipt = await tx.wait();
+    console.log(`tx:${tx.hash} status=${receipt?.status}`);
+  });
+
+task("role:revoke", "Revokes a contract-wide role (owner only)")
+  .addOptionalParam("address", "PointsSwap_FHE contract address")
+  .addOptionalParam("signer", "Index of the signer account", 0, types.int)
+  .addParam("role", `Role name: ${ROLES.join(", ")}`)
+  .addParam("account", "Account to revoke the role from")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { pointsSwap } = await getPointsSwap(taskArguments, hre);
+
+    const role = parseRole(taskArguments.role);
+    if (!isAddress(taskArguments.account)) {
+      throw new Error(`--account must be an address, got ${taskArguments.account}`);
+    }
+
+    const tx = await pointsSwap.revokeRole(role, taskArguments.account);
+    console.log(`Wait for tx:${tx.hash}...`);
+    const receipt = await tx.wait();
+    console.log(`tx:${tx.hash} status=${receipt?.status}`);
+  });
+
+task("role:list", "Lists the owner and current role holders by replaying RoleGranted and RoleRevoked events")
+  .addOptionalParam("address", "PointsSwap_FHE contract address")
+  .addOptionalParam("fromBlock", "Block to start scanning events from", 0, types.int)
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { pointsSwap } = await getPointsSwap(taskArguments, hre);
+
+    const events = [
+      ...(await pointsSwap.queryFilter(pointsSwap.filters.RoleGranted(), taskArguments.fromBlock)),
+      ...(await pointsSwap.queryFilter(pointsSwap.filters.RoleRevoked(), taskArguments.fromBlock)),
+    ].sort((a, b) => a.blockNumber - b.blockNumber || a.index - b.index);
+
+    const holders = new Map<string, Set<string>>();
+    for (const event of events) {
+      const accounts = holders.get(event.args.role) ?? new Set<string>();
+      if (event.eventName === "RoleGranted") {
+        accounts.add(event.args.account);
+      } else {
+        accounts.delete(event.args.account);
+      }
+      holders.set(event.args.role, accounts);
+    }
+
+    console.log(`Owner: ${await pointsSwap.owner()} (holds every role)`);
+    const pendingOwner = await pointsSwap.pendingOwner();
+    if (pendingOwner !== ZeroAddress) {
+      console.log(`Pending owner: ${pendingOwner}`);
+    }
+    for (const role of ROLES) {
+      const accounts = [...(holders.get(id(role)) ?? [])];
+      console.log(`${role}: ${accounts.length > 0 ? accounts.join(", ") : "-"}`);
+    }
+  });
+
+task("brand:register", "Registers a brand with its metadata and issuer (owner only)")
+  .addOptionalParam("address", "PointsSwap_FHE contract address")
+  .addOptionalParam("signer", "Index of the signer account", 0, types.int)
+  .addParam("brand", "Brand id")
+  .addOptionalParam("name", "Display name (defaults to the brand id)")
+  .addOptionalParam("logo", "Logo URI", "")
+  .addOptionalParam("decimals", "Decimals of the brand's points", 0, types.int)
+  .addOptionalParam("issuer", "Issuer address (defaults to the signer)")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { ethers } = hre;
+    const { pointsSwap, signer } = await getPointsSwap(taskArguments, hre);
+
+    const issuer: string = taskArguments.issuer ?? signer.address;
+    if (!ethers.isAddress(issuer)) {
+      throw new Error(`--issuer must be an address, got ${issuer}`);
+    }
+    const decimals: number = taskArguments.decimals;
+    if (!Number.isInteger(decimals) || decimals < 0 || decimals > 255) {
+      throw new Error(`--decimals must be an integer between 0 and 255, got ${decimals}`);
+    }
+
+    const tx = await pointsSwap.registerBrand(
+      taskArguments.brand,
+      taskArguments.name ?? taskArguments.brand,
+      taskArguments.logo,
+      decimals,
+      issuer,
+    );
+    console.log(`Wait for tx:${tx.hash}...`);
+    const receipt = await tx.wait();
+    console.log(`tx:${tx.hash} status=${receipt?.status}`);
+    console.log(`Brand "${taskArguments.brand}" registered with issuer ${issuer}`);
+  });
+
+// Original name of brand:register, kept so existing scripts keep working
+task("brand:add", "Alias of brand:register")
+  .addOptionalParam("address", "PointsSwap_FHE contract address")
+  .addOptionalParam("signer", "Index of the signer account", 0, types.int)
+  .addParam("brand", "Brand id")
+  .addOptionalParam("name", "Display name (defaults to the brand id)")
+  .addOptionalParam("logo", "Logo URI", "")
+  .addOptionalParam("decimals", "Decimals of the brand's points", 0, types.int)
+  .addOptionalParam("issuer", "Issuer address (defaults to the signer)")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    await hre.run("brand:register", taskArguments);
+  });
+
+task("brand:list", "Lists the registered brands")
+  .addOptionalParam("address", "PointsSwap_FHE contract address")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { pointsSwap } = await getPointsSwap(taskArguments, hre);
+
+    const brandIds = await pointsSwap.getSupportedBrands();
+    if (brandIds.length === 0) {
+      console.log("No supported brands");
+      return;
+    }
+    for (const brandId of brandIds) {
+      const brand = await pointsSwap.getBrand(brandId);
+      const status = brand.active ? "active" : "inactive";
+      console.log(`- ${brandId} "${brand.displayName}" (${status}, ${brand.decimals} decimals)`);
+      console.log(`  issuer: ${brand.issuer}`);
+      if (brand.logoURI) {
+        console.log(`  logo: ${brand.logoURI}`);
+      }
+    }
+  });
+
+task("brand:admin", "Grants or revokes a brand admin (brand issuer or owner)")
+  .addOptionalParam("address", "PointsSwap_FHE contract address")
+  .addOptionalParam("signer", "Index of the signer account", 0, types.int)
+  .addParam("brand", "Brand id")
+  .addParam("account", "Admin address")
+  .addFlag("revoke", "Revoke instead of grant")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { ethers } = hre;
+    const { pointsSwap } = await getPointsSwap(taskArguments, hre);
+
+    if (!ethers.isAddress(taskArguments.account)) {
+      throw new Error(`--account must be an address, got ${taskArguments.account}`);
+    }
+
+    const tx = taskArguments.revoke
+      ? await pointsSwap.revokeBrandAdmin(taskArguments.brand, taskArguments.account)
+      : await pointsSwap.grantBrandAdmin(taskArguments.brand, taskArguments.account);
+    console.log(`Wait for tx:${tx.hash}...`);
+    const receipt = await tx.wait();
+    console.log(`tx:${tx.hash} status=${receipt?.status}`);
+    const isAdmin = await pointsSwap.isBrandAdmin(taskArguments.brand, taskArguments.account);
+    console.log(`${taskArguments.account} is ${isAdmin ? "an admin" : "not an admin"} of "${taskArguments.brand}"`);
+  });
+
+task("brand:status", "Activates or deactivates a brand (brand issuer or owner)")
+  .addOptionalParam("address", "PointsSwap_FHE contract address")
+  .addOptionalParam("signer", "Index of the signer account", 0, types.int)
+  .addParam("brand", "Brand id")
+  .addFlag("inactive", "Deactivate the brand (activates it otherwise)")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { pointsSwap } = await getPointsSwap(taskArguments, hre);
+
+    const tx = await pointsSwap.setBrandActive(taskArguments.brand, !taskArguments.inactive);
+    console.log(`Wait for tx:${tx.hash}...`);
+    const receipt = await tx.wait();
+    console.log(`tx:${tx.hash} status=${receipt?.status}`);
+    console.log(`Brand "${taskArguments.brand}" is ${taskArguments.inactive ? "inactive" : "active"}`);
+  });
+
+task("brand:expiry", "Sets how long points of a brand live; 0 disables expiry (brand issuer or owner)")
+  .addOptionalParam("address", "PointsSwap_FHE contract address")
+  .addOptionalParam("signer", "Index of the signer account", 0, types.int)
+  .addParam("brand", "Brand id")
+  .addParam("days", "Points earned in one period of this many days expire at the end of the next", undefined, types.int)
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { pointsSwap } = await getPointsSwap(taskArguments, hre);
+
+    const days: number = taskArguments.days;
+    if (!Number.isInteger(days) || days < 0) {
+      throw new Error(`--days must be a non-negative integer, got ${days}`);
+    }
+
+    const tx = await pointsSwap.setExpiryPolicy(taskArguments.brand, days * 24 * 60 * 60);
+    console.log(`Wait for tx:${tx.hash}...`);
+    const receipt = await tx.wait();
+    console.log(`tx:${tx.hash} status=${receipt?.status}`);
+    const policy = days === 0 ? "never expire" : `expire by ${days}-day periods`;
+    console.log(`Brand "${taskArguments.brand}" points ${policy}`);
+  });
+
+task("points:lots", "Prints a user's expiring lots of a brand")
+  .addOptionalParam("address", "PointsSwap_FHE contract address")
+  .addOptionalParam("signer", "Index of the signer account", 0, types.int)
+  .addParam("brand", "Brand id")
+  .addFlag("decrypt", "Decrypt the lots (as the signer)")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { fhevm } = hre;
+    const { pointsSwap, address, signer } = await getPointsSwap(taskArguments, hre);
+
+    const lots = await pointsSwap.getPointLots(signer.address, taskArguments.brand);
+    if (lots.currentExpiresAt === 0n) {
+      console.log(`No expiring ${taskArguments.brand} points`);
+      return;
+    }
+
+    if (taskArguments.decrypt) {
+      await fhevm.initializeCLIApi();
+    }
+    // Expiry is applied lazily; a lot past its time is removed on the account's next interaction
+    for (const [name, handle, expiresAt] of [
+      ["previous", lots.previous, lots.previousExpiresAt],
+      ["current ", lots.current, lots.currentExpiresAt],
+    ] as const) {
+      const amount = taskArguments.decrypt
+        ? await fhevm.userDecryptEuint(FhevmType.euint64, handle, address, signer)
+        : handle;
+      console.log(`${name}: ${amount} expires ${new Date(Number(expiresAt) * 1000).toISOString()}`);
+    }
+  });
+
+task("points:mint", "Credits encrypted points of a brand to a customer (brand admin)")
+  .addOptionalParam("address", "PointsSwap_FHE contract address")
+  .addOptionalParam("signer", "Index of the signer account", 0, types.int)
+  .addParam("brand", "Brand id")
+  .addParam("to", "Customer address")
+  .addParam("amount", "Points to credit", undefined, types.bigint)
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { pointsSwap, address, signer } = await getPointsSwap(taskArguments, hre);
+
+    if (!isAddress(taskArguments.to)) {
+      throw new Error(`--to must be an address, got ${taskArguments.to}`);
+    }
+    const amount = parseUint64("amount", taskArguments.amount);
+
+    const encryptedAmount = await encrypt64(hre, address, signer.address, amount);
+    const tx = await pointsSwap.mintPoints(
+      taskArguments.brand,
+      taskArguments.to,
+      encryptedAmount.handles[0],
+      encryptedAmount.inputProof,
+    );
+    console.log(`Wait for tx:${tx.hash}...`);
+    const receipt = await tx.wait();
+    console.log(`tx:${tx.hash} status=${receipt?.status}`);
+    console.log(`Minted ${amount} ${taskArguments.brand} points to ${taskArguments.to}`);
+  });
+
+task("points:mint-csv", "Batch-credits encrypted points from a CSV of address,amount lines (brand admin)")
+  .addOptionalParam("address", "PointsSwap_FHE contract address")
+  .addOptionalParam("signer", "Index of the signer account", 0, types.int)
+  .addParam("brand", "Brand id")
+  .addParam("file", "CSV file")
+  .addOptionalParam("batch", "Customers per transaction", MINT_BATCH_SIZE, types.int)
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { fhevm } = hre;
+    const { pointsSwap, address, signer } = await getPointsSwap(taskArguments, hre);
+
+    const batchSize: number = taskArguments.batch;
+    if (!Number.isInteger(batchSize) || batchSize < 1 || batchSize > MINT_BATCH_SIZE) {
+      throw new Error(`--batch must be an integer between 1 and ${MINT_BATCH_SIZE}, got ${batchSize}`);
+    }
+    const entries = parseMintCsv(taskArguments.file);
+    if (entries.length === 0) {
+      console.log(`No entries in ${taskArguments.file}`);
+      return;
+    }
+
+    await fhevm.initializeCLIApi();
+    for (let i = 0; i < entries.length; i += batchSize) {
+      const batch = entries.slice(i, i + batchSize);
+      const input = fhevm.createEncryptedInput(address, signer.address);
+      for (const { amount } of batch) {
+        input.add64(amount);
+      }
+      const encryptedAmounts = await input.encrypt();
+
+      const tx = await pointsSwap.mintPointsBatch(
+        taskArguments.brand,
+        batch.map((entry) => entry.account),
+        encryptedAmounts.handles,
+        encryptedAmounts.inputProof,
+      );
+      console.log(`Wait for tx:${tx.hash}...`);
+      const receipt = await tx.wait();
+      console.log(`tx:${tx.hash} status=${receipt?.status} (${i + batch.length}/${entries.length})`);
+    }
+    console.log(`Minted ${taskArguments.brand} points to ${entries.length} customers`);
+  });
+
+task("points:burn", "Removes encrypted points of a brand from a customer (brand admin)")
+  .addOptionalParam("address", "PointsSwap_FHE contract address")
+  .addOptionalParam("signer", "Index of the signer account", 0, types.int)
+  .addParam("brand", "Brand id")
+  .addParam("from", "Customer address")
+  .addParam("amount", "Points to remove", undefined, types.bigint)
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { pointsSwap, address, signer } = await getPointsSwap(taskArguments, hre);
+
+    if (!isAddress(taskArguments.from)) {
+      throw new Error(`--from must be an address, got ${taskArguments.from}`);
+    }
+    const amount = parseUint64("amount", taskArguments.amount);
+
+    const encryptedAmount = await encrypt64(hre, address, signer.address, amount);
+    const tx = await pointsSwap.burnPoints(
+      taskArguments.brand,
+      taskArguments.from,
+      encryptedAmount.handles[0],
+      encryptedAmount.inputProof,
+    );
+    console.log(`Wait for tx:${tx.hash}...`);
+    const receipt = await tx.wait();
+    console.log(`tx:${tx.hash} status=${receipt?.status}`);
+    // The burn is a no-op on-chain when the balance is too low
+    console.log(`Requested burn of ${amount} ${taskArguments.brand} points from ${taskArguments.from}`);
+  });
+
+task("points:transfer", "Sends encrypted points of a brand to another account")
+  .addOptionalParam("address", "PointsSwap_FHE contract address")
+  .addOptionalParam("signer", "Index of the signer account", 0, types.int)
+  .addParam("brand", "Brand id")
+  .addParam("to", "Recipient address")
+  .addParam("amount", "Points to send", undefined, types.bigint)
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { fhevm } = hre;
+    const { pointsSwap, address, signer } = await getPointsSwap(taskArguments, hre);
+
+    if (!isAddress(taskArguments.to)) {
+      throw new Error(`--to must be an address, got ${taskArguments.to}`);
+    }
+    const amount = parseUint64("amount", taskArguments.amount);
+
+    const encryptedAmount = await encrypt64(hre, address, signer.address, amount);
+    const tx = await pointsSwap.transferPoints(
+      taskArguments.brand,
+      taskArguments.to,
+      encryptedAmount.handles[0],
+      encryptedAmount.inputProof,
+    );
+    console.log(`Wait for tx:${tx.hash}...`);
+    const receipt = await tx.wait();
+    console.log(`tx:${tx.hash} status=${receipt?.status}`);
+
+    // An amount above the balance moves nothing; the event carries what was actually sent
+    const event = receipt?.logs
+      .map((log) => pointsSwap.interface.parseLog(log))
+      .find((parsed) => parsed?.name === "ConfidentialTransfer");
+    if (event) {
+      const sent = await fhevm.userDecryptEuint(FhevmType.euint64, event.args.amount, address, signer);
+      console.log(`Sent ${sent} ${taskArguments.brand} points to ${taskArguments.to}`);
+    }
+  });
+
+task("points:supply", "Prints the encrypted total supply of a brand (issuer or minting admin)")
+  .addOptionalParam("address", "PointsSwap_FHE contract address")
+  .addOptionalParam("signer", "Index of the signer account", 0, types.int)
+  .addParam("brand", "Brand id")
+  .addFlag("decrypt", "User-decrypt the supply with the signer")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { ethers, fhevm } = hre;
+    const { pointsSwap, address, signer } = await getPointsSwap(taskArguments, hre);
+
+    const supply = await pointsSwap.getBrandSupply(taskArguments.brand);
+    if (supply === ethers.ZeroHash) {
+      console.log(`No ${taskArguments.brand} points minted yet`);
+      return;
+    }
+    console.log(`Encrypted supply: ${supply}`);
+
+    if (taskArguments.decrypt) {
+      await fhevm.initializeCLIApi();
+      const clearSupply = await fhevm.userDecryptEuint(FhevmType.euint64, supply, address, signer);
+      console.log(`Clear supply    : ${clearSupply}`);
+    }
+  });
+
+task("rate:set", "Sets the encrypted exchange rate between two brands (admin of the target brand)")
+  .addOptionalParam("address", "PointsSwap_FHE contract address")
+  .addOptionalParam("signer", "Index of the signer account", 0, types.int)
+  .addOptionalParam("from", "Source brand")
+  .addOptionalParam("to", "Target brand")
+  .addOptionalParam("pair", "Brand pair as from-to, e.g. brandA-brandB (instead of --from and --to)")
+  .addParam("rate", "Exchange rate, e.g. 0.8")
+  .addOptionalParam("public", "Public rate shown in the clear (defaults to --rate)")
+  .addOptionalParam("decimals", "Fixed-point decimals of the rate", 4, types.int)
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { pointsSwap, address, signer } = await getPointsSwap(taskArguments, hre);
+    const { from, to } = parsePair(taskArguments);
+
+    const decimals: number = taskArguments.decimals;
+    const rate = parseRate("rate", taskArguments.rate, decimals);
+    const publicRate = parseRate("public", taskArguments.public ?? taskArguments.rate, decimals);
+
+    const encryptedRate = await encrypt32(hre, address, signer.address, rate);
+    const tx = await pointsSwap.setExchangeRate(
+      from,
+      to,
+      encryptedRate.handles[0],
+      encryptedRate.inputProof,
+      publicRate,
+      decimals,
+    );
+    console.log(`Wait for tx:${tx.hash}...`);
+    const receipt = await tx.wait();
+    console.log(`tx:${tx.hash} status=${receipt?.status}`);
+    const pair = `${from} -> ${to}`;
+    console.log(`Rate ${pair} set to ${formatUnits(rate, decimals)} (public ${formatUnits(publicRate, decimals)})`);
+  });
+
+task("rate:get", "Prints the exchange rate between two brands")
+  .addOptionalParam("address", "PointsSwap_FHE contract address")
+  .addOptionalParam("from", "Source brand")
+  .addOptionalParam("to", "Target brand")
+  .addOptionalParam("pair", "Brand pair as from-to, e.g. brandA-brandB (instead of --from and --to)")
+  .addFlag("decrypt", "Decrypt the encrypted rate")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { pointsSwap } = await getPointsSwap(taskArguments, hre);
+
+    const { from, to } = parsePair(taskArguments);
+    const [encryptedRate, publicRate, decimals] = await pointsSwap.getExchangeRate(from, to);
+    console.log(`Encrypted rate: ${encryptedRate}`);
+    console.log(`Public rate   : ${formatUnits(publicRate, decimals)} (${publicRate} / 10^${decimals})`);
+
+    if (taskArguments.decrypt) {
+      const clearRate = await decrypt(hre, FhevmType.euint32, encryptedRate);
+      console.log(`Clear rate    : ${formatUnits(clearRate, decimals)}`);
+    }
+  });
+
+task("rate:auction-open", "Opens a sealed-bid auction for the rate of a pair (admin of the target brand)")
+  .addOptionalParam("address", "PointsSwap_FHE contract address")
+  .addOptionalParam("signer", "Index of the signer account", 0, types.int)
+  .addParam("from", "Source brand")
+  .addParam("to", "Target brand")
+  .addParam("duration", "Bidding time in seconds", undefined, types.int)
+  .addOptionalParam("decimals", "Fixed-point decimals of the bids", 4, types.int)
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { pointsSwap } = await getPointsSwap(taskArguments, hre);
+
+    const tx = await pointsSwap.openRateAuction(
+      taskArguments.from,
+      taskArguments.to,
+      taskArguments.decimals,
+      taskArguments.duration,
+    );
+    console.log(`Wait for tx:${tx.hash}...`);
+    const receipt = await tx.wait();
+    console.log(`tx:${tx.hash} status=${receipt?.status}`);
+  });
+
+task("rate:bid", "Submits an encrypted rate bid to the auction of a pair (admin of the target brand)")
+  .addOptionalParam("address", "PointsSwap_FHE contract address")
+  .addOptionalParam("signer", "Index of the signer account", 0, types.int)
+  .addParam("from", "Source brand")
+  .addParam("to", "Target brand")
+  .addParam("rate", "Rate your brand will honour, e.g. 0.85")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { pointsSwap, address, signer } = await getPointsSwap(taskArguments, hre);
+
+    const { decimals } = await pointsSwap.getRateAuction(taskArguments.from, taskArguments.to);
+    const rate = parseRate("rate", taskArguments.rate, Number(decimals));
+
+    const encryptedRate = await encrypt32(hre, address, signer.address, rate);
+    const tx = await pointsSwap.submitRateBid(
+      taskArguments.from,
+      taskArguments.to,
+      encryptedRate.handles[0],
+      encryptedRate.inputProof,
+    );
+    console.log(`Wait for tx:${tx.hash}...`);
+    const receipt = await tx.wait();
+    console.log(`tx:${tx.hash} status=${receipt?.status}`);
+  });
+
+task("rate:auction", "Prints the latest rate auction of a pair")
+  .addOptionalParam("address", "PointsSwap_FHE contract address")
+  .addParam("from", "Source brand")
+  .addParam("to", "Target brand")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { pointsSwap } = await getPointsSwap(taskArguments, hre);
+
+    const auction = await pointsSwap.getRateAuction(taskArguments.from, taskArguments.to);
+    const status = ["none", "open", "closed", "settled"][Number(auction.status)];
+    console.log(`Status  : ${status}`);
+    console.log(`Ends at : ${new Date(Number(auction.endTime) * 1000).toISOString()}`);
+    console.log(`Bids    : ${auction.bidCount}`);
+    console.log(`Best bid: ${auction.bestBid}`);
+  });
+
+task("rate:auction-close", "Closes a rate auction past its end time and reveals the winning rate")
+  .addOptionalParam("address", "PointsSwap_FHE contract address")
+  .addOptionalParam("signer", "Index of the signer account", 0, types.int)
+  .addParam("from", "Source brand")
+  .addParam("to", "Target brand")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { fhevm } = hre;
+    const { pointsSwap } = await getPointsSwap(taskArguments, hre);
+    const { from, to } = taskArguments;
+
+    let auction = await pointsSwap.getRateAuction(from, to);
+    if (Number(auction.status) === 1) {
+      const tx = await pointsSwap.closeRateAuction(from, to);
+      console.log(`Wait for tx:${tx.hash}...`);
+      const receipt = await tx.wait();
+      console.log(`tx:${tx.hash} status=${receipt?.status}`);
+      auction = await pointsSwap.getRateAuction(from, to);
+    }
+    // Auctions without bids settle on close
+    if (Number(auction.status) !== 2) {
+      console.log(`Auction settled with ${auction.bidCount} bids`);
+      return;
+    }
+
+    // Submit the public decryption of the winning bid along with its KMS proof
+    await fhevm.initializeCLIApi();
+    const { abiEncodedClearValues, decryptionProof } = await fhevm.publicDecrypt([auction.bestBid]);
+    const tx = await pointsSwap.revealRateAuction(from, to, abiEncodedClearValues, decryptionProof);
+    console.log(`Wait for tx:${tx.hash}...`);
+    const receipt = await tx.wait();
+    console.log(`tx:${tx.hash} status=${receipt?.status}`);
+
+    const [winningRate] = hre.ethers.AbiCoder.defaultAbiCoder().decode(["uint32"], abiEncodedClearValues);
+    console.log(`Rate ${from} -> ${to} set to ${formatUnits(winningRate, auction.decimals)}`);
+  });
+
+task("offer:post", "Escrows encrypted points of one brand for sale at a public price in another brand")
+  .addOptionalParam("address", "PointsSwap_FHE contract address")
+  .addOptionalParam("signer", "Index of the signer account", 0, types.int)
+  .addParam("give", "Brand offered")
+  .addParam("want", "Brand to be paid in")
+  .addParam("amount", "Points to escrow", undefined, types.bigint)
+  .addParam("price", "Points of --want per point of --give, e.g. 0.5")
+  .addOptionalParam("decimals", "Fixed-point decimals of the price", 4, types.int)
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { pointsSwap, address, signer } = await getPointsSwap(taskArguments, hre);
+
+    const decimals: number = taskArguments.decimals;
+    const price = parseRate("price", taskArguments.price, decimals);
+    const amount = parseUint64("amount", taskArguments.amount);
+
+    const encryptedAmount = await encrypt64(hre, address, signer.address, amount);
+    const tx = await pointsSwap.postOffer(
+      taskArguments.give,
+      taskArguments.want,
+      encryptedAmount.handles[0],
+      encryptedAmount.inputProof,
+      price,
+      decimals,
+    );
+    console.log(`Wait for tx:${tx.hash}...`);
+    const receipt = await tx.wait();
+    console.log(`tx:${tx.hash} status=${receipt?.status}`);
+
+    const event = receipt?.logs
+      .map((log) => pointsSwap.interface.parseLog(log))
+      .find((parsed) => parsed?.name === "OfferPosted");
+    if (event) {
+      console.log(`Posted offer #${event.args.offerId}`);
+    }
+  });
+
+task("offer:list", "Lists the offers of the order book")
+  .addOptionalParam("address", "PointsSwap_FHE contract address")
+  .addOptionalParam("signer", "Index of the signer account", 0, types.int)
+  .addFlag("all", "Include filled-out and cancelled offers")
+  .addFlag("decrypt", "Decrypt the remaining escrow of the signer's own offers")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { fhevm } = hre;
+    const { pointsSwap, address, signer } = await getPointsSwap(taskArguments, hre);
+
+    if (taskArguments.decrypt) {
+      await fhevm.initializeCLIApi();
+    }
+
+    const count = Number(await pointsSwap.offerCount());
+    for (let offerId = 0; offerId < count; offerId++) {
+      const offer = await pointsSwap.getOffer(offerId);
+      if (!offer.open && !taskArguments.all) continue;
+
+      const terms = `${offer.giveBrand} -> ${offer.wantBrand} @ ${formatUnits(offer.price, offer.priceDecimals)}`;
+      console.log(`#${offerId} ${terms} maker=${offer.maker}${offer.open ? "" : " (closed)"}`);
+      if (taskArguments.decrypt && offer.maker === signer.address) {
+        const remaining = await fhevm.userDecryptEuint(FhevmType.euint64, offer.remaining, address, signer);
+        console.log(`  remaining: ${remaining}`);
+      }
+    }
+  });
+
+task("offer:fill", "Buys encrypted points from an offer")
+  .addOptionalParam("address", "PointsSwap_FHE contract address")
+  .addOptionalParam("signer", "Index of the signer account", 0, types.int)
+  .addParam("offer", "Offer id", undefined, types.int)
+  .addParam("amount", "Points to buy", undefined, types.bigint)
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { fhevm } = hre;
+    const { pointsSwap, address, signer } = await getPointsSwap(taskArguments, hre);
+
+    const amount = parseUint64("amount", taskArguments.amount);
+    const encryptedAmount = await encrypt64(hre, address, signer.address, amount);
+    const tx = await pointsSwap.fillOffer(taskArguments.offer, encryptedAmount.handles[0], encryptedAmount.inputProof);
+    console.log(`Wait for tx:${tx.hash}...`);
+    const receipt = await tx.wait();
+    console.log(`tx:${tx.hash} status=${receipt?.status}`);
+
+    // Fills are capped at the escrow left and move nothing if the taker cannot pay
+    const event = receipt?.logs
+      .map((log) => pointsSwap.interface.parseLog(log))
+      .find((parsed) => parsed?.name === "OfferFilled");
+    if (event) {
+      const filled = await fhevm.userDecryptEuint(FhevmType.euint64, event.args.filled, address, signer);
+      console.log(`Bought ${filled} points from offer #${taskArguments.offer}`);
+    }
+  });
+
+task("offer:cancel", "Cancels an offer and refunds its unfilled escrow (maker only)")
+  .addOptionalParam("address", "PointsSwap_FHE contract address")
+  .addOptionalParam("signer", "Index of the signer account", 0, types.int)
+  .addParam("offer", "Offer id", undefined, types.int)
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { pointsSwap } = await getPointsSwap(taskArguments, hre);
+
+    const tx = await pointsSwap.cancelOffer(taskArguments.offer);
+    console.log(`Wait for tx:${tx.hash}...`);
+    const receipt = await tx.wait();
+    console.log(`tx:${tx.hash} status=${receipt?.status}`);
+  });
+
+task("account:create", "Creates a loyalty account with encrypted points of one brand")
+  .addOptionalParam("address", "PointsSwap_FHE contract address")
+  .addOptionalParam("signer", "Index of the signer account", 0, types.int)
+  .addParam("brand", "Brand of the starting points")
+  .addParam("points", "Encrypted starting points", undefined, types.bigint)
+  .addOptionalParam("public", "Public points shown in the clear", 0, types.int)
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { pointsSwap, address, signer } = await getPointsSwap(taskArguments, hre);
+
+    const points = parseUint64("points", taskArguments.points);
+    const publicPoints = parseUint32("public", taskArguments.public);
+
+    const encryptedPoints = await encrypt64(hre, address, signer.address, points);
+    const tx = await pointsSwap.createAccount(
+      taskArguments.brand,
+      encryptedPoints.handles[0],
+      encryptedPoints.inputProof,
+      publicPoints,
+    );
+    console.log(`Wait for tx:${tx.hash}...`);
+    const receipt = await tx.wait();
+    console.log(`tx:${tx.hash} status=${receipt?.status}`);
+    console.log(`Account created for ${signer.address} with ${taskArguments.brand} points`);
+  });
+
+task("account:balance", "Prints the per-brand balances of a loyalty account")
+  .addOptionalParam("address", "PointsSwap_FHE contract address")
+  .addOptionalParam("signer", "Index of the signer account", 0, types.int)
+  .addOptionalParam("user", "Account owner (defaults to the signer)")
+  .addOptionalParam("brand", "Only print this brand (defaults to all supported brands)")
+  .addFlag("decrypt", "Decrypt the encrypted points (only the account owner and its viewers can)")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { ethers, fhevm } = hre;
+    const { pointsSwap, address, signer } = await getPointsSwap(taskArguments, hre);
+
+    const user: string = taskArguments.user ?? signer.address;
+    const brands: string[] = taskArguments.brand ? [taskArguments.brand] : await pointsSwap.getSupportedBrands();
+
+    const account = await pointsSwap.accounts(user);
+    console.log(`Account      : ${user}`);
+    console.log(`Status       : ${ACCOUNT_STATUSES[Number(account.status)]}`);
+    console.log(`Public points: ${account.publicPoints}`);
+    if (!(await pointsSwap.accountExists(user))) {
+      return;
+    }
+
+    if (taskArguments.decrypt) {
+      await fhevm.initializeCLIApi();
+    }
+
+    for (const brand of brands) {
+      const [encryptedPoints] = await pointsSwap.getAccountBalance(user, brand);
+      if (encryptedPoints === ethers.ZeroHash) {
+        console.log(`- ${brand}: no points`);
+      } else if (taskArguments.decrypt) {
+        // Balances are ACL'd to their owner and viewers, so this user-decrypts as the signer
+        const points = await fhevm.userDecryptEuint(FhevmType.euint64, encryptedPoints, address, signer);
+        console.log(`- ${brand}: ${points}`);
+      } else {
+        console.log(`- ${brand}: ${encryptedPoints}`);
+      }
+    }
+  });
+
+task("account:suspend", "Suspends the signer's account; balances are kept until it is reactivated")
+  .addOptionalParam("address", "PointsSwap_FHE contract address")
+  .addOptionalParam("signer", "Index of the signer account", 0, types.int)
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { pointsSwap } = await getPointsSwap(taskArguments, hre);
+
+    const tx = await pointsSwap.deactivateAccount();
+    console.log(`Wait for tx:${tx.hash}...`);
+    const receipt = await tx.wait();
+    console.log(`tx:${tx.hash} status=${receipt?.status}`);
+  });
+
+task("account:reactivate", "Reactivates the signer's suspended account")
+  .addOptionalParam("address", "PointsSwap_FHE contract address")
+  .addOptionalParam("signer", "Index of the signer account", 0, types.int)
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { pointsSwap } = await getPointsSwap(taskArguments, hre);
+
+    const tx = await pointsSwap.reactivateAccount();
+    console.log(`Wait for tx:${tx.hash}...`);
+    const receipt = await tx.wait();
+    console.log(`tx:${tx.hash} status=${receipt?.status}`);
+  });
+
+task("account:close", "Closes the signer's account and erases its balances, paying them out first if asked")
+  .addOptionalParam("address", "PointsSwap_FHE contract address")
+  .addOptionalParam("signer", "Index of the signer account", 0, types.int)
+  .addOptionalParam("payout", "Active account credited with every brand balance (forfeited if omitted)")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { ethers } = hre;
+    const { pointsSwap, signer } = await getPointsSwap(taskArguments, hre);
+
+    const payout: string = taskArguments.payout ?? ethers.ZeroAddress;
+    if (!isAddress(payout)) {
+      throw new Error(`--payout must be an address, got ${payout}`);
+    }
+    const openOffers = await pointsSwap.openOfferCount(signer.address);
+    if (openOffers > 0n) {
+      throw new Error(`Cancel the account's ${openOffers} open offer(s) first (offer:list, offer:cancel)`);
+    }
+
+    const tx = await pointsSwap.closeAccount(payout);
+    console.log(`Wait for tx:${tx.hash}...`);
+    const receipt = await tx.wait();
+    console.log(`tx:${tx.hash} status=${receipt?.status}`);
+    console.log(payout === ethers.ZeroAddress ? "Balances forfeited" : `Balances paid out to ${payout}`);
+  });
+
+task("viewer:grant", "Lets a viewer decrypt the signer's balance of a brand until the grant expires")
+  .addOptionalParam("address", "PointsSwap_FHE contract address")
+  .addOptionalParam("signer", "Index of the signer account", 0, types.int)
+  .addParam("viewer", "Viewer address, e.g. an auditor or support agent")
+  .addParam("brand", "Brand id")
+  .addParam("days", "Days until new balances stop being shared", undefined, types.int)
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { pointsSwap } = await getPointsSwap(taskArguments, hre);
+
+    if (!isAddress(taskArguments.viewer)) {
+      throw new Error(`--viewer must be an address, got ${taskArguments.viewer}`);
+    }
+    const days: number = taskArguments.days;
+    if (!Number.isInteger(days) || days <= 0) {
+      throw new Error(`--days must be a positive integer, got ${days}`);
+    }
+
+    const latest = await hre.ethers.provider.getBlock("latest");
+    const expiresAt = latest!.timestamp + days * 24 * 60 * 60;
+    const tx = await pointsSwap.grantViewer(taskArguments.viewer, taskArguments.brand, expiresAt);
+    console.log(`Wait for tx:${tx.hash}...`);
+    const receipt = await tx.wait();
+    console.log(`tx:${tx.hash} status=${receipt?.status}`);
+    const until = new Date(expiresAt * 1000).toISOString();
+    console.log(`${taskArguments.viewer} can view ${taskArguments.brand} until ${until}`);
+  });
+
+task("viewer:revoke", "Stops sharing future balances of a brand with a viewer")
+  .addOptionalParam("address", "PointsSwap_FHE contract address")
+  .addOptionalParam("signer", "Index of the signer account", 0, types.int)
+  .addParam("viewer", "Viewer address")
+  .addParam("brand", "Brand id")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { pointsSwap } = await getPointsSwap(taskArguments, hre);
+
+    const tx = await pointsSwap.revokeViewer(taskArguments.viewer, taskArguments.brand);
+    console.log(`Wait for tx:${tx.hash}...`);
+    const receipt = await tx.wait();
+    console.log(`tx:${tx.hash} status=${receipt?.status}`);
+  });
+
+task("viewer:list", "Lists the viewers of a user's balance of a brand")
+  .addOptionalParam("address", "PointsSwap_FHE contract address")
+  .addOptionalParam("signer", "Index of the signer account", 0, types.int)
+  .addOptionalParam("user", "Account owner (defaults to the signer)")
+  .addParam("brand", "Brand id")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { pointsSwap, signer } = await getPointsSwap(taskArguments, hre);
+
+    const user: string = taskArguments.user ?? signer.address;
+    const [viewers, expiries] = await pointsSwap.getViewers(user, taskArguments.brand);
+    if (viewers.length === 0) {
+      console.log(`No viewers of ${user}'s ${taskArguments.brand} balance`);
+      return;
+    }
+    const latest = await hre.ethers.provider.getBlock("latest");
+    viewers.forEach((viewer, i) => {
+      const expired = Number(expiries[i]) <= latest!.timestamp ? " (expired)" : "";
+      console.log(`- ${viewer} until ${new Date(Number(expiries[i]) * 1000).toISOString()}${expired}`);
+    });
+  });
+
+task("viewer:balances", "Lists the balances shared with the signer")
+  .addOptionalParam("address", "PointsSwap_FHE contract address")
+  .addOptionalParam("signer", "Index of the signer account", 0, types.int)
+  .addOptionalParam("fromBlock", "First block to scan for grants", 0, types.int)
+  .addFlag("decrypt", "Decrypt the shared balances (as the signer)")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { fhevm } = hre;
+    const { pointsSwap, address, signer } = await getPointsSwap(taskArguments, hre);
+
+    // Grants are discovered from events, then checked against the registry for revocations and expiry
+    const events = await pointsSwap.queryFilter(
+      pointsSwap.filters.ViewerGranted(undefined, signer.address),
+      taskArguments.fromBlock,
+    );
+    const pairs = new Map(events.map(e => [`${e.args.user}/${e.args.brandId}`, e.args]));
+    const latest = await hre.ethers.provider.getBlock("latest");
+
+    if (taskArguments.decrypt) {
+      await fhevm.initializeCLIApi();
+    }
+    let shared = 0;
+    for (const { user, brandId } of pairs.values()) {
+      const [viewers, expiries] = await pointsSwap.getViewers(user, brandId);
+      const index = viewers.indexOf(signer.address);
+      if (index === -1 || Number(expiries[index]) <= latest!.timestamp) continue;
+
+      shared++;
+      const [encryptedPoints] = await pointsSwap.getAccountBalance(user, brandId);
+      const points =
+        taskArguments.decrypt && encryptedPoints !== hre.ethers.ZeroHash
+          ? await fhevm.userDecryptEuint(FhevmType.euint64, encryptedPoints, address, signer)
+          : encryptedPoints;
+      console.log(`- ${user} ${brandId}: ${points}`);
+    }
+    if (shared === 0) {
+      console.log("No balances are shared with this account");
+    }
+  });
+
+task("owner:transfer", "Proposes a new owner, who takes over once it runs owner:accept (owner only)")
+  .addOptionalParam("address", "PointsSwap_FHE contract address")
+  .addOptionalParam("signer", "Index of the signer account", 0, types.int)
+  .addParam("to", "New owner address")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { ethers } = hre;
+    const { pointsSwap } = await getPointsSwap(taskArguments, hre);
+
+    if (!ethers.isAddress(taskArguments.to)) {
+      throw new Error(`--to must be an address, got ${taskArguments.to}`);
+    }
+
+    const tx = await pointsSwap.transferOwnership(taskArguments.to);
+    console.log(`Wait for tx:${tx.hash}...`);
+    const receipt = await tx.wait();
+    console.log(`tx:${tx.hash} status=${receipt?.status}`);
+    console.log(`Pending owner: ${await pointsSwap.pendingOwner()}`);
+  });
+
+task("owner:accept", "Accepts a proposed ownership transfer (pending owner only)")
+  .addOptionalParam("address", "PointsSwap_FHE contract address")
+  .addOptionalParam("signer", "Index of the signer account", 0, types.int)
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { pointsSwap } = await getPointsSwap(taskArguments, hre);
+
+    const tx = await pointsSwap.acceptOwnership();
+    console.log(`Wait for tx:${tx.hash}...`);
+    const receipt = await tx.wait();
+    console.log(`tx:${tx.hash} status=${receipt?.status}`);
+    console.log(`Owner: ${await pointsSwap.owner()}`);
+  });
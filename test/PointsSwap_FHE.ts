@@ -0,0 +1,1825 @@
+import { PointsSwap_FHE, PointsSwap_FHE__factory } from "../types";
+import { FhevmType } from "@fhevm/hardhat-plugin";
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { takeSnapshot, time } from "@nomicfoundation/hardhat-network-helpers";
+import { expect } from "chai";
+import { ethers, fhevm } from "hardhat";
+
+// Mirrors PointsSwap_FHE.AccountStatus
+const AccountStatus = { None: 0n, Active: 1n, Suspended: 2n, Closed: 3n };
+
+// Role ids of PointsSwap_FHE
+const Roles = {
+  RATE_SETTER: ethers.id("RATE_SETTER"),
+  BRAND_ADMIN: ethers.id("BRAND_ADMIN"),
+  PAUSER: ethers.id("PAUSER"),
+};
+
+type Signers = {
+  deployer: HardhatEthersSigner;
+  alice: HardhatEthersSigner;
+  bob: HardhatEthersSigner;
+};
+
+async function deployFixture() {
+  const libraries: Record<string, string> = {};
+  for (const name of ["ExpiringPoints", "RateAuctions", "RateMath"]) {
+    const library = await ethers.deployContract(name);
+    libraries[name] = await library.getAddress();
+  }
+  const factory = (await ethers.getContractFactory("PointsSwap_FHE", { libraries })) as PointsSwap_FHE__factory;
+  const pointsSwap = (await factory.deploy()) as PointsSwap_FHE;
+  const pointsSwapAddress = await pointsSwap.getAddress();
+
+  return { pointsSwap, pointsSwapAddress };
+}
+
+describe("PointsSwap_FHE", function () {
+  let signers: Signers;
+  let pointsSwap: PointsSwap_FHE;
+  let pointsSwapAddress: string;
+
+  async function encrypt32(user: HardhatEthersSigner, value: number) {
+    return fhevm.createEncryptedInput(pointsSwapAddress, user.address).add32(value).encrypt();
+  }
+
+  async function encrypt64(user: HardhatEthersSigner, value: number | bigint) {
+    return fhevm.createEncryptedInput(pointsSwapAddress, user.address).add64(value).encrypt();
+  }
+
+  // Registers each brand with the deployer as issuer
+  async function addBrands(...brands: string[]) {
+    for (const brand of brands) {
+      await (await pointsSwap.registerBrand(brand, brand, "", 0, signers.deployer.address)).wait();
+    }
+  }
+
+  async function createAccount(
+    user: HardhatEthersSigner,
+    brandId: string,
+    encryptedPoints: number,
+    publicPoints: number,
+  ) {
+    const input = await encrypt64(user, encryptedPoints);
+    const tx = await pointsSwap.connect(user).createAccount(brandId, input.handles[0], input.inputProof, publicPoints);
+    await tx.wait();
+  }
+
+  // `rate` is the fixed-point integer, i.e. the rate scaled by 10^decimals
+  async function setExchangeRate(fromBrand: string, toBrand: string, rate: number, decimals = 0) {
+    const input = await encrypt32(signers.deployer, rate);
+    const tx = await pointsSwap
+      .connect(signers.deployer)
+      .setExchangeRate(fromBrand, toBrand, input.handles[0], input.inputProof, rate, decimals);
+    await tx.wait();
+  }
+
+  // Balances are only decryptable by their owner
+  async function decryptBalance(user: HardhatEthersSigner, brandId: string) {
+    const [encryptedPoints] = await pointsSwap.getAccountBalance(user.address, brandId);
+    return fhevm.userDecryptEuint(FhevmType.euint64, encryptedPoints, pointsSwapAddress, user);
+  }
+
+  async function decryptLastConversion(user: HardhatEthersSigner) {
+    const flag = await pointsSwap.getLastConversionResult(user.address);
+    return fhevm.userDecryptEbool(flag, pointsSwapAddress, user);
+  }
+
+  before(async function () {
+    const ethSigners: HardhatEthersSigner[] = await ethers.getSigners();
+    signers = { deployer: ethSigners[0], alice: ethSigners[1], bob: ethSigners[2] };
+  });
+
+  beforeEach(async function () {
+    // Check whether the tests are running against an FHEVM mock environment
+    if (!fhevm.isMock) {
+      console.warn(`This hardhat test suite cannot run on Sepolia Testnet`);
+      this.skip();
+    }
+
+    ({ pointsSwap, pointsSwapAddress } = await deployFixture());
+  });
+
+  describe("deployment", function () {
+    it("sets the deployer as owner", async function () {
+      expect(await pointsSwap.owner()).to.eq(signers.deployer.address);
+    });
+
+    it("starts without brands", async function () {
+      expect(await pointsSwap.getSupportedBrands()).to.deep.eq([]);
+      expect(await pointsSwap.isContractAvailable()).to.eq(true);
+      expect(await pointsSwap.hasRole(Roles.PAUSER, signers.deployer.address)).to.eq(true);
+    });
+  });
+
+  describe("createAccount", function () {
+    beforeEach(async function () {
+      await addBrands("brandA", "brandB");
+    });
+
+    it("stores the encrypted points under the brand and the public points", async function () {
+      const input = await encrypt64(signers.alice, 1000);
+      await expect(
+        pointsSwap.connect(signers.alice).createAccount("brandA", input.handles[0], input.inputProof, 50),
+      )
+        .to.emit(pointsSwap, "AccountCreated")
+        .withArgs(signers.alice.address, "brandA", 50);
+
+      const [, publicPoints] = await pointsSwap.getAccountBalance(signers.alice.address, "brandA");
+      expect(publicPoints).to.eq(50);
+      expect(await decryptBalance(signers.alice, "brandA")).to.eq(1000);
+
+      // Other brands start uninitialized
+      const [brandBPoints] = await pointsSwap.getAccountBalance(signers.alice.address, "brandB");
+      expect(brandBPoints).to.eq(ethers.ZeroHash);
+
+      const account = await pointsSwap.accounts(signers.alice.address);
+      expect(account.status).to.eq(AccountStatus.Active);
+      expect(await pointsSwap.accountExists(signers.alice.address)).to.eq(true);
+    });
+
+    it("reverts when the account already exists", async function () {
+      await createAccount(signers.alice, "brandA", 1000, 50);
+
+      const input = await encrypt64(signers.alice, 10);
+      await expect(
+        pointsSwap.connect(signers.alice).createAccount("brandB", input.handles[0], input.inputProof, 10),
+      ).to.be.revertedWith("Account already exists");
+    });
+
+    it("reverts when an account without public points already exists", async function () {
+      await createAccount(signers.alice, "brandA", 1000, 0);
+
+      const input = await encrypt64(signers.alice, 10);
+      await expect(
+        pointsSwap.connect(signers.alice).createAccount("brandA", input.handles[0], input.inputProof, 0),
+      ).to.be.revertedWith("Account already exists");
+      expect(await decryptBalance(signers.alice, "brandA")).to.eq(1000);
+    });
+
+    it("reverts for unsupported brands", async function () {
+      const input = await encrypt64(signers.alice, 1000);
+      await expect(
+        pointsSwap.connect(signers.alice).createAccount("brandC", input.handles[0], input.inputProof, 50),
+      ).to.be.revertedWith("Unsupported brand");
+    });
+
+    it("reverts when the input proof belongs to another user", async function () {
+      const input = await encrypt64(signers.alice, 1000);
+      await expect(pointsSwap.connect(signers.bob).createAccount("brandA", input.handles[0], input.inputProof, 50)).to
+        .be.reverted;
+    });
+  });
+
+  describe("balance privacy", function () {
+    beforeEach(async function () {
+      await addBrands("brandA", "brandB");
+      await setExchangeRate("brandA", "brandB", 2);
+      await createAccount(signers.alice, "brandA", 1000, 50);
+      await createAccount(signers.bob, "brandB", 0, 0);
+    });
+
+    async function expectPrivate(user: HardhatEthersSigner, brandId: string, outsider: HardhatEthersSigner) {
+      const [encryptedPoints] = await pointsSwap.getAccountBalance(user.address, brandId);
+      await expect(fhevm.publicDecryptEuint(FhevmType.euint64, encryptedPoints)).to.be.rejected;
+      await expect(fhevm.userDecryptEuint(FhevmType.euint64, encryptedPoints, pointsSwapAddress, outsider)).to.be
+        .rejected;
+    }
+
+    it("keeps a new balance private to its owner", async function () {
+      expect(await decryptBalance(signers.alice, "brandA")).to.eq(1000);
+      await expectPrivate(signers.alice, "brandA", signers.bob);
+    });
+
+    it("re-grants the owner after a conversion", async function () {
+      await (await pointsSwap.connect(signers.alice).convertPoints("brandA", "brandB", 100)).wait();
+
+      expect(await decryptBalance(signers.alice, "brandA")).to.eq(900);
+      expect(await decryptBalance(signers.alice, "brandB")).to.eq(200);
+      await expectPrivate(signers.alice, "brandA", signers.bob);
+      await expectPrivate(signers.alice, "brandB", signers.bob);
+    });
+
+    it("does not let the sender of a transfer read the recipient's balance", async function () {
+      const input = await encrypt64(signers.alice, 300);
+      const tx = await pointsSwap
+        .connect(signers.alice)
+        .transferPoints("brandA", signers.bob.address, input.handles[0], input.inputProof);
+      await tx.wait();
+
+      expect(await decryptBalance(signers.bob, "brandA")).to.eq(300);
+      await expectPrivate(signers.bob, "brandA", signers.alice);
+      await expectPrivate(signers.alice, "brandA", signers.bob);
+    });
+
+    it("does not let brand admins read customer balances they minted to", async function () {
+      const input = await encrypt64(signers.deployer, 40);
+      await (await pointsSwap.mintPoints("brandB", signers.bob.address, input.handles[0], input.inputProof)).wait();
+
+      expect(await decryptBalance(signers.bob, "brandB")).to.eq(40);
+      await expectPrivate(signers.bob, "brandB", signers.deployer);
+    });
+  });
+
+  describe("viewers", function () {
+    beforeEach(async function () {
+      await addBrands("brandA", "brandB");
+      await setExchangeRate("brandA", "brandB", 2);
+      await createAccount(signers.alice, "brandA", 1000, 50);
+    });
+
+    async function grant(viewer: HardhatEthersSigner, brandId: string, expiresAt: number) {
+      await (await pointsSwap.connect(signers.alice).grantViewer(viewer.address, brandId, expiresAt)).wait();
+    }
+
+    async function decryptAs(viewer: HardhatEthersSigner, brandId: string) {
+      const [encryptedPoints] = await pointsSwap.getAccountBalance(signers.alice.address, brandId);
+      return fhevm.userDecryptEuint(FhevmType.euint64, encryptedPoints, pointsSwapAddress, viewer);
+    }
+
+    it("lets a viewer decrypt the current balance", async function () {
+      const expiresAt = (await time.latest()) + 3600;
+      await expect(pointsSwap.connect(signers.alice).grantViewer(signers.bob.address, "brandA", expiresAt))
+        .to.emit(pointsSwap, "ViewerGranted")
+        .withArgs(signers.alice.address, signers.bob.address, "brandA", expiresAt);
+
+      expect(await decryptAs(signers.bob, "brandA")).to.eq(1000);
+      await expect(decryptAs(signers.deployer, "brandA")).to.be.rejected;
+
+      const [viewers, expiries] = await pointsSwap.getViewers(signers.alice.address, "brandA");
+      expect(viewers).to.deep.eq([signers.bob.address]);
+      expect(expiries).to.deep.eq([BigInt(expiresAt)]);
+    });
+
+    it("grants future balances of the same brand only", async function () {
+      await grant(signers.bob, "brandA", (await time.latest()) + 3600);
+      await (await pointsSwap.connect(signers.alice).convertPoints("brandA", "brandB", 100)).wait();
+
+      expect(await decryptAs(signers.bob, "brandA")).to.eq(900);
+      await expect(decryptAs(signers.bob, "brandB")).to.be.rejected;
+    });
+
+    it("stops granting new balances after revocation", async function () {
+      await grant(signers.bob, "brandA", (await time.latest()) + 3600);
+      await expect(pointsSwap.connect(signers.alice).revokeViewer(signers.bob.address, "brandA"))
+        .to.emit(pointsSwap, "ViewerRevoked")
+        .withArgs(signers.alice.address, signers.bob.address, "brandA");
+      await (await pointsSwap.connect(signers.alice).convertPoints("brandA", "brandB", 100)).wait();
+
+      await expect(decryptAs(signers.bob, "brandA")).to.be.rejected;
+      const [viewers] = await pointsSwap.getViewers(signers.alice.address, "brandA");
+      expect(viewers).to.deep.eq([]);
+    });
+
+    it("stops granting new balances after expiry", async function () {
+      await grant(signers.bob, "brandA", (await time.latest()) + 3600);
+      await time.increase(3601);
+      await (await pointsSwap.connect(signers.alice).convertPoints("brandA", "brandB", 100)).wait();
+
+      await expect(decryptAs(signers.bob, "brandA")).to.be.rejected;
+    });
+
+    it("extends an existing grant without adding a duplicate", async function () {
+      const now = await time.latest();
+      await grant(signers.bob, "brandA", now + 3600);
+      await grant(signers.bob, "brandA", now + 7200);
+
+      const [viewers, expiries] = await pointsSwap.getViewers(signers.alice.address, "brandA");
+      expect(viewers).to.deep.eq([signers.bob.address]);
+      expect(expiries).to.deep.eq([BigInt(now + 7200)]);
+    });
+
+    it("validates grants and revocations", async function () {
+      const expiresAt = (await time.latest()) + 3600;
+      const viewer = signers.bob.address;
+      await expect(
+        pointsSwap.connect(signers.bob).grantViewer(signers.alice.address, "brandA", expiresAt),
+      ).to.be.revertedWith("Account inactive");
+      await expect(pointsSwap.connect(signers.alice).grantViewer(viewer, "brandC", expiresAt)).to.be.revertedWith(
+        "Unsupported brand",
+      );
+      await expect(
+        pointsSwap.connect(signers.alice).grantViewer(signers.alice.address, "brandA", expiresAt),
+      ).to.be.revertedWith("Invalid viewer");
+      await expect(
+        pointsSwap.connect(signers.alice).grantViewer(viewer, "brandA", await time.latest()),
+      ).to.be.revertedWith("Invalid expiry");
+      await expect(pointsSwap.connect(signers.alice).revokeViewer(viewer, "brandA")).to.be.revertedWith(
+        "Viewer not found",
+      );
+    });
+
+    it("caps the number of viewers per brand", async function () {
+      const expiresAt = (await time.latest()) + 3600;
+      const max = Number(await pointsSwap.MAX_VIEWERS());
+      for (let i = 1; i <= max; i++) {
+        await (await pointsSwap.connect(signers.alice).grantViewer(ethers.toBeHex(i, 20), "brandA", expiresAt)).wait();
+      }
+      await expect(
+        pointsSwap.connect(signers.alice).grantViewer(signers.bob.address, "brandA", expiresAt),
+      ).to.be.revertedWith("Too many viewers");
+    });
+  });
+
+  describe("registerBrand", function () {
+    it("stores the brand metadata and adds it to the list", async function () {
+      await expect(pointsSwap.registerBrand("brandA", "Brand A", "ipfs://logo-a", 2, signers.alice.address))
+        .to.emit(pointsSwap, "BrandRegistered")
+        .withArgs("brandA", signers.alice.address);
+      await addBrands("brandB");
+
+      const brand = await pointsSwap.getBrand("brandA");
+      expect(brand.displayName).to.eq("Brand A");
+      expect(brand.logoURI).to.eq("ipfs://logo-a");
+      expect(brand.decimals).to.eq(2);
+      expect(brand.issuer).to.eq(signers.alice.address);
+      expect(brand.active).to.eq(true);
+      expect(await pointsSwap.isBrandAdmin("brandA", signers.alice.address)).to.eq(true);
+      expect(await pointsSwap.getSupportedBrands()).to.deep.eq(["brandA", "brandB"]);
+    });
+
+    it("reverts for non-owners", async function () {
+      await expect(
+        pointsSwap.connect(signers.alice).registerBrand("brandA", "Brand A", "", 0, signers.alice.address),
+      ).to.be.revertedWith("Not authorized");
+    });
+
+    it("reverts when the brand is already supported", async function () {
+      await addBrands("brandA");
+      await expect(pointsSwap.registerBrand("brandA", "Brand A", "", 0, signers.alice.address)).to.be.revertedWith(
+        "Brand already supported",
+      );
+    });
+
+    it("reverts for an empty id or issuer", async function () {
+      await expect(pointsSwap.registerBrand("", "Brand", "", 0, signers.alice.address)).to.be.revertedWith(
+        "Invalid brand id",
+      );
+      await expect(pointsSwap.registerBrand("brandA", "Brand A", "", 0, ethers.ZeroAddress)).to.be.revertedWith(
+        "Invalid address",
+      );
+    });
+
+    it("reverts when reading an unknown brand", async function () {
+      await expect(pointsSwap.getBrand("brandA")).to.be.revertedWith("Unsupported brand");
+    });
+  });
+
+  describe("brand admins", function () {
+    beforeEach(async function () {
+      await (await pointsSwap.registerBrand("brandA", "Brand A", "", 0, signers.alice.address)).wait();
+    });
+
+    it("lets the issuer grant and revoke admins", async function () {
+      await expect(pointsSwap.connect(signers.alice).grantBrandAdmin("brandA", signers.bob.address))
+        .to.emit(pointsSwap, "BrandAdminUpdated")
+        .withArgs("brandA", signers.bob.address, true);
+      expect(await pointsSwap.isBrandAdmin("brandA", signers.bob.address)).to.eq(true);
+
+      await (await pointsSwap.connect(signers.alice).revokeBrandAdmin("brandA", signers.bob.address)).wait();
+      expect(await pointsSwap.isBrandAdmin("brandA", signers.bob.address)).to.eq(false);
+    });
+
+    it("lets admins update the metadata", async function () {
+      await (await pointsSwap.connect(signers.alice).grantBrandAdmin("brandA", signers.bob.address)).wait();
+
+      await expect(pointsSwap.connect(signers.bob).updateBrandMetadata("brandA", "Brand A+", "ipfs://new"))
+        .to.emit(pointsSwap, "BrandMetadataUpdated")
+        .withArgs("brandA");
+
+      const brand = await pointsSwap.getBrand("brandA");
+      expect(brand.displayName).to.eq("Brand A+");
+      expect(brand.logoURI).to.eq("ipfs://new");
+    });
+
+    it("keeps admin management with the issuer", async function () {
+      await (await pointsSwap.connect(signers.alice).grantBrandAdmin("brandA", signers.bob.address)).wait();
+
+      await expect(
+        pointsSwap.connect(signers.bob).grantBrandAdmin("brandA", signers.deployer.address),
+      ).to.be.revertedWith("Not brand issuer");
+      await expect(pointsSwap.connect(signers.bob).setBrandActive("brandA", false)).to.be.revertedWith(
+        "Not brand issuer",
+      );
+    });
+
+    it("reverts for accounts without a role", async function () {
+      await expect(
+        pointsSwap.connect(signers.bob).updateBrandMetadata("brandA", "Hijacked", ""),
+      ).to.be.revertedWith("Not brand admin");
+    });
+
+    it("lets the owner act on any brand", async function () {
+      await (await pointsSwap.updateBrandMetadata("brandA", "Brand A (owner)", "")).wait();
+      await (await pointsSwap.grantBrandAdmin("brandA", signers.bob.address)).wait();
+
+      expect((await pointsSwap.getBrand("brandA")).displayName).to.eq("Brand A (owner)");
+      expect(await pointsSwap.isBrandAdmin("brandA", signers.bob.address)).to.eq(true);
+    });
+
+    it("reverts for unknown brands", async function () {
+      await expect(pointsSwap.grantBrandAdmin("brandC", signers.bob.address)).to.be.revertedWith("Unsupported brand");
+    });
+  });
+
+  describe("setBrandActive", function () {
+    beforeEach(async function () {
+      await addBrands("brandA", "brandB");
+      await setExchangeRate("brandA", "brandB", 2);
+      await createAccount(signers.alice, "brandA", 1000, 50);
+    });
+
+    it("blocks new accounts and conversions for inactive brands", async function () {
+      await expect(pointsSwap.setBrandActive("brandB", false))
+        .to.emit(pointsSwap, "BrandStatusChanged")
+        .withArgs("brandB", false);
+      expect((await pointsSwap.getBrand("brandB")).active).to.eq(false);
+
+      await expect(pointsSwap.connect(signers.alice).convertPoints("brandA", "brandB", 100)).to.be.revertedWith(
+        "Unsupported brand",
+      );
+      const input = await encrypt64(signers.bob, 10);
+      await expect(
+        pointsSwap.connect(signers.bob).createAccount("brandB", input.handles[0], input.inputProof, 10),
+      ).to.be.revertedWith("Unsupported brand");
+    });
+
+    it("restores conversions when reactivated", async function () {
+      await (await pointsSwap.setBrandActive("brandB", false)).wait();
+      await (await pointsSwap.setBrandActive("brandB", true)).wait();
+
+      await (await pointsSwap.connect(signers.alice).convertPoints("brandA", "brandB", 100)).wait();
+      expect(await decryptBalance(signers.alice, "brandB")).to.eq(200);
+    });
+  });
+
+  describe("mintPoints", function () {
+    beforeEach(async function () {
+      await (await pointsSwap.registerBrand("brandA", "Brand A", "", 0, signers.deployer.address)).wait();
+      await createAccount(signers.alice, "brandA", 1000, 50);
+    });
+
+    async function mint(admin: HardhatEthersSigner, to: string, amount: number) {
+      const input = await encrypt64(admin, amount);
+      return pointsSwap.connect(admin).mintPoints("brandA", to, input.handles[0], input.inputProof);
+    }
+
+    async function decryptSupply(user: HardhatEthersSigner) {
+      const supply = await pointsSwap.getBrandSupply("brandA");
+      return fhevm.userDecryptEuint(FhevmType.euint64, supply, pointsSwapAddress, user);
+    }
+
+    it("credits the customer and the brand supply", async function () {
+      await (await mint(signers.deployer, signers.alice.address, 250)).wait();
+      await (await mint(signers.deployer, signers.alice.address, 50)).wait();
+
+      expect(await decryptBalance(signers.alice, "brandA")).to.eq(1300);
+      expect(await decryptSupply(signers.deployer)).to.eq(300);
+    });
+
+    it("emits the recipient but not the amount", async function () {
+      await expect(mint(signers.deployer, signers.alice.address, 250))
+        .to.emit(pointsSwap, "PointsMinted")
+        .withArgs("brandA", signers.alice.address);
+    });
+
+    it("lets brand admins mint and decrypt the supply", async function () {
+      await (await pointsSwap.grantBrandAdmin("brandA", signers.bob.address)).wait();
+      await (await mint(signers.bob, signers.alice.address, 250)).wait();
+
+      expect(await decryptSupply(signers.bob)).to.eq(250);
+      // The issuer keeps access to supply updated by other admins
+      expect(await decryptSupply(signers.deployer)).to.eq(250);
+    });
+
+    it("mints a batch under one input proof", async function () {
+      await createAccount(signers.bob, "brandA", 0, 0);
+
+      const input = await fhevm
+        .createEncryptedInput(pointsSwapAddress, signers.deployer.address)
+        .add64(100)
+        .add64(200)
+        .encrypt();
+      await expect(
+        pointsSwap.mintPointsBatch(
+          "brandA",
+          [signers.alice.address, signers.bob.address],
+          input.handles,
+          input.inputProof,
+        ),
+      )
+        .to.emit(pointsSwap, "PointsMinted")
+        .withArgs("brandA", signers.bob.address);
+
+      expect(await decryptBalance(signers.alice, "brandA")).to.eq(1100);
+      expect(await decryptBalance(signers.bob, "brandA")).to.eq(200);
+      expect(await decryptSupply(signers.deployer)).to.eq(300);
+    });
+
+    it("reverts when the batch lengths differ", async function () {
+      const input = await encrypt64(signers.deployer, 100);
+      const recipients = [signers.alice.address, signers.bob.address];
+      await expect(
+        pointsSwap.mintPointsBatch("brandA", recipients, input.handles, input.inputProof),
+      ).to.be.revertedWith("Length mismatch");
+    });
+
+    it("reverts for accounts without a role", async function () {
+      await expect(mint(signers.alice, signers.alice.address, 250)).to.be.revertedWith("Not brand admin");
+    });
+
+    it("reverts for customers without an account", async function () {
+      await expect(mint(signers.deployer, signers.bob.address, 250)).to.be.revertedWith("Account not found");
+    });
+
+    it("reverts for inactive brands", async function () {
+      await (await pointsSwap.setBrandActive("brandA", false)).wait();
+      await expect(mint(signers.deployer, signers.alice.address, 250)).to.be.revertedWith("Unsupported brand");
+    });
+  });
+
+  describe("burnPoints", function () {
+    beforeEach(async function () {
+      await addBrands("brandA");
+      await createAccount(signers.alice, "brandA", 0, 0);
+      const input = await encrypt64(signers.deployer, 500);
+      await (await pointsSwap.mintPoints("brandA", signers.alice.address, input.handles[0], input.inputProof)).wait();
+    });
+
+    async function burn(admin: HardhatEthersSigner, from: string, amount: number) {
+      const input = await encrypt64(admin, amount);
+      return pointsSwap.connect(admin).burnPoints("brandA", from, input.handles[0], input.inputProof);
+    }
+
+    async function decryptSupply() {
+      const supply = await pointsSwap.getBrandSupply("brandA");
+      return fhevm.userDecryptEuint(FhevmType.euint64, supply, pointsSwapAddress, signers.deployer);
+    }
+
+    it("debits the customer and the brand supply", async function () {
+      await expect(burn(signers.deployer, signers.alice.address, 200))
+        .to.emit(pointsSwap, "PointsBurned")
+        .withArgs("brandA", signers.alice.address);
+
+      expect(await decryptBalance(signers.alice, "brandA")).to.eq(300);
+      expect(await decryptSupply()).to.eq(300);
+    });
+
+    it("is a no-op when the balance is too low", async function () {
+      await (await burn(signers.deployer, signers.alice.address, 501)).wait();
+
+      expect(await decryptBalance(signers.alice, "brandA")).to.eq(500);
+      expect(await decryptSupply()).to.eq(500);
+    });
+
+    it("keeps the supply at zero when burning points that were never minted", async function () {
+      // 1000 points from createAccount, against a supply of 500
+      await createAccount(signers.bob, "brandA", 1000, 0);
+      await (await burn(signers.deployer, signers.bob.address, 800)).wait();
+
+      expect(await decryptBalance(signers.bob, "brandA")).to.eq(200);
+      expect(await decryptSupply()).to.eq(0);
+    });
+
+    it("burns from suspended accounts", async function () {
+      await (await pointsSwap.connect(signers.alice).deactivateAccount()).wait();
+      await (await burn(signers.deployer, signers.alice.address, 200)).wait();
+
+      expect(await decryptBalance(signers.alice, "brandA")).to.eq(300);
+      expect(await decryptSupply()).to.eq(300);
+    });
+
+    it("reverts for missing and closed accounts", async function () {
+      await expect(burn(signers.deployer, signers.bob.address, 100)).to.be.revertedWith("Account not found");
+      await (await pointsSwap.connect(signers.alice).closeAccount(ethers.ZeroAddress)).wait();
+      await expect(burn(signers.deployer, signers.alice.address, 100)).to.be.revertedWith("Account not found");
+    });
+
+    it("reverts for accounts without a role", async function () {
+      await expect(burn(signers.alice, signers.alice.address, 100)).to.be.revertedWith("Not brand admin");
+    });
+  });
+
+  describe("expiring points", function () {
+    const DAY = 24 * 60 * 60;
+
+    beforeEach(async function () {
+      await addBrands("brandA");
+      await createAccount(signers.alice, "brandA", 0, 50);
+      await createAccount(signers.bob, "brandA", 0, 0);
+      await (await pointsSwap.setExpiryPolicy("brandA", DAY)).wait();
+      // Periods are aligned to multiples of the expiry period
+      await time.increaseTo((Math.floor((await time.latest()) / DAY) + 1) * DAY);
+    });
+
+    async function mint(to: HardhatEthersSigner, amount: number) {
+      const input = await encrypt64(signers.deployer, amount);
+      await (await pointsSwap.mintPoints("brandA", to.address, input.handles[0], input.inputProof)).wait();
+    }
+
+    async function transfer(from: HardhatEthersSigner, to: HardhatEthersSigner, amount: number) {
+      const input = await encrypt64(from, amount);
+      const tx = await pointsSwap
+        .connect(from)
+        .transferPoints("brandA", to.address, input.handles[0], input.inputProof);
+      await tx.wait();
+    }
+
+    async function decryptLots(user: HardhatEthersSigner) {
+      const lots = await pointsSwap.getPointLots(user.address, "brandA");
+      return {
+        current: await fhevm.userDecryptEuint(FhevmType.euint64, lots.current, pointsSwapAddress, user),
+        previous: await fhevm.userDecryptEuint(FhevmType.euint64, lots.previous, pointsSwapAddress, user),
+      };
+    }
+
+    it("stores the policy", async function () {
+      expect(await pointsSwap.expiryPeriods("brandA")).to.eq(DAY);
+      await expect(pointsSwap.setExpiryPolicy("brandA", 0))
+        .to.emit(pointsSwap, "ExpiryPolicyUpdated")
+        .withArgs("brandA", 0);
+    });
+
+    it("expires points at the end of the period after they were earned", async function () {
+      await mint(signers.alice, 100);
+      const start = await time.latest();
+      const [, , previousExpiresAt, currentExpiresAt] = await pointsSwap.getPointLots(signers.alice.address, "brandA");
+      expect(currentExpiresAt).to.eq((Math.floor(start / DAY) + 2) * DAY);
+      expect(previousExpiresAt).to.eq(currentExpiresAt - BigInt(DAY));
+
+      await time.increase(DAY);
+      await mint(signers.alice, 0);
+      expect(await decryptBalance(signers.alice, "brandA")).to.eq(100);
+      expect(await decryptLots(signers.alice)).to.deep.eq({ current: 0n, previous: 100n });
+
+      await time.increase(DAY);
+      await mint(signers.alice, 0);
+      expect(await decryptBalance(signers.alice, "brandA")).to.eq(0);
+    });
+
+    it("drops both lots after two idle periods", async function () {
+      await mint(signers.alice, 100);
+      await time.increase(DAY);
+      await mint(signers.alice, 50);
+
+      await time.increase(3 * DAY);
+      await mint(signers.alice, 0);
+      expect(await decryptBalance(signers.alice, "brandA")).to.eq(0);
+    });
+
+    it("spends the lot closest to expiry first", async function () {
+      await mint(signers.alice, 100);
+      await time.increase(DAY);
+      await mint(signers.alice, 50);
+
+      await transfer(signers.alice, signers.bob, 120);
+      expect(await decryptLots(signers.alice)).to.deep.eq({ current: 30n, previous: 0n });
+
+      await time.increase(DAY);
+      await mint(signers.alice, 0);
+      expect(await decryptBalance(signers.alice, "brandA")).to.eq(30);
+      // Received points start a new lot
+      expect(await decryptLots(signers.bob)).to.deep.eq({ current: 120n, previous: 0n });
+    });
+
+    it("keeps points held before the policy", async function () {
+      await (await pointsSwap.setExpiryPolicy("brandA", 0)).wait();
+      await createAccount(signers.deployer, "brandA", 1000, 0);
+      await (await pointsSwap.setExpiryPolicy("brandA", DAY)).wait();
+      await mint(signers.deployer, 100);
+
+      await time.increase(2 * DAY);
+      await mint(signers.deployer, 0);
+      expect(await decryptBalance(signers.deployer, "brandA")).to.eq(1000);
+    });
+
+    it("starts the lots afresh when the policy is turned off and back on", async function () {
+      await mint(signers.alice, 100);
+      await (await pointsSwap.setExpiryPolicy("brandA", 0)).wait();
+      // Spent and earned while the policy is off, so the old lot no longer matches the balance
+      await transfer(signers.alice, signers.bob, 100);
+      await mint(signers.alice, 30);
+      await (await pointsSwap.setExpiryPolicy("brandA", DAY)).wait();
+      expect((await pointsSwap.getPointLots(signers.alice.address, "brandA")).currentExpiresAt).to.eq(0);
+
+      await time.increase(2 * DAY);
+      await mint(signers.alice, 0);
+      expect(await decryptBalance(signers.alice, "brandA")).to.eq(30);
+      expect(await decryptLots(signers.alice)).to.deep.eq({ current: 0n, previous: 0n });
+      expect(await decryptBalance(signers.bob, "brandA")).to.eq(100);
+    });
+
+    it("does not track brands without a policy", async function () {
+      await addBrands("brandB");
+      const lots = await pointsSwap.getPointLots(signers.alice.address, "brandB");
+      expect(lots.current).to.eq(ethers.ZeroHash);
+      expect(lots.currentExpiresAt).to.eq(0);
+    });
+
+    it("keeps the lots private to the user", async function () {
+      await mint(signers.alice, 100);
+      const lots = await pointsSwap.getPointLots(signers.alice.address, "brandA");
+
+      await expect(fhevm.userDecryptEuint(FhevmType.euint64, lots.current, pointsSwapAddress, signers.bob)).to.be
+        .rejected;
+    });
+
+    it("reverts when set by someone other than the issuer", async function () {
+      await expect(pointsSwap.connect(signers.alice).setExpiryPolicy("brandA", DAY)).to.be.revertedWith(
+        "Not brand issuer",
+      );
+    });
+  });
+
+  describe("transferPoints", function () {
+    beforeEach(async function () {
+      await addBrands("brandA", "brandB");
+      await createAccount(signers.alice, "brandA", 1000, 50);
+      await createAccount(signers.bob, "brandB", 0, 0);
+    });
+
+    async function transfer(from: HardhatEthersSigner, to: string, amount: number, brandId = "brandA") {
+      const input = await encrypt64(from, amount);
+      return pointsSwap.connect(from).transferPoints(brandId, to, input.handles[0], input.inputProof);
+    }
+
+    async function transferredHandle(tx: Awaited<ReturnType<typeof transfer>>) {
+      const receipt = await tx.wait();
+      const event = receipt!.logs
+        .map((log) => pointsSwap.interface.parseLog(log))
+        .find((parsed) => parsed?.name === "ConfidentialTransfer");
+      return event!.args.amount as string;
+    }
+
+    it("moves the encrypted amount between accounts", async function () {
+      await (await transfer(signers.alice, signers.bob.address, 300)).wait();
+
+      expect(await decryptBalance(signers.alice, "brandA")).to.eq(700);
+      expect(await decryptBalance(signers.bob, "brandA")).to.eq(300);
+    });
+
+    it("emits the transferred handle for both parties to decrypt", async function () {
+      const tx = await transfer(signers.alice, signers.bob.address, 300);
+      await expect(tx).to.emit(pointsSwap, "ConfidentialTransfer");
+
+      const handle = await transferredHandle(tx);
+      expect(await fhevm.userDecryptEuint(FhevmType.euint64, handle, pointsSwapAddress, signers.alice)).to.eq(300);
+      expect(await fhevm.userDecryptEuint(FhevmType.euint64, handle, pointsSwapAddress, signers.bob)).to.eq(300);
+      await expect(fhevm.userDecryptEuint(FhevmType.euint64, handle, pointsSwapAddress, signers.deployer)).to.be
+        .rejected;
+    });
+
+    it("moves nothing when the amount exceeds the balance", async function () {
+      const handle = await transferredHandle(await transfer(signers.alice, signers.bob.address, 1001));
+
+      expect(await fhevm.userDecryptEuint(FhevmType.euint64, handle, pointsSwapAddress, signers.alice)).to.eq(0);
+      expect(await decryptBalance(signers.alice, "brandA")).to.eq(1000);
+      expect(await decryptBalance(signers.bob, "brandA")).to.eq(0);
+    });
+
+    it("grants the recipient access to its new balance", async function () {
+      await (await transfer(signers.alice, signers.bob.address, 300)).wait();
+
+      const [balance] = await pointsSwap.getAccountBalance(signers.bob.address, "brandA");
+      expect(await fhevm.userDecryptEuint(FhevmType.euint64, balance, pointsSwapAddress, signers.bob)).to.eq(300);
+    });
+
+    it("reverts for recipients without an account", async function () {
+      await expect(transfer(signers.alice, signers.deployer.address, 100)).to.be.revertedWith("Account not found");
+    });
+
+    it("reverts for senders without an account", async function () {
+      await expect(transfer(signers.deployer, signers.bob.address, 100)).to.be.revertedWith("Account inactive");
+    });
+
+    it("reverts for transfers to self", async function () {
+      await expect(transfer(signers.alice, signers.alice.address, 100)).to.be.revertedWith("Invalid recipient");
+    });
+
+    it("reverts for inactive brands", async function () {
+      await (await pointsSwap.setBrandActive("brandA", false)).wait();
+      await expect(transfer(signers.alice, signers.bob.address, 100)).to.be.revertedWith("Unsupported brand");
+    });
+  });
+
+  describe("offers", function () {
+    beforeEach(async function () {
+      await addBrands("brandA", "brandB");
+      // Alice makes offers in brandA, Bob pays in brandB
+      await createAccount(signers.alice, "brandA", 1000, 0);
+      await createAccount(signers.bob, "brandB", 1000, 0);
+    });
+
+    async function postOffer(amount: number, price: number, priceDecimals = 0) {
+      const input = await encrypt64(signers.alice, amount);
+      const tx = await pointsSwap
+        .connect(signers.alice)
+        .postOffer("brandA", "brandB", input.handles[0], input.inputProof, price, priceDecimals);
+      await tx.wait();
+      return Number(await pointsSwap.offerCount()) - 1;
+    }
+
+    async function fillOffer(taker: HardhatEthersSigner, offerId: number, amount: number) {
+      const input = await encrypt64(taker, amount);
+      return pointsSwap.connect(taker).fillOffer(offerId, input.handles[0], input.inputProof);
+    }
+
+    async function filledAmount(tx: Awaited<ReturnType<typeof fillOffer>>, user: HardhatEthersSigner) {
+      const receipt = await tx.wait();
+      const event = receipt!.logs
+        .map((log) => pointsSwap.interface.parseLog(log))
+        .find((parsed) => parsed?.name === "OfferFilled");
+      return fhevm.userDecryptEuint(FhevmType.euint64, event!.args.filled, pointsSwapAddress, user);
+    }
+
+    async function decryptRemaining(offerId: number) {
+      const offer = await pointsSwap.getOffer(offerId);
+      return fhevm.userDecryptEuint(FhevmType.euint64, offer.remaining, pointsSwapAddress, signers.alice);
+    }
+
+    it("escrows the offered points with public terms", async function () {
+      const input = await encrypt64(signers.alice, 400);
+      await expect(
+        pointsSwap.connect(signers.alice).postOffer("brandA", "brandB", input.handles[0], input.inputProof, 2, 0),
+      )
+        .to.emit(pointsSwap, "OfferPosted")
+        .withArgs(0, signers.alice.address, "brandA", "brandB", 2, 0);
+
+      const offer = await pointsSwap.getOffer(0);
+      expect(offer.maker).to.eq(signers.alice.address);
+      expect(offer.price).to.eq(2);
+      expect(offer.open).to.eq(true);
+      expect(await decryptRemaining(0)).to.eq(400);
+      expect(await decryptBalance(signers.alice, "brandA")).to.eq(600);
+    });
+
+    it("escrows nothing when the amount exceeds the balance", async function () {
+      const offerId = await postOffer(1001, 2);
+
+      expect(await decryptRemaining(offerId)).to.eq(0);
+      expect(await decryptBalance(signers.alice, "brandA")).to.eq(1000);
+    });
+
+    it("settles a fill atomically on both sides", async function () {
+      const offerId = await postOffer(400, 2);
+
+      const tx = await fillOffer(signers.bob, offerId, 100);
+      await expect(tx).to.emit(pointsSwap, "OfferFilled");
+      expect(await filledAmount(tx, signers.bob)).to.eq(100);
+
+      expect(await decryptBalance(signers.bob, "brandA")).to.eq(100);
+      // 100 * 2
+      expect(await decryptBalance(signers.bob, "brandB")).to.eq(800);
+      expect(await decryptBalance(signers.alice, "brandB")).to.eq(200);
+      expect(await decryptRemaining(offerId)).to.eq(300);
+    });
+
+    it("prices fills with a fixed-point price", async function () {
+      // 0.5 brandB per brandA point
+      const offerId = await postOffer(400, 5000, 4);
+      await (await fillOffer(signers.bob, offerId, 301)).wait();
+
+      expect(await decryptBalance(signers.bob, "brandA")).to.eq(301);
+      // 301 * 0.5 = 150.5, rounded up
+      expect(await decryptBalance(signers.bob, "brandB")).to.eq(849);
+      expect(await decryptBalance(signers.alice, "brandB")).to.eq(151);
+    });
+
+    it("never lets a small fill go free", async function () {
+      // 0.0001 brandB per brandA point
+      const offerId = await postOffer(400, 1, 4);
+      const tx = await fillOffer(signers.bob, offerId, 1);
+
+      expect(await filledAmount(tx, signers.bob)).to.eq(1);
+      expect(await decryptBalance(signers.bob, "brandB")).to.eq(999);
+      expect(await decryptBalance(signers.alice, "brandB")).to.eq(1);
+    });
+
+    it("does not wrap the cost of a large fill", async function () {
+      // 2^62 points at 4 each cost 2^64, which wraps to 0 in 64 bits
+      const amount = 2n ** 62n;
+      const mint = await encrypt64(signers.deployer, amount);
+      await (await pointsSwap.mintPoints("brandA", signers.alice.address, mint.handles[0], mint.inputProof)).wait();
+      const input = await encrypt64(signers.alice, amount);
+      await (
+        await pointsSwap.connect(signers.alice).postOffer("brandA", "brandB", input.handles[0], input.inputProof, 4, 0)
+      ).wait();
+
+      const fill = await encrypt64(signers.bob, amount);
+      const tx = await pointsSwap.connect(signers.bob).fillOffer(0, fill.handles[0], fill.inputProof);
+
+      expect(await filledAmount(tx, signers.bob)).to.eq(0);
+      expect(await decryptBalance(signers.bob, "brandA")).to.eq(0);
+      expect(await decryptBalance(signers.bob, "brandB")).to.eq(1000);
+      expect(await decryptRemaining(0)).to.eq(amount);
+    });
+
+    it("caps a fill at the remaining escrow", async function () {
+      const offerId = await postOffer(400, 1);
+      const tx = await fillOffer(signers.bob, offerId, 500);
+
+      expect(await filledAmount(tx, signers.alice)).to.eq(400);
+      expect(await decryptRemaining(offerId)).to.eq(0);
+      expect(await decryptBalance(signers.bob, "brandB")).to.eq(600);
+    });
+
+    it("moves nothing when the taker cannot pay", async function () {
+      const offerId = await postOffer(400, 3);
+      // 400 * 3 = 1200 > 1000
+      const tx = await fillOffer(signers.bob, offerId, 400);
+
+      expect(await filledAmount(tx, signers.bob)).to.eq(0);
+      expect(await decryptBalance(signers.bob, "brandB")).to.eq(1000);
+      expect(await decryptBalance(signers.bob, "brandA")).to.eq(0);
+      expect(await decryptRemaining(offerId)).to.eq(400);
+    });
+
+    it("refunds the unfilled escrow on cancel", async function () {
+      const offerId = await postOffer(400, 2);
+      await (await fillOffer(signers.bob, offerId, 100)).wait();
+
+      await expect(pointsSwap.connect(signers.alice).cancelOffer(offerId))
+        .to.emit(pointsSwap, "OfferCancelled")
+        .withArgs(offerId);
+
+      expect((await pointsSwap.getOffer(offerId)).open).to.eq(false);
+      expect(await decryptBalance(signers.alice, "brandA")).to.eq(900);
+      await expect(fillOffer(signers.bob, offerId, 100)).to.be.revertedWith("Offer not open");
+      await expect(pointsSwap.connect(signers.alice).cancelOffer(offerId)).to.be.revertedWith("Offer not open");
+    });
+
+    it("keeps the escrow private to the maker", async function () {
+      const offerId = await postOffer(400, 2);
+      const offer = await pointsSwap.getOffer(offerId);
+
+      await expect(fhevm.userDecryptEuint(FhevmType.euint64, offer.remaining, pointsSwapAddress, signers.bob)).to.be
+        .rejected;
+    });
+
+    it("reverts when cancelled by someone else", async function () {
+      const offerId = await postOffer(400, 2);
+      await expect(pointsSwap.connect(signers.bob).cancelOffer(offerId)).to.be.revertedWith("Not offer maker");
+    });
+
+    it("counts the maker's open offers", async function () {
+      const offerId = await postOffer(400, 2);
+      await postOffer(100, 2);
+      expect(await pointsSwap.openOfferCount(signers.alice.address)).to.eq(2);
+
+      await (await pointsSwap.connect(signers.alice).cancelOffer(offerId)).wait();
+      expect(await pointsSwap.openOfferCount(signers.alice.address)).to.eq(1);
+    });
+
+    it("reverts fills while the maker is suspended", async function () {
+      const offerId = await postOffer(400, 2);
+      await (await pointsSwap.connect(signers.alice).deactivateAccount()).wait();
+
+      await expect(fillOffer(signers.bob, offerId, 100)).to.be.revertedWith("Maker inactive");
+    });
+
+    it("reverts when the maker fills its own offer", async function () {
+      const offerId = await postOffer(400, 2);
+      await expect(fillOffer(signers.alice, offerId, 100)).to.be.revertedWith("Cannot fill own offer");
+    });
+
+    it("reverts for invalid terms", async function () {
+      const input = await encrypt64(signers.alice, 100);
+      const alice = pointsSwap.connect(signers.alice);
+      await expect(alice.postOffer("brandA", "brandA", input.handles[0], input.inputProof, 2, 0)).to.be.revertedWith(
+        "Same brand",
+      );
+      await expect(alice.postOffer("brandA", "brandB", input.handles[0], input.inputProof, 0, 0)).to.be.revertedWith(
+        "Invalid price",
+      );
+      await expect(alice.postOffer("brandA", "brandC", input.handles[0], input.inputProof, 2, 0)).to.be.revertedWith(
+        "Unsupported brand",
+      );
+    });
+
+    it("reverts when reading an unknown offer", async function () {
+      await expect(pointsSwap.getOffer(0)).to.be.revertedWith("Offer not found");
+    });
+  });
+
+  describe("setExchangeRate", function () {
+    beforeEach(async function () {
+      await (await pointsSwap.registerBrand("brandA", "Brand A", "", 0, signers.alice.address)).wait();
+      await (await pointsSwap.registerBrand("brandB", "Brand B", "", 0, signers.bob.address)).wait();
+    });
+
+    it("stores the encrypted and public rate", async function () {
+      const input = await encrypt32(signers.deployer, 2);
+      await expect(pointsSwap.setExchangeRate("brandA", "brandB", input.handles[0], input.inputProof, 2, 0))
+        .to.emit(pointsSwap, "ExchangeRateUpdated")
+        .withArgs("brandA", "brandB", 2, 0);
+
+      const [encryptedRate, publicRate, decimals] = await pointsSwap.getExchangeRate("brandA", "brandB");
+      expect(publicRate).to.eq(2);
+      expect(decimals).to.eq(0);
+      expect(await fhevm.publicDecryptEuint(FhevmType.euint32, encryptedRate)).to.eq(2);
+    });
+
+    it("stores the decimals of a fixed-point rate", async function () {
+      // 0.8 with 4 decimals
+      await setExchangeRate("brandA", "brandB", 8000, 4);
+
+      const [encryptedRate, publicRate, decimals] = await pointsSwap.getExchangeRate("brandA", "brandB");
+      expect(publicRate).to.eq(8000);
+      expect(decimals).to.eq(4);
+      expect(await fhevm.publicDecryptEuint(FhevmType.euint32, encryptedRate)).to.eq(8000);
+    });
+
+    it("reverts when the decimals exceed MAX_RATE_DECIMALS", async function () {
+      const input = await encrypt32(signers.deployer, 2);
+      await expect(
+        pointsSwap.setExchangeRate("brandA", "brandB", input.handles[0], input.inputProof, 2, 10),
+      ).to.be.revertedWith("Invalid rate decimals");
+    });
+
+    it("lets admins of the target brand set its rates", async function () {
+      const input = await encrypt32(signers.bob, 3);
+      const tx = await pointsSwap
+        .connect(signers.bob)
+        .setExchangeRate("brandA", "brandB", input.handles[0], input.inputProof, 3, 0);
+      await tx.wait();
+
+      const [, publicRate] = await pointsSwap.getExchangeRate("brandA", "brandB");
+      expect(publicRate).to.eq(3);
+    });
+
+    it("reverts for admins of the source brand only", async function () {
+      const input = await encrypt32(signers.alice, 2);
+      await expect(
+        pointsSwap.connect(signers.alice).setExchangeRate("brandA", "brandB", input.handles[0], input.inputProof, 2, 0),
+      ).to.be.revertedWith("Not brand admin");
+    });
+
+    it("reverts for unsupported brands", async function () {
+      const input = await encrypt32(signers.deployer, 2);
+      await expect(
+        pointsSwap.setExchangeRate("brandC", "brandB", input.handles[0], input.inputProof, 2, 0),
+      ).to.be.revertedWith("Unsupported brand");
+      await expect(
+        pointsSwap.setExchangeRate("brandA", "brandA", input.handles[0], input.inputProof, 2, 0),
+      ).to.be.revertedWith("Same brand");
+    });
+
+    it("reverts when reading a rate that was never set", async function () {
+      await expect(pointsSwap.getExchangeRate("brandB", "brandA")).to.be.revertedWith("Rate not found");
+    });
+  });
+
+  describe("rate auctions", function () {
+    const HOUR = 60 * 60;
+
+    beforeEach(async function () {
+      await addBrands("brandA", "brandB");
+      // Alice administers brandA, Bob brandB; only brandB's admins bid, since brandB honours the rate
+      await (await pointsSwap.grantBrandAdmin("brandA", signers.alice.address)).wait();
+      await (await pointsSwap.grantBrandAdmin("brandB", signers.bob.address)).wait();
+      await (await pointsSwap.openRateAuction("brandA", "brandB", 4, HOUR)).wait();
+    });
+
+    async function submitBid(bidder: HardhatEthersSigner, rate: number) {
+      const input = await encrypt32(bidder, rate);
+      return pointsSwap.connect(bidder).submitRateBid("brandA", "brandB", input.handles[0], input.inputProof);
+    }
+
+    async function closeAndReveal() {
+      await time.increase(HOUR);
+      await (await pointsSwap.closeRateAuction("brandA", "brandB")).wait();
+      const { bestBid } = await pointsSwap.getRateAuction("brandA", "brandB");
+      const { abiEncodedClearValues, decryptionProof } = await fhevm.publicDecrypt([bestBid]);
+      return pointsSwap.revealRateAuction("brandA", "brandB", abiEncodedClearValues, decryptionProof);
+    }
+
+    it("opens an auction for the pair", async function () {
+      const auction = await pointsSwap.getRateAuction("brandA", "brandB");
+      expect(auction.decimals).to.eq(4);
+      expect(auction.bidCount).to.eq(0);
+      expect(auction.status).to.eq(1);
+    });
+
+    it("installs the highest bid as the pair's rate", async function () {
+      await expect(submitBid(signers.bob, 8000))
+        .to.emit(pointsSwap, "RateBidSubmitted")
+        .withArgs("brandA", "brandB", signers.bob.address);
+      await (await submitBid(signers.deployer, 9000)).wait();
+      await (await submitBid(signers.bob, 7000)).wait();
+
+      await expect(closeAndReveal())
+        .to.emit(pointsSwap, "ExchangeRateUpdated")
+        .withArgs("brandA", "brandB", 9000, 4)
+        .and.to.emit(pointsSwap, "RateAuctionSettled")
+        .withArgs("brandA", "brandB", 9000);
+
+      const [, publicRate, decimals] = await pointsSwap.getExchangeRate("brandA", "brandB");
+      expect(publicRate).to.eq(9000);
+      expect(decimals).to.eq(4);
+      expect((await pointsSwap.getRateAuction("brandA", "brandB")).bidCount).to.eq(3);
+
+      await createAccount(signers.deployer, "brandA", 1000, 0);
+      await (await pointsSwap.convertPoints("brandA", "brandB", 100)).wait();
+      // 100 * 0.9
+      expect(await decryptBalance(signers.deployer, "brandB")).to.eq(90);
+    });
+
+    it("keeps the best bid sealed until the auction closes", async function () {
+      await (await submitBid(signers.bob, 8000)).wait();
+      const { bestBid } = await pointsSwap.getRateAuction("brandA", "brandB");
+
+      await expect(fhevm.publicDecryptEuint(FhevmType.euint32, bestBid)).to.be.rejected;
+    });
+
+    it("rejects a reveal that does not match the winning bid", async function () {
+      await (await submitBid(signers.bob, 8000)).wait();
+      await time.increase(HOUR);
+      await (await pointsSwap.closeRateAuction("brandA", "brandB")).wait();
+      const { bestBid } = await pointsSwap.getRateAuction("brandA", "brandB");
+      const { decryptionProof } = await fhevm.publicDecrypt([bestBid]);
+      const forged = ethers.AbiCoder.defaultAbiCoder().encode(["uint32"], [9999]);
+
+      await expect(pointsSwap.revealRateAuction("brandA", "brandB", forged, decryptionProof)).to.be.reverted;
+    });
+
+    it("settles without a rate when nobody bids", async function () {
+      await time.increase(HOUR);
+      await expect(pointsSwap.closeRateAuction("brandA", "brandB"))
+        .to.emit(pointsSwap, "RateAuctionClosed")
+        .withArgs("brandA", "brandB", ethers.ZeroHash, 0);
+
+      expect((await pointsSwap.getRateAuction("brandA", "brandB")).status).to.eq(3);
+      await expect(pointsSwap.getExchangeRate("brandA", "brandB")).to.be.revertedWith("Rate not found");
+      // A settled auction can be run again
+      await expect(pointsSwap.openRateAuction("brandA", "brandB", 4, HOUR)).to.emit(pointsSwap, "RateAuctionOpened");
+    });
+
+    it("reverts when a bid comes from the source brand's admins", async function () {
+      // brandA's admins would gain from a high rate that brandB has to honour
+      await expect(submitBid(signers.alice, 8000)).to.be.revertedWith("Not brand admin");
+    });
+
+    it("reverts when bidding after the end time", async function () {
+      await time.increase(HOUR);
+      await expect(submitBid(signers.bob, 9000)).to.be.revertedWith("Auction not open");
+    });
+
+    it("reverts when closed early or revealed before closing", async function () {
+      await expect(pointsSwap.closeRateAuction("brandA", "brandB")).to.be.revertedWith("Auction still running");
+      await expect(pointsSwap.revealRateAuction("brandA", "brandB", "0x", "0x")).to.be.revertedWith(
+        "Auction not closed",
+      );
+    });
+
+    it("reverts when an auction is already in progress", async function () {
+      await expect(pointsSwap.openRateAuction("brandA", "brandB", 4, HOUR)).to.be.revertedWith(
+        "Auction in progress",
+      );
+    });
+
+    it("reverts when opened by someone who is not an admin of the target brand", async function () {
+      // Alice only administers the source brand of brandA -> brandC
+      await addBrands("brandC");
+      await expect(pointsSwap.connect(signers.alice).openRateAuction("brandA", "brandC", 4, HOUR)).to.be.revertedWith(
+        "Not brand admin",
+      );
+    });
+
+    it("reverts when reading a pair that never had an auction", async function () {
+      await expect(pointsSwap.getRateAuction("brandB", "brandA")).to.be.revertedWith("Auction not found");
+    });
+  });
+
+  describe("convertPoints", function () {
+    beforeEach(async function () {
+      await addBrands("brandA", "brandB");
+      await setExchangeRate("brandA", "brandB", 2);
+      await createAccount(signers.alice, "brandA", 1000, 50);
+    });
+
+    it("debits the source brand and credits the target brand", async function () {
+      await expect(pointsSwap.connect(signers.alice).convertPoints("brandA", "brandB", 100))
+        .to.emit(pointsSwap, "PointsConverted")
+        .withArgs(signers.alice.address, "brandA", "brandB", 100);
+
+      expect(await decryptBalance(signers.alice, "brandA")).to.eq(900);
+      // 100 * 2
+      expect(await decryptBalance(signers.alice, "brandB")).to.eq(200);
+    });
+
+    it("keeps both balances usable across conversions", async function () {
+      await (await pointsSwap.connect(signers.alice).convertPoints("brandA", "brandB", 100)).wait();
+      await (await pointsSwap.connect(signers.alice).convertPoints("brandA", "brandB", 50)).wait();
+
+      expect(await decryptBalance(signers.alice, "brandA")).to.eq(850);
+      expect(await decryptBalance(signers.alice, "brandB")).to.eq(300);
+    });
+
+    it("records a successful conversion in the encrypted flag", async function () {
+      expect(await pointsSwap.getLastConversionResult(signers.alice.address)).to.eq(ethers.ZeroHash);
+
+      await (await pointsSwap.connect(signers.alice).convertPoints("brandA", "brandB", 1000)).wait();
+
+      expect(await decryptLastConversion(signers.alice)).to.eq(true);
+      expect(await decryptBalance(signers.alice, "brandA")).to.eq(0);
+      expect(await decryptBalance(signers.alice, "brandB")).to.eq(2000);
+    });
+
+    it("leaves both balances unchanged when funds are insufficient", async function () {
+      await (await pointsSwap.connect(signers.alice).convertPoints("brandA", "brandB", 1001)).wait();
+
+      expect(await decryptLastConversion(signers.alice)).to.eq(false);
+      expect(await decryptBalance(signers.alice, "brandA")).to.eq(1000);
+      expect(await decryptBalance(signers.alice, "brandB")).to.eq(0);
+    });
+
+    it("overwrites the flag with the latest conversion", async function () {
+      await (await pointsSwap.connect(signers.alice).convertPoints("brandA", "brandB", 5000)).wait();
+      expect(await decryptLastConversion(signers.alice)).to.eq(false);
+
+      await (await pointsSwap.connect(signers.alice).convertPoints("brandA", "brandB", 100)).wait();
+      expect(await decryptLastConversion(signers.alice)).to.eq(true);
+    });
+
+    it("only lets the converting user decrypt the flag", async function () {
+      await (await pointsSwap.connect(signers.alice).convertPoints("brandA", "brandB", 100)).wait();
+
+      const flag = await pointsSwap.getLastConversionResult(signers.alice.address);
+      await expect(fhevm.userDecryptEbool(flag, pointsSwapAddress, signers.bob)).to.be.rejected;
+    });
+
+    it("reverts for accounts that do not exist", async function () {
+      await expect(pointsSwap.connect(signers.bob).convertPoints("brandA", "brandB", 100)).to.be.revertedWith(
+        "Account inactive",
+      );
+    });
+
+    it("reverts for unsupported brands", async function () {
+      await expect(pointsSwap.connect(signers.alice).convertPoints("brandA", "brandC", 100)).to.be.revertedWith(
+        "Unsupported brand",
+      );
+    });
+
+    it("reverts for a zero amount", async function () {
+      await expect(pointsSwap.connect(signers.alice).convertPoints("brandA", "brandB", 0)).to.be.revertedWith(
+        "Invalid amount",
+      );
+    });
+
+    it("reverts when no rate is set for the pair", async function () {
+      await expect(pointsSwap.connect(signers.alice).convertPoints("brandB", "brandA", 100)).to.be.revertedWith(
+        "Exchange rate not set",
+      );
+    });
+  });
+
+  describe("convertPointsConfidential", function () {
+    beforeEach(async function () {
+      await addBrands("brandA", "brandB");
+      await setExchangeRate("brandA", "brandB", 2);
+      await createAccount(signers.alice, "brandA", 1000, 50);
+    });
+
+    async function convertConfidential(user: HardhatEthersSigner, fromBrand: string, toBrand: string, amount: number) {
+      const input = await encrypt64(user, amount);
+      return pointsSwap
+        .connect(user)
+        .convertPointsConfidential(fromBrand, toBrand, input.handles[0], input.inputProof);
+    }
+
+    it("debits and credits the encrypted amount", async function () {
+      await (await convertConfidential(signers.alice, "brandA", "brandB", 100)).wait();
+
+      expect(await decryptBalance(signers.alice, "brandA")).to.eq(900);
+      expect(await decryptBalance(signers.alice, "brandB")).to.eq(200);
+      expect(await decryptLastConversion(signers.alice)).to.eq(true);
+    });
+
+    it("is a no-op when the encrypted amount exceeds the balance", async function () {
+      await (await convertConfidential(signers.alice, "brandA", "brandB", 1500)).wait();
+
+      expect(await decryptLastConversion(signers.alice)).to.eq(false);
+      expect(await decryptBalance(signers.alice, "brandA")).to.eq(1000);
+      expect(await decryptBalance(signers.alice, "brandB")).to.eq(0);
+    });
+
+    it("emits only the brands, not the amount", async function () {
+      const tx = await convertConfidential(signers.alice, "brandA", "brandB", 100);
+      await expect(tx)
+        .to.emit(pointsSwap, "ConfidentialPointsConverted")
+        .withArgs(signers.alice.address, "brandA", "brandB");
+      await expect(tx).not.to.emit(pointsSwap, "PointsConverted");
+    });
+
+    it("reverts for accounts that do not exist", async function () {
+      await expect(convertConfidential(signers.bob, "brandA", "brandB", 100)).to.be.revertedWith("Account inactive");
+    });
+
+    it("reverts for unsupported brands", async function () {
+      await expect(convertConfidential(signers.alice, "brandA", "brandC", 100)).to.be.revertedWith(
+        "Unsupported brand",
+      );
+    });
+
+    it("reverts when no rate is set for the pair", async function () {
+      await expect(convertConfidential(signers.alice, "brandB", "brandA", 100)).to.be.revertedWith(
+        "Exchange rate not set",
+      );
+    });
+
+    it("reverts when the input proof belongs to another user", async function () {
+      const input = await encrypt64(signers.bob, 100);
+      await expect(
+        pointsSwap
+          .connect(signers.alice)
+          .convertPointsConfidential("brandA", "brandB", input.handles[0], input.inputProof),
+      ).to.be.reverted;
+    });
+  });
+
+  describe("fixed-point rates", function () {
+    beforeEach(async function () {
+      await addBrands("brandA", "brandB");
+      // brandA -> brandB at 0.8, brandB -> brandA at 1.25
+      await setExchangeRate("brandA", "brandB", 8000, 4);
+      await setExchangeRate("brandB", "brandA", 125, 2);
+      await createAccount(signers.alice, "brandA", 1000, 50);
+    });
+
+    async function mintToAlice(amount: bigint) {
+      const input = await encrypt64(signers.deployer, amount);
+      await (await pointsSwap.mintPoints("brandA", signers.alice.address, input.handles[0], input.inputProof)).wait();
+    }
+
+    it("multiplies by the scaled rate, then divides by the scale", async function () {
+      await (await pointsSwap.connect(signers.alice).convertPoints("brandA", "brandB", 500)).wait();
+
+      expect(await decryptBalance(signers.alice, "brandA")).to.eq(500);
+      // 500 * 8000 / 10^4
+      expect(await decryptBalance(signers.alice, "brandB")).to.eq(400);
+
+      await (await pointsSwap.connect(signers.alice).convertPoints("brandB", "brandA", 400)).wait();
+
+      expect(await decryptBalance(signers.alice, "brandB")).to.eq(0);
+      // 400 * 125 / 10^2
+      expect(await decryptBalance(signers.alice, "brandA")).to.eq(1000);
+    });
+
+    it("rounds the converted points down", async function () {
+      await (await pointsSwap.connect(signers.alice).convertPoints("brandA", "brandB", 7)).wait();
+
+      expect(await decryptBalance(signers.alice, "brandA")).to.eq(993);
+      // 7 * 0.8 = 5.6
+      expect(await decryptBalance(signers.alice, "brandB")).to.eq(5);
+    });
+
+    it("does not overflow on large balances", async function () {
+      // Just under 1 at the maximum precision
+      await setExchangeRate("brandA", "brandB", 999_999_999, 9);
+      const amount = 2n ** 64n - 1001n;
+      await mintToAlice(amount);
+
+      const input = await encrypt64(signers.alice, amount);
+      const tx = await pointsSwap
+        .connect(signers.alice)
+        .convertPointsConfidential("brandA", "brandB", input.handles[0], input.inputProof);
+      await tx.wait();
+
+      expect(await decryptLastConversion(signers.alice)).to.eq(true);
+      expect(await decryptBalance(signers.alice, "brandA")).to.eq(1000);
+      expect(await decryptBalance(signers.alice, "brandB")).to.eq((amount * 999_999_999n) / 10n ** 9n);
+    });
+
+    it("is a no-op when the converted points do not fit in a balance", async function () {
+      await setExchangeRate("brandA", "brandB", 3);
+      await mintToAlice(2n ** 63n);
+
+      const input = await encrypt64(signers.alice, 2n ** 63n);
+      const tx = await pointsSwap
+        .connect(signers.alice)
+        .convertPointsConfidential("brandA", "brandB", input.handles[0], input.inputProof);
+      await tx.wait();
+
+      expect(await decryptLastConversion(signers.alice)).to.eq(false);
+      expect(await decryptBalance(signers.alice, "brandA")).to.eq(2n ** 63n + 1000n);
+      expect(await decryptBalance(signers.alice, "brandB")).to.eq(0);
+    });
+  });
+
+  describe("deactivateAccount", function () {
+    beforeEach(async function () {
+      await addBrands("brandA", "brandB");
+      await createAccount(signers.alice, "brandA", 1000, 50);
+    });
+
+    it("suspends the account and keeps its balances", async function () {
+      await expect(pointsSwap.connect(signers.alice).deactivateAccount())
+        .to.emit(pointsSwap, "AccountStatusChanged")
+        .withArgs(signers.alice.address, AccountStatus.Suspended, ethers.ZeroAddress);
+
+      expect((await pointsSwap.accounts(signers.alice.address)).status).to.eq(AccountStatus.Suspended);
+      expect(await pointsSwap.accountExists(signers.alice.address)).to.eq(true);
+      expect(await decryptBalance(signers.alice, "brandA")).to.eq(1000);
+    });
+
+    it("blocks incoming points once suspended", async function () {
+      await createAccount(signers.bob, "brandA", 500, 0);
+      await (await pointsSwap.connect(signers.alice).deactivateAccount()).wait();
+
+      const input = await encrypt64(signers.bob, 100);
+      const to = signers.alice.address;
+      await expect(
+        pointsSwap.connect(signers.bob).transferPoints("brandA", to, input.handles[0], input.inputProof),
+      ).to.be.revertedWith("Account not found");
+    });
+
+    it("blocks conversions once inactive", async function () {
+      await setExchangeRate("brandA", "brandB", 2);
+      await (await pointsSwap.connect(signers.alice).deactivateAccount()).wait();
+
+      await expect(pointsSwap.connect(signers.alice).convertPoints("brandA", "brandB", 100)).to.be.revertedWith(
+        "Account inactive",
+      );
+    });
+
+    it("reverts when the account is not active", async function () {
+      await (await pointsSwap.connect(signers.alice).deactivateAccount()).wait();
+      await expect(pointsSwap.connect(signers.alice).deactivateAccount()).to.be.revertedWith("Account not active");
+      await expect(pointsSwap.connect(signers.bob).deactivateAccount()).to.be.revertedWith("Account not active");
+    });
+  });
+
+  describe("reactivateAccount", function () {
+    beforeEach(async function () {
+      await addBrands("brandA", "brandB");
+      await setExchangeRate("brandA", "brandB", 2);
+      await createAccount(signers.alice, "brandA", 1000, 50);
+    });
+
+    it("restores a suspended account", async function () {
+      await (await pointsSwap.connect(signers.alice).deactivateAccount()).wait();
+      await expect(pointsSwap.connect(signers.alice).reactivateAccount())
+        .to.emit(pointsSwap, "AccountStatusChanged")
+        .withArgs(signers.alice.address, AccountStatus.Active, ethers.ZeroAddress);
+
+      await (await pointsSwap.connect(signers.alice).convertPoints("brandA", "brandB", 100)).wait();
+      expect(await decryptBalance(signers.alice, "brandA")).to.eq(900);
+      expect(await decryptBalance(signers.alice, "brandB")).to.eq(200);
+    });
+
+    it("reverts unless the account is suspended", async function () {
+      await expect(pointsSwap.connect(signers.alice).reactivateAccount()).to.be.revertedWith("Account not suspended");
+      await expect(pointsSwap.connect(signers.bob).reactivateAccount()).to.be.revertedWith("Account not suspended");
+
+      await (await pointsSwap.connect(signers.alice).closeAccount(ethers.ZeroAddress)).wait();
+      await expect(pointsSwap.connect(signers.alice).reactivateAccount()).to.be.revertedWith("Account not suspended");
+    });
+  });
+
+  describe("closeAccount", function () {
+    beforeEach(async function () {
+      await addBrands("brandA", "brandB");
+      await setExchangeRate("brandA", "brandB", 2);
+      await createAccount(signers.alice, "brandA", 1000, 50);
+      await (await pointsSwap.connect(signers.alice).convertPoints("brandA", "brandB", 100)).wait();
+      await createAccount(signers.bob, "brandB", 10, 0);
+    });
+
+    it("pays every brand balance out to the recipient", async function () {
+      await expect(pointsSwap.connect(signers.alice).closeAccount(signers.bob.address))
+        .to.emit(pointsSwap, "AccountStatusChanged")
+        .withArgs(signers.alice.address, AccountStatus.Closed, signers.bob.address);
+
+      expect(await decryptBalance(signers.bob, "brandA")).to.eq(900);
+      expect(await decryptBalance(signers.bob, "brandB")).to.eq(210);
+    });
+
+    it("removes forfeited points from the brand supply", async function () {
+      const mint = async (to: HardhatEthersSigner, amount: number) => {
+        const input = await encrypt64(signers.deployer, amount);
+        await (await pointsSwap.mintPoints("brandA", to.address, input.handles[0], input.inputProof)).wait();
+      };
+      const decryptSupply = async () => {
+        const supply = await pointsSwap.getBrandSupply("brandA");
+        return fhevm.userDecryptEuint(FhevmType.euint64, supply, pointsSwapAddress, signers.deployer);
+      };
+      await mint(signers.bob, 2000);
+      await mint(signers.alice, 100);
+
+      await (await pointsSwap.connect(signers.alice).closeAccount(ethers.ZeroAddress)).wait();
+      // 2100 minted, 1000 forfeited
+      expect(await decryptSupply()).to.eq(1100);
+
+      // Alice's points from createAccount were never minted, so the supply left is below Bob's balance
+      await (await pointsSwap.connect(signers.bob).closeAccount(ethers.ZeroAddress)).wait();
+      expect(await decryptSupply()).to.eq(0);
+    });
+
+    it("only walks the brands the account holds", async function () {
+      const snapshot = await takeSnapshot();
+      const gasUsed = async () => {
+        const tx = await pointsSwap.connect(signers.alice).closeAccount(signers.bob.address);
+        return (await tx.wait())!.gasUsed;
+      };
+      const baseline = await gasUsed();
+      await snapshot.restore();
+
+      await addBrands("brandC", "brandD", "brandE", "brandF", "brandG");
+      expect(await gasUsed()).to.be.closeTo(baseline, 1000n);
+    });
+
+    it("forfeits balances of inactive brands instead of paying them out", async function () {
+      const input = await encrypt64(signers.deployer, 300);
+      await (await pointsSwap.mintPoints("brandB", signers.alice.address, input.handles[0], input.inputProof)).wait();
+      await (await pointsSwap.setBrandActive("brandB", false)).wait();
+
+      await (await pointsSwap.connect(signers.alice).closeAccount(signers.bob.address)).wait();
+      expect(await decryptBalance(signers.bob, "brandA")).to.eq(900);
+      expect(await decryptBalance(signers.bob, "brandB")).to.eq(10);
+      const supply = await pointsSwap.getBrandSupply("brandB");
+      expect(await fhevm.userDecryptEuint(FhevmType.euint64, supply, pointsSwapAddress, signers.deployer)).to.eq(0);
+    });
+
+    it("erases the closed account", async function () {
+      const expiresAt = (await time.latest()) + 3600;
+      await (await pointsSwap.connect(signers.alice).grantViewer(signers.bob.address, "brandA", expiresAt)).wait();
+      await (await pointsSwap.connect(signers.alice).closeAccount(ethers.ZeroAddress)).wait();
+
+      const account = await pointsSwap.accounts(signers.alice.address);
+      expect(account.status).to.eq(AccountStatus.Closed);
+      expect(account.publicPoints).to.eq(0);
+      expect(await pointsSwap.accountExists(signers.alice.address)).to.eq(false);
+      expect(await pointsSwap.getLastConversionResult(signers.alice.address)).to.eq(ethers.ZeroHash);
+      const [viewers] = await pointsSwap.getViewers(signers.alice.address, "brandA");
+      expect(viewers).to.deep.eq([]);
+      await expect(pointsSwap.getAccountBalance(signers.alice.address, "brandA")).to.be.revertedWith(
+        "Account not found",
+      );
+    });
+
+    it("lets the address open a fresh account", async function () {
+      await (await pointsSwap.connect(signers.alice).closeAccount(ethers.ZeroAddress)).wait();
+      await createAccount(signers.alice, "brandB", 5, 0);
+
+      expect(await decryptBalance(signers.alice, "brandB")).to.eq(5);
+      const [brandAPoints] = await pointsSwap.getAccountBalance(signers.alice.address, "brandA");
+      expect(brandAPoints).to.eq(ethers.ZeroHash);
+    });
+
+    it("closes suspended accounts too", async function () {
+      await (await pointsSwap.connect(signers.alice).deactivateAccount()).wait();
+      await (await pointsSwap.connect(signers.alice).closeAccount(signers.bob.address)).wait();
+
+      expect(await decryptBalance(signers.bob, "brandA")).to.eq(900);
+    });
+
+    it("reverts while the account has open offers", async function () {
+      const input = await encrypt64(signers.alice, 100);
+      await (
+        await pointsSwap.connect(signers.alice).postOffer("brandA", "brandB", input.handles[0], input.inputProof, 1, 0)
+      ).wait();
+
+      await expect(pointsSwap.connect(signers.alice).closeAccount(ethers.ZeroAddress)).to.be.revertedWith(
+        "Open offers",
+      );
+      await (await pointsSwap.connect(signers.alice).cancelOffer(0)).wait();
+      await (await pointsSwap.connect(signers.alice).closeAccount(ethers.ZeroAddress)).wait();
+    });
+
+    it("reverts for invalid recipients and missing accounts", async function () {
+      await expect(pointsSwap.connect(signers.alice).closeAccount(signers.alice.address)).to.be.revertedWith(
+        "Invalid recipient",
+      );
+      await expect(pointsSwap.connect(signers.alice).closeAccount(signers.deployer.address)).to.be.revertedWith(
+        "Invalid recipient",
+      );
+      await expect(pointsSwap.connect(signers.deployer).closeAccount(ethers.ZeroAddress)).to.be.revertedWith(
+        "Account not found",
+      );
+    });
+  });
+
+  describe("updatePublicPoints", function () {
+    it("updates the public points only", async function () {
+      await addBrands("brandA");
+      await createAccount(signers.alice, "brandA", 1000, 50);
+      await (await pointsSwap.connect(signers.alice).updatePublicPoints(75)).wait();
+
+      const [, publicPoints] = await pointsSwap.getAccountBalance(signers.alice.address, "brandA");
+      expect(publicPoints).to.eq(75);
+      expect(await decryptBalance(signers.alice, "brandA")).to.eq(1000);
+    });
+
+    it("reverts when the account is not active", async function () {
+      await expect(pointsSwap.connect(signers.bob).updatePublicPoints(75)).to.be.revertedWith("Account not active");
+    });
+  });
+
+  describe("pausing", function () {
+    beforeEach(async function () {
+      await addBrands("brandA", "brandB");
+      await setExchangeRate("brandA", "brandB", 2);
+      await setExchangeRate("brandB", "brandA", 1);
+      await createAccount(signers.alice, "brandA", 1000, 0);
+      await createAccount(signers.bob, "brandB", 1000, 0);
+      await (await pointsSwap.grantRole(Roles.PAUSER, signers.bob.address)).wait();
+    });
+
+    it("lets pausers pause everything", async function () {
+      await expect(pointsSwap.connect(signers.bob).setPaused(true)).to.emit(pointsSwap, "PauseChanged").withArgs(true);
+      expect(await pointsSwap.paused()).to.eq(true);
+      expect(await pointsSwap.isContractAvailable()).to.eq(false);
+
+      await expect(pointsSwap.connect(signers.alice).convertPoints("brandA", "brandB", 100)).to.be.revertedWith(
+        "Paused",
+      );
+      const input = await encrypt64(signers.alice, 100);
+      const to = signers.bob.address;
+      await expect(
+        pointsSwap.connect(signers.alice).transferPoints("brandA", to, input.handles[0], input.inputProof),
+      ).to.be.revertedWith("Paused");
+      await expect(
+        pointsSwap.connect(signers.alice).postOffer("brandA", "brandB", input.handles[0], input.inputProof, 1, 0),
+      ).to.be.revertedWith("Paused");
+    });
+
+    it("resumes once unpaused", async function () {
+      await (await pointsSwap.connect(signers.bob).setPaused(true)).wait();
+      await (await pointsSwap.setPaused(false)).wait();
+
+      await (await pointsSwap.connect(signers.alice).convertPoints("brandA", "brandB", 100)).wait();
+      expect(await decryptBalance(signers.alice, "brandB")).to.eq(200);
+    });
+
+    it("pauses conversions of a single pair", async function () {
+      await expect(pointsSwap.connect(signers.bob).setPairPaused("brandA", "brandB", true))
+        .to.emit(pointsSwap, "PairPauseChanged")
+        .withArgs("brandA", "brandB", true);
+      expect(await pointsSwap.isPairPaused("brandA", "brandB")).to.eq(true);
+      expect(await pointsSwap.isPairPaused("brandB", "brandA")).to.eq(false);
+
+      await expect(pointsSwap.connect(signers.alice).convertPoints("brandA", "brandB", 100)).to.be.revertedWith(
+        "Pair paused",
+      );
+      await (await pointsSwap.connect(signers.bob).convertPoints("brandB", "brandA", 100)).wait();
+      expect(await decryptBalance(signers.bob, "brandA")).to.eq(100);
+
+      await (await pointsSwap.connect(signers.bob).setPairPaused("brandA", "brandB", false)).wait();
+      await (await pointsSwap.connect(signers.alice).convertPoints("brandA", "brandB", 100)).wait();
+    });
+
+    it("keeps offer cancellation available while paused", async function () {
+      const input = await encrypt64(signers.alice, 100);
+      await (
+        await pointsSwap.connect(signers.alice).postOffer("brandA", "brandB", input.handles[0], input.inputProof, 1, 0)
+      ).wait();
+      await (await pointsSwap.setPaused(true)).wait();
+
+      const fill = await encrypt64(signers.bob, 10);
+      await expect(
+        pointsSwap.connect(signers.bob).fillOffer(0, fill.handles[0], fill.inputProof),
+      ).to.be.revertedWith("Paused");
+      await (await pointsSwap.connect(signers.alice).cancelOffer(0)).wait();
+      expect(await decryptBalance(signers.alice, "brandA")).to.eq(1000);
+    });
+
+    it("holds account payouts but not forfeits while paused", async function () {
+      await (await pointsSwap.setPaused(true)).wait();
+
+      await expect(pointsSwap.connect(signers.alice).closeAccount(signers.bob.address)).to.be.revertedWith("Paused");
+      await (await pointsSwap.connect(signers.alice).closeAccount(ethers.ZeroAddress)).wait();
+      expect(await pointsSwap.accountExists(signers.alice.address)).to.eq(false);
+    });
+
+    it("reverts for accounts without the pauser role", async function () {
+      await expect(pointsSwap.connect(signers.alice).setPaused(true)).to.be.revertedWith("Missing role");
+      await expect(pointsSwap.connect(signers.alice).setPairPaused("brandA", "brandB", true)).to.be.revertedWith(
+        "Missing role",
+      );
+
+      await (await pointsSwap.revokeRole(Roles.PAUSER, signers.bob.address)).wait();
+      await expect(pointsSwap.connect(signers.bob).setPaused(true)).to.be.revertedWith("Missing role");
+    });
+  });
+
+  describe("roles", function () {
+    beforeEach(async function () {
+      await (await pointsSwap.registerBrand("brandA", "Brand A", "", 0, signers.alice.address)).wait();
+      await (await pointsSwap.registerBrand("brandB", "Brand B", "", 0, signers.alice.address)).wait();
+    });
+
+    it("exposes the role ids", async function () {
+      expect(await pointsSwap.RATE_SETTER_ROLE()).to.eq(Roles.RATE_SETTER);
+      expect(await pointsSwap.BRAND_ADMIN_ROLE()).to.eq(Roles.BRAND_ADMIN);
+      expect(await pointsSwap.PAUSER_ROLE()).to.eq(Roles.PAUSER);
+    });
+
+    it("grants and revokes roles with events", async function () {
+      await expect(pointsSwap.grantRole(Roles.RATE_SETTER, signers.bob.address))
+        .to.emit(pointsSwap, "RoleGranted")
+        .withArgs(Roles.RATE_SETTER, signers.bob.address, signers.deployer.address);
+      expect(await pointsSwap.hasRole(Roles.RATE_SETTER, signers.bob.address)).to.eq(true);
+      expect(await pointsSwap.hasRole(Roles.PAUSER, signers.bob.address)).to.eq(false);
+
+      await expect(pointsSwap.revokeRole(Roles.RATE_SETTER, signers.bob.address))
+        .to.emit(pointsSwap, "RoleRevoked")
+        .withArgs(Roles.RATE_SETTER, signers.bob.address, signers.deployer.address);
+      expect(await pointsSwap.hasRole(Roles.RATE_SETTER, signers.bob.address)).to.eq(false);
+    });
+
+    it("lets rate setters set any rate but nothing else", async function () {
+      await (await pointsSwap.grantRole(Roles.RATE_SETTER, signers.bob.address)).wait();
+
+      const input = await encrypt32(signers.bob, 2);
+      const tx = await pointsSwap
+        .connect(signers.bob)
+        .setExchangeRate("brandA", "brandB", input.handles[0], input.inputProof, 2, 0);
+      await tx.wait();
+      expect((await pointsSwap.exchangeRates("brandA-brandB")).publicRate).to.eq(2);
+
+      await expect(pointsSwap.connect(signers.bob).updateBrandMetadata("brandA", "A", "")).to.be.revertedWith(
+        "Not brand admin",
+      );
+    });
+
+    it("lets brand admins act on every brand", async function () {
+      await (await pointsSwap.grantRole(Roles.BRAND_ADMIN, signers.bob.address)).wait();
+
+      await (await pointsSwap.connect(signers.bob).updateBrandMetadata("brandB", "Brand B2", "")).wait();
+      expect((await pointsSwap.getBrand("brandB")).displayName).to.eq("Brand B2");
+      const input = await encrypt32(signers.bob, 3);
+      const tx = await pointsSwap
+        .connect(signers.bob)
+        .setExchangeRate("brandB", "brandA", input.handles[0], input.inputProof, 3, 0);
+      await tx.wait();
+
+      // Issuer-only operations stay with the issuer and the owner
+      await expect(pointsSwap.connect(signers.bob).setBrandActive("brandA", false)).to.be.revertedWith(
+        "Not brand issuer",
+      );
+    });
+
+    it("gives the owner every role", async function () {
+      for (const role of Object.values(Roles)) {
+        expect(await pointsSwap.hasRole(role, signers.deployer.address)).to.eq(true);
+      }
+    });
+
+    it("reverts for non-owners and the zero address", async function () {
+      await expect(pointsSwap.connect(signers.bob).grantRole(Roles.PAUSER, signers.bob.address)).to.be.revertedWith(
+        "Not authorized",
+      );
+      await expect(pointsSwap.connect(signers.bob).revokeRole(Roles.PAUSER, signers.deployer.address)).to.be
+        .revertedWith("Not authorized");
+      await expect(pointsSwap.grantRole(Roles.PAUSER, ethers.ZeroAddress)).to.be.revertedWith("Invalid address");
+    });
+  });
+
+  describe("transferOwnership", function () {
+    it("waits for the new owner to accept", async function () {
+      await expect(pointsSwap.transferOwnership(signers.bob.address))
+        .to.emit(pointsSwap, "OwnershipTransferStarted")
+        .withArgs(signers.deployer.address, signers.bob.address);
+
+      expect(await pointsSwap.owner()).to.eq(signers.deployer.address);
+      expect(await pointsSwap.pendingOwner()).to.eq(signers.bob.address);
+      await expect(pointsSwap.connect(signers.alice).acceptOwnership()).to.be.revertedWith("Not pending owner");
+    });
+
+    it("hands owner-only functions to the new owner", async function () {
+      await (await pointsSwap.transferOwnership(signers.bob.address)).wait();
+      await expect(pointsSwap.connect(signers.bob).acceptOwnership())
+        .to.emit(pointsSwap, "OwnershipTransferred")
+        .withArgs(signers.deployer.address, signers.bob.address);
+
+      expect(await pointsSwap.owner()).to.eq(signers.bob.address);
+      expect(await pointsSwap.pendingOwner()).to.eq(ethers.ZeroAddress);
+      expect(await pointsSwap.hasRole(Roles.PAUSER, signers.deployer.address)).to.eq(false);
+      await (
+        await pointsSwap.connect(signers.bob).registerBrand("brandA", "Brand A", "", 0, signers.bob.address)
+      ).wait();
+      await expect(
+        pointsSwap.registerBrand("brandB", "Brand B", "", 0, signers.deployer.address),
+      ).to.be.revertedWith("Not authorized");
+    });
+
+    it("reverts for non-owners", async function () {
+      await expect(pointsSwap.connect(signers.alice).transferOwnership(signers.alice.address)).to.be.revertedWith(
+        "Not authorized",
+      );
+    });
+
+    it("replaces an earlier proposal", async function () {
+      await (await pointsSwap.transferOwnership(signers.bob.address)).wait();
+      await (await pointsSwap.transferOwnership(signers.alice.address)).wait();
+
+      await expect(pointsSwap.connect(signers.bob).acceptOwnership()).to.be.revertedWith("Not pending owner");
+      await (await pointsSwap.connect(signers.alice).acceptOwnership()).wait();
+      expect(await pointsSwap.owner()).to.eq(signers.alice.address);
+    });
+
+    it("reverts for the zero address", async function () {
+      await expect(pointsSwap.transferOwnership(ethers.ZeroAddress)).to.be.revertedWith("Invalid address");
+    });
+  });
+});
@@ -0,0 +1,2522 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+import type {
+  BaseContract,
+  BigNumberish,
+  BytesLike,
+  FunctionFragment,
+  Result,
+  Interface,
+  EventFragment,
+  AddressLike,
+  ContractRunner,
+  ContractMethod,
+  Listener,
+} from "ethers";
+import type {
+  TypedContractEvent,
+  TypedDeferredTopicFilter,
+  TypedEventLog,
+  TypedLogDescription,
+  TypedListener,
+  TypedContractMethod,
+} from "../common";
+
+export declare namespace PointsSwap_FHE {
+  export type BrandStruct = {
+    displayName: string;
+    logoURI: string;
+    decimals: BigNumberish;
+    issuer: AddressLike;
+    active: boolean;
+  };
+
+  export type BrandStructOutput = [
+    displayName: string,
+    logoURI: string,
+    decimals: bigint,
+    issuer: string,
+    active: boolean
+  ] & {
+    displayName: string;
+    logoURI: string;
+    decimals: bigint;
+    issuer: string;
+    active: boolean;
+  };
+
+  export type OfferStruct = {
+    maker: AddressLike;
+    giveBrand: string;
+    wantBrand: string;
+    remaining: BytesLike;
+    price: BigNumberish;
+    priceDecimals: BigNumberish;
+    open: boolean;
+    createdAt: BigNumberish;
+  };
+
+  export type OfferStructOutput = [
+    maker: string,
+    giveBrand: string,
+    wantBrand: string,
+    remaining: string,
+    price: bigint,
+    priceDecimals: bigint,
+    open: boolean,
+    createdAt: bigint
+  ] & {
+    maker: string;
+    giveBrand: string;
+    wantBrand: string;
+    remaining: string;
+    price: bigint;
+    priceDecimals: bigint;
+    open: boolean;
+    createdAt: bigint;
+  };
+}
+
+export declare namespace RateAuctions {
+  export type RateAuctionStruct = {
+    decimals: BigNumberish;
+    endTime: BigNumberish;
+    bestBid: BytesLike;
+    bidCount: BigNumberish;
+    status: BigNumberish;
+  };
+
+  export type RateAuctionStructOutput = [
+    decimals: bigint,
+    endTime: bigint,
+    bestBid: string,
+    bidCount: bigint,
+    status: bigint
+  ] & {
+    decimals: bigint;
+    endTime: bigint;
+    bestBid: string;
+    bidCount: bigint;
+    status: bigint;
+  };
+}
+
+export interface PointsSwap_FHEInterface extends Interface {
+  getFunction(
+    nameOrSignature:
+      | "BRAND_ADMIN_ROLE"
+      | "MAX_RATE_DECIMALS"
+      | "MAX_VIEWERS"
+      | "PAUSER_ROLE"
+      | "RATE_SETTER_ROLE"
+      | "acceptOwnership"
+      | "accountExists"
+      | "accounts"
+      | "burnPoints"
+      | "cancelOffer"
+      | "closeAccount"
+      | "closeRateAuction"
+      | "confidentialProtocolId"
+      | "convertPoints"
+      | "convertPointsConfidential"
+      | "createAccount"
+      | "deactivateAccount"
+      | "exchangeRates"
+      | "expiryPeriods"
+      | "fillOffer"
+      | "getAccountBalance"
+      | "getBrand"
+      | "getBrandSupply"
+      | "getExchangeRate"
+      | "getLastConversionResult"
+      | "getOffer"
+      | "getPointLots"
+      | "getRateAuction"
+      | "getSupportedBrands"
+      | "getViewers"
+      | "grantBrandAdmin"
+      | "grantRole"
+      | "grantViewer"
+      | "hasRole"
+      | "isBrandAdmin"
+      | "isContractAvailable"
+      | "isPairPaused"
+      | "mintPoints"
+      | "mintPointsBatch"
+      | "offerCount"
+      | "openOfferCount"
+      | "openRateAuction"
+      | "owner"
+      | "paused"
+      | "pendingOwner"
+      | "postOffer"
+      | "reactivateAccount"
+      | "registerBrand"
+      | "revealRateAuction"
+      | "revokeBrandAdmin"
+      | "revokeRole"
+      | "revokeViewer"
+      | "setBrandActive"
+      | "setExchangeRate"
+      | "setExpiryPolicy"
+      | "setPairPaused"
+      | "setPaused"
+      | "submitRateBid"
+      | "transferOwnership"
+      | "transferPoints"
+      | "updateBrandMetadata"
+      | "updatePublicPoints"
+  ): FunctionFragment;
+
+  getEvent(
+    nameOrSignatureOrTopic:
+      | "AccountCreated"
+      | "AccountStatusChanged"
+      | "BrandAdminUpdated"
+      | "BrandMetadataUpdated"
+      | "BrandRegistered"
+      | "BrandStatusChanged"
+      | "ConfidentialPointsConverted"
+      | "ConfidentialTransfer"
+      | "ExchangeRateUpdated"
+      | "ExpiryPolicyUpdated"
+      | "OfferCancelled"
+      | "OfferFilled"
+      | "OfferPosted"
+      | "OwnershipTransferStarted"
+      | "OwnershipTransferred"
+      | "PairPauseChanged"
+      | "PauseChanged"
+      | "PointsBurned"
+      | "PointsConverted"
+      | "PointsMinted"
+      | "RateAuctionClosed"
+      | "RateAuctionOpened"
+      | "RateAuctionSettled"
+      | "RateBidSubmitted"
+      | "RoleGranted"
+      | "RoleRevoked"
+      | "ViewerGranted"
+      | "ViewerRevoked"
+  ): EventFragment;
+
+  encodeFunctionData(
+    functionFragment: "BRAND_ADMIN_ROLE",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "MAX_RATE_DECIMALS",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "MAX_VIEWERS",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "PAUSER_ROLE",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "RATE_SETTER_ROLE",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "acceptOwnership",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "accountExists",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "accounts",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "burnPoints",
+    values: [string, AddressLike, BytesLike, BytesLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "cancelOffer",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "closeAccount",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "closeRateAuction",
+    values: [string, string]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "confidentialProtocolId",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "convertPoints",
+    values: [string, string, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "convertPointsConfidential",
+    values: [string, string, BytesLike, BytesLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "createAccount",
+    values: [string, BytesLike, BytesLike, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "deactivateAccount",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "exchangeRates",
+    values: [string]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "expiryPeriods",
+    values: [string]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "fillOffer",
+    values: [BigNumberish, BytesLike, BytesLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getAccountBalance",
+    values: [AddressLike, string]
+  ): string;
+  encodeFunctionData(functionFragment: "getBrand", values: [string]): string;
+  encodeFunctionData(
+    functionFragment: "getBrandSupply",
+    values: [string]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getExchangeRate",
+    values: [string, string]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getLastConversionResult",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getOffer",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getPointLots",
+    values: [AddressLike, string]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getRateAuction",
+    values: [string, string]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getSupportedBrands",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getViewers",
+    values: [AddressLike, string]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "grantBrandAdmin",
+    values: [string, AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "grantRole",
+    values: [BytesLike, AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "grantViewer",
+    values: [AddressLike, string, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "hasRole",
+    values: [BytesLike, AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "isBrandAdmin",
+    values: [string, AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "isContractAvailable",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "isPairPaused",
+    values: [string, string]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "mintPoints",
+    values: [string, AddressLike, BytesLike, BytesLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "mintPointsBatch",
+    values: [string, AddressLike[], BytesLike[], BytesLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "offerCount",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "openOfferCount",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "openRateAuction",
+    values: [string, string, BigNumberish, BigNumberish]
+  ): string;
+  encodeFunctionData(functionFragment: "owner", values?: undefined): string;
+  encodeFunctionData(functionFragment: "paused", values?: undefined): string;
+  encodeFunctionData(
+    functionFragment: "pendingOwner",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "postOffer",
+    values: [string, string, BytesLike, BytesLike, BigNumberish, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "reactivateAccount",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "registerBrand",
+    values: [string, string, string, BigNumberish, AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "revealRateAuction",
+    values: [string, string, BytesLike, BytesLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "revokeBrandAdmin",
+    values: [string, AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "revokeRole",
+    values: [BytesLike, AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "revokeViewer",
+    values: [AddressLike, string]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "setBrandActive",
+    values: [string, boolean]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "setExchangeRate",
+    values: [string, string, BytesLike, BytesLike, BigNumberish, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "setExpiryPolicy",
+    values: [string, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "setPairPaused",
+    values: [string, string, boolean]
+  ): string;
+  encodeFunctionData(functionFragment: "setPaused", values: [boolean]): string;
+  encodeFunctionData(
+    functionFragment: "submitRateBid",
+    values: [string, string, BytesLike, BytesLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "transferOwnership",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "transferPoints",
+    values: [string, AddressLike, BytesLike, BytesLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "updateBrandMetadata",
+    values: [string, string, string]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "updatePublicPoints",
+    values: [BigNumberish]
+  ): string;
+
+  decodeFunctionResult(
+    functionFragment: "BRAND_ADMIN_ROLE",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "MAX_RATE_DECIMALS",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "MAX_VIEWERS",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "PAUSER_ROLE",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "RATE_SETTER_ROLE",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "acceptOwnership",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "accountExists",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "accounts", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "burnPoints", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "cancelOffer",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "closeAccount",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "closeRateAuction",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "confidentialProtocolId",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "convertPoints",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "convertPointsConfidential",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "createAccount",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "deactivateAccount",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "exchangeRates",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "expiryPeriods",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "fillOffer", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "getAccountBalance",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "getBrand", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "getBrandSupply",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getExchangeRate",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getLastConversionResult",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "getOffer", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "getPointLots",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getRateAuction",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getSupportedBrands",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "getViewers", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "grantBrandAdmin",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "grantRole", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "grantViewer",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "hasRole", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "isBrandAdmin",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "isContractAvailable",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "isPairPaused",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "mintPoints", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "mintPointsBatch",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "offerCount", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "openOfferCount",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "openRateAuction",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "owner", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "paused", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "pendingOwner",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "postOffer", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "reactivateAccount",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "registerBrand",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "revealRateAuction",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "revokeBrandAdmin",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "revokeRole", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "revokeViewer",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "setBrandActive",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "setExchangeRate",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "setExpiryPolicy",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "setPairPaused",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "setPaused", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "submitRateBid",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "transferOwnership",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "transferPoints",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "updateBrandMetadata",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "updatePublicPoints",
+    data: BytesLike
+  ): Result;
+}
+
+export namespace AccountCreatedEvent {
+  export type InputTuple = [
+    user: AddressLike,
+    brandId: string,
+    initialPoints: BigNumberish
+  ];
+  export type OutputTuple = [
+    user: string,
+    brandId: string,
+    initialPoints: bigint
+  ];
+  export interface OutputObject {
+    user: string;
+    brandId: string;
+    initialPoints: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace AccountStatusChangedEvent {
+  export type InputTuple = [
+    user: AddressLike,
+    status: BigNumberish,
+    payoutTo: AddressLike
+  ];
+  export type OutputTuple = [user: string, status: bigint, payoutTo: string];
+  export interface OutputObject {
+    user: string;
+    status: bigint;
+    payoutTo: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace BrandAdminUpdatedEvent {
+  export type InputTuple = [
+    brandId: string,
+    account: AddressLike,
+    isAdmin: boolean
+  ];
+  export type OutputTuple = [
+    brandId: string,
+    account: string,
+    isAdmin: boolean
+  ];
+  export interface OutputObject {
+    brandId: string;
+    account: string;
+    isAdmin: boolean;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace BrandMetadataUpdatedEvent {
+  export type InputTuple = [brandId: string];
+  export type OutputTuple = [brandId: string];
+  export interface OutputObject {
+    brandId: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace BrandRegisteredEvent {
+  export type InputTuple = [brandId: string, issuer: AddressLike];
+  export type OutputTuple = [brandId: string, issuer: string];
+  export interface OutputObject {
+    brandId: string;
+    issuer: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace BrandStatusChangedEvent {
+  export type InputTuple = [brandId: string, active: boolean];
+  export type OutputTuple = [brandId: string, active: boolean];
+  export interface OutputObject {
+    brandId: string;
+    active: boolean;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace ConfidentialPointsConvertedEvent {
+  export type InputTuple = [
+    user: AddressLike,
+    fromBrand: string,
+    toBrand: string
+  ];
+  export type OutputTuple = [user: string, fromBrand: string, toBrand: string];
+  export interface OutputObject {
+    user: string;
+    fromBrand: string;
+    toBrand: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace ConfidentialTransferEvent {
+  export type InputTuple = [
+    from: AddressLike,
+    to: AddressLike,
+    brandId: string,
+    amount: BytesLike
+  ];
+  export type OutputTuple = [
+    from: string,
+    to: string,
+    brandId: string,
+    amount: string
+  ];
+  export interface OutputObject {
+    from: string;
+    to: string;
+    brandId: string;
+    amount: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace ExchangeRateUpdatedEvent {
+  export type InputTuple = [
+    fromBrand: string,
+    toBrand: string,
+    newRate: BigNumberish,
+    decimals: BigNumberish
+  ];
+  export type OutputTuple = [
+    fromBrand: string,
+    toBrand: string,
+    newRate: bigint,
+    decimals: bigint
+  ];
+  export interface OutputObject {
+    fromBrand: string;
+    toBrand: string;
+    newRate: bigint;
+    decimals: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace ExpiryPolicyUpdatedEvent {
+  export type InputTuple = [brandId: string, expiryPeriod: BigNumberish];
+  export type OutputTuple = [brandId: string, expiryPeriod: bigint];
+  export interface OutputObject {
+    brandId: string;
+    expiryPeriod: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace OfferCancelledEvent {
+  export type InputTuple = [offerId: BigNumberish];
+  export type OutputTuple = [offerId: bigint];
+  export interface OutputObject {
+    offerId: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace OfferFilledEvent {
+  export type InputTuple = [
+    offerId: BigNumberish,
+    taker: AddressLike,
+    filled: BytesLike
+  ];
+  export type OutputTuple = [offerId: bigint, taker: string, filled: string];
+  export interface OutputObject {
+    offerId: bigint;
+    taker: string;
+    filled: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace OfferPostedEvent {
+  export type InputTuple = [
+    offerId: BigNumberish,
+    maker: AddressLike,
+    giveBrand: string,
+    wantBrand: string,
+    price: BigNumberish,
+    priceDecimals: BigNumberish
+  ];
+  export type OutputTuple = [
+    offerId: bigint,
+    maker: string,
+    giveBrand: string,
+    wantBrand: string,
+    price: bigint,
+    priceDecimals: bigint
+  ];
+  export interface OutputObject {
+    offerId: bigint;
+    maker: string;
+    giveBrand: string;
+    wantBrand: string;
+    price: bigint;
+    priceDecimals: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace OwnershipTransferStartedEvent {
+  export type InputTuple = [previousOwner: AddressLike, newOwner: AddressLike];
+  export type OutputTuple = [previousOwner: string, newOwner: string];
+  export interface OutputObject {
+    previousOwner: string;
+    newOwner: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace OwnershipTransferredEvent {
+  export type InputTuple = [previousOwner: AddressLike, newOwner: AddressLike];
+  export type OutputTuple = [previousOwner: string, newOwner: string];
+  export interface OutputObject {
+    previousOwner: string;
+    newOwner: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace PairPauseChangedEvent {
+  export type InputTuple = [
+    fromBrand: string,
+    toBrand: string,
+    paused: boolean
+  ];
+  export type OutputTuple = [
+    fromBrand: string,
+    toBrand: string,
+    paused: boolean
+  ];
+  export interface OutputObject {
+    fromBrand: string;
+    toBrand: string;
+    paused: boolean;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace PauseChangedEvent {
+  export type InputTuple = [paused: boolean];
+  export type OutputTuple = [paused: boolean];
+  export interface OutputObject {
+    paused: boolean;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace PointsBurnedEvent {
+  export type InputTuple = [brandId: string, from: AddressLike];
+  export type OutputTuple = [brandId: string, from: string];
+  export interface OutputObject {
+    brandId: string;
+    from: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace PointsConvertedEvent {
+  export type InputTuple = [
+    user: AddressLike,
+    fromBrand: string,
+    toBrand: string,
+    amount: BigNumberish
+  ];
+  export type OutputTuple = [
+    user: string,
+    fromBrand: string,
+    toBrand: string,
+    amount: bigint
+  ];
+  export interface OutputObject {
+    user: string;
+    fromBrand: string;
+    toBrand: string;
+    amount: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace PointsMintedEvent {
+  export type InputTuple = [brandId: string, to: AddressLike];
+  export type OutputTuple = [brandId: string, to: string];
+  export interface OutputObject {
+    brandId: string;
+    to: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace RateAuctionClosedEvent {
+  export type InputTuple = [
+    fromBrand: string,
+    toBrand: string,
+    winningBid: BytesLike,
+    bidCount: BigNumberish
+  ];
+  export type OutputTuple = [
+    fromBrand: string,
+    toBrand: string,
+    winningBid: string,
+    bidCount: bigint
+  ];
+  export interface OutputObject {
+    fromBrand: string;
+    toBrand: string;
+    winningBid: string;
+    bidCount: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace RateAuctionOpenedEvent {
+  export type InputTuple = [
+    fromBrand: string,
+    toBrand: string,
+    decimals: BigNumberish,
+    endTime: BigNumberish
+  ];
+  export type OutputTuple = [
+    fromBrand: string,
+    toBrand: string,
+    decimals: bigint,
+    endTime: bigint
+  ];
+  export interface OutputObject {
+    fromBrand: string;
+    toBrand: string;
+    decimals: bigint;
+    endTime: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace RateAuctionSettledEvent {
+  export type InputTuple = [
+    fromBrand: string,
+    toBrand: string,
+    winningRate: BigNumberish
+  ];
+  export type OutputTuple = [
+    fromBrand: string,
+    toBrand: string,
+    winningRate: bigint
+  ];
+  export interface OutputObject {
+    fromBrand: string;
+    toBrand: string;
+    winningRate: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace RateBidSubmittedEvent {
+  export type InputTuple = [
+    fromBrand: string,
+    toBrand: string,
+    bidder: AddressLike
+  ];
+  export type OutputTuple = [
+    fromBrand: string,
+    toBrand: string,
+    bidder: string
+  ];
+  export interface OutputObject {
+    fromBrand: string;
+    toBrand: string;
+    bidder: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace RoleGrantedEvent {
+  export type InputTuple = [
+    role: BytesLike,
+    account: AddressLike,
+    sender: AddressLike
+  ];
+  export type OutputTuple = [role: string, account: string, sender: string];
+  export interface OutputObject {
+    role: string;
+    account: string;
+    sender: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace RoleRevokedEvent {
+  export type InputTuple = [
+    role: BytesLike,
+    account: AddressLike,
+    sender: AddressLike
+  ];
+  export type OutputTuple = [role: string, account: string, sender: string];
+  export interface OutputObject {
+    role: string;
+    account: string;
+    sender: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace ViewerGrantedEvent {
+  export type InputTuple = [
+    user: AddressLike,
+    viewer: AddressLike,
+    brandId: string,
+    expiresAt: BigNumberish
+  ];
+  export type OutputTuple = [
+    user: string,
+    viewer: string,
+    brandId: string,
+    expiresAt: bigint
+  ];
+  export interface OutputObject {
+    user: string;
+    viewer: string;
+    brandId: string;
+    expiresAt: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace ViewerRevokedEvent {
+  export type InputTuple = [
+    user: AddressLike,
+    viewer: AddressLike,
+    brandId: string
+  ];
+  export type OutputTuple = [user: string, viewer: string, brandId: string];
+  export interface OutputObject {
+    user: string;
+    viewer: string;
+    brandId: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export interface PointsSwap_FHE extends BaseContract {
+  connect(runner?: ContractRunner | null): PointsSwap_FHE;
+  waitForDeployment(): Promise<this>;
+
+  interface: PointsSwap_FHEInterface;
+
+  queryFilter<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    fromBlockOrBlockhash?: string | number | undefined,
+    toBlock?: string | number | undefined
+  ): Promise<Array<TypedEventLog<TCEvent>>>;
+  queryFilter<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    fromBlockOrBlockhash?: string | number | undefined,
+    toBlock?: string | number | undefined
+  ): Promise<Array<TypedEventLog<TCEvent>>>;
+
+  on<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+  on<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+
+  once<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+  once<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+
+  listeners<TCEvent extends TypedContractEvent>(
+    event: TCEvent
+  ): Promise<Array<TypedListener<TCEvent>>>;
+  listeners(eventName?: string): Promise<Array<Listener>>;
+  removeAllListeners<TCEvent extends TypedContractEvent>(
+    event?: TCEvent
+  ): Promise<this>;
+
+  BRAND_ADMIN_ROLE: TypedContractMethod<[], [string], "view">;
+
+  MAX_RATE_DECIMALS: TypedContractMethod<[], [bigint], "view">;
+
+  MAX_VIEWERS: TypedContractMethod<[], [bigint], "view">;
+
+  PAUSER_ROLE: TypedContractMethod<[], [string], "view">;
+
+  RATE_SETTER_ROLE: TypedContractMethod<[], [string], "view">;
+
+  acceptOwnership: TypedContractMethod<[], [void], "nonpayable">;
+
+  accountExists: TypedContractMethod<[user: AddressLike], [boolean], "view">;
+
+  accounts: TypedContractMethod<
+    [arg0: AddressLike],
+    [
+      [bigint, bigint, bigint] & {
+        publicPoints: bigint;
+        lastUpdated: bigint;
+        status: bigint;
+      }
+    ],
+    "view"
+  >;
+
+  burnPoints: TypedContractMethod<
+    [
+      brandId: string,
+      from: AddressLike,
+      encryptedAmount: BytesLike,
+      amountProof: BytesLike
+    ],
+    [void],
+    "nonpayable"
+  >;
+
+  cancelOffer: TypedContractMethod<
+    [offerId: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  closeAccount: TypedContractMethod<
+    [payoutTo: AddressLike],
+    [void],
+    "nonpayable"
+  >;
+
+  closeRateAuction: TypedContractMethod<
+    [fromBrand: string, toBrand: string],
+    [void],
+    "nonpayable"
+  >;
+
+  confidentialProtocolId: TypedContractMethod<[], [bigint], "view">;
+
+  convertPoints: TypedContractMethod<
+    [fromBrand: string, toBrand: string, amount: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  convertPointsConfidential: TypedContractMethod<
+    [
+      fromBrand: string,
+      toBrand: string,
+      encryptedAmount: BytesLike,
+      amountProof: BytesLike
+    ],
+    [void],
+    "nonpayable"
+  >;
+
+  createAccount: TypedContractMethod<
+    [
+      brandId: string,
+      encryptedPoints: BytesLike,
+      inputProof: BytesLike,
+      publicPoints: BigNumberish
+    ],
+    [void],
+    "nonpayable"
+  >;
+
+  deactivateAccount: TypedContractMethod<[], [void], "nonpayable">;
+
+  exchangeRates: TypedContractMethod<
+    [arg0: string],
+    [
+      [string, bigint, bigint, bigint] & {
+        encryptedRate: string;
+        publicRate: bigint;
+        decimals: bigint;
+        lastUpdated: bigint;
+      }
+    ],
+    "view"
+  >;
+
+  expiryPeriods: TypedContractMethod<[arg0: string], [bigint], "view">;
+
+  fillOffer: TypedContractMethod<
+    [offerId: BigNumberish, encryptedAmount: BytesLike, amountProof: BytesLike],
+    [string],
+    "nonpayable"
+  >;
+
+  getAccountBalance: TypedContractMethod<
+    [user: AddressLike, brandId: string],
+    [[string, bigint]],
+    "view"
+  >;
+
+  getBrand: TypedContractMethod<
+    [brandId: string],
+    [PointsSwap_FHE.BrandStructOutput],
+    "view"
+  >;
+
+  getBrandSupply: TypedContractMethod<[brandId: string], [string], "view">;
+
+  getExchangeRate: TypedContractMethod<
+    [fromBrand: string, toBrand: string],
+    [[string, bigint, bigint]],
+    "view"
+  >;
+
+  getLastConversionResult: TypedContractMethod<
+    [user: AddressLike],
+    [string],
+    "view"
+  >;
+
+  getOffer: TypedContractMethod<
+    [offerId: BigNumberish],
+    [PointsSwap_FHE.OfferStructOutput],
+    "view"
+  >;
+
+  getPointLots: TypedContractMethod<
+    [user: AddressLike, brandId: string],
+    [
+      [string, string, bigint, bigint] & {
+        current: string;
+        previous: string;
+        previousExpiresAt: bigint;
+        currentExpiresAt: bigint;
+      }
+    ],
+    "view"
+  >;
+
+  getRateAuction: TypedContractMethod<
+    [fromBrand: string, toBrand: string],
+    [RateAuctions.RateAuctionStructOutput],
+    "view"
+  >;
+
+  getSupportedBrands: TypedContractMethod<[], [string[]], "view">;
+
+  getViewers: TypedContractMethod<
+    [user: AddressLike, brandId: string],
+    [[string[], bigint[]] & { viewers: string[]; expiresAt: bigint[] }],
+    "view"
+  >;
+
+  grantBrandAdmin: TypedContractMethod<
+    [brandId: string, account: AddressLike],
+    [void],
+    "nonpayable"
+  >;
+
+  grantRole: TypedContractMethod<
+    [role: BytesLike, account: AddressLike],
+    [void],
+    "nonpayable"
+  >;
+
+  grantViewer: TypedContractMethod<
+    [viewer: AddressLike, brandId: string, expiresAt: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  hasRole: TypedContractMethod<
+    [role: BytesLike, account: AddressLike],
+    [boolean],
+    "view"
+  >;
+
+  isBrandAdmin: TypedContractMethod<
+    [brandId: string, account: AddressLike],
+    [boolean],
+    "view"
+  >;
+
+  isContractAvailable: TypedContractMethod<[], [boolean], "view">;
+
+  isPairPaused: TypedContractMethod<
+    [fromBrand: string, toBrand: string],
+    [boolean],
+    "view"
+  >;
+
+  mintPoints: TypedContractMethod<
+    [
+      brandId: string,
+      to: AddressLike,
+      encryptedAmount: BytesLike,
+      amountProof: BytesLike
+    ],
+    [void],
+    "nonpayable"
+  >;
+
+  mintPointsBatch: TypedContractMethod<
+    [
+      brandId: string,
+      recipients: AddressLike[],
+      encryptedAmounts: BytesLike[],
+      amountsProof: BytesLike
+    ],
+    [void],
+    "nonpayable"
+  >;
+
+  offerCount: TypedContractMethod<[], [bigint], "view">;
+
+  openOfferCount: TypedContractMethod<[arg0: AddressLike], [bigint], "view">;
+
+  openRateAuction: TypedContractMethod<
+    [
+      fromBrand: string,
+      toBrand: string,
+      decimals: BigNumberish,
+      duration: BigNumberish
+    ],
+    [void],
+    "nonpayable"
+  >;
+
+  owner: TypedContractMethod<[], [string], "view">;
+
+  paused: TypedContractMethod<[], [boolean], "view">;
+
+  pendingOwner: TypedContractMethod<[], [string], "view">;
+
+  postOffer: TypedContractMethod<
+    [
+      giveBrand: string,
+      wantBrand: string,
+      encryptedAmount: BytesLike,
+      amountProof: BytesLike,
+      price: BigNumberish,
+      priceDecimals: BigNumberish
+    ],
+    [bigint],
+    "nonpayable"
+  >;
+
+  reactivateAccount: TypedContractMethod<[], [void], "nonpayable">;
+
+  registerBrand: TypedContractMethod<
+    [
+      brandId: string,
+      displayName: string,
+      logoURI: string,
+      decimals: BigNumberish,
+      issuer: AddressLike
+    ],
+    [void],
+    "nonpayable"
+  >;
+
+  revealRateAuction: TypedContractMethod<
+    [
+      fromBrand: string,
+      toBrand: string,
+      abiEncodedRate: BytesLike,
+      decryptionProof: BytesLike
+    ],
+    [void],
+    "nonpayable"
+  >;
+
+  revokeBrandAdmin: TypedContractMethod<
+    [brandId: string, account: AddressLike],
+    [void],
+    "nonpayable"
+  >;
+
+  revokeRole: TypedContractMethod<
+    [role: BytesLike, account: AddressLike],
+    [void],
+    "nonpayable"
+  >;
+
+  revokeViewer: TypedContractMethod<
+    [viewer: AddressLike, brandId: string],
+    [void],
+    "nonpayable"
+  >;
+
+  setBrandActive: TypedContractMethod<
+    [brandId: string, active: boolean],
+    [void],
+    "nonpayable"
+  >;
+
+  setExchangeRate: TypedContractMethod<
+    [
+      fromBrand: string,
+      toBrand: string,
+      encryptedRate: BytesLike,
+      rateProof: BytesLike,
+      publicRate: BigNumberish,
+      decimals: BigNumberish
+    ],
+    [void],
+    "nonpayable"
+  >;
+
+  setExpiryPolicy: TypedContractMethod<
+    [brandId: string, expiryPeriod: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  setPairPaused: TypedContractMethod<
+    [fromBrand: string, toBrand: string, isPaused: boolean],
+    [void],
+    "nonpayable"
+  >;
+
+  setPaused: TypedContractMethod<[isPaused: boolean], [void], "nonpayable">;
+
+  submitRateBid: TypedContractMethod<
+    [
+      fromBrand: string,
+      toBrand: string,
+      encryptedBid: BytesLike,
+      bidProof: BytesLike
+    ],
+    [void],
+    "nonpayable"
+  >;
+
+  transferOwnership: TypedContractMethod<
+    [newOwner: AddressLike],
+    [void],
+    "nonpayable"
+  >;
+
+  transferPoints: TypedContractMethod<
+    [
+      brandId: string,
+      to: AddressLike,
+      encryptedAmount: BytesLike,
+      amountProof: BytesLike
+    ],
+    [string],
+    "nonpayable"
+  >;
+
+  updateBrandMetadata: TypedContractMethod<
+    [brandId: string, displayName: string, logoURI: string],
+    [void],
+    "nonpayable"
+  >;
+
+  updatePublicPoints: TypedContractMethod<
+    [newPoints: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  getFunction<T extends ContractMethod = ContractMethod>(
+    key: string | FunctionFragment
+  ): T;
+
+  getFunction(
+    nameOrSignature: "BRAND_ADMIN_ROLE"
+  ): TypedContractMethod<[], [string], "view">;
+  getFunction(
+    nameOrSignature: "MAX_RATE_DECIMALS"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "MAX_VIEWERS"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "PAUSER_ROLE"
+  ): TypedContractMethod<[], [string], "view">;
+  getFunction(
+    nameOrSignature: "RATE_SETTER_ROLE"
+  ): TypedContractMethod<[], [string], "view">;
+  getFunction(
+    nameOrSignature: "acceptOwnership"
+  ): TypedContractMethod<[], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "accountExists"
+  ): TypedContractMethod<[user: AddressLike], [boolean], "view">;
+  getFunction(
+    nameOrSignature: "accounts"
+  ): TypedContractMethod<
+    [arg0: AddressLike],
+    [
+      [bigint, bigint, bigint] & {
+        publicPoints: bigint;
+        lastUpdated: bigint;
+        status: bigint;
+      }
+    ],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "burnPoints"
+  ): TypedContractMethod<
+    [
+      brandId: string,
+      from: AddressLike,
+      encryptedAmount: BytesLike,
+      amountProof: BytesLike
+    ],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "cancelOffer"
+  ): TypedContractMethod<[offerId: BigNumberish], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "closeAccount"
+  ): TypedContractMethod<[payoutTo: AddressLike], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "closeRateAuction"
+  ): TypedContractMethod<
+    [fromBrand: string, toBrand: string],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "confidentialProtocolId"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "convertPoints"
+  ): TypedContractMethod<
+    [fromBrand: string, toBrand: string, amount: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "convertPointsConfidential"
+  ): TypedContractMethod<
+    [
+      fromBrand: string,
+      toBrand: string,
+      encryptedAmount: BytesLike,
+      amountProof: BytesLike
+    ],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "createAccount"
+  ): TypedContractMethod<
+    [
+      brandId: string,
+      encryptedPoints: BytesLike,
+      inputProof: BytesLike,
+      publicPoints: BigNumberish
+    ],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "deactivateAccount"
+  ): TypedContractMethod<[], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "exchangeRates"
+  ): TypedContractMethod<
+    [arg0: string],
+    [
+      [string, bigint, bigint, bigint] & {
+        encryptedRate: string;
+        publicRate: bigint;
+        decimals: bigint;
+        lastUpdated: bigint;
+      }
+    ],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "expiryPeriods"
+  ): TypedContractMethod<[arg0: string], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "fillOffer"
+  ): TypedContractMethod<
+    [offerId: BigNumberish, encryptedAmount: BytesLike, amountProof: BytesLike],
+    [string],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "getAccountBalance"
+  ): TypedContractMethod<
+    [user: AddressLike, brandId: string],
+    [[string, bigint]],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "getBrand"
+  ): TypedContractMethod<
+    [brandId: string],
+    [PointsSwap_FHE.BrandStructOutput],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "getBrandSupply"
+  ): TypedContractMethod<[brandId: string], [string], "view">;
+  getFunction(
+    nameOrSignature: "getExchangeRate"
+  ): TypedContractMethod<
+    [fromBrand: string, toBrand: string],
+    [[string, bigint, bigint]],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "getLastConversionResult"
+  ): TypedContractMethod<[user: AddressLike], [string], "view">;
+  getFunction(
+    nameOrSignature: "getOffer"
+  ): TypedContractMethod<
+    [offerId: BigNumberish],
+    [PointsSwap_FHE.OfferStructOutput],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "getPointLots"
+  ): TypedContractMethod<
+    [user: AddressLike, brandId: string],
+    [
+      [string, string, bigint, bigint] & {
+        current: string;
+        previous: string;
+        previousExpiresAt: bigint;
+        currentExpiresAt: bigint;
+      }
+    ],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "getRateAuction"
+  ): TypedContractMethod<
+    [fromBrand: string, toBrand: string],
+    [RateAuctions.RateAuctionStructOutput],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "getSupportedBrands"
+  ): TypedContractMethod<[], [string[]], "view">;
+  getFunction(
+    nameOrSignature: "getViewers"
+  ): TypedContractMethod<
+    [user: AddressLike, brandId: string],
+    [[string[], bigint[]] & { viewers: string[]; expiresAt: bigint[] }],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "grantBrandAdmin"
+  ): TypedContractMethod<
+    [brandId: string, account: AddressLike],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "grantRole"
+  ): TypedContractMethod<
+    [role: BytesLike, account: AddressLike],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "grantViewer"
+  ): TypedContractMethod<
+    [viewer: AddressLike, brandId: string, expiresAt: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "hasRole"
+  ): TypedContractMethod<
+    [role: BytesLike, account: AddressLike],
+    [boolean],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "isBrandAdmin"
+  ): TypedContractMethod<
+    [brandId: string, account: AddressLike],
+    [boolean],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "isContractAvailable"
+  ): TypedContractMethod<[], [boolean], "view">;
+  getFunction(
+    nameOrSignature: "isPairPaused"
+  ): TypedContractMethod<
+    [fromBrand: string, toBrand: string],
+    [boolean],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "mintPoints"
+  ): TypedContractMethod<
+    [
+      brandId: string,
+      to: AddressLike,
+      encryptedAmount: BytesLike,
+      amountProof: BytesLike
+    ],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "mintPointsBatch"
+  ): TypedContractMethod<
+    [
+      brandId: string,
+      recipients: AddressLike[],
+      encryptedAmounts: BytesLike[],
+      amountsProof: BytesLike
+    ],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "offerCount"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "openOfferCount"
+  ): TypedContractMethod<[arg0: AddressLike], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "openRateAuction"
+  ): TypedContractMethod<
+    [
+      fromBrand: string,
+      toBrand: string,
+      decimals: BigNumberish,
+      duration: BigNumberish
+    ],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "owner"
+  ): TypedContractMethod<[], [string], "view">;
+  getFunction(
+    nameOrSignature: "paused"
+  ): TypedContractMethod<[], [boolean], "view">;
+  getFunction(
+    nameOrSignature: "pendingOwner"
+  ): TypedContractMethod<[], [string], "view">;
+  getFunction(
+    nameOrSignature: "postOffer"
+  ): TypedContractMethod<
+    [
+      giveBrand: string,
+      wantBrand: string,
+      encryptedAmount: BytesLike,
+      amountProof: BytesLike,
+      price: BigNumberish,
+      priceDecimals: BigNumberish
+    ],
+    [bigint],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "reactivateAccount"
+  ): TypedContractMethod<[], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "registerBrand"
+  ): TypedContractMethod<
+    [
+      brandId: string,
+      displayName: string,
+      logoURI: string,
+      decimals: BigNumberish,
+      issuer: AddressLike
+    ],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "revealRateAuction"
+  ): TypedContractMethod<
+    [
+      fromBrand: string,
+      toBrand: string,
+      abiEncodedRate: BytesLike,
+      decryptionProof: BytesLike
+    ],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "revokeBrandAdmin"
+  ): TypedContractMethod<
+    [brandId: string, account: AddressLike],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "revokeRole"
+  ): TypedContractMethod<
+    [role: BytesLike, account: AddressLike],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "revokeViewer"
+  ): TypedContractMethod<
+    [viewer: AddressLike, brandId: string],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "setBrandActive"
+  ): TypedContractMethod<
+    [brandId: string, active: boolean],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "setExchangeRate"
+  ): TypedContractMethod<
+    [
+      fromBrand: string,
+      toBrand: string,
+      encryptedRate: BytesLike,
+      rateProof: BytesLike,
+      publicRate: BigNumberish,
+      decimals: BigNumberish
+    ],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "setExpiryPolicy"
+  ): TypedContractMethod<
+    [brandId: string, expiryPeriod: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "setPairPaused"
+  ): TypedContractMethod<
+    [fromBrand: string, toBrand: string, isPaused: boolean],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "setPaused"
+  ): TypedContractMethod<[isPaused: boolean], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "submitRateBid"
+  ): TypedContractMethod<
+    [
+      fromBrand: string,
+      toBrand: string,
+      encryptedBid: BytesLike,
+      bidProof: BytesLike
+    ],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "transferOwnership"
+  ): TypedContractMethod<[newOwner: AddressLike], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "transferPoints"
+  ): TypedContractMethod<
+    [
+      brandId: string,
+      to: AddressLike,
+      encryptedAmount: BytesLike,
+      amountProof: BytesLike
+    ],
+    [string],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "updateBrandMetadata"
+  ): TypedContractMethod<
+    [brandId: string, displayName: string, logoURI: string],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "updatePublicPoints"
+  ): TypedContractMethod<[newPoints: BigNumberish], [void], "nonpayable">;
+
+  getEvent(
+    key: "AccountCreated"
+  ): TypedContractEvent<
+    AccountCreatedEvent.InputTuple,
+    AccountCreatedEvent.OutputTuple,
+    AccountCreatedEvent.OutputObject
+  >;
+  getEvent(
+    key: "AccountStatusChanged"
+  ): TypedContractEvent<
+    AccountStatusChangedEvent.InputTuple,
+    AccountStatusChangedEvent.OutputTuple,
+    AccountStatusChangedEvent.OutputObject
+  >;
+  getEvent(
+    key: "BrandAdminUpdated"
+  ): TypedContractEvent<
+    BrandAdminUpdatedEvent.InputTuple,
+    BrandAdminUpdatedEvent.OutputTuple,
+    BrandAdminUpdatedEvent.OutputObject
+  >;
+  getEvent(
+    key: "BrandMetadataUpdated"
+  ): TypedContractEvent<
+    BrandMetadataUpdatedEvent.InputTuple,
+    BrandMetadataUpdatedEvent.OutputTuple,
+    BrandMetadataUpdatedEvent.OutputObject
+  >;
+  getEvent(
+    key: "BrandRegistered"
+  ): TypedContractEvent<
+    BrandRegisteredEvent.InputTuple,
+    BrandRegisteredEvent.OutputTuple,
+    BrandRegisteredEvent.OutputObject
+  >;
+  getEvent(
+    key: "BrandStatusChanged"
+  ): TypedContractEvent<
+    BrandStatusChangedEvent.InputTuple,
+    BrandStatusChangedEvent.OutputTuple,
+    BrandStatusChangedEvent.OutputObject
+  >;
+  getEvent(
+    key: "ConfidentialPointsConverted"
+  ): TypedContractEvent<
+    ConfidentialPointsConvertedEvent.InputTuple,
+    ConfidentialPointsConvertedEvent.OutputTuple,
+    ConfidentialPointsConvertedEvent.OutputObject
+  >;
+  getEvent(
+    key: "ConfidentialTransfer"
+  ): TypedContractEvent<
+    ConfidentialTransferEvent.InputTuple,
+    ConfidentialTransferEvent.OutputTuple,
+    ConfidentialTransferEvent.OutputObject
+  >;
+  getEvent(
+    key: "ExchangeRateUpdated"
+  ): TypedContractEvent<
+    ExchangeRateUpdatedEvent.InputTuple,
+    ExchangeRateUpdatedEvent.OutputTuple,
+    ExchangeRateUpdatedEvent.OutputObject
+  >;
+  getEvent(
+    key: "ExpiryPolicyUpdated"
+  ): TypedContractEvent<
+    ExpiryPolicyUpdatedEvent.InputTuple,
+    ExpiryPolicyUpdatedEvent.OutputTuple,
+    ExpiryPolicyUpdatedEvent.OutputObject
+  >;
+  getEvent(
+    key: "OfferCancelled"
+  ): TypedContractEvent<
+    OfferCancelledEvent.InputTuple,
+    OfferCancelledEvent.OutputTuple,
+    OfferCancelledEvent.OutputObject
+  >;
+  getEvent(
+    key: "OfferFilled"
+  ): TypedContractEvent<
+    OfferFilledEvent.InputTuple,
+    OfferFilledEvent.OutputTuple,
+    OfferFilledEvent.OutputObject
+  >;
+  getEvent(
+    key: "OfferPosted"
+  ): TypedContractEvent<
+    OfferPostedEvent.InputTuple,
+    OfferPostedEvent.OutputTuple,
+    OfferPostedEvent.OutputObject
+  >;
+  getEvent(
+    key: "OwnershipTransferStarted"
+  ): TypedContractEvent<
+    OwnershipTransferStartedEvent.InputTuple,
+    OwnershipTransferStartedEvent.OutputTuple,
+    OwnershipTransferStartedEvent.OutputObject
+  >;
+  getEvent(
+    key: "OwnershipTransferred"
+  ): TypedContractEvent<
+    OwnershipTransferredEvent.InputTuple,
+    OwnershipTransferredEvent.OutputTuple,
+    OwnershipTransferredEvent.OutputObject
+  >;
+  getEvent(
+    key: "PairPauseChanged"
+  ): TypedContractEvent<
+    PairPauseChangedEvent.InputTuple,
+    PairPauseChangedEvent.OutputTuple,
+    PairPauseChangedEvent.OutputObject
+  >;
+  getEvent(
+    key: "PauseChanged"
+  ): TypedContractEvent<
+    PauseChangedEvent.InputTuple,
+    PauseChangedEvent.OutputTuple,
+    PauseChangedEvent.OutputObject
+  >;
+  getEvent(
+    key: "PointsBurned"
+  ): TypedContractEvent<
+    PointsBurnedEvent.InputTuple,
+    PointsBurnedEvent.OutputTuple,
+    PointsBurnedEvent.OutputObject
+  >;
+  getEvent(
+    key: "PointsConverted"
+  ): TypedContractEvent<
+    PointsConvertedEvent.InputTuple,
+    PointsConvertedEvent.OutputTuple,
+    PointsConvertedEvent.OutputObject
+  >;
+  getEvent(
+    key: "PointsMinted"
+  ): TypedContractEvent<
+    PointsMintedEvent.InputTuple,
+    PointsMintedEvent.OutputTuple,
+    PointsMintedEvent.OutputObject
+  >;
+  getEvent(
+    key: "RateAuctionClosed"
+  ): TypedContractEvent<
+    RateAuctionClosedEvent.InputTuple,
+    RateAuctionClosedEvent.OutputTuple,
+    RateAuctionClosedEvent.OutputObject
+  >;
+  getEvent(
+    key: "RateAuctionOpened"
+  ): TypedContractEvent<
+    RateAuctionOpenedEvent.InputTuple,
+    RateAuctionOpenedEvent.OutputTuple,
+    RateAuctionOpenedEvent.OutputObject
+  >;
+  getEvent(
+    key: "RateAuctionSettled"
+  ): TypedContractEvent<
+    RateAuctionSettledEvent.InputTuple,
+    RateAuctionSettledEvent.OutputTuple,
+    RateAuctionSettledEvent.OutputObject
+  >;
+  getEvent(
+    key: "RateBidSubmitted"
+  ): TypedContractEvent<
+    RateBidSubmittedEvent.InputTuple,
+    RateBidSubmittedEvent.OutputTuple,
+    RateBidSubmittedEvent.OutputObject
+  >;
+  getEvent(
+    key: "RoleGranted"
+  ): TypedContractEvent<
+    RoleGrantedEvent.InputTuple,
+    RoleGrantedEvent.OutputTuple,
+    RoleGrantedEvent.OutputObject
+  >;
+  getEvent(
+    key: "RoleRevoked"
+  ): TypedContractEvent<
+    RoleRevokedEvent.InputTuple,
+    RoleRevokedEvent.OutputTuple,
+    RoleRevokedEvent.OutputObject
+  >;
+  getEvent(
+    key: "ViewerGranted"
+  ): TypedContractEvent<
+    ViewerGrantedEvent.InputTuple,
+    ViewerGrantedEvent.OutputTuple,
+    ViewerGrantedEvent.OutputObject
+  >;
+  getEvent(
+    key: "ViewerRevoked"
+  ): TypedContractEvent<
+    ViewerRevokedEvent.InputTuple,
+    ViewerRevokedEvent.OutputTuple,
+    ViewerRevokedEvent.OutputObject
+  >;
+
+  filters: {
+    "AccountCreated(address,string,uint32)": TypedContractEvent<
+      AccountCreatedEvent.InputTuple,
+      AccountCreatedEvent.OutputTuple,
+      AccountCreatedEvent.OutputObject
+    >;
+    AccountCreated: TypedContractEvent<
+      AccountCreatedEvent.InputTuple,
+      AccountCreatedEvent.OutputTuple,
+      AccountCreatedEvent.OutputObject
+    >;
+
+    "AccountStatusChanged(address,uint8,address)": TypedContractEvent<
+      AccountStatusChangedEvent.InputTuple,
+      AccountStatusChangedEvent.OutputTuple,
+      AccountStatusChangedEvent.OutputObject
+    >;
+    AccountStatusChanged: TypedContractEvent<
+      AccountStatusChangedEvent.InputTuple,
+      AccountStatusChangedEvent.OutputTuple,
+      AccountStatusChangedEvent.OutputObject
+    >;
+
+    "BrandAdminUpdated(string,address,bool)": TypedContractEvent<
+      BrandAdminUpdatedEvent.InputTuple,
+      BrandAdminUpdatedEvent.OutputTuple,
+      BrandAdminUpdatedEvent.OutputObject
+    >;
+    BrandAdminUpdated: TypedContractEvent<
+      BrandAdminUpdatedEvent.InputTuple,
+      BrandAdminUpdatedEvent.OutputTuple,
+      BrandAdminUpdatedEvent.OutputObject
+    >;
+
+    "BrandMetadataUpdated(string)": TypedContractEvent<
+      BrandMetadataUpdatedEvent.InputTuple,
+      BrandMetadataUpdatedEvent.OutputTuple,
+      BrandMetadataUpdatedEvent.OutputObject
+    >;
+    BrandMetadataUpdated: TypedContractEvent<
+      BrandMetadataUpdatedEvent.InputTuple,
+      BrandMetadataUpdatedEvent.OutputTuple,
+      BrandMetadataUpdatedEvent.OutputObject
+    >;
+
+    "BrandRegistered(string,address)": TypedContractEvent<
+      BrandRegisteredEvent.InputTuple,
+      BrandRegisteredEvent.OutputTuple,
+      BrandRegisteredEvent.OutputObject
+    >;
+    BrandRegistered: TypedContractEvent<
+      BrandRegisteredEvent.InputTuple,
+      BrandRegisteredEvent.OutputTuple,
+      BrandRegisteredEvent.OutputObject
+    >;
+
+    "BrandStatusChanged(string,bool)": TypedContractEvent<
+      BrandStatusChangedEvent.InputTuple,
+      BrandStatusChangedEvent.OutputTuple,
+      BrandStatusChangedEvent.OutputObject
+    >;
+    BrandStatusChanged: TypedContractEvent<
+      BrandStatusChangedEvent.InputTuple,
+      BrandStatusChangedEvent.OutputTuple,
+      BrandStatusChangedEvent.OutputObject
+    >;
+
+    "ConfidentialPointsConverted(address,string,string)": TypedContractEvent<
+      ConfidentialPointsConvertedEvent.InputTuple,
+      ConfidentialPointsConvertedEvent.OutputTuple,
+      ConfidentialPointsConvertedEvent.OutputObject
+    >;
+    ConfidentialPointsConverted: TypedContractEvent<
+      ConfidentialPointsConvertedEvent.InputTuple,
+      ConfidentialPointsConvertedEvent.OutputTuple,
+      ConfidentialPointsConvertedEvent.OutputObject
+    >;
+
+    "ConfidentialTransfer(address,address,string,bytes32)": TypedContractEvent<
+      ConfidentialTransferEvent.InputTuple,
+      ConfidentialTransferEvent.OutputTuple,
+      ConfidentialTransferEvent.OutputObject
+    >;
+    ConfidentialTransfer: TypedContractEvent<
+      ConfidentialTransferEvent.InputTuple,
+      ConfidentialTransferEvent.OutputTuple,
+      ConfidentialTransferEvent.OutputObject
+    >;
+
+    "ExchangeRateUpdated(string,string,uint32,uint8)": TypedContractEvent<
+      ExchangeRateUpdatedEvent.InputTuple,
+      ExchangeRateUpdatedEvent.OutputTuple,
+      ExchangeRateUpdatedEvent.OutputObject
+    >;
+    ExchangeRateUpdated: TypedContractEvent<
+      ExchangeRateUpdatedEvent.InputTuple,
+      ExchangeRateUpdatedEvent.OutputTuple,
+      ExchangeRateUpdatedEvent.OutputObject
+    >;
+
+    "ExpiryPolicyUpdated(string,uint256)": TypedContractEvent<
+      ExpiryPolicyUpdatedEvent.InputTuple,
+      ExpiryPolicyUpdatedEvent.OutputTuple,
+      ExpiryPolicyUpdatedEvent.OutputObject
+    >;
+    ExpiryPolicyUpdated: TypedContractEvent<
+      ExpiryPolicyUpdatedEvent.InputTuple,
+      ExpiryPolicyUpdatedEvent.OutputTuple,
+      ExpiryPolicyUpdatedEvent.OutputObject
+    >;
+
+    "OfferCancelled(uint256)": TypedContractEvent<
+      OfferCancelledEvent.InputTuple,
+      OfferCancelledEvent.OutputTuple,
+      OfferCancelledEvent.OutputObject
+    >;
+    OfferCancelled: TypedContractEvent<
+      OfferCancelledEvent.InputTuple,
+      OfferCancelledEvent.OutputTuple,
+      OfferCancelledEvent.OutputObject
+    >;
+
+    "OfferFilled(uint256,address,bytes32)": TypedContractEvent<
+      OfferFilledEvent.InputTuple,
+      OfferFilledEvent.OutputTuple,
+      OfferFilledEvent.OutputObject
+    >;
+    OfferFilled: TypedContractEvent<
+      OfferFilledEvent.InputTuple,
+      OfferFilledEvent.OutputTuple,
+      OfferFilledEvent.OutputObject
+    >;
+
+    "OfferPosted(uint256,address,string,string,uint32,uint8)": TypedContractEvent<
+      OfferPostedEvent.InputTuple,
+      OfferPostedEvent.OutputTuple,
+      OfferPostedEvent.OutputObject
+    >;
+    OfferPosted: TypedContractEvent<
+      OfferPostedEvent.InputTuple,
+      OfferPostedEvent.OutputTuple,
+      OfferPostedEvent.OutputObject
+    >;
+
+    "OwnershipTransferStarted(address,address)": TypedContractEvent<
+      OwnershipTransferStartedEvent.InputTuple,
+      OwnershipTransferStartedEvent.OutputTuple,
+      OwnershipTransferStartedEvent.OutputObject
+    >;
+    OwnershipTransferStarted: TypedContractEvent<
+      OwnershipTransferStartedEvent.InputTuple,
+      OwnershipTransferStartedEvent.OutputTuple,
+      OwnershipTransferStartedEvent.OutputObject
+    >;
+
+    "OwnershipTransferred(address,address)": TypedContractEvent<
+      OwnershipTransferredEvent.InputTuple,
+      OwnershipTransferredEvent.OutputTuple,
+      OwnershipTransferredEvent.OutputObject
+    >;
+    OwnershipTransferred: TypedContractEvent<
+      OwnershipTransferredEvent.InputTuple,
+      OwnershipTransferredEvent.OutputTuple,
+      OwnershipTransferredEvent.OutputObject
+    >;
+
+    "PairPauseChanged(string,string,bool)": TypedContractEvent<
+      PairPauseChangedEvent.InputTuple,
+      PairPauseChangedEvent.OutputTuple,
+      PairPauseChangedEvent.OutputObject
+    >;
+    PairPauseChanged: TypedContractEvent<
+      PairPauseChangedEvent.InputTuple,
+      PairPauseChangedEvent.OutputTuple,
+      PairPauseChangedEvent.OutputObject
+    >;
+
+    "PauseChanged(bool)": TypedContractEvent<
+      PauseChangedEvent.InputTuple,
+      PauseChangedEvent.OutputTuple,
+      PauseChangedEvent.OutputObject
+    >;
+    PauseChanged: TypedContractEvent<
+      PauseChangedEvent.InputTuple,
+      PauseChangedEvent.OutputTuple,
+      PauseChangedEvent.OutputObject
+    >;
+
+    "PointsBurned(string,address)": TypedContractEvent<
+      PointsBurnedEvent.InputTuple,
+      PointsBurnedEvent.OutputTuple,
+      PointsBurnedEvent.OutputObject
+    >;
+    PointsBurned: TypedContractEvent<
+      PointsBurnedEvent.InputTuple,
+      PointsBurnedEvent.OutputTuple,
+      PointsBurnedEvent.OutputObject
+    >;
+
+    "PointsConverted(address,string,string,uint32)": TypedContractEvent<
+      PointsConvertedEvent.InputTuple,
+      PointsConvertedEvent.OutputTuple,
+      PointsConvertedEvent.OutputObject
+    >;
+    PointsConverted: TypedContractEvent<
+      PointsConvertedEvent.InputTuple,
+      PointsConvertedEvent.OutputTuple,
+      PointsConvertedEvent.OutputObject
+    >;
+
+    "PointsMinted(string,address)": TypedContractEvent<
+      PointsMintedEvent.InputTuple,
+      PointsMintedEvent.OutputTuple,
+      PointsMintedEvent.OutputObject
+    >;
+    PointsMinted: TypedContractEvent<
+      PointsMintedEvent.InputTuple,
+      PointsMintedEvent.OutputTuple,
+      PointsMintedEvent.OutputObject
+    >;
+
+    "RateAuctionClosed(string,string,bytes32,uint32)": TypedContractEvent<
+      RateAuctionClosedEvent.InputTuple,
+      RateAuctionClosedEvent.OutputTuple,
+      RateAuctionClosedEvent.OutputObject
+    >;
+    RateAuctionClosed: TypedContractEvent<
+      RateAuctionClosedEvent.InputTuple,
+      RateAuctionClosedEvent.OutputTuple,
+      RateAuctionClosedEvent.OutputObject
+    >;
+
+    "RateAuctionOpened(string,string,uint8,uint256)": TypedContractEvent<
+      RateAuctionOpenedEvent.InputTuple,
+      RateAuctionOpenedEvent.OutputTuple,
+      RateAuctionOpenedEvent.OutputObject
+    >;
+    RateAuctionOpened: TypedContractEvent<
+      RateAuctionOpenedEvent.InputTuple,
+      RateAuctionOpenedEvent.OutputTuple,
+      RateAuctionOpenedEvent.OutputObject
+    >;
+
+    "RateAuctionSettled(string,string,uint32)": TypedContractEvent<
+      RateAuctionSettledEvent.InputTuple,
+      RateAuctionSettledEvent.OutputTuple,
+      RateAuctionSettledEvent.OutputObject
+    >;
+    RateAuctionSettled: TypedContractEvent<
+      RateAuctionSettledEvent.InputTuple,
+      RateAuctionSettledEvent.OutputTuple,
+      RateAuctionSettledEvent.OutputObject
+    >;
+
+    "RateBidSubmitted(string,string,address)": TypedContractEvent<
+      RateBidSubmittedEvent.InputTuple,
+      RateBidSubmittedEvent.OutputTuple,
+      RateBidSubmittedEvent.OutputObject
+    >;
+    RateBidSubmitted: TypedContractEvent<
+      RateBidSubmittedEvent.InputTuple,
+      RateBidSubmittedEvent.OutputTuple,
+      RateBidSubmittedEvent.OutputObject
+    >;
+
+    "RoleGranted(bytes32,address,address)": TypedContractEvent<
+      RoleGrantedEvent.InputTuple,
+      RoleGrantedEvent.OutputTuple,
+      RoleGrantedEvent.OutputObject
+    >;
+    RoleGranted: TypedContractEvent<
+      RoleGrantedEvent.InputTuple,
+      RoleGrantedEvent.OutputTuple,
+      RoleGrantedEvent.OutputObject
+    >;
+
+    "RoleRevoked(bytes32,address,address)": TypedContractEvent<
+      RoleRevokedEvent.InputTuple,
+      RoleRevokedEvent.OutputTuple,
+      RoleRevokedEvent.OutputObject
+    >;
+    RoleRevoked: TypedContractEvent<
+      RoleRevokedEvent.InputTuple,
+      RoleRevokedEvent.OutputTuple,
+      RoleRevokedEvent.OutputObject
+    >;
+
+    "ViewerGranted(address,address,string,uint256)": TypedContractEvent<
+      ViewerGrantedEvent.InputTuple,
+      ViewerGrantedEvent.OutputTuple,
+      ViewerGrantedEvent.OutputObject
+    >;
+    ViewerGranted: TypedContractEvent<
+      ViewerGrantedEvent.InputTuple,
+      ViewerGrantedEvent.OutputTuple,
+      ViewerGrantedEvent.OutputObject
+    >;
+
+    "ViewerRevoked(address,address,string)": TypedContractEvent<
+      ViewerRevokedEvent.InputTuple,
+      ViewerRevokedEvent.OutputTuple,
+      ViewerRevokedEvent.OutputObject
+    >;
+    ViewerRevoked: TypedContractEvent<
+      ViewerRevokedEvent.InputTuple,
+      ViewerRevokedEvent.OutputTuple,
+      ViewerRevokedEvent.OutputObject
+    >;
+  };
+}
@@ -1,6 +1,7 @@
 /* Autogenerated file. Do not edit manually. */
 /* tslint:disable */
 /* eslint-disable */
+export type { PointsSwap_FHE } from "./PointsSwap_FHE";
 export type { UniversalFHEAdapter } from "./UniversalFHEAdapter";
 
 
@@ -0,0 +1,2198 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+import {
+  Contract,
+  ContractFactory,
+  ContractTransactionResponse,
+  Interface,
+} from "ethers";
+import type { Signer, ContractDeployTransaction, ContractRunner } from "ethers";
+import type { NonPayableOverrides } from "../../common";
+import type {
+  PointsSwap_FHE,
+  PointsSwap_FHEInterface,
+} from "../../contracts/PointsSwap_FHE";
+
+const _abi = [
+  {
+    inputs: [],
+    stateMutability: "nonpayable",
+    type: "constructor",
+  },
+  {
+    inputs: [],
+    name: "ZamaProtocolUnsupported",
+    type: "error",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "user",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "string",
+        name: "brandId",
+        type: "string",
+      },
+      {
+        indexed: false,
+        internalType: "uint32",
+        name: "initialPoints",
+        type: "uint32",
+      },
+    ],
+    name: "AccountCreated",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "user",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "enum PointsSwap_FHE.AccountStatus",
+        name: "status",
+        type: "uint8",
+      },
+      {
+        indexed: false,
+        internalType: "address",
+        name: "payoutTo",
+        type: "address",
+      },
+    ],
+    name: "AccountStatusChanged",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: "string",
+        name: "brandId",
+        type: "string",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "account",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "bool",
+        name: "isAdmin",
+        type: "bool",
+      },
+    ],
+    name: "BrandAdminUpdated",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: "string",
+        name: "brandId",
+        type: "string",
+      },
+    ],
+    name: "BrandMetadataUpdated",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: "string",
+        name: "brandId",
+        type: "string",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "issuer",
+        type: "address",
+      },
+    ],
+    name: "BrandRegistered",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: "string",
+        name: "brandId",
+        type: "string",
+      },
+      {
+        indexed: false,
+        internalType: "bool",
+        name: "active",
+        type: "bool",
+      },
+    ],
+    name: "BrandStatusChanged",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "user",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "string",
+        name: "fromBrand",
+        type: "string",
+      },
+      {
+        indexed: false,
+        internalType: "string",
+        name: "toBrand",
+        type: "string",
+      },
+    ],
+    name: "ConfidentialPointsConverted",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "from",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "to",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "string",
+        name: "brandId",
+        type: "string",
+      },
+      {
+        indexed: false,
+        internalType: "euint64",
+        name: "amount",
+        type: "bytes32",
+      },
+    ],
+    name: "ConfidentialTransfer",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: "string",
+        name: "fromBrand",
+        type: "string",
+      },
+      {
+        indexed: false,
+        internalType: "string",
+        name: "toBrand",
+        type: "string",
+      },
+      {
+        indexed: false,
+        internalType: "uint32",
+        name: "newRate",
+        type: "uint32",
+      },
+      {
+        indexed: false,
+        internalType: "uint8",
+        name: "decimals",
+        type: "uint8",
+      },
+    ],
+    name: "ExchangeRateUpdated",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: "string",
+        name: "brandId",
+        type: "string",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "expiryPeriod",
+        type: "uint256",
+      },
+    ],
+    name: "ExpiryPolicyUpdated",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "offerId",
+        type: "uint256",
+      },
+    ],
+    name: "OfferCancelled",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "offerId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "taker",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "euint64",
+        name: "filled",
+        type: "bytes32",
+      },
+    ],
+    name: "OfferFilled",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "offerId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "maker",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "string",
+        name: "giveBrand",
+        type: "string",
+      },
+      {
+        indexed: false,
+        internalType: "string",
+        name: "wantBrand",
+        type: "string",
+      },
+      {
+        indexed: false,
+        internalType: "uint32",
+        name: "price",
+        type: "uint32",
+      },
+      {
+        indexed: false,
+        internalType: "uint8",
+        name: "priceDecimals",
+        type: "uint8",
+      },
+    ],
+    name: "OfferPosted",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "previousOwner",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "newOwner",
+        type: "address",
+      },
+    ],
+    name: "OwnershipTransferStarted",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "previousOwner",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "newOwner",
+        type: "address",
+      },
+    ],
+    name: "OwnershipTransferred",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: "string",
+        name: "fromBrand",
+        type: "string",
+      },
+      {
+        indexed: false,
+        internalType: "string",
+        name: "toBrand",
+        type: "string",
+      },
+      {
+        indexed: false,
+        internalType: "bool",
+        name: "paused",
+        type: "bool",
+      },
+    ],
+    name: "PairPauseChanged",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: "bool",
+        name: "paused",
+        type: "bool",
+      },
+    ],
+    name: "PauseChanged",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: "string",
+        name: "brandId",
+        type: "string",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "from",
+        type: "address",
+      },
+    ],
+    name: "PointsBurned",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "user",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "string",
+        name: "fromBrand",
+        type: "string",
+      },
+      {
+        indexed: false,
+        internalType: "string",
+        name: "toBrand",
+        type: "string",
+      },
+      {
+        indexed: false,
+        internalType: "uint32",
+        name: "amount",
+        type: "uint32",
+      },
+    ],
+    name: "PointsConverted",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: "string",
+        name: "brandId",
+        type: "string",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "to",
+        type: "address",
+      },
+    ],
+    name: "PointsMinted",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: "string",
+        name: "fromBrand",
+        type: "string",
+      },
+      {
+        indexed: false,
+        internalType: "string",
+        name: "toBrand",
+        type: "string",
+      },
+      {
+        indexed: false,
+        internalType: "euint32",
+        name: "winningBid",
+        type: "bytes32",
+      },
+      {
+        indexed: false,
+        internalType: "uint32",
+        name: "bidCount",
+        type: "uint32",
+      },
+    ],
+    name: "RateAuctionClosed",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: "string",
+        name: "fromBrand",
+        type: "string",
+      },
+      {
+        indexed: false,
+        internalType: "string",
+        name: "toBrand",
+        type: "string",
+      },
+      {
+        indexed: false,
+        internalType: "uint8",
+        name: "decimals",
+        type: "uint8",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "endTime",
+        type: "uint256",
+      },
+    ],
+    name: "RateAuctionOpened",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: "string",
+        name: "fromBrand",
+        type: "string",
+      },
+      {
+        indexed: false,
+        internalType: "string",
+        name: "toBrand",
+        type: "string",
+      },
+      {
+        indexed: false,
+        internalType: "uint32",
+        name: "winningRate",
+        type: "uint32",
+      },
+    ],
+    name: "RateAuctionSettled",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: "string",
+        name: "fromBrand",
+        type: "string",
+      },
+      {
+        indexed: false,
+        internalType: "string",
+        name: "toBrand",
+        type: "string",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "bidder",
+        type: "address",
+      },
+    ],
+    name: "RateBidSubmitted",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "bytes32",
+        name: "role",
+        type: "bytes32",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "account",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "sender",
+        type: "address",
+      },
+    ],
+    name: "RoleGranted",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "bytes32",
+        name: "role",
+        type: "bytes32",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "account",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "sender",
+        type: "address",
+      },
+    ],
+    name: "RoleRevoked",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "user",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "viewer",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "string",
+        name: "brandId",
+        type: "string",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "expiresAt",
+        type: "uint256",
+      },
+    ],
+    name: "ViewerGranted",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "user",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "viewer",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "string",
+        name: "brandId",
+        type: "string",
+      },
+    ],
+    name: "ViewerRevoked",
+    type: "event",
+  },
+  {
+    inputs: [],
+    name: "BRAND_ADMIN_ROLE",
+    outputs: [
+      {
+        internalType: "bytes32",
+        name: "",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "MAX_RATE_DECIMALS",
+    outputs: [
+      {
+        internalType: "uint8",
+        name: "",
+        type: "uint8",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "MAX_VIEWERS",
+    outputs: [
+      {
+        internalType: "uint8",
+        name: "",
+        type: "uint8",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "PAUSER_ROLE",
+    outputs: [
+      {
+        internalType: "bytes32",
+        name: "",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "RATE_SETTER_ROLE",
+    outputs: [
+      {
+        internalType: "bytes32",
+        name: "",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "acceptOwnership",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "user",
+        type: "address",
+      },
+    ],
+    name: "accountExists",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    name: "accounts",
+    outputs: [
+      {
+        internalType: "uint32",
+        name: "publicPoints",
+        type: "uint32",
+      },
+      {
+        internalType: "uint256",
+        name: "lastUpdated",
+        type: "uint256",
+      },
+      {
+        internalType: "enum PointsSwap_FHE.AccountStatus",
+        name: "status",
+        type: "uint8",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "string",
+        name: "brandId",
+        type: "string",
+      },
+      {
+        internalType: "address",
+        name: "from",
+        type: "address",
+      },
+      {
+        internalType: "externalEuint64",
+        name: "encryptedAmount",
+        type: "bytes32",
+      },
+      {
+        internalType: "bytes",
+        name: "amountProof",
+        type: "bytes",
+      },
+    ],
+    name: "burnPoints",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "offerId",
+        type: "uint256",
+      },
+    ],
+    name: "cancelOffer",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "payoutTo",
+        type: "address",
+      },
+    ],
+    name: "closeAccount",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "string",
+        name: "fromBrand",
+        type: "string",
+      },
+      {
+        internalType: "string",
+        name: "toBrand",
+        type: "string",
+      },
+    ],
+    name: "closeRateAuction",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "confidentialProtocolId",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "string",
+        name: "fromBrand",
+        type: "string",
+      },
+      {
+        internalType: "string",
+        name: "toBrand",
+        type: "string",
+      },
+      {
+        internalType: "uint32",
+        name: "amount",
+        type: "uint32",
+      },
+    ],
+    name: "convertPoints",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "string",
+        name: "fromBrand",
+        type: "string",
+      },
+      {
+        internalType: "string",
+        name: "toBrand",
+        type: "string",
+      },
+      {
+        internalType: "externalEuint64",
+        name: "encryptedAmount",
+        type: "bytes32",
+      },
+      {
+        internalType: "bytes",
+        name: "amountProof",
+        type: "bytes",
+      },
+    ],
+    name: "convertPointsConfidential",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "string",
+        name: "brandId",
+        type: "string",
+      },
+      {
+        internalType: "externalEuint64",
+        name: "encryptedPoints",
+        type: "bytes32",
+      },
+      {
+        internalType: "bytes",
+        name: "inputProof",
+        type: "bytes",
+      },
+      {
+        internalType: "uint32",
+        name: "publicPoints",
+        type: "uint32",
+      },
+    ],
+    name: "createAccount",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "deactivateAccount",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "string",
+        name: "",
+        type: "string",
+      },
+    ],
+    name: "exchangeRates",
+    outputs: [
+      {
+        internalType: "euint32",
+        name: "encryptedRate",
+        type: "bytes32",
+      },
+      {
+        internalType: "uint32",
+        name: "publicRate",
+        type: "uint32",
+      },
+      {
+        internalType: "uint8",
+        name: "decimals",
+        type: "uint8",
+      },
+      {
+        internalType: "uint256",
+        name: "lastUpdated",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "string",
+        name: "",
+        type: "string",
+      },
+    ],
+    name: "expiryPeriods",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "offerId",
+        type: "uint256",
+      },
+      {
+        internalType: "externalEuint64",
+        name: "encryptedAmount",
+        type: "bytes32",
+      },
+      {
+        internalType: "bytes",
+        name: "amountProof",
+        type: "bytes",
+      },
+    ],
+    name: "fillOffer",
+    outputs: [
+      {
+        internalType: "euint64",
+        name: "filled",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "user",
+        type: "address",
+      },
+      {
+        internalType: "string",
+        name: "brandId",
+        type: "string",
+      },
+    ],
+    name: "getAccountBalance",
+    outputs: [
+      {
+        internalType: "euint64",
+        name: "",
+        type: "bytes32",
+      },
+      {
+        internalType: "uint32",
+        name: "",
+        type: "uint32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "string",
+        name: "brandId",
+        type: "string",
+      },
+    ],
+    name: "getBrand",
+    outputs: [
+      {
+        components: [
+          {
+            internalType: "string",
+            name: "displayName",
+            type: "string",
+          },
+          {
+            internalType: "string",
+            name: "logoURI",
+            type: "string",
+          },
+          {
+            internalType: "uint8",
+            name: "decimals",
+            type: "uint8",
+          },
+          {
+            internalType: "address",
+            name: "issuer",
+            type: "address",
+          },
+          {
+            internalType: "bool",
+            name: "active",
+            type: "bool",
+          },
+        ],
+        internalType: "struct PointsSwap_FHE.Brand",
+        name: "",
+        type: "tuple",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "string",
+        name: "brandId",
+        type: "string",
+      },
+    ],
+    name: "getBrandSupply",
+    outputs: [
+      {
+        internalType: "euint64",
+        name: "",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "string",
+        name: "fromBrand",
+        type: "string",
+      },
+      {
+        internalType: "string",
+        name: "toBrand",
+        type: "string",
+      },
+    ],
+    name: "getExchangeRate",
+    outputs: [
+      {
+        internalType: "euint32",
+        name: "",
+        type: "bytes32",
+      },
+      {
+        internalType: "uint32",
+        name: "",
+        type: "uint32",
+      },
+      {
+        internalType: "uint8",
+        name: "",
+        type: "uint8",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "user",
+        type: "address",
+      },
+    ],
+    name: "getLastConversionResult",
+    outputs: [
+      {
+        internalType: "ebool",
+        name: "",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "offerId",
+        type: "uint256",
+      },
+    ],
+    name: "getOffer",
+    outputs: [
+      {
+        components: [
+          {
+            internalType: "address",
+            name: "maker",
+            type: "address",
+          },
+          {
+            internalType: "string",
+            name: "giveBrand",
+            type: "string",
+          },
+          {
+            internalType: "string",
+            name: "wantBrand",
+            type: "string",
+          },
+          {
+            internalType: "euint64",
+            name: "remaining",
+            type: "bytes32",
+          },
+          {
+            internalType: "uint32",
+            name: "price",
+            type: "uint32",
+          },
+          {
+            internalType: "uint8",
+            name: "priceDecimals",
+            type: "uint8",
+          },
+          {
+            internalType: "bool",
+            name: "open",
+            type: "bool",
+          },
+          {
+            internalType: "uint256",
+            name: "createdAt",
+            type: "uint256",
+          },
+        ],
+        internalType: "struct PointsSwap_FHE.Offer",
+        name: "",
+        type: "tuple",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "user",
+        type: "address",
+      },
+      {
+        internalType: "string",
+        name: "brandId",
+        type: "string",
+      },
+    ],
+    name: "getPointLots",
+    outputs: [
+      {
+        internalType: "euint64",
+        name: "current",
+        type: "bytes32",
+      },
+      {
+        internalType: "euint64",
+        name: "previous",
+        type: "bytes32",
+      },
+      {
+        internalType: "uint256",
+        name: "previousExpiresAt",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "currentExpiresAt",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "string",
+        name: "fromBrand",
+        type: "string",
+      },
+      {
+        internalType: "string",
+        name: "toBrand",
+        type: "string",
+      },
+    ],
+    name: "getRateAuction",
+    outputs: [
+      {
+        components: [
+          {
+            internalType: "uint8",
+            name: "decimals",
+            type: "uint8",
+          },
+          {
+            internalType: "uint256",
+            name: "endTime",
+            type: "uint256",
+          },
+          {
+            internalType: "euint32",
+            name: "bestBid",
+            type: "bytes32",
+          },
+          {
+            internalType: "uint32",
+            name: "bidCount",
+            type: "uint32",
+          },
+          {
+            internalType: "enum RateAuctions.AuctionStatus",
+            name: "status",
+            type: "uint8",
+          },
+        ],
+        internalType: "struct RateAuctions.RateAuction",
+        name: "",
+        type: "tuple",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "getSupportedBrands",
+    outputs: [
+      {
+        internalType: "string[]",
+        name: "",
+        type: "string[]",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "user",
+        type: "address",
+      },
+      {
+        internalType: "string",
+        name: "brandId",
+        type: "string",
+      },
+    ],
+    name: "getViewers",
+    outputs: [
+      {
+        internalType: "address[]",
+        name: "viewers",
+        type: "address[]",
+      },
+      {
+        internalType: "uint256[]",
+        name: "expiresAt",
+        type: "uint256[]",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "string",
+        name: "brandId",
+        type: "string",
+      },
+      {
+        internalType: "address",
+        name: "account",
+        type: "address",
+      },
+    ],
+    name: "grantBrandAdmin",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "bytes32",
+        name: "role",
+        type: "bytes32",
+      },
+      {
+        internalType: "address",
+        name: "account",
+        type: "address",
+      },
+    ],
+    name: "grantRole",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "viewer",
+        type: "address",
+      },
+      {
+        internalType: "string",
+        name: "brandId",
+        type: "string",
+      },
+      {
+        internalType: "uint256",
+        name: "expiresAt",
+        type: "uint256",
+      },
+    ],
+    name: "grantViewer",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "bytes32",
+        name: "role",
+        type: "bytes32",
+      },
+      {
+        internalType: "address",
+        name: "account",
+        type: "address",
+      },
+    ],
+    name: "hasRole",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "string",
+        name: "brandId",
+        type: "string",
+      },
+      {
+        internalType: "address",
+        name: "account",
+        type: "address",
+      },
+    ],
+    name: "isBrandAdmin",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "isContractAvailable",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "string",
+        name: "fromBrand",
+        type: "string",
+      },
+      {
+        internalType: "string",
+        name: "toBrand",
+        type: "string",
+      },
+    ],
+    name: "isPairPaused",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "string",
+        name: "brandId",
+        type: "string",
+      },
+      {
+        internalType: "address",
+        name: "to",
+        type: "address",
+      },
+      {
+        internalType: "externalEuint64",
+        name: "encryptedAmount",
+        type: "bytes32",
+      },
+      {
+        internalType: "bytes",
+        name: "amountProof",
+        type: "bytes",
+      },
+    ],
+    name: "mintPoints",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "string",
+        name: "brandId",
+        type: "string",
+      },
+      {
+        internalType: "address[]",
+        name: "recipients",
+        type: "address[]",
+      },
+      {
+        internalType: "externalEuint64[]",
+        name: "encryptedAmounts",
+        type: "bytes32[]",
+      },
+      {
+        internalType: "bytes",
+        name: "amountsProof",
+        type: "bytes",
+      },
+    ],
+    name: "mintPointsBatch",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "offerCount",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    name: "openOfferCount",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "string",
+        name: "fromBrand",
+        type: "string",
+      },
+      {
+        internalType: "string",
+        name: "toBrand",
+        type: "string",
+      },
+      {
+        internalType: "uint8",
+        name: "decimals",
+        type: "uint8",
+      },
+      {
+        internalType: "uint256",
+        name: "duration",
+        type: "uint256",
+      },
+    ],
+    name: "openRateAuction",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "owner",
+    outputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "paused",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "pendingOwner",
+    outputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "string",
+        name: "giveBrand",
+        type: "string",
+      },
+      {
+        internalType: "string",
+        name: "wantBrand",
+        type: "string",
+      },
+      {
+        internalType: "externalEuint64",
+        name: "encryptedAmount",
+        type: "bytes32",
+      },
+      {
+        internalType: "bytes",
+        name: "amountProof",
+        type: "bytes",
+      },
+      {
+        internalType: "uint32",
+        name: "price",
+        type: "uint32",
+      },
+      {
+        internalType: "uint8",
+        name: "priceDecimals",
+        type: "uint8",
+      },
+    ],
+    name: "postOffer",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "offerId",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "reactivateAccount",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "string",
+        name: "brandId",
+        type: "string",
+      },
+      {
+        internalType: "string",
+        name: "displayName",
+        type: "string",
+      },
+      {
+        internalType: "string",
+        name: "logoURI",
+        type: "string",
+      },
+      {
+        internalType: "uint8",
+        name: "decimals",
+        type: "uint8",
+      },
+      {
+        internalType: "address",
+        name: "issuer",
+        type: "address",
+      },
+    ],
+    name: "registerBrand",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "string",
+        name: "fromBrand",
+        type: "string",
+      },
+      {
+        internalType: "string",
+        name: "toBrand",
+        type: "string",
+      },
+      {
+        internalType: "bytes",
+        name: "abiEncodedRate",
+        type: "bytes",
+      },
+      {
+        internalType: "bytes",
+        name: "decryptionProof",
+        type: "bytes",
+      },
+    ],
+    name: "revealRateAuction",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "string",
+        name: "brandId",
+        type: "string",
+      },
+      {
+        internalType: "address",
+        name: "account",
+        type: "address",
+      },
+    ],
+    name: "revokeBrandAdmin",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "bytes32",
+        name: "role",
+        type: "bytes32",
+      },
+      {
+        internalType: "address",
+        name: "account",
+        type: "address",
+      },
+    ],
+    name: "revokeRole",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "viewer",
+        type: "address",
+      },
+      {
+        internalType: "string",
+        name: "brandId",
+        type: "string",
+      },
+    ],
+    name: "revokeViewer",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "string",
+        name: "brandId",
+        type: "string",
+      },
+      {
+        internalType: "bool",
+        name: "active",
+        type: "bool",
+      },
+    ],
+    name: "setBrandActive",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "string",
+        name: "fromBrand",
+        type: "string",
+      },
+      {
+        internalType: "string",
+        name: "toBrand",
+        type: "string",
+      },
+      {
+        internalType: "externalEuint32",
+        name: "encryptedRate",
+        type: "bytes32",
+      },
+      {
+        internalType: "bytes",
+        name: "rateProof",
+        type: "bytes",
+      },
+      {
+        internalType: "uint32",
+        name: "publicRate",
+        type: "uint32",
+      },
+      {
+        internalType: "uint8",
+        name: "decimals",
+        type: "uint8",
+      },
+    ],
+    name: "setExchangeRate",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "string",
+        name: "brandId",
+        type: "string",
+      },
+      {
+        internalType: "uint256",
+        name: "expiryPeriod",
+        type: "uint256",
+      },
+    ],
+    name: "setExpiryPolicy",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "string",
+        name: "fromBrand",
+        type: "string",
+      },
+      {
+        internalType: "string",
+        name: "toBrand",
+        type: "string",
+      },
+      {
+        internalType: "bool",
+        name: "isPaused",
+        type: "bool",
+      },
+    ],
+    name: "setPairPaused",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "bool",
+        name: "isPaused",
+        type: "bool",
+      },
+    ],
+    name: "setPaused",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "string",
+        name: "fromBrand",
+        type: "string",
+      },
+      {
+        internalType: "string",
+        name: "toBrand",
+        type: "string",
+      },
+      {
+        internalType: "externalEuint32",
+        name: "encryptedBid",
+        type: "bytes32",
+      },
+      {
+        internalType: "bytes",
+        name: "bidProof",
+        type: "bytes",
+      },
+    ],
+    name: "submitRateBid",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "newOwner",
+        type: "address",
+      },
+    ],
+    name: "transferOwnership",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "string",
+        name: "brandId",
+        type: "string",
+      },
+      {
+        internalType: "address",
+        name: "to",
+        type: "address",
+      },
+      {
+        internalType: "externalEuint64",
+        name: "encryptedAmount",
+        type: "bytes32",
+      },
+      {
+        internalType: "bytes",
+        name: "amountProof",
+        type: "bytes",
+      },
+    ],
+    name: "transferPoints",
+    outputs: [
+      {
+        internalType: "euint64",
+        name: "transferred",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "string",
+        name: "brandId",
+        type: "string",
+      },
+      {
+        internalType: "string",
+        name: "displayName",
+        type: "string",
+      },
+      {
+        internalType: "string",
+        name: "logoURI",
+        type: "string",
+      },
+    ],
+    name: "updateBrandMetadata",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint32",
+        name: "newPoints",
+        type: "uint32",
+      },
+    ],
+    name: "updatePublicPoints",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+] as const;
+
+const _bytecode =
+  "0x604060808152346200020b576200001562000243565b50466001036200011c576200002962000243565b50620000346200020f565b5f81525f60208201525f828201525b60018060a01b0382818351169260018060a01b0319937f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e46497009085825416179055826020820151167f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e464970190858254161790550151167f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e464970290828254161790553390601054161760105551335f7f8be0079c531659141344cd1fd0a4f28419497f9722a3daafe3b4186f6b6457e08180a3615abb9081620002608239f35b4662aa36a7036200018c576200013162000243565b506200013c6200020f565b73f0ffdc93b7e186bc2f8cb3daa75d86d1930a433d81527392c920834ec8941d2c77d188936e1f7a6f49c127602082015273be0e383937d564d7ff0bc3b46c51f0bf8d5c311a8282015262000043565b46617a6903620001fb57620001a062000243565b50620001ab6200020f565b7350157cffd6bbfa2dece204a89ec419c23ef5755d815273e3a9105a3a932253a70f126eb1e3b589c643dd24602082015273be0e383937d564d7ff0bc3b46c51f0bf8d5c311a8282015262000043565b516373cac13b60e01b8152600490fd5b5f80fd5b60405190606082016001600160401b038111838210176200022f57604052565b634e487b7160e01b5f52604160045260245ffd5b6200024d6200020f565b905f82525f60208301525f604083015256fe60806040526004361015610011575f80fd5b5f803560e01c80630e7d136e14613fe55780630f4cecce14613ebe5780631115c24d14613ea157806316824ff314613af957806316c38b3c14613a93578063180c7cad146139a75780631f7941e114613833578063234c73341461373b578063241e2c041461350d57806325d197b61461345f57806325eec632146134245780632ba67644146133fc5780632e4df5301461335c5780632f2ff15d146132d957806338869eae146131065780633f47f19614612ff257806343225acd14612fa05780634579268a14612e115780634912ade514612c985780634eaf824f14612c76578063504f49591461295d57806351888f36146128785780635bbf11b2146127b35780635c4a3c75146126ea5780635c975abb146126c75780635d2ea530146126ab5780635e5c06e2146126495780636c290ea1146125205780636f7eaf7a14612257578063740c83c91461223b57806375cd51ed146122175780637902e972146120e157806379ba50971461203e578063814d1ced14611fec578063882168df14611efc5780638927b03014611ed95780638da5cb5b14611eb057806391d1485414611e4c578063927883f814611e1a5780639f0a446114611b76578063a0d4dc321461176d578063a81d6a01146116c8578063ae53386f1461168f578063b9160c3014611654578063bdfe16f7146115f7578063c73eb392146112a6578063c7cea88314610fe6578063c8e7ce6b14610fc2578063ce6ded9c14610f31578063d547741f14610ebb578063dbcdab6e14610c02578063dd336b9414610809578063de371c1114610723578063e040e9a0146106b0578063e30c397814610687578063e57c8f3f14610648578063e63ab1e91461060d578063ed347d32146105d4578063ef706adf146104cb578063f2fde38b14610455578063fc7dffad146103fc5763ffe788dc146102c4575f80fd5b346103f9576020806003193601126103f5576004356001600160401b0381116103f15791816102f960a0943690600401614009565b9260806040516103088161416f565b60608152606085820152826040820152826060820152015261033261032d848361533d565b614495565b8260405193849283378101600581520301902090604051916103538361416f565b61035c81614754565b8352600261036c60018301614754565b91838501928352015490604084019260ff8316845260ff6103d6600180891b03936103c36060890194868860081c1686528460808b019860a81c16151588526040519a8b9a828c5251918b015260c08a0190614358565b9051888203601f190160408a0152614358565b94511660608601525116608084015251151560a08301520390f35b8280fd5b5080fd5b80fd5b50346103f95760203660031901126103f95760043563ffffffff81168091036104515761043061042b33614d2c565b614c77565b33825281602052604082209063ffffffff1982541617815560014291015580f35b5f80fd5b50346103f95760203660031901126103f95761046f614096565b6104776152f3565b6001600160a01b039081169061048e821515614701565b601180546001600160a01b03191683179055601054167f38d16b8cac22d99fc7c124b9cd0de2d3fa1faef420bfe791d8c362d765e227008380a380f35b50346103f95760203660031901126103f957600435808252600e6020526040822080546001600160a01b0316330361059d5760048101805461051260ff8260281c166148a8565b65ff000000000019169055338352600c6020526040832080548015610589575f1901905560038101546105519161054b90600101614754565b33615124565b61056261055c615943565b826154a3565b7fc28b4aed030bfacc245c0501326e1beb8c0ef0d60e4edc21067fdeb52da2a7aa8280a280f35b634e487b7160e01b85526011600452602485fd5b60405162461bcd60e51b815260206004820152600f60248201526e2737ba1037b33332b91036b0b5b2b960891b6044820152606490fd5b50346103f95760203660031901126103f9576020906040906001600160a01b036105fc614096565b168152600c83522054604051908152f35b50346103f957806003193601126103f95760206040517f539440820030c4994db4e31b6b800deafd503688728f932addfe7a410515c14c8152f35b50346103f95761068461067e610678610660366140ac565b6106718587999697989495986151dd565b36916141e2565b906156ab565b9261536c565b80f35b50346103f957806003193601126103f9576011546040516001600160a01b039091168152602090f35b50346103f957806003193601126103f9576106cd61042b33614d2c565b335f525f60205260405f2060028101600260ff19825416179055600142910155604051600281525f60208201527f43d9b23d9d9e207b1d79b80db873a81e8158cd6d42afd59e31bc40ab1ef4cac760403392a280f35b50346103f957806003193601126103f957601554610740816146b4565b9061074e60405192836141c1565b8082526015835260209283830191817f55f448fdea98c4d29eb340757ef0a66cd03dbb9538908a6a81d96026b71ec475845b8383106107e55750505050604051928484019085855251809152604084019460408260051b8601019392955b8287106107b95785850386f35b9091929382806107d5600193603f198a82030186528851614358565b96019201960195929190926107ac565b60018881926107f7859b9a989b614754565b81520192019201919096939596610780565b50346103f9576020806003193601126103f557610824614096565b9061083661083133614975565b6143fc565b338352600c81526040832054610bd0576001600160a01b0382811692908315801590819081610bb1575b6108699061443c565b610ba4575b3386526016845260408620865b8154811015610aad57610897610891828461473f565b50614754565b33895260018088526108ac60408b20836142d2565b546109c5575b338a52808852896108c660408220846142d2565b55338a52601788526108db60408b20836142d2565b60ff198154169055338a52600988526108f760408b20836142d2565b905f82555f818301555f60028301555f600380930155338b528a600a92838b52828b61092660408520886142d2565b9380925b610978575b5050505050506001929161094c91338c52895260408b20906142d2565b80548a82558061095f575b50500161087b565b610971918b52888b2090810190614592565b5f80610957565b84548310156109c0579185929161099a60408594338152600b8452208a6142d2565b908d6109a6848961473f565b905490881b1c165f52525f604081205501908e8d9161092a565b61092f565b6109cf8233614d50565b8580610a7f575b156109eb576109e6908389615124565b6108b2565b6109e690876002610a698c60405194610a2f895191610a29848c0193610a12818b87614265565b890198858160039b8c8152030190205480926154e0565b9061541f565b80968360405180928d51610a44818489614265565b82019081520301902055610a583087615a1a565b604051809381928b51928391614265565b81016005815203019020015460081c1690615a1a565b5060ff60026040518b818751610a988183858c01614265565b81016005815203019020015460a81c166109d6565b878688338352601682526040832080549084815581610b3b575b5050338352600282528260408120558282526040832063ffffffff198154169055335f525f825260405f2060028101600360ff1982541617905560014291015560405191600383528201527f43d9b23d9d9e207b1d79b80db873a81e8158cd6d42afd59e31bc40ab1ef4cac760403392a280f35b8452828420908101905b81811015610ac7578085610b5b6001935461455a565b80610b69575b505001610b45565b601f8082118514610b82575050505f81555b8587610b61565b610b9b90848452888420920160051c8201858301614592565b5f835555610b7b565b610bac614cf2565b61086e565b503386141580156108605750610869610bc985614d2c565b9050610860565b6064906040519062461bcd60e51b82526004820152600b60248201526a4f70656e206f666665727360a81b6044820152fd5b50346103f95760603660031901126103f957610c1c614096565b6024356001600160401b0381116103f157610c3b903690600401614009565b604492919235610c52610c4d33614d2c565b6143bd565b610c5f61032d838661533d565b6001600160a01b0383169384151580610eb1575b15610e7b5742821115610e4557338652602093600b8552610c9860408820858461447c565b865f52855260405f205415610d3e575b7fdfc3c230d67449c6c5d0f593768ddcd1bc6e7151aea342f4ce8be6161abdfea0939291610d2191338952600b8752610ce560408a20868461447c565b885f5287528360405f205533895260018752610d0560408a20868461447c565b549081610d2e575b5050604051936040855260408501916144d5565b938201528033930390a380f35b610d3791615a1a565b5f80610d0d565b338752600a85526008610d5560408920868561447c565b541015610e0d57338752600a8552610d7160408820858461447c565b805490600160401b821015610df95791610dda81610dbc84610d219660017fdfc3c230d67449c6c5d0f593768ddcd1bc6e7151aea342f4ce8be6161abdfea09b9a999701815561473f565b90919060018060a01b038084549260031b9316831b921b1916179055565b610dee610de83687856141e2565b33615612565b915091929350610ca8565b634e487b7160e01b89526041600452602489fd5b60405162461bcd60e51b815260048101869052601060248201526f546f6f206d616e79207669657765727360801b6044820152606490fd5b60405162461bcd60e51b815260206004820152600e60248201526d496e76616c69642065787069727960901b6044820152606490fd5b60405162461bcd60e51b815260206004820152600e60248201526d24b73b30b634b2103b34b2bbb2b960911b6044820152606490fd5b5033851415610c73565b50346103f95760403660031901126103f957600435610ed8614080565b610ee06152f3565b8183526012602052604083209060018060a01b031690815f5260205260405f2060ff19815416905533917ff6391f5c32d9c69d2a47ea670b442974b53935d1edc7fd64eb21e047a839171b8480a480f35b50346103f9577fc7218b27c4a434744f8826f75f6f63ee107c59b14990d955acd0fc2b095c60f5610f61366142f8565b929190610f6e818361525d565b6040518183823760208183810160068152030190209360018060a01b031693845f5260205260405f2060ff198154169055610fb66040519283926040845260408401916144d5565b8560208301520390a280f35b50346103f9576020610fdc610fd6366142f8565b91614c0c565b6040519015158152f35b50346103f95760803660031901126103f9576001600160401b036004358181116103f157611018903690600401614009565b906024358381116112a257611031903690600401614009565b60449491943582811161129e5761104c903690600401614009565b959060643593841161128757602061106b6110ca953690600401614009565b9290986110dc61107d87878c8c614cb8565b9a611096858d8160405193828580945193849201614265565b8101600d81520301902095604051998a958695631f3afdcb60e31b87528960048801526060602488015260648701916144d5565b848103600319016044860152916144d5565b038173__$401bee508cc43c614b808a0f0b3c0f2a72$__5af493841561129357889461122a575b50907f899bd8f2cb992559648ca89e02975772d181be8962c79bfbb46c2c584afc2edd9661114d94939263ffffffff918286169182611153575b50505050604051958695866144f5565b0390a180f35b7f8b9e3478f7212b51fce468ea1d5fc7c4a93e3b12523f5d72dd73f8822fddce5793600260ff9361120761121e96868487015495818854169060405197611199896141a6565b885260208801938452604088019182526111c9602060608a01974289528160405193828580945193849201614265565b81016004815203019020975188556001880193511663ffffffff19845416178355511664ff0000000082549160201b169064ff000000001916179055565b5191015554166040519182918787878d8d87614bcc565b0390a15f80808061113d565b90929193506020813d60201161128b575b81611248602093836141c1565b8101031261128757519263ffffffff841684036112875790917f899bd8f2cb992559648ca89e02975772d181be8962c79bfbb46c2c584afc2edd611103565b8780fd5b3d915061123b565b6040513d8a823e3d90fd5b8680fd5b8480fd5b50346103f95760c03660031901126103f9576001600160401b03906004358281116103f5576112d9903690600401614009565b9190926024358181116103f1576112f4903690600401614009565b916064359081116115f35761130d903690600401614009565b61131896919661410a565b9661132161437d565b9161132a614cf2565b611336610c4d33614d2c565b60ff60026040518a87823760058b8201526020818c810103019020015460a81c16806115c9575b61136690614495565b611394611374368a876141e2565b602081519101206113863689896141e2565b6020815191012014156147f4565b63ffffffff891615611594576113b060ff84166009101561482d565b36906113bb926141e2565b6113c7906044356156ab565b6113d23688856141e2565b6113dc9033614d50565b6113e69082614e8a565b906113ef615943565b906113f992614f3d565b966114053688856141e2565b8833916114119261504e565b600f54978896611420886146df565b600f55338152600c60205260408120805461143a906146df565b9055876040519161144a8361418a565b338352611458368c896141e2565b602084019081529061146b368b8b6141e2565b916040850192835260608501868152608086019363ffffffff8916855260a087019260ff8b16845260c08801946001865260e08901974289528152600e6020526040902097600160a01b600190039051166bffffffffffffffffffffffff60a01b8954161788555160018801906114e191614b0f565b516114ef9060028801614b0f565b5160038601559151600485018054935164ff0000000060209190911b1663ffffffff90921664ffffffffff199094169390931717825551151581549060281b65ff0000000000169065ff0000000000191617905551906005015561155390876154a3565b60405194859433986115659587614bcc565b037f123d8c8c9fc95ffabc71653eaebb3270b7232bee46bd6984820ab72240868f7f91a3604051908152602090f35b60405162461bcd60e51b815260206004820152600d60248201526c496e76616c696420707269636560981b6044820152606490fd5b5061136660ff6002604051898982376020818b81016005815203019020015460a81c16905061135d565b8380fd5b50346103f95761163d63ffffffff604080936116123661411d565b959161162061083182614975565b6001600160a01b031680845260016020528484209096909161447c565b549381528060205220541682519182526020820152f35b50346103f957806003193601126103f95760206040517fba6bbf159bb1bc79920cb4f4387e71e2ba4b0f17c92fb263a1a6bdfd128b41938152f35b50346103f95760203660031901126103f9576020906040906001600160a01b036116b7614096565b168152600283522054604051908152f35b50346103f9576116fb60206116e86116df36614036565b92919091614cb8565b8160405193828580945193849201614265565b8101600481520301902060018101549063ffffffff82169081156117375760609260ff915492604051938452602084015260201c166040820152f35b60405162461bcd60e51b815260206004820152600e60248201526d14985d19481b9bdd08199bdd5b9960921b6044820152606490fd5b50346103f95760c03660031901126103f9576001600160401b036004358181116103f15761179f903690600401614009565b906024928335818111611b72576117ba903690600401614009565b949060443591606435848111611b6e576117d8903690600401614009565b9390946117e361410a565b946117ec61437d565b966117fa61032d8c8861533d565b61180333614a0d565b8015611b37575b8015611b26575b15611af05761182361032d8b8b61533d565b61182e368b8b6141e2565b936118548c61184787516020809901209136908b6141e2565b87815191012014156147f4565b60ff891691611866600984111561482d565b61187a6118743686846141e2565b836157a0565b15611ab357916118a986926118a38f958f8f978d61189b926119749a614cb8565b9736916141e2565b906157a0565b93604051946118b7866141a6565b855282850194600263ffffffff96878d16815260408301948552611938606084019142835260ff60405197888a81816118f78c8051928391019e8f614265565b810160048152030190209651875560019b6001880193511663ffffffff19845416178355511664ff0000000082549160201b169064ff000000001916179055565b5191015561196360405184818451611951818389614265565b81016004815203019020543090615a1a565b604051938492839251928391614265565b81016004815203019020549160405190604082019082821090821117611aa057604052600181528381019284368537815115611a8d5783525f80516020615a8f833981519152546001600160a01b031693843b15611a895790918c9594939260405195637d6e912360e11b875286019083600488015251809152604486019392875b828110611a735750505050508391838381809403925af18015611a6857611a4e575b5050907f8b9e3478f7212b51fce468ea1d5fc7c4a93e3b12523f5d72dd73f8822fddce579561114d939260405196879687614bcc565b611a5b909493929461415c565b61129e579091865f611a18565b6040513d84823e3d90fd5b845186528f9850948101949381019383016119f6565b8c80fd5b85634e487b7160e01b5f5260326004525ffd5b85634e487b7160e01b5f5260416004525ffd5b60405162461bcd60e51b81526004810187905260168189015275496e76616c696420656e63727970746564207261746560501b6044820152606490fd5b60405162461bcd60e51b815260206004820152600f818701526e2737ba10313930b7321030b236b4b760891b6044820152606490fd5b50611b32338c88614c0c565b611811565b50335f9081527fbcb6dacffa8991dbf22bb4d7f6eb35596d41c7b8e725cc1763778fc913a6d301602052604090205460ff1661180a565b8880fd5b8580fd5b50346103f95760a03660031901126103f9576001600160401b036004358181116103f157611ba8903690600401614009565b906024358381116112a257611bc1903690600401614009565b93604435908111611b7257611bda903690600401614009565b9190946064359160ff8316809303610451576084356001600160a01b038116979088900361045157611c0a6152f3565b8615611de257611c1a878761533d565b611d9d57611ce794611c41611c4a93611c348b1515614701565b604051956106718761416f565b845236916141e2565b90602081019182526040810192835260ff60026060830192898452611c9d608082019560018752611c938b60208c82604051938492833781016005815203019020935184614b0f565b5160018301614b0f565b01935116835491610100600160a81b03905160081b16916affffffffffffffffffffff60a81b161717825551151581549060ff60a81b90151560a81b169060ff60a81b1916179055565b60155491600160401b831015611d89576001830180601555831015611d7557611d5881837fb635fdbd151af94ba6465b83804acb833a999c31928d5dee619dbaa8f4d1affe9560155f527f55f448fdea98c4d29eb340757ef0a66cd03dbb9538908a6a81d96026b71ec475016145ed565b611d6f6040519283926020845260208401916144d5565b0390a280f35b634e487b7160e01b5f52603260045260245ffd5b634e487b7160e01b85526041600452602485fd5b60405162461bcd60e51b815260206004820152601760248201527f4272616e6420616c726561647920737570706f727465640000000000000000006044820152606490fd5b60405162461bcd60e51b815260206004820152601060248201526f125b9d985b1a5908189c985b99081a5960821b6044820152606490fd5b50346103f9576080611e34611e2e3661411d565b91614a5f565b91604051938452602084015260408301526060820152f35b50346103f95760403660031901126103f957611e66614080565b6010546001600160a01b03918216911681148015611e8c575b6020906040519015158152f35b506004355f52601260205260405f20905f52602052602060ff60405f205416611e7f565b50346103f957806003193601126103f9576010546040516001600160a01b039091168152602090f35b50346103f957806003193601126103f9576020611ef46155e3565b604051908152f35b50346103f957611f857f55907fdff0c232aaeee267a2643dbcb91d41d5127d71fb7c2a3f528ab55a7147611f59610678611fcc611fba611f3b366140ac565b611f4d85879b969d979a94959a6151dd565b6106716108318a614975565b611f76611f70611f6a368b8a6141e2565b87614d50565b82614e8a565b90611f7f615943565b91614f3d565b611f9a81611f94368a896141e2565b8661504e565b610a29604051888782376020818a810160038152030190205480926154e0565b3390611fc73688876141e2565b615564565b611d6f6040519283926020845260018060a01b03169560208401916144d5565b50346103f95760203660031901126103f957600435906001600160401b0382116103f9576020806120203660048601614009565b91908260405193849283378101600381520301902054604051908152f35b50346103f957806003193601126103f9576011546001600160a01b039081811633036120a85760105491339083167f8be0079c531659141344cd1fd0a4f28419497f9722a3daafe3b4186f6b6457e08580a36001600160a01b031991821633176010551660115580f35b60405162461bcd60e51b81526020600482015260116024820152702737ba103832b73234b7339037bbb732b960791b6044820152606490fd5b50346103f95760803660031901126103f9576001600160401b03816004358281116103f557612114903690600401614009565b6024939193358281116115f35761212f903690600401614009565b9390926064359081116103f55761214a903690600401614009565b9061215586866151dd565b73__$401bee508cc43c614b808a0f0b3c0f2a72$__9061217f61217a8888888c614cb8565b6142ac565b91803b156112a2576121bf938593604051958694859384936305b5836b60e41b8552600485015260443560248501526060604485015260648401916144d5565b03915af48015611a6857612203575b5050611d6f7f59f8c390f0931f1487dacc39b7e423bfa77f9729512de50a45408323eb71161993604051938493339785614871565b61220c9061415c565b6112a257845f6121ce565b50346103f95760203660031901126103f9576020610fdc612236614096565b614975565b50346103f957806003193601126103f957602060405160098152f35b50346103f95760603660031901126103f957600435906044356001600160401b0381116103f55761228c903690600401614009565b9290612296614cf2565b818352602093600e8552604084209060048201906122ba60ff835460281c166148a8565b82546001600160a01b03949085163381146124e3576122e4906122df610c4d33614d2c565b614d2c565b156124ad5761231761231f91600186019360ff6002612302876148e5565b015460a81c168061248d575b61067190614495565b6024356156ab565b6003840192835490549060ff600287019261234261233c85614754565b33614d50565b9260405195639348052d60e01b87526004870152602486015263ffffffff811660448601528b1c166064840152608483015260408260a48173__$e442c25ec072891c00bcb88f00d28df854$__5af491821561129357888093612443575b505061240f9594936123e78961054b6123f3966123e287876123cf6123ed9a6123c9889b614754565b3361504e565b6123dc8d8d541691614754565b90615124565b614754565b5461541f565b856154a3565b6123fd3086615a1a565b6124073386615a1a565b541683615a1a565b604051908282527f51769fd9a85354b258ec948349ddd93641235bd99fb9948cd016474107ff6322843393a3604051908152f35b9195969798509291506040833d604011612485575b81612465604093836141c1565b810103126103f957508151918801519196959493909190836123e76123a0565b3d9150612458565b5061067160ff60026124a0818b016148e5565b015460a81c16905061230e565b60405162461bcd60e51b815260048101899052600e60248201526d4d616b657220696e61637469766560901b6044820152606490fd5b60405162461bcd60e51b8152600481018a9052601560248201527421b0b73737ba103334b6361037bbb71037b33332b960591b6044820152606490fd5b50346103f95760803660031901126103f9576001600160401b036004358181116103f157612552903690600401614009565b6024929192358281116112a25761256d90369060040161438d565b60449391933582811161129e5761258890369060040161438d565b9092606435908111611287576125a2903690600401614009565b9390926125af86896151dd565b82810361261257885b8181106125c3578980f35b6125ce81838a614898565b35906001600160a01b038216820361260e576126086001926126006125f4848989614898565b35610678368c8c6141e2565b908a8d61536c565b016125b8565b8a80fd5b60405162461bcd60e51b815260206004820152600f60248201526e098cadccee8d040dad2e6dac2e8c6d608b1b6044820152606490fd5b50346103f95760203660031901126103f9576060906040906001600160a01b03612671614096565b168152806020522063ffffffff8154169060ff60026001830154920154169060405192835260208301526126a48161433a565b6040820152f35b50346103f957806003193601126103f957602060405160088152f35b50346103f957806003193601126103f957602060ff601354166040519015158152f35b50346103f95760403660031901126103f9576004356001600160401b0381116103f55761271b903690600401614009565b9060243591821515808403610451576127907f79903a2d2eda975f7e4a8f740f52f4b0403c102985bd6671519117bca5a8ff8694612759848661525d565b6002604051858782376005868201908152819003602001902001805460ff60a81b191691151560a81b60ff60a81b16919091179055565b6127a76040519384936040855260408501916144d5565b9060208301520390a180f35b50346103f957806003193601126103f95733815280602052600260ff81604084200154166127e08161433a565b0361283b57335f525f60205260405f2060028101600160ff19825416179055600142910155604051600181525f60208201527f43d9b23d9d9e207b1d79b80db873a81e8158cd6d42afd59e31bc40ab1ef4cac760403392a280f35b60405162461bcd60e51b81526020600482015260156024820152741058d8dbdd5b9d081b9bdd081cdd5cdc195b991959605a1b6044820152606490fd5b50346103f95760603660031901126103f9576001600160401b036004358181116103f1576128aa903690600401614009565b916024359081116115f3576128c3903690600401614009565b60449391933590811515809203610451577f7ed45676bc1ebad602e2bbebdaa3af08cfd61075a337289ad73808898cc34b2f946129519161290b612906336149bb565b61451f565b61291f61291a8284888a614cb8565b614286565b60ff1981541660ff86161790556129436040519687966060885260608801916144d5565b9185830360208701526144d5565b9060408301520390a180f35b50346103f95760803660031901126103f9576001600160401b036004358181116103f15761298f903690600401614009565b90916024358181116112a2576129a9903690600401614009565b929091606435908111611b72576129ca6106716129d2923690600401614009565b6044356156ab565b6129da614cf2565b6129e6610c4d33614d2c565b6040518286823760ff60028285810160058152602094859103019020015460a81c1680612c4d575b612a1790614495565b612a2385858589614cb8565b6040519060ff815192848181850195612a3d818389614265565b810160148152030190205416612c1a57612a64918391604051938492839251928391614265565b8101600481520301902060018101549063ffffffff821615612bdd5760ff905491612a9361233c36888c6141e2565b926040519563401c92fd60e01b875260048701526024860152831c166044840152606483015260608260848173__$e442c25ec072891c00bcb88f00d28df854$__5af48015612bd25787928789918a93612b69575b507fc562277a9c0e0947f910a1553bfc45068533e3e47bfa95e8a34d51c2a1dfe6009793612b34612b5b94612b29611d6f98956123c96002968c36916141e2565b61054b36888c6141e2565b338b528a815242600160408d200155528060408a2055612b543082615a1a565b3390615a1a565b604051938493339785614871565b9450505050936060823d606011612bca575b81612b88606093836141c1565b8101031261129e5781518583015160409093015191959092909190877fc562277a9c0e0947f910a1553bfc45068533e3e47bfa95e8a34d51c2a1dfe600612ae8565b3d9150612b7b565b6040513d89823e3d90fd5b60405162461bcd60e51b8152600481018490526015602482015274115e18da185b99d9481c985d19481b9bdd081cd95d605a1b6044820152606490fd5b60405162461bcd60e51b815260048101849052600b60248201526a14185a5c881c185d5cd95960aa1b6044820152606490fd5b50612a1760ff60026040518888823784818a81016005815203019020015460a81c169050612a0e565b50346103f957806003193601126103f957602060ff6013541615604051908152f35b50346103f95760803660031901126103f9576001600160401b036004358181116103f157612cca903690600401614009565b916024359081116115f357612ce3903690600401614009565b6044939193359060ff821680920361045157612cff81866151dd565b612d0c61032d848661533d565b612d2c612d1a3685876141e2565b602081519101206113863684896141e2565b612d39600983111561482d565b612d4861217a82878688614cb8565b8673__$401bee508cc43c614b808a0f0b3c0f2a72$__803b156103f5578160649160405192838092631b304da560e21b8252876004830152896024830152823560448301525af48015611a6857612dfd575b50507f561342af454a949f918eddea991b9d77aedc47ecee5bf32e74df88769c890812956001612dec92015492612dde6040519788976080895260808901916144d5565b9186830360208801526144d5565b91604084015260608301520390a180f35b612e069061415c565b61129e57865f612d9a565b50346103f957602090816003193601126103f9576004358160e0604051612e378161418a565b828152606086820152606060408201528260608201528260808201528260a08201528260c08201520152600f54811015612f6957906040918152600e83522060405190612e838261418a565b80546001600160a01b03908116835291604090612ea260018401614754565b85820190815260ff86612eb760028701614754565b9585850196875284612f4360038301549860608301998a52612f30600485015497600563ffffffff96898b60a060808a01998b83168b52019a1c1689528960c08d019b60281c1615158b5201549960e081019a8b528b519e8f9e8f928284525116910152518c6101009b8c9101526101208d0190614358565b90518b8203601f190160608d0152614358565b975160808a0152511660a0880152511660c086015251151560e085015251908301520390f35b60405162461bcd60e51b815260048101849052600f60248201526e13d999995c881b9bdd08199bdd5b99608a1b6044820152606490fd5b50346103f9576080612fb660206116e836614227565b8101600481520301902080549060ff600260018301549201549160405193845263ffffffff8116602085015260201c1660408301526060820152f35b50346103f95761217a6130369161300836614036565b93608060409492945161301a8161416f565b8281528260208201528260408201528260608201520152614cb8565b600381015460ff8160201c1661304b8161433a565b80156130cd5760a092604051926130618461416f565b60ff825416845260026001830154926020860193845201546040850190815263ffffffff92836060870193168352608086019461309d8161433a565b855260ff604051965116865251602086015251604085015251166060830152516130c68161433a565b6080820152f35b60405162461bcd60e51b8152602060048201526011602482015270105d58dd1a5bdb881b9bdd08199bdd5b99607a1b6044820152606490fd5b50346103f9576131153661411d565b92903382526020600b815261312e60408420868461447c565b9160018060a01b0380951692835f52825260405f2054156132a157338452600b825261315e60408520878361447c565b835f5282525f6040812055338452600a825261317e60408520878361447c565b95845b875480821015613271578786613197848c61473f565b929054600393841b1c16146131b0575050600101613181565b9293949596979098915f19998a810190811161325d5790610dbc836131d86131e6948761473f565b905490881b1c16918561473f565b8154988915613249577f5a0181e3998be8c9a58b1012c3b7f82d4218872c17a79810d9c2cefb34618f40969798990192613220848461473f565b81939154921b1b19169055555b61324360405192839286845233968401916144d5565b0390a380f35b634e487b7160e01b89526031600452602489fd5b634e487b7160e01b8a52601160045260248afd5b505090919395507f5a0181e3998be8c9a58b1012c3b7f82d4218872c17a79810d9c2cefb34618f4092945061322d565b60405162461bcd60e51b815260048101839052601060248201526f159a595dd95c881b9bdd08199bdd5b9960821b6044820152606490fd5b50346103f95760403660031901126103f9576004356132f6614080565b6132fe6152f3565b6001600160a01b0316613312811515614701565b818352601260205260408320815f5260205260405f20600160ff1982541617905533917f2f8788117e7eff1d82e926ec794901d17c78024a50270940304540a733656f0d8480a480f35b50346103f9577fc7218b27c4a434744f8826f75f6f63ee107c59b14990d955acd0fc2b095c60f561338c366142f8565b613399828493959461525d565b6001600160a01b0316926133ae841515614701565b604051818382376020818381016006815203019020845f5260205260405f20600160ff198254161790556133ef6040519283926040845260408401916144d5565b600160208301520390a280f35b50346103f9576020613411816116e836614227565b8101600781520301902054604051908152f35b50346103f957806003193601126103f95760206040517f1f0a54a15b3690c374b468e4ec118557456ede22a7c19808f458346e3fd62dc58152f35b50346103f95760403660031901126103f9576004356001600160401b0381116103f5576134b17f70cb6e37a1d1924ba060c7175f762742a9467a05d4c42b52f87195f727e912dc913690600401614009565b6024356134be828461525d565b80604051838582376020818581016007815203019020556040518284823760208184810160088152030190206134f481546146df565b90556127a76040519384936040855260408501916144d5565b50346103f95760803660031901126103f9576001600160401b036004358181116103f15761353f903690600401614009565b6044929192358281116112a25761355a903690600401614009565b93906064359163ffffffff918284168094036104515733885260209688885260ff600260408b2001541661358d8161433a565b8015908115613727575b50156136e9576135cb916123179161067160ff60026040518b8982378d818d81016005815203019020015460a81c16614495565b80156136a4576040519060608201968288109088111761369057876002613671938b613683977f5c4c8dbe757902772b4f314bd654b53b2a2d393853f2d2770e0d539bef86ce809b604052898352604085840192428452808286019760018952338252522092511663ffffffff198354161782555160018201550190516136518161433a565b61365a8161433a565b60ff8019835416911617905561054b3687856141e2565b604051936040855260408501916144d5565b938201528033930390a280f35b634e487b7160e01b5f52604160045260245ffd5b60405162461bcd60e51b815260048101889052601760248201527f496e76616c696420656e6372797074656420696e7075740000000000000000006044820152606490fd5b60405162461bcd60e51b81526004810189905260166024820152754163636f756e7420616c72656164792065786973747360501b6044820152606490fd5b600391506137348161433a565b145f613597565b50346104515761374a36614036565b61375d61217a8284868897969998614cb8565b9073__$401bee508cc43c614b808a0f0b3c0f2a72$__803b15610451575f60249160405192838092631807bb8560e21b82528760048301525af48015613828576137f1575b50612dec7f1581ad196d8f305cdc65da03ce3771f40fdd3f37b8ab187499f3ed9d63187459959663ffffffff600360028601549501541692612dde6040519788976080895260808901916144d5565b7f1581ad196d8f305cdc65da03ce3771f40fdd3f37b8ab187499f3ed9d63187459955061381d9061415c565b612dec5f95506137a2565b6040513d5f823e3d90fd5b34610451576138413661411d565b60018060a01b0380931690815f526020600a815261386360405f20838661447c565b93604051928384848854928381520180985f52855f20925f5b8782821061398f57505050613893925003856141c1565b8351946138b86138a2876146b4565b966138b060405198896141c1565b8088526146b4565b86850190601f19013682375f5b865181101561390d57600190835f52600b87526138e660405f20868861447c565b8b6138f1838b6146cb565b51165f52875260405f2054613906828b6146cb565b52016138c5565b898783888c8c604051958695604087019060408852518091526060870193915f905b8282106139725750505050848203858401525180825290820192915f5b82811061395b57505050500390f35b83518552869550938101939281019260010161394c565b83518116865289985094860194928601926001919091019061392f565b85548d1684526001958601958a95509301920161387c565b34610451576060366003190112610451576001600160401b03600435818111610451576139d8903690600401614009565b602435838111610451576139f0903690600401614009565b604494919435918211610451577f821fc6528b24cd382c20fb691b0f5bfff35ba9671b886bc1602f12752ba9730694613a5a613a33613a77943690600401614009565b939092613a4087896151dd565b6040518789823760208189810160058152030190206145ed565b6001604051858782376020818781016005815203019020016145ed565b613a8e6040519283926020845260208401916144d5565b0390a1005b34610451576020366003190112610451576004358015158091036104515760207f8fb6c181ee25a520cf3dd6565006ef91229fcfe5a989566c2a3b8c115570cec591613ae1612906336149bb565b60ff196013541660ff821617601355604051908152a1005b34610451576060366003190112610451576001600160401b0360043581811161045157613b2a903690600401614009565b9091602490813590811161045157613b46903690600401614009565b929091604480359163ffffffff9182841692838503610451578315613e6d57905f929160018060a01b035f80516020615a6f833981519152541660405195639cd07acb60e01b8752600487015260058487015285838160209788945af1948515613828575f95613e3e575b50613bba614cf2565b613bc6610c4d33614d2c565b60ff6002604051898d823786818b81016005815203019020015460a81c1680613e13575b613bf390614495565b613bff8989898d614cb8565b6040519060ff815192878181850195613c19818389614265565b810160148152030190205416613de257613c40918691604051938492839251928391614265565b81016004815203019020600181015491821615613da7575460ff9190613c6a61233c368b8f6141e2565b946040519763401c92fd60e01b89526004890152870152841c1690840152606483015260608260848173__$e442c25ec072891c00bcb88f00d28df854$__5af48015613828575f92885f915f93613d3c575b507f6a6be8f358901c61bba7162a8be0a134ecf5c9d476b3ba2085989ecd8454e6029893613d09613d2994613cfe613d379998956123c96002968d36916141e2565b61054b36888d6141e2565b335f525f815242600160405f200155528060405f2055612b543082615a1a565b6040519485943398866144f5565b0390a2005b959450505050946060833d606011613d9f575b81613d5c606093836141c1565b81010312610451578251868401516040909401519196929390929190887f6a6be8f358901c61bba7162a8be0a134ecf5c9d476b3ba2085989ecd8454e602613cbc565b3d9150613d4f565b60405162461bcd60e51b81526004810186905260158186015274115e18da185b99d9481c985d19481b9bdd081cd95d605a1b81850152606490fd5b60405162461bcd60e51b815260048101879052600b818701526a14185a5c881c185d5cd95960aa1b81860152606490fd5b50613bf360ff60028b878c82604051938492833781016005815203019020015460a81c169050613bea565b9094508381813d8311613e66575b613e5681836141c1565b810103126104515751938a613bb1565b503d613e4c565b60405162461bcd60e51b815260206004820152600e818501526d125b9d985b1a5908185b5bdd5b9d60921b81840152606490fd5b34610451575f366003190112610451576020600f54604051908152f35b34610451576020610678613671613f667fff8506e0976393dad8798f9c5af38ae1c1cf309c1ebd59a67ed21ee99d2d5885613fd1613f77613efe366140ac565b9994959398929a90613f0e614cf2565b613f1a610c4d33614d2c565b613f266108318d614d2c565b6001600160a01b038c169a613f3d338d141561443c565b61067160ff8f8d6002918c82604051938492833781016005815203019020015460a81c16614495565b611f76611f7061233c368a886141e2565b96613f87886123c93689876141e2565b613f9c88613f963689876141e2565b83615124565b335f525f895242600160405f200155865f5242600160405f200155613fc13089615a1a565b613fcb3389615a1a565b87615a1a565b9184868201528033930390a3604051908152f35b3461045157602060ff613ffd61291a6116df36614036565b54166040519015158152f35b9181601f84011215610451578235916001600160401b038311610451576020838186019501011161045157565b6040600319820112610451576001600160401b0391600435838111610451578261406291600401614009565b939093926024359182116104515761407c91600401614009565b9091565b602435906001600160a01b038216820361045157565b600435906001600160a01b038216820361045157565b906080600319830112610451576001600160401b0360043581811161045157836140d891600401614009565b909390926024356001600160a01b03811681036104515792604435926064359182116104515761407c91600401614009565b6084359063ffffffff8216820361045157565b906040600319830112610451576004356001600160a01b03811681036104515791602435906001600160401b0382116104515761407c91600401614009565b6001600160401b03811161369057604052565b60a081019081106001600160401b0382111761369057604052565b61010081019081106001600160401b0382111761369057604052565b608081019081106001600160401b0382111761369057604052565b90601f801991011681019081106001600160401b0382111761369057604052565b9291926001600160401b038211613690576040519161420b601f8201601f1916602001846141c1565b829481845281830111610451578281602093845f960137010152565b602060031982011261045157600435906001600160401b038211610451578060238301121561045157816024614262936004013591016141e2565b90565b5f5b8381106142765750505f910152565b8181015183820152602001614267565b602061429f918160405193828580945193849201614265565b8101601481520301902090565b60206142c5918160405193828580945193849201614265565b8101600d81520301902090565b6020906142ec928260405194838680955193849201614265565b82019081520301902090565b604060031982011261045157600435906001600160401b0382116104515761432291600401614009565b90916024356001600160a01b03811681036104515790565b6004111561434457565b634e487b7160e01b5f52602160045260245ffd5b9060209161437181518092818552858086019101614265565b601f01601f1916010190565b60a4359060ff8216820361045157565b9181601f84011215610451578235916001600160401b038311610451576020808501948460051b01011161045157565b156143c457565b60405162461bcd60e51b815260206004820152601060248201526f4163636f756e7420696e61637469766560801b6044820152606490fd5b1561440357565b60405162461bcd60e51b81526020600482015260116024820152701058d8dbdd5b9d081b9bdd08199bdd5b99607a1b6044820152606490fd5b1561444357565b60405162461bcd60e51b8152602060048201526011602482015270125b9d985b1a59081c9958da5c1a595b9d607a1b6044820152606490fd5b6020919283604051948593843782019081520301902090565b1561449c57565b60405162461bcd60e51b8152602060048201526011602482015270155b9cdd5c1c1bdc9d195908189c985b99607a1b6044820152606490fd5b908060209392818452848401375f828201840152601f01601f1916010190565b9392604093612dde6145189363ffffffff959998996060895260608901916144d5565b9416910152565b1561452657565b60405162461bcd60e51b815260206004820152600c60248201526b4d697373696e6720726f6c6560a01b6044820152606490fd5b90600182811c92168015614588575b602083101461457457565b634e487b7160e01b5f52602260045260245ffd5b91607f1691614569565b81811061459d575050565b5f8155600101614592565b9190601f81116145b757505050565b6145e1925f5260205f20906020601f840160051c830193106145e3575b601f0160051c0190614592565b565b90915081906145d4565b9092916001600160401b038111613690576146128161460c845461455a565b846145a8565b5f601f82116001146146505781906146419394955f92614645575b50508160011b915f199060031b1c19161790565b9055565b013590505f8061462d565b601f19821694835f5260209160205f20925f905b88821061469c57505083600195969710614683575b505050811b019055565b01355f19600384901b60f8161c191690555f8080614679565b80600184968294958701358155019501920190614664565b6001600160401b0381116136905760051b60200190565b8051821015611d755760209160051b010190565b5f1981146146ed5760010190565b634e487b7160e01b5f52601160045260245ffd5b1561470857565b60405162461bcd60e51b815260206004820152600f60248201526e496e76616c6964206164647265737360881b6044820152606490fd5b8054821015611d75575f5260205f2001905f90565b9060405191825f82546147668161455a565b908184526020946001916001811690815f146147d25750600114614794575b5050506145e1925003836141c1565b5f90815285812095935091905b8183106147ba5750506145e193508201015f8080614785565b855488840185015294850194879450918301916147a1565b925050506145e194925060ff191682840152151560051b8201015f8080614785565b156147fb57565b60405162461bcd60e51b815260206004820152600a60248201526914d85b5948189c985b9960b21b6044820152606490fd5b1561483457565b60405162461bcd60e51b8152602060048201526015602482015274496e76616c6964207261746520646563696d616c7360581b6044820152606490fd5b929061488a9061426295936040865260408601916144d5565b9260208185039101526144d5565b9190811015611d755760051b0190565b156148af57565b60405162461bcd60e51b815260206004820152600e60248201526d27b33332b9103737ba1037b832b760911b6044820152606490fd5b60405190815f82546148f68161455a565b93600191808316908115614959575060011461491e575b505060209250600581520301902090565b9091505f5260209060205f20905f915b858310614945575050505060209181015f8061490d565b80548784015286945091830191810161492e565b92505050602093915060ff191682528015150281015f8061490d565b6001600160a01b03165f9081526020819052604090206002015460ff1661499b8161433a565b600181149081156149aa575090565b600291506149b78161433a565b1490565b6010546001600160a01b03918216911681149081156149d8575090565b5f9081527f0f6519a0b1602ab63686b5a28855e013d4a99ad22258a5772dc85983a8aaf27f602052604090205460ff16919050565b6010546001600160a01b0391821691168114908115614a2a575090565b5f9081527f59b1bd9f10426f16a59805d12aee4eddbc44e347c6a0a835df838b64716abb7a602052604090205460ff16919050565b6001600160a01b03165f90815260096020526040902091929091614a8490848461447c565b9060405184848237602081868101600781520301902054936002830154938415918215614b06575b8215614ade575b5050614ad15760018254920154938301918284116146ed5793929190565b5f93508392508291508190565b9091506020600385015492826040519384928337810160088152030190205414155f80614ab3565b86159250614aac565b91909182516001600160401b03811161369057614b308161460c845461455a565b602080601f8311600114614b6c575081906146419394955f92614b615750508160011b915f199060031b1c19161790565b015190505f8061462d565b90601f19831695845f5260205f20925f905b888210614bb457505083600195969710614b9c57505050811b019055565b01515f1960f88460031b161c191690555f8080614679565b80600185968294968601518155019501930190614b7e565b9496959160ff93606095614bf163ffffffff94614bff9460808b5260808b01916144d5565b9188830360208a01526144d5565b9616604085015216910152565b91906040518184823781810160058152600282602060018060a01b0394859403019020015460081c169216918214928315614c48575b50505090565b81602092939450604051938492833781016006815203019020905f5260205260ff60405f2054165f8080614c42565b15614c7e57565b60405162461bcd60e51b81526020600482015260126024820152714163636f756e74206e6f742061637469766560701b6044820152606490fd5b602191936142629381866040519788956020870137840191602d60f81b602084015285830137015f838201520360018101845201826141c1565b60ff60135416614cfe57565b60405162461bcd60e51b815260206004820152600660248201526514185d5cd95960d21b6044820152606490fd5b60018060a01b03165f525f602052600160ff600260405f200154166149b78161433a565b60018060a01b03811691825f52602060018152604093614d72855f20846142d2565b5491855191845192828181880195614d8b818389614265565b81016007815203019020548015614e7f57815f5260098352614dc483614db38a5f20896142d2565b958a51809381928b51928391614265565b810160088152030190205490885194631503954560e31b86526004860152602485015260448401528360648401526084830152808260a48173__$e429408939773f975e96abc14ebf07bb5e$__5af4958615614e7657505f95614e44575b50509083918203614e335750505090565b614e3c92615855565b5f8181614c42565b908092939550813d8311614e6f575b614e5d81836141c1565b81010312610451575192905f80614e22565b503d614e53565b513d5f823e3d90fd5b505050509250505090565b908115614f2d575b8015614f1b575b602090606460018060a01b035f80516020615a6f8339815191525416935f6040519586948593631d44e90160e21b8552600485015260248401528160448401525af1908115613828575f91614eec575090565b90506020813d602011614f13575b81614f07602093836141c1565b81010312610451575190565b3d9150614efa565b506020614f26615943565b9050614e99565b9050614f37615943565b90614e92565b91908215614fca575b8015614fbc575b8115614fa6575b6064602092935f60018060a01b035f80516020615a6f83398151915254166040519687958694637702dcff60e01b86526004860152602485015260448401525af1908115613828575f91614eec575090565b602091506064614fb4615943565b925050614f54565b50614fc5615943565b614f4d565b91505f602060018060a01b035f80516020615a6f8339815191525416604460405180948193639cd07acb60e01b83528160048401528160248401525af1908115613828575f9161501c575b5091614f46565b90506020813d602011615046575b81615037602093836141c1565b8101031261045157515f615015565b3d915061502a565b61506b6150648461505f8585614d50565b61541f565b8383615855565b60405160208184516150808183858901614265565b810160078152030190205461509457505050565b6001600160a01b0381165f90815260096020526040902073__$e429408939773f975e96abc14ebf07bb5e$__926150cb91906142d2565b91803b1561045157604051633cf603e560e11b8152600481019390935260248301939093526001600160a01b03166044820152905f9082908180606481015b03915af480156138285761511b5750565b6145e19061415c565b61513a615064846151358585614d50565b615996565b604051602081845161514f8183858901614265565b810160078152030190205461516357505050565b6001600160a01b0381165f90815260096020526040902073__$e429408939773f975e96abc14ebf07bb5e$__9261519a91906142d2565b91803b1561045157604051635123011760e01b8152600481019390935260248301939093526001600160a01b03166044820152905f90829081806064810161510a565b6151ea61032d838361533d565b6151f333614a0d565b918215615255575b8215615242575b50501561520b57565b60405162461bcd60e51b815260206004820152600f60248201526e2737ba10313930b7321030b236b4b760891b6044820152606490fd5b61524e92503391614c0c565b5f80615202565b5f92506151fb565b9061526b61032d828461533d565b601054336001600160a01b03918216149290919083156152c8575b5050501561529057565b60405162461bcd60e51b815260206004820152601060248201526f2737ba10313930b7321034b9b9bab2b960811b6044820152606490fd5b600292935060209082604051938492833781016005815203019020015460081c1633145f8080615286565b6010546001600160a01b0316330361530757565b60405162461bcd60e51b815260206004820152600e60248201526d139bdd08185d5d1a1bdc9a5e995960921b6044820152606490fd5b90600290806040519384376005908301908152829003602001909120015460081c6001600160a01b0316151590565b9092916153fa611fba7fd735bc2c3d0e9065e0e28247c7fb29f22087a13068d158444a6c09dc5486d014946153be60ff60026040518a8982376020818c81016005815203019020015460a81c16614495565b6153ca61083185614d2c565b6153df816153d9368a896141e2565b86615124565b60405187868237602081898101600381520301902054615996565b61541a6040519283926020845260018060a01b03169560208401916144d5565b0390a2565b908115615493575b8015615481575b602090606460018060a01b035f80516020615a6f8339815191525416935f60405195869485936303056db360e31b8552600485015260248401528160448401525af1908115613828575f91614eec575090565b50602061548c615943565b905061542e565b905061549d615943565b90615427565b906145e191805f52600e60205281600360405f2001556154c33083615a1a565b5f908152600e60205260409020546001600160a01b031690615a1a565b908115615554575b8015615542575b602090606460018060a01b035f80516020615a6f8339815191525416935f60405195869485936304559f7160e01b8552600485015260248401528160448401525af1908115613828575f91614eec575090565b50602061554d615943565b90506154ef565b905061555e615943565b906154e8565b9190916155d060405191848151936020818185019661558481838a614265565b81016003815203019020556155993086615a1a565b6155ab60405193849251928391614265565b820160058152600283602060018060a01b0395869403019020015460081c1684615a1a565b81166155da575050565b6145e191615a1a565b466001036155f057600190565b4662aa36a7036156005761271190565b617a69461461560d575f90565b5f1990565b6001600160a01b03165f81815260176020526040902060ff9061563590846142d2565b541615615640575050565b805f52601760205261565560405f20836142d2565b600160ff198254161790555f52601660205260405f208054600160401b811015613690576156889160018201815561473f565b919091615698576145e191614b0f565b634e487b7160e01b5f525f60045260245ffd5b5f80516020615a6f8339815191525460405163045fc19560e11b81526004810192909252336024830152608060448301526001600160a01b03939260209183919086169082905f908290615703906084830190614358565b6005606483015203925af1908115613828575f9161576e575b5080925f80516020615a8f8339815191525416803b1561045157604051630f8e573b60e21b815260048101929092523360248301525f908290818381604481015b03925af180156138285761511b5750565b90506020813d602011615798575b81615789602093836141c1565b8101031261045157515f61571c565b3d915061577c565b5f80516020615a6f8339815191525460405163045fc19560e11b81526004810192909252336024830152608060448301526001600160a01b03939260209183919086169082905f9082906157f8906084830190614358565b6004606483015203925af1908115613828575f9161576e575080925f80516020615a8f8339815191525416803b1561045157604051630f8e573b60e21b815260048101929092523360248301525f9082908183816044810161575d565b906158608183615612565b60018060a01b039283831693845f52600193849360209060016020526158a16040938661589060405f20856142d2565b5561589b3088615a1a565b86615a1a565b875f52600a6020526158b660405f20826142d2565b975f965b6158ca575b505050505050505050565b885487101561593e57878097825f52600b85528087808d6158f7846158f18c5f208b6142d2565b9261473f565b929054600393841b1c165f5288528d428a5f20541161591c575b5050505001966158ba565b615935936159299161473f565b9054911b1c1689615a1a565b80875f8d615911565b6158bf565b5f80516020615a6f83398151915254604051639cd07acb60e01b81525f60048201819052600560248301529091602091839160449183916001600160a01b03165af1908115613828575f91614eec575090565b908115615a0a575b80156159f8575b602090606460018060a01b035f80516020615a6f8339815191525416935f604051958694859363022f65e760e31b8552600485015260248401528160448401525af1908115613828575f91614eec575090565b506020615a03615943565b90506159a5565b9050615a14615943565b9061599e565b5f80516020615a8f833981519152546001600160a01b031691823b1561045157604051635ca4b5b160e11b815260048101929092526001600160a01b03166024820152905f9082908183816044810161575d56fe9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e46497019e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e4649700a164736f6c6343000818000a";
+
+type PointsSwap_FHEConstructorParams =
+  | [linkLibraryAddresses: PointsSwap_FHELibraryAddresses, signer?: Signer]
+  | ConstructorParameters<typeof ContractFactory>;
+
+const isSuperArgs = (
+  xs: PointsSwap_FHEConstructorParams
+): xs is ConstructorParameters<typeof ContractFactory> => {
+  return (
+    typeof xs[0] === "string" ||
+    (Array.isArray as (arg: any) => arg is readonly any[])(xs[0]) ||
+    "_isInterface" in xs[0]
+  );
+};
+
+export class PointsSwap_FHE__factory extends ContractFactory {
+  constructor(...args: PointsSwap_FHEConstructorParams) {
+    if (isSuperArgs(args)) {
+      super(...args);
+    } else {
+      const [linkLibraryAddresses, signer] = args;
+      super(
+        _abi,
+        PointsSwap_FHE__factory.linkBytecode(linkLibraryAddresses),
+        signer
+      );
+    }
+  }
+
+  static linkBytecode(
+    linkLibraryAddresses: PointsSwap_FHELibraryAddresses
+  ): string {
+    let linkedBytecode = _bytecode;
+
+    linkedBytecode = linkedBytecode.replace(
+      new RegExp("__\\$401bee508cc43c614b808a0f0b3c0f2a72\\$__", "g"),
+      linkLibraryAddresses["contracts/RateAuctions.sol:RateAuctions"]
+        .replace(/^0x/, "")
+        .toLowerCase()
+    );
+
+    linkedBytecode = linkedBytecode.replace(
+      new RegExp("__\\$e442c25ec072891c00bcb88f00d28df854\\$__", "g"),
+      linkLibraryAddresses["contracts/RateMath.sol:RateMath"]
+        .replace(/^0x/, "")
+        .toLowerCase()
+    );
+
+    linkedBytecode = linkedBytecode.replace(
+      new RegExp("__\\$e429408939773f975e96abc14ebf07bb5e\\$__", "g"),
+      linkLibraryAddresses["contracts/ExpiringPoints.sol:ExpiringPoints"]
+        .replace(/^0x/, "")
+        .toLowerCase()
+    );
+
+    return linkedBytecode;
+  }
+
+  override getDeployTransaction(
+    overrides?: NonPayableOverrides & { from?: string }
+  ): Promise<ContractDeployTransaction> {
+    return super.getDeployTransaction(overrides || {});
+  }
+  override deploy(overrides?: NonPayableOverrides & { from?: string }) {
+    return super.deploy(overrides || {}) as Promise<
+      PointsSwap_FHE & {
+        deploymentTransaction(): ContractTransactionResponse;
+      }
+    >;
+  }
+  override connect(runner: ContractRunner | null): PointsSwap_FHE__factory {
+    return super.connect(runner) as PointsSwap_FHE__factory;
+  }
+
+  static readonly bytecode = _bytecode;
+  static readonly abi = _abi;
+  static createInterface(): PointsSwap_FHEInterface {
+    return new Interface(_abi) as PointsSwap_FHEInterface;
+  }
+  static connect(
+    address: string,
+    runner?: ContractRunner | null
+  ): PointsSwap_FHE {
+    return new Contract(address, _abi, runner) as unknown as PointsSwap_FHE;
+  }
+}
+
+export interface PointsSwap_FHELibraryAddresses {
+  ["contracts/RateAuctions.sol:RateAuctions"]: string;
+  ["contracts/RateMath.sol:RateMath"]: string;
+  ["contracts/ExpiringPoints.sol:ExpiringPoints"]: string;
+}
@@ -41,6 +41,10 @@ declare module "hardhat/types/runtime" {
       name: "IInputVerifier",
       signerOrOptions?: ethers.Signer | FactoryOptions
     ): Promise<Contracts.IInputVerifier__factory>;
+    getContractFactory(
+      name: "PointsSwap_FHE",
+      signerOrOptions?: ethers.Signer | FactoryOptions
+    ): Promise<Contracts.PointsSwap_FHE__factory>;
     getContractFactory(
       name: "UniversalFHEAdapter",
       signerOrOptions?: ethers.Signer | FactoryOptions
@@ -81,6 +85,11 @@ declare module "hardhat/types/runtime" {
       address: string | ethers.Addressable,
       signer?: ethers.Signer
     ): Promise<Contracts.IInputVerifier>;
+    getContractAt(
+      name: "PointsSwap_FHE",
+      address: string | ethers.Addressable,
+      signer?: ethers.Signer
+    ): Promise<Contracts.PointsSwap_FHE>;
     getContractAt(
       name: "UniversalFHEAdapter",
       address: string | ethers.Addressable,
@@ -115,6 +124,10 @@ declare module "hardhat/types/runtime" {
       name: "IInputVerifier",
       signerOrOptions?: ethers.Signer | DeployContractOptions
     ): Promise<Contracts.IInputVerifier>;
+    deployContract(
+      name: "PointsSwap_FHE",
+      signerOrOptions?: ethers.Signer | DeployContractOptions
+    ): Promise<Contracts.PointsSwap_FHE>;
     deployContract(
       name: "UniversalFHEAdapter",
       signerOrOptions?: ethers.Signer | DeployContractOptions
@@ -155,6 +168,11 @@ declare module "hardhat/types/runtime" {
       args: any[],
       signerOrOptions?: ethers.Signer | DeployContractOptions
     ): Promise<Contracts.IInputVerifier>;
+    deployContract(
+      name: "PointsSwap_FHE",
+      args: any[],
+      signerOrOptions?: ethers.Signer | DeployContractOptions
+    ): Promise<Contracts.PointsSwap_FHE>;
     deployContract(
       name: "UniversalFHEAdapter",
       args: any[],